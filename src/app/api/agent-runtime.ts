@@ -0,0 +1,289 @@
+import { ModelManager } from '@/core/models/model-manager';
+import {
+  agentRegistry,
+  parseAgentSettings,
+} from '@/core/agents/agent-registry';
+import { BasicAgentOrchestrator } from '@/core/agents/agent-orchestrator';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { memoryManager } from '@/core/memory/memory-manager';
+import { ReasoningAgent, ModelProvider } from '@/core/types';
+import { OllamaProvider } from '@/core/models/ollama-provider';
+import { OpenAIProvider } from '@/core/models/openai-provider';
+import { OpenAICompatibleProvider } from '@/core/models/openai-compatible-provider';
+import { AnthropicProvider } from '@/core/models/anthropic-provider';
+import { FallbackProvider } from '@/core/models/fallback-provider';
+import {
+  AuthenticationError,
+  ProviderError,
+  ProviderErrorCode,
+  RateLimitError,
+} from '@/core/models/provider-errors';
+import { isAbortError } from '@/core/utils/abort';
+import { NextResponse } from 'next/server';
+
+// Shared by the API routes that run agents
+
+// Enhanced agent interface with provider metadata
+export interface EnhancedAgent extends ReasoningAgent {
+  modelProvider?: ModelProvider;
+  selectedOllamaModel?: string;
+  selectedOpenAIModel?: string;
+}
+
+// Initialize the model manager
+export const modelManager = new ModelManager();
+
+// A provider as the API lists it
+export const describeProvider = (provider: ModelProvider) => ({
+  id: provider.id,
+  name: provider.name,
+  type: provider.type,
+  status: provider.getStatus(),
+});
+
+// Initialize authentication for local providers
+let isInitialized = false;
+export async function ensureInitialized() {
+  if (!isInitialized) {
+    await modelManager.initialize();
+    // Agents persist their memory alongside chat sessions
+    agentRegistry.setStorage(sessionManager.getStorage());
+    agentRegistry.setAgentSettings(
+      parseAgentSettings(process.env.POLARIS_AGENT_SETTINGS)
+    );
+    // Running agents pick up memories the user added, edited or deleted
+    memoryManager.onChange(memory =>
+      agentRegistry.reloadMemory(memory.agentId, memory.userId)
+    );
+    isInitialized = true;
+  }
+}
+
+// Cache for initialized agents
+const agentCache = new Map<string, ReasoningAgent>();
+// Provider the running agents were created with
+let agentProviderId: string | undefined;
+
+export async function initializeAgent(
+  providerId?: string,
+  apiKey?: string,
+  selectedOllamaModel?: string,
+  selectedOpenAIModel?: string,
+  agentId?: string
+) {
+  const selectedAgentId = agentId || agentRegistry.getDefaultAgentId();
+  const cacheKey = `${selectedAgentId}-${providerId || 'default'}`;
+
+  // Reset cache if we're switching providers. Requests for the same provider
+  // share the running agents, so coordinated requests keep theirs.
+  if (providerId && providerId !== agentProviderId) {
+    agentCache.clear();
+    agentRegistry.clearAgents();
+    agentProviderId = providerId;
+  }
+
+  // Check if we have a cached agent
+  const cachedAgent = agentCache.get(cacheKey);
+  if (cachedAgent && !providerId) {
+    return cachedAgent;
+  }
+  let provider;
+
+  if (providerId) {
+    // Use specific provider
+    provider = modelManager.getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+
+    // Authenticate if API key is provided
+    if (apiKey) {
+      const success = await modelManager.authenticateProvider(
+        providerId,
+        apiKey
+      );
+      if (!success) {
+        throw new AuthenticationError(
+          `Failed to authenticate with ${providerId}`,
+          providerId
+        );
+      }
+    }
+
+    // Set Ollama model if provided
+    if (providerId === 'ollama' && selectedOllamaModel) {
+      const ollamaProvider = provider as OllamaProvider;
+      ollamaProvider.setModel(selectedOllamaModel);
+    }
+
+    // Set OpenAI model if provided
+    if (providerId === 'openai' && selectedOpenAIModel) {
+      const openaiProvider = provider as OpenAIProvider;
+      openaiProvider.setModel(selectedOpenAIModel);
+    }
+
+    // The model selection applies to the cached agent as well
+    if (cachedAgent) {
+      const enhancedAgent = cachedAgent as EnhancedAgent;
+      enhancedAgent.selectedOllamaModel = selectedOllamaModel;
+      enhancedAgent.selectedOpenAIModel = selectedOpenAIModel;
+      return cachedAgent;
+    }
+  } else {
+    // Try to get an already authenticated provider
+    provider = await modelManager.getBestAvailableProvider();
+
+    if (!provider) {
+      // If no authenticated provider, get any available provider
+      const availableProviders = modelManager.getAvailableProviders();
+      if (availableProviders.length === 0) {
+        throw new Error('No model providers available');
+      }
+      provider = availableProviders[0]; // Use first available provider
+    }
+  }
+
+  // Check if provider is authenticated (for remote providers)
+  if (provider.type === 'remote' && !provider.getStatus().authenticated) {
+    throw new AuthenticationError(
+      `Provider ${provider.id} requires authentication. Please provide an API key.`,
+      provider.id
+    );
+  }
+
+  // Requests move down the provider's fallback chain when it fails
+  const chainedProvider = modelManager.withFallbacks(provider.id, {
+    allowRemote: !agentRegistry.getAgentInfo(selectedAgentId)?.localOnly,
+  });
+
+  const config = modelManager.getDefaultModelConfig();
+  const agent = await agentRegistry.getAgent(
+    selectedAgentId,
+    chainedProvider,
+    config
+  );
+
+  // Store provider info with agent for later reference
+  const enhancedAgent = agent as EnhancedAgent;
+  enhancedAgent.modelProvider = chainedProvider;
+  enhancedAgent.selectedOllamaModel = selectedOllamaModel;
+  enhancedAgent.selectedOpenAIModel = selectedOpenAIModel;
+
+  // Cache the agent
+  agentCache.set(cacheKey, agent);
+
+  return agent;
+}
+
+/**
+ * Orchestrator for multi-agent requests, creating the agents it delegates
+ * to with `resolveAgent`
+ */
+export function createOrchestrator(
+  resolveAgent: (agentId: string) => Promise<ReasoningAgent>
+) {
+  return new BasicAgentOrchestrator(agentRegistry.getAvailableAgents(), {
+    resolveAgent,
+    fallbackAgentId: agentRegistry.getDefaultAgentId(),
+  });
+}
+
+/**
+ * Describe the provider and model that answered the agent's latest request.
+ * `fallbackFrom` names the selected provider when a fallback stepped in.
+ */
+export function getModelInfo(agent: ReasoningAgent) {
+  const chainedProvider = (agent as EnhancedAgent).modelProvider;
+  const modelProvider =
+    chainedProvider instanceof FallbackProvider
+      ? chainedProvider.getActiveProvider()
+      : chainedProvider;
+  let currentModel = 'Default';
+
+  // Get the correct model name based on provider type
+  if (modelProvider) {
+    if (modelProvider.id === 'ollama') {
+      const ollamaProvider = modelProvider as OllamaProvider;
+      currentModel = ollamaProvider.getCurrentModel();
+    } else if (modelProvider instanceof AnthropicProvider) {
+      currentModel = modelProvider.getCurrentModel();
+    } else if (modelProvider instanceof OpenAICompatibleProvider) {
+      // Covers OpenAI and the self-hosted OpenAI-compatible servers
+      currentModel = modelProvider.getCurrentModel() || modelProvider.id;
+    } else {
+      currentModel = modelProvider.id || 'Default';
+    }
+  }
+
+  const primaryProvider =
+    chainedProvider instanceof FallbackProvider
+      ? chainedProvider.getPrimaryProvider()
+      : chainedProvider;
+
+  return {
+    provider: modelProvider?.name || 'Unknown',
+    name: currentModel,
+    type: modelProvider?.type || 'unknown',
+    ...(primaryProvider &&
+      primaryProvider !== modelProvider && {
+        fallbackFrom: primaryProvider.name,
+      }),
+  };
+}
+
+// HTTP status for each kind of provider failure
+const PROVIDER_ERROR_STATUS: Record<ProviderErrorCode, number> = {
+  authentication: 401,
+  rate_limit: 429,
+  context_length: 413,
+  model_not_found: 404,
+  transient: 503,
+  content_filter: 422,
+  unavailable: 503,
+  unknown: 502,
+};
+
+/**
+ * HTTP status that says what went wrong with a provider
+ */
+export function getProviderErrorStatus(error: ProviderError): number {
+  return PROVIDER_ERROR_STATUS[error.code];
+}
+
+// Non-standard status for a request the client closed before the response
+// was ready, as nginx reports it
+const CLIENT_CLOSED_REQUEST_STATUS = 499;
+
+/**
+ * Respond to a request the client went away from, or return null when the
+ * error is not an abort
+ */
+export function abortedRequestResponse(error: unknown): NextResponse | null {
+  return isAbortError(error)
+    ? new NextResponse(null, { status: CLIENT_CLOSED_REQUEST_STATUS })
+    : null;
+}
+
+/**
+ * Respond to a provider error with a status that says what went wrong
+ */
+export function providerErrorResponse(error: ProviderError) {
+  const retryAfterMs =
+    error instanceof RateLimitError ? error.retryAfterMs : undefined;
+
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: error.code,
+      provider: error.providerId,
+      retryable: error.retryable,
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+    },
+    {
+      status: getProviderErrorStatus(error),
+      ...(retryAfterMs !== undefined && {
+        headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) },
+      }),
+    }
+  );
+}
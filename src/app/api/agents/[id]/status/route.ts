@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import { BaseAgent } from '@/core/agents/base-agent';
+import { schemaResponse, schemas } from '../../../api-schema';
+
+// Get the status of an agent; agents start with the first request for them
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const info = agentRegistry.getAgentInfo(id);
+    if (!info) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const agent = agentRegistry.getActiveAgent(id) as BaseAgent | undefined;
+    const status = agent
+      ? { ...agent.getStatus(), active: true }
+      : {
+          id: info.id,
+          name: info.name,
+          active: false,
+          initialized: false,
+          capabilities: info.capabilities,
+          memoryCount: 0,
+        };
+
+    return schemaResponse(schemas.agentStatusResponse, {
+      success: true,
+      status,
+    });
+  } catch (error) {
+    console.error('Agent status API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get agent status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import { schemaResponse, schemas } from '../api-schema';
+
+// List the agents
+export async function GET() {
+  try {
+    return schemaResponse(schemas.agentsResponse, {
+      success: true,
+      agents: agentRegistry.getAvailableAgents(),
+      defaultAgentId: agentRegistry.getDefaultAgentId(),
+    });
+  } catch (error) {
+    console.error('Agents API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list agents',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
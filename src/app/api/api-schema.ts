@@ -0,0 +1,512 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JsonSchema } from '@/core/types';
+import {
+  formatValidationIssues,
+  validateJsonSchema,
+} from '@/core/utils/json-schema';
+import packageJson from '../../../package.json';
+
+// Request and response schemas of the REST API, and the OpenAPI document
+// generated from them
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    details: { type: 'string' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['error'],
+};
+
+const success: JsonSchema = { type: 'boolean', enum: [true] };
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// Dates are sent as ISO 8601 strings
+const dateTime = (description: string): JsonSchema => ({
+  type: 'string',
+  description: `${description} (ISO 8601)`,
+});
+
+const providerSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['local', 'remote'] },
+    status: {
+      type: 'object',
+      description: 'Provider status; providers may add their own fields',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        authenticated: { type: 'boolean' },
+        available: { type: 'boolean' },
+      },
+      required: ['authenticated', 'available'],
+    },
+  },
+  required: ['id', 'name', 'type', 'status'],
+};
+
+const agentSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    capabilities: stringList,
+    keywords: stringList,
+    localOnly: { type: 'boolean' },
+    category: { type: 'string' },
+    icon: { type: 'string' },
+  },
+  required: ['id', 'name', 'description', 'capabilities', 'category', 'icon'],
+};
+
+const agentStatusSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    active: {
+      type: 'boolean',
+      description: 'Whether the agent has been started by a request',
+    },
+    initialized: { type: 'boolean' },
+    capabilities: stringList,
+    memoryCount: { type: 'integer', minimum: 0 },
+  },
+  required: [
+    'id',
+    'name',
+    'active',
+    'initialized',
+    'capabilities',
+    'memoryCount',
+  ],
+};
+
+const sessionSummarySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    agentId: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'paused', 'completed'] },
+    title: {
+      type: 'string',
+      description: 'The start of the first message',
+    },
+    messageCount: { type: 'integer', minimum: 0 },
+    startedAt: dateTime('When the session started'),
+    lastActivity: dateTime('When the last message was added'),
+  },
+  required: [
+    'id',
+    'userId',
+    'agentId',
+    'status',
+    'title',
+    'messageCount',
+    'startedAt',
+    'lastActivity',
+  ],
+};
+
+const messageSchema: JsonSchema = {
+  type: 'object',
+  description: 'A user message, or a response when agentId is set',
+  properties: {
+    id: { type: 'string' },
+    content: { type: 'string' },
+    timestamp: dateTime('When the message was sent'),
+    agentId: { type: 'string' },
+    confidence: { type: 'number' },
+    reasoning: { type: 'string' },
+    metadata: { type: 'object' },
+  },
+  required: ['id', 'content', 'timestamp'],
+};
+
+export const schemas = {
+  error: errorSchema,
+  providersResponse: {
+    type: 'object',
+    properties: {
+      success,
+      providers: { type: 'array', items: providerSchema },
+    },
+    required: ['success', 'providers'],
+  },
+  providerModelsResponse: {
+    type: 'object',
+    properties: {
+      success,
+      provider: { type: 'string' },
+      models: stringList,
+    },
+    required: ['success', 'provider', 'models'],
+  },
+  authenticateRequest: {
+    type: 'object',
+    properties: {
+      apiKey: {
+        type: 'string',
+        description: 'Key for remote providers; local providers need none',
+      },
+    },
+    additionalProperties: false,
+  },
+  authenticateResponse: {
+    type: 'object',
+    properties: { success, provider: providerSchema },
+    required: ['success', 'provider'],
+  },
+  agentsResponse: {
+    type: 'object',
+    properties: {
+      success,
+      agents: { type: 'array', items: agentSchema },
+      defaultAgentId: { type: 'string' },
+    },
+    required: ['success', 'agents', 'defaultAgentId'],
+  },
+  agentStatusResponse: {
+    type: 'object',
+    properties: { success, status: agentStatusSchema },
+    required: ['success', 'status'],
+  },
+  sessionsQuery: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string', minLength: 1 },
+      agentId: { type: 'string', minLength: 1 },
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+    },
+    additionalProperties: false,
+  },
+  sessionsResponse: {
+    type: 'object',
+    properties: {
+      success,
+      sessions: { type: 'array', items: sessionSummarySchema },
+    },
+    required: ['success', 'sessions'],
+  },
+  sessionResponse: {
+    type: 'object',
+    properties: {
+      success,
+      session: {
+        ...sessionSummarySchema,
+        properties: {
+          ...sessionSummarySchema.properties,
+          messages: { type: 'array', items: messageSchema },
+        },
+        required: [...(sessionSummarySchema.required ?? []), 'messages'],
+      },
+    },
+    required: ['success', 'session'],
+  },
+  deletedResponse: {
+    type: 'object',
+    properties: { success },
+    required: ['success'],
+  },
+} satisfies Record<string, JsonSchema>;
+
+export interface AuthenticateRequest {
+  apiKey?: string;
+}
+
+export interface SessionsQuery {
+  userId?: string;
+  agentId?: string;
+  limit: number;
+}
+
+interface ApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  schema: JsonSchema;
+  required?: boolean;
+}
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'delete';
+  path: string; // OpenAPI path, e.g. /api/providers/{id}/models
+  tag: string;
+  summary: string;
+  parameters?: ApiParameter[];
+  requestBody?: JsonSchema;
+  responses: Record<number, { description: string; schema: JsonSchema }>;
+}
+
+const idParameter = (resource: string): ApiParameter => ({
+  name: 'id',
+  in: 'path',
+  description: `${resource} ID`,
+  schema: { type: 'string' },
+  required: true,
+});
+
+const badRequest = { description: 'Invalid request', schema: errorSchema };
+const serverError = { description: 'Unexpected error', schema: errorSchema };
+const notFound = (resource: string) => ({
+  description: `${resource} not found`,
+  schema: errorSchema,
+});
+
+// Every operation of the REST API, in the order of the OpenAPI document
+const apiOperations: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/providers',
+    tag: 'Providers',
+    summary: 'List the model providers and their status',
+    responses: {
+      200: { description: 'Providers', schema: schemas.providersResponse },
+      500: serverError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/providers/{id}/models',
+    tag: 'Providers',
+    summary: 'List the models a provider can answer with',
+    parameters: [idParameter('Provider')],
+    responses: {
+      200: { description: 'Models', schema: schemas.providerModelsResponse },
+      404: notFound('Provider'),
+      500: serverError,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/providers/{id}/authenticate',
+    tag: 'Providers',
+    summary: 'Authenticate a provider, or check that a local one is running',
+    parameters: [idParameter('Provider')],
+    requestBody: schemas.authenticateRequest,
+    responses: {
+      200: {
+        description: 'Authenticated provider',
+        schema: schemas.authenticateResponse,
+      },
+      400: badRequest,
+      401: { description: 'Authentication failed', schema: errorSchema },
+      404: notFound('Provider'),
+      500: serverError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/agents',
+    tag: 'Agents',
+    summary: 'List the agents',
+    responses: {
+      200: { description: 'Agents', schema: schemas.agentsResponse },
+      500: serverError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/agents/{id}/status',
+    tag: 'Agents',
+    summary: 'Get the status of an agent',
+    parameters: [idParameter('Agent')],
+    responses: {
+      200: { description: 'Agent status', schema: schemas.agentStatusResponse },
+      404: notFound('Agent'),
+      500: serverError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/sessions',
+    tag: 'Sessions',
+    summary: 'List chat sessions, most recently active first',
+    parameters: [
+      {
+        name: 'userId',
+        in: 'query',
+        description: 'Only sessions of this user',
+        schema: { type: 'string' },
+      },
+      {
+        name: 'agentId',
+        in: 'query',
+        description: 'Only sessions with this agent',
+        schema: { type: 'string' },
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        description: 'Maximum number of sessions',
+        schema: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+      },
+    ],
+    responses: {
+      200: { description: 'Sessions', schema: schemas.sessionsResponse },
+      400: badRequest,
+      500: serverError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/sessions/{id}',
+    tag: 'Sessions',
+    summary: 'Get a chat session with its messages',
+    parameters: [idParameter('Session')],
+    responses: {
+      200: { description: 'Session', schema: schemas.sessionResponse },
+      404: notFound('Session'),
+      500: serverError,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/sessions/{id}',
+    tag: 'Sessions',
+    summary: 'Delete a chat session and its history',
+    parameters: [idParameter('Session')],
+    responses: {
+      200: { description: 'Session deleted', schema: schemas.deletedResponse },
+      404: notFound('Session'),
+      500: serverError,
+    },
+  },
+];
+
+/**
+ * OpenAPI 3.1 document describing the REST API
+ */
+export const createOpenApiDocument = () => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'PolarisAI API',
+    version: packageJson.version,
+    description:
+      'Resource endpoints of PolarisAI. The chat, approval, memory, feedback and usage endpoints are described in the README.',
+  },
+  paths: apiOperations.reduce<Record<string, Record<string, unknown>>>(
+    (paths, operation) => {
+      paths[operation.path] = {
+        ...paths[operation.path],
+        [operation.method]: {
+          tags: [operation.tag],
+          summary: operation.summary,
+          ...(operation.parameters && { parameters: operation.parameters }),
+          ...(operation.requestBody && {
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': { schema: operation.requestBody },
+              },
+            },
+          }),
+          responses: Object.fromEntries(
+            Object.entries(operation.responses).map(([status, response]) => [
+              status,
+              {
+                description: response.description,
+                content: { 'application/json': { schema: response.schema } },
+              },
+            ])
+          ),
+        },
+      };
+      return paths;
+    },
+    {}
+  ),
+});
+
+function invalidRequest(
+  message: string,
+  issues: { path: string; message: string }[]
+): NextResponse {
+  return NextResponse.json(
+    { error: `${message}: ${formatValidationIssues(issues)}`, issues },
+    { status: 400 }
+  );
+}
+
+/**
+ * Read a JSON request body and validate it against `schema`. Returns the
+ * error response for bodies that do not match.
+ */
+export async function parseJsonBody<T>(
+  request: NextRequest,
+  schema: JsonSchema
+): Promise<T | NextResponse> {
+  const text = await request.text();
+  let body: unknown = {};
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch (_error) {
+      return NextResponse.json(
+        { error: 'The request body is not valid JSON' },
+        { status: 400 }
+      );
+    }
+  }
+
+  const result = validateJsonSchema<T>(body, schema);
+  return result.valid
+    ? result.value
+    : invalidRequest('Invalid request body', result.issues);
+}
+
+/**
+ * Validate the query parameters of a request against `schema`, converting
+ * numbers and applying defaults
+ */
+export function parseQuery<T>(
+  request: NextRequest,
+  schema: JsonSchema
+): T | NextResponse {
+  const { searchParams } = new URL(request.url);
+  const result = validateJsonSchema<T>(
+    Object.fromEntries(searchParams),
+    schema,
+    { coerce: true, applyDefaults: true }
+  );
+  return result.valid
+    ? result.value
+    : invalidRequest('Invalid query parameters', result.issues);
+}
+
+/**
+ * Respond with JSON. Outside production the body is checked against its
+ * documented schema, so the OpenAPI document cannot drift from the routes.
+ */
+export function schemaResponse(
+  schema: JsonSchema,
+  body: Record<string, unknown>,
+  init?: ResponseInit
+): NextResponse {
+  if (process.env.NODE_ENV !== 'production') {
+    const result = validateJsonSchema(JSON.parse(JSON.stringify(body)), schema);
+    if (!result.valid) {
+      console.error(
+        `Response does not match its schema: ${formatValidationIssues(result.issues)}`
+      );
+    }
+  }
+  return NextResponse.json(body, init);
+}
@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ApprovalStatusError,
+  approvalManager,
+} from '@/core/sessions/approval-manager';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { PlanValidationError } from '@/core/agents/plan-executor';
+import { ProviderError } from '@/core/models/provider-errors';
+import { UsageTracker } from '@/core/models/usage';
+import { BaseAgent } from '@/core/agents/base-agent';
+import { ApprovalRequiredError } from '@/core/agents/agent-orchestrator';
+import { AgentResponse, PendingApproval } from '@/core/types';
+import {
+  abortedRequestResponse,
+  createOrchestrator,
+  ensureInitialized,
+  getModelInfo,
+  initializeAgent,
+  providerErrorResponse,
+} from '../agent-runtime';
+
+const APPROVAL_ACTIONS = ['approve', 'reject', 'edit'];
+
+// Look up an approval that is still waiting for a decision
+async function findPendingApproval(
+  approvalId: unknown
+): Promise<PendingApproval | NextResponse> {
+  if (typeof approvalId !== 'string' || !approvalId) {
+    return NextResponse.json(
+      { error: 'approvalId is required' },
+      { status: 400 }
+    );
+  }
+
+  const approval = await approvalManager.getApproval(approvalId);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval ${approvalId} not found` },
+      { status: 404 }
+    );
+  }
+  if (approval.status !== 'pending') {
+    return NextResponse.json(
+      { error: `Approval ${approvalId} is already ${approval.status}` },
+      { status: 409 }
+    );
+  }
+
+  return approval;
+}
+
+// List the plans waiting for approval, optionally for one session
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId') || undefined;
+
+    return NextResponse.json({
+      success: true,
+      approvals: await approvalManager.listPending(sessionId),
+    });
+  } catch (error) {
+    console.error('Approvals API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list approvals',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Approve, reject or edit a pending plan
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action');
+    if (!action || !APPROVAL_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    const found = await findPendingApproval(body.approvalId);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    if (action === 'edit') {
+      if (!Array.isArray(body.steps)) {
+        return NextResponse.json(
+          { error: 'steps must be an array' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const approval = await approvalManager.editPlan(found.id, body.steps);
+        return NextResponse.json({ success: true, approval });
+      } catch (error) {
+        if (error instanceof PlanValidationError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    if (action === 'reject') {
+      const approval = await approvalManager.reject(found.id, body.reason);
+
+      // Record the decision so follow-up messages have context
+      const response: AgentResponse = {
+        id: `response_${Date.now()}`,
+        agentId: approval.agentId,
+        content: `Understood, I won't go ahead with that plan.${approval.rejectionReason ? ` Reason: ${approval.rejectionReason}` : ''}`,
+        timestamp: new Date(),
+        type: 'text',
+        confidence: 1,
+        metadata: { approvalId: approval.id, rejected: true },
+      };
+      await sessionManager.appendMessages(
+        approval.sessionId,
+        approval.coordination?.input ?? approval.input,
+        response
+      );
+
+      return NextResponse.json({
+        success: true,
+        sessionId: approval.sessionId,
+        approval,
+        response,
+      });
+    }
+
+    // Approve: run the plan with the agent that created it
+    await ensureInitialized();
+
+    const resolveAgent = (agentId: string) =>
+      initializeAgent(
+        body.provider,
+        body.apiKey,
+        body.selectedOllamaModel,
+        body.selectedOpenAIModel,
+        agentId
+      );
+    // Resolve the agent first so a provider error leaves the plan pending.
+    // A delegated plan answers through the lead agent of its task.
+    const agent = (await resolveAgent(
+      found.coordination?.leadAgentId ?? found.agentId
+    )) as BaseAgent;
+    const claimed = await approvalManager.startExecution(found.id);
+
+    const usage = new UsageTracker();
+    const requestOptions = { signal: request.signal, onUsage: usage.record };
+    const plan = { ...claimed.plan, requiresApproval: false };
+    let response: AgentResponse;
+    try {
+      if (claimed.coordination) {
+        // Run the rest of the multi-agent task the plan was delegated by
+        const session = await sessionManager.getSession(claimed.sessionId);
+        response = await createOrchestrator(resolveAgent).resumeCoordination(
+          claimed.coordination,
+          plan,
+          session ?? undefined,
+          requestOptions
+        );
+        await agent.reflect(response);
+      } else {
+        response = await agent.runPlan(plan, requestOptions);
+      }
+    } catch (error) {
+      // The approved plan ran, but a later delegated plan waits for approval
+      if (error instanceof ApprovalRequiredError) {
+        const approval = await approvalManager.approve(claimed.id);
+        const next = await approvalManager.requestApproval(
+          approval.sessionId,
+          error.agentId,
+          error.input,
+          error.plan,
+          error.coordination
+        );
+        return NextResponse.json({
+          success: true,
+          status: 'pending_approval',
+          sessionId: approval.sessionId,
+          approval: next,
+          agent: {
+            id: agent.id,
+            name: agent.name,
+            status: agent.getStatus(),
+          },
+          model: getModelInfo(agent),
+        });
+      }
+
+      // The plan did not run to the end, so the user can approve it again
+      await approvalManager.releaseExecution(claimed.id);
+      throw error;
+    }
+    const approval = await approvalManager.approve(claimed.id);
+    response.metadata = {
+      ...response.metadata,
+      approvalId: approval.id,
+      usage: usage.getUsage(),
+    };
+    await sessionManager.appendMessages(
+      approval.sessionId,
+      approval.coordination?.input ?? approval.input,
+      response
+    );
+
+    return NextResponse.json({
+      success: true,
+      status: 'completed',
+      sessionId: approval.sessionId,
+      approval,
+      response: {
+        id: response.id,
+        content: response.content,
+        confidence: response.confidence,
+        reasoning: response.reasoning,
+        timestamp: response.timestamp,
+        metadata: response.metadata,
+      },
+      agent: {
+        id: agent.id,
+        name: agent.name,
+        status: agent.getStatus(),
+      },
+      model: getModelInfo(agent),
+    });
+  } catch (error) {
+    // The client went away before the plan finished
+    const aborted = abortedRequestResponse(error);
+    if (aborted) {
+      return aborted;
+    }
+
+    // Another request decided on the approval first
+    if (error instanceof ApprovalStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Approvals API error:', error);
+    if (error instanceof ProviderError) {
+      return providerErrorResponse(error);
+    }
+    return NextResponse.json(
+      {
+        error: 'Failed to update approval',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
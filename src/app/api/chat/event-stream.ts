@@ -0,0 +1,63 @@
+import { BufferedEvent, streamBuffer } from '@/core/sessions/stream-buffer';
+
+// Keeps idle connections open through proxies while the agent works
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export const formatServerSentEvent = (event: BufferedEvent): string =>
+  `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+/**
+ * Send a buffered response stream as Server-Sent Events, starting after
+ * the event `lastEventId`. Disconnecting stops reading, not the response.
+ */
+export const createEventStreamResponse = (
+  streamId: string,
+  lastEventId = 0
+): Response => {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const readable = new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!disconnected.signal.aborted) {
+          controller.enqueue(encoder.encode(text));
+        }
+      };
+
+      heartbeat = setInterval(
+        () => send(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      );
+      try {
+        for await (const event of streamBuffer.read(
+          streamId,
+          lastEventId,
+          disconnected.signal
+        )) {
+          send(formatServerSentEvent(event));
+        }
+        if (!disconnected.signal.aborted) {
+          controller.close();
+        }
+      } finally {
+        clearInterval(heartbeat);
+      }
+    },
+    cancel() {
+      disconnected.abort();
+      clearInterval(heartbeat);
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+};
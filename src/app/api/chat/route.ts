@@ -1,191 +1,253 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ModelManager } from '@/core/models/model-manager';
 import { agentRegistry } from '@/core/agents/agent-registry';
-import { UserInput, ReasoningAgent, ModelProvider } from '@/core/types';
+import {
+  ApprovalRequiredError,
+  RoutingDecision,
+} from '@/core/agents/agent-orchestrator';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { approvalManager } from '@/core/sessions/approval-manager';
+import {
+  ActionPlan,
+  UserInput,
+  AgentResponse,
+  ReasoningAgent,
+  ChatSession,
+  CoordinationState,
+  PipelineEvent,
+  RequestOptions,
+  UsageRecord,
+} from '@/core/types';
 import { BaseAgent } from '@/core/agents/base-agent';
-import { OllamaProvider } from '@/core/models/ollama-provider';
-import { OpenAIProvider } from '@/core/models/openai-provider';
-
-// Enhanced agent interface with provider metadata
-interface EnhancedAgent extends ReasoningAgent {
-  modelProvider?: ModelProvider;
-  selectedOllamaModel?: string;
-  selectedOpenAIModel?: string;
-}
-
-// Initialize the model manager
-const modelManager = new ModelManager();
-
-// Initialize authentication for local providers
-let isInitialized = false;
-async function ensureInitialized() {
-  if (!isInitialized) {
-    await modelManager.initialize();
-    isInitialized = true;
-  }
-}
-
-// Cache for initialized agents
-const agentCache = new Map<string, ReasoningAgent>();
-
-async function initializeAgent(
-  providerId?: string,
-  apiKey?: string,
-  selectedOllamaModel?: string,
-  selectedOpenAIModel?: string,
-  agentId?: string
-) {
-  const selectedAgentId = agentId || agentRegistry.getDefaultAgentId();
-  const cacheKey = `${selectedAgentId}-${providerId || 'default'}`;
-
-  // Reset cache if we're switching providers
-  if (providerId) {
-    agentCache.clear();
-    agentRegistry.clearAgents();
-  }
-
-  // Check if we have a cached agent
-  const cachedAgent = agentCache.get(cacheKey);
-  if (cachedAgent) {
-    return cachedAgent;
-  }
-  let provider;
-
-  if (providerId) {
-    // Use specific provider
-    provider = modelManager.getProvider(providerId);
-    if (!provider) {
-      throw new Error(`Provider ${providerId} not found`);
-    }
-
-    // Authenticate if API key is provided
-    if (apiKey) {
-      const success = await modelManager.authenticateProvider(
-        providerId,
-        apiKey
-      );
-      if (!success) {
-        throw new Error(`Failed to authenticate with ${providerId}`);
+import {
+  abortedRequestResponse,
+  createOrchestrator,
+  ensureInitialized,
+  getModelInfo,
+  initializeAgent,
+  providerErrorResponse,
+} from '../agent-runtime';
+import { ProviderError } from '@/core/models/provider-errors';
+import { isAbortError } from '@/core/utils/abort';
+import { UsageTracker } from '@/core/models/usage';
+import { createUniqueId } from '@/core/utils/type-factories';
+import { streamBuffer } from '@/core/sessions/stream-buffer';
+import { createEventStreamResponse } from './event-stream';
+
+// Agent ID that lets the orchestrator pick the agent for each message
+const AUTO_AGENT_ID = 'auto';
+// Request mode in which several agents collaborate on one message
+const COORDINATE_MODE = 'coordinate';
+
+// One event of a streamed response, sent as an NDJSON line or an SSE event
+type StreamEvent = { type: string } & Record<string, unknown>;
+
+/**
+ * Holds events produced by callbacks, such as pipeline events, until the
+ * response stream can send them
+ */
+class EventRelay {
+  private queued: StreamEvent[] = [];
+  private wake?: () => void;
+
+  // An arrow function so it can be passed as a callback directly
+  readonly push = (event: StreamEvent): void => {
+    this.queued.push(event);
+    this.wake?.();
+  };
+
+  /**
+   * Yield the events pushed while `task` runs, then return its result
+   */
+  async *during<T>(task: Promise<T>): AsyncGenerator<StreamEvent, T> {
+    let settled = false;
+    const done = task.finally(() => {
+      settled = true;
+      this.wake?.();
+    });
+    // A rejection is rethrown when `done` is awaited below
+    done.catch(() => undefined);
+
+    while (!settled) {
+      yield* this.flush();
+      if (!settled && this.queued.length === 0) {
+        await new Promise<void>(resolve => {
+          this.wake = resolve;
+        });
       }
     }
+    yield* this.flush();
+    return await done;
+  }
 
-    // Set Ollama model if provided
-    if (providerId === 'ollama' && selectedOllamaModel) {
-      const ollamaProvider = provider as OllamaProvider;
-      ollamaProvider.setModel(selectedOllamaModel);
-    }
-
-    // Set OpenAI model if provided
-    if (providerId === 'openai' && selectedOpenAIModel) {
-      const openaiProvider = provider as OpenAIProvider;
-      openaiProvider.setModel(selectedOpenAIModel);
-    }
-  } else {
-    // Try to get an already authenticated provider
-    provider = await modelManager.getBestAvailableProvider();
-
-    if (!provider) {
-      // If no authenticated provider, get any available provider
-      const availableProviders = modelManager.getAvailableProviders();
-      if (availableProviders.length === 0) {
-        throw new Error('No model providers available');
-      }
-      provider = availableProviders[0]; // Use first available provider
+  *flush(): Generator<StreamEvent> {
+    while (this.queued.length > 0) {
+      yield this.queued.shift() as StreamEvent;
     }
   }
+}
 
-  // Check if provider is authenticated (for remote providers)
-  if (provider.type === 'remote' && !provider.getStatus().authenticated) {
-    throw new Error(
-      `Provider ${provider.id} requires authentication. Please provide an API key.`
-    );
+// Pipeline events as sent to the client, without the context they repeat
+const toStreamEvent = (event: PipelineEvent): StreamEvent => {
+  if (event.type === 'analysis') {
+    const { previousConversation: _history, ...analysis } = event.analysis;
+    return { type: 'analysis', analysis };
   }
-
-  const config = modelManager.getDefaultModelConfig();
-  const agent = await agentRegistry.getAgent(selectedAgentId, provider, config);
-
-  // Store provider info with agent for later reference
-  const enhancedAgent = agent as EnhancedAgent;
-  enhancedAgent.modelProvider = provider;
-  enhancedAgent.selectedOllamaModel = selectedOllamaModel;
-  enhancedAgent.selectedOpenAIModel = selectedOpenAIModel;
-
-  // Cache the agent
-  agentCache.set(cacheKey, agent);
-
-  return agent;
-}
+  if (event.type === 'plan') {
+    const { analysis: _analysis, ...plan } = event.plan;
+    return { type: 'plan', plan };
+  }
+  return event;
+};
 
 // Helper function to create streaming response
 async function* streamAgentResponse(
   agent: ReasoningAgent,
-  userInput: UserInput
-): AsyncIterable<string> {
+  userInput: UserInput,
+  session: ChatSession,
+  options: {
+    routing?: RoutingDecision;
+    // Produces the whole response at once instead of streaming from the agent
+    respond?: (options: RequestOptions) => Promise<AgentResponse>;
+    // Fires when the client disconnects or stops the response
+    signal?: AbortSignal;
+    // Collects the token usage of the response
+    usage?: UsageTracker;
+    responseId?: string;
+  } = {}
+): AsyncIterable<StreamEvent> {
+  const {
+    routing,
+    respond,
+    signal,
+    usage,
+    responseId = createUniqueId('response'),
+  } = options;
+  // Progress and usage are sent as they happen, between the content chunks
+  const relay = new EventRelay();
+  const requestOptions: RequestOptions = {
+    signal,
+    onUsage:
+      usage &&
+      ((record: UsageRecord) => {
+        usage.record(record);
+        relay.push({ type: 'usage', usage: record, total: usage.getUsage() });
+      }),
+    onEvent: event => relay.push(toStreamEvent(event)),
+  };
   try {
-    // Get the streaming response from the agent
-    const baseAgent = agent as BaseAgent;
-    // For now, use fallback streaming if agent doesn't have streamUserInput
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const stream = (baseAgent as any).streamUserInput
-      ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (baseAgent as any).streamUserInput(userInput)
-      : // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (baseAgent as any).streamResponse(userInput.content);
-
     // Track the full response for metadata
     let fullResponse = '';
 
     // Yield the initial message metadata
-    const modelProvider = (agent as EnhancedAgent).modelProvider;
-    let currentModel = 'Default';
-
-    // Get the correct model name based on provider type
-    if (modelProvider) {
-      if (modelProvider.id === 'ollama') {
-        const ollamaProvider = modelProvider as OllamaProvider;
-        currentModel = ollamaProvider.getCurrentModel();
-      } else if (modelProvider.id === 'openai') {
-        const openaiProvider = modelProvider as OpenAIProvider;
-        currentModel = openaiProvider.getCurrentModel();
-      } else {
-        currentModel = modelProvider.id || 'Default';
-      }
-    }
+    const model = getModelInfo(agent);
 
-    yield JSON.stringify({
+    yield {
       type: 'start',
-      id: `response_${Date.now()}`,
+      id: responseId,
+      sessionId: session.id,
       agentId: agent.id,
       agentName: agent.name,
-      modelProvider: modelProvider?.name || 'Unknown',
-      modelName: currentModel,
+      ...(routing && { routing }),
+      modelProvider: model.provider,
+      modelName: model.name,
       timestamp: new Date().toISOString(),
-    }) + '\n';
+    };
+
+    // Get the streaming response from the agent
+    const completed = respond
+      ? yield* relay.during(respond(requestOptions))
+      : undefined;
+    let stream: AsyncIterable<string>;
+    if (completed) {
+      stream = (async function* () {
+        yield completed.content;
+      })();
+    } else {
+      const baseAgent = agent as BaseAgent;
+      const plan = yield* relay.during(
+        baseAgent.preparePlan(userInput, session, requestOptions)
+      );
+
+      // Plans that need approval wait for the user instead of running
+      if (plan.requiresApproval) {
+        const approval = await approvalManager.requestApproval(
+          session.id,
+          agent.id,
+          userInput,
+          plan
+        );
+        yield { type: 'approval', approval };
+        return;
+      }
+
+      stream = yield* relay.during(baseAgent.streamPlan(plan, requestOptions));
+    }
 
     // Stream the content
     for await (const chunk of stream) {
+      yield* relay.flush();
       fullResponse += chunk;
-      yield JSON.stringify({
-        type: 'content',
-        content: chunk,
-      }) + '\n';
+      yield { type: 'content', content: chunk };
     }
+    // Streamed calls report their usage once the stream ends
+    yield* relay.flush();
+
+    // Record the exchange so follow-up messages have context
+    const response: AgentResponse = completed
+      ? { ...completed, id: responseId }
+      : {
+          id: responseId,
+          agentId: agent.id,
+          content: fullResponse,
+          timestamp: new Date(),
+          type: 'text',
+          confidence: 0.9,
+          metadata: { streaming: true, ...(routing && { routing }) },
+        };
+    if (usage) {
+      response.metadata = { ...response.metadata, usage: usage.getUsage() };
+    }
+    await sessionManager.appendMessages(session.id, userInput, response);
+    // Streamed responses skip `runPlan`, so the agent remembers them here;
+    // feedback on the response finds its memory by the response ID
+    await agent.reflect(response);
 
     // Yield the final metadata
-    yield JSON.stringify({
+    yield {
       type: 'end',
       fullContent: fullResponse,
-      confidence: 0.9, // Default confidence for streaming
+      // The provider can change mid-request when a fallback steps in
+      model: getModelInfo(agent),
+      confidence: response.confidence,
+      ...(response.reasoning && { reasoning: response.reasoning }),
       metadata: {
+        ...response.metadata,
         streaming: true,
         timestamp: new Date().toISOString(),
       },
-    }) + '\n';
+    };
   } catch (error) {
-    yield JSON.stringify({
+    // A stopped response is not recorded and nobody is left to tell
+    if (isAbortError(error)) {
+      return;
+    }
+    // A delegated agent's plan waits for approval like the agent's own
+    if (error instanceof ApprovalRequiredError) {
+      const approval = await approvalManager.requestApproval(
+        session.id,
+        error.agentId,
+        error.input,
+        error.plan,
+        error.coordination
+      );
+      yield { type: 'approval', approval };
+      return;
+    }
+    yield {
       type: 'error',
       error: error instanceof Error ? error.message : 'Unknown error',
-    }) + '\n';
+      ...(error instanceof ProviderError && { code: error.code }),
+    };
   }
 }
 
@@ -202,6 +264,8 @@ export async function POST(request: NextRequest) {
       selectedOllamaModel,
       selectedOpenAIModel,
       agentId,
+      sessionId,
+      mode,
       stream = false,
     } = body;
 
@@ -212,15 +276,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize the agent with provider and API key if provided
-    const agent = await initializeAgent(
-      provider,
-      apiKey,
-      selectedOllamaModel,
-      selectedOpenAIModel,
-      agentId
-    );
-
     // Create user input
     const userInput: UserInput = {
       id: `input_${Date.now()}`,
@@ -230,29 +285,117 @@ export async function POST(request: NextRequest) {
       metadata: {},
     };
 
+    // Initialize the agent with provider and API key if provided
+    const resolveAgent = (id?: string) =>
+      initializeAgent(
+        provider,
+        apiKey,
+        selectedOllamaModel,
+        selectedOpenAIModel,
+        id
+      );
+
+    const orchestrator = createOrchestrator(resolveAgent);
+
+    let agent: ReasoningAgent;
+    let routing: RoutingDecision | undefined;
+    if (mode === COORDINATE_MODE) {
+      // The default agent leads and delegates parts of the request to others
+      agent = await resolveAgent(agentRegistry.getDefaultAgentId());
+      orchestrator.registerAgent(agent);
+    } else if (agentId === AUTO_AGENT_ID) {
+      // Let the orchestrator pick an agent; follow-ups stay with the session's agent
+      const previousSession = sessionId
+        ? await sessionManager.getSession(sessionId)
+        : null;
+      ({ agent, decision: routing } = await orchestrator.selectAgent(
+        userInput,
+        previousSession ?? undefined
+      ));
+    } else {
+      agent = await resolveAgent(agentId);
+    }
+
+    // Look up the conversation this message belongs to
+    const session = await sessionManager.getOrCreateSession(
+      sessionId,
+      agent.id
+    );
+
     // Handle streaming response
     if (stream) {
+      const streamResponse = (signal: AbortSignal, responseId?: string) =>
+        streamAgentResponse(agent, userInput, session, {
+          routing,
+          signal,
+          usage: new UsageTracker(),
+          responseId,
+          ...(mode === COORDINATE_MODE && {
+            // The delegated agents' own analyses and plans are not shown
+            respond: ({ onUsage }) =>
+              orchestrator.coordinate(userInput, session, {
+                signal,
+                onUsage,
+              }),
+          }),
+        });
+      const errorEvent = (error: unknown): StreamEvent => ({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      // Server-Sent Events: the response runs on without the connection so
+      // a client that drops can resume from the buffer
+      if (request.headers.get('accept')?.includes('text/event-stream')) {
+        const responseId = createUniqueId('response');
+        const signal = streamBuffer.open(responseId);
+        void (async () => {
+          try {
+            for await (const event of streamResponse(signal, responseId)) {
+              streamBuffer.push(responseId, event);
+            }
+          } catch (error) {
+            if (!signal.aborted) {
+              streamBuffer.push(responseId, errorEvent(error));
+            }
+          } finally {
+            streamBuffer.close(responseId);
+          }
+        })();
+
+        return createEventStreamResponse(responseId);
+      }
+
+      // Newline-delimited JSON: stop generating when the client disconnects
+      // or cancels the stream
       const encoder = new TextEncoder();
+      const abortController = new AbortController();
+      const { signal } = abortController;
+      request.signal.addEventListener('abort', () => abortController.abort(), {
+        once: true,
+      });
+
       const readable = new ReadableStream({
         async start(controller) {
           try {
-            for await (const chunk of streamAgentResponse(agent, userInput)) {
-              controller.enqueue(encoder.encode(chunk));
+            for await (const event of streamResponse(signal)) {
+              controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
             }
             controller.close();
           } catch (error) {
+            // The stream is already cancelled, so there is nothing to report to
+            if (signal.aborted) {
+              return;
+            }
             controller.enqueue(
-              encoder.encode(
-                JSON.stringify({
-                  type: 'error',
-                  error:
-                    error instanceof Error ? error.message : 'Unknown error',
-                }) + '\n'
-              )
+              encoder.encode(JSON.stringify(errorEvent(error)) + '\n')
             );
             controller.close();
           }
         },
+        cancel() {
+          abortController.abort();
+        },
       });
 
       return new Response(readable, {
@@ -266,28 +409,79 @@ export async function POST(request: NextRequest) {
 
     // Handle regular response
     const baseAgent = agent as BaseAgent;
-    const response = await baseAgent.processInput(userInput);
-
-    // Get model information
-    const modelProvider = (agent as EnhancedAgent).modelProvider;
-    let currentModel = 'Default';
-
-    // Get the correct model name based on provider type
-    if (modelProvider) {
-      if (modelProvider.id === 'ollama') {
-        const ollamaProvider = modelProvider as OllamaProvider;
-        currentModel = ollamaProvider.getCurrentModel();
-      } else if (modelProvider.id === 'openai') {
-        const openaiProvider = modelProvider as OpenAIProvider;
-        currentModel = openaiProvider.getCurrentModel();
-      } else {
-        currentModel = modelProvider.id || 'Default';
+    const usage = new UsageTracker();
+    const requestOptions = { signal: request.signal, onUsage: usage.record };
+    // Plans that need approval wait for the user instead of running
+    const awaitApproval = async (
+      planAgentId: string,
+      input: UserInput,
+      plan: ActionPlan,
+      coordination?: CoordinationState
+    ) => {
+      const approval = await approvalManager.requestApproval(
+        session.id,
+        planAgentId,
+        input,
+        plan,
+        coordination
+      );
+      return NextResponse.json({
+        success: true,
+        status: 'pending_approval',
+        sessionId: session.id,
+        ...(routing && { routing }),
+        approval,
+        agent: {
+          id: agent.id,
+          name: agent.name,
+          status: baseAgent.getStatus(),
+        },
+        model: getModelInfo(agent),
+      });
+    };
+
+    let response: AgentResponse;
+    if (mode === COORDINATE_MODE) {
+      try {
+        response = await orchestrator.coordinate(
+          userInput,
+          session,
+          requestOptions
+        );
+      } catch (error) {
+        if (error instanceof ApprovalRequiredError) {
+          return awaitApproval(
+            error.agentId,
+            error.input,
+            error.plan,
+            error.coordination
+          );
+        }
+        throw error;
+      }
+      // The delegated agents remember their parts, the lead the answer
+      await agent.reflect(response);
+    } else {
+      const plan = await baseAgent.preparePlan(
+        userInput,
+        session,
+        requestOptions
+      );
+      if (plan.requiresApproval) {
+        return awaitApproval(agent.id, userInput, plan);
       }
+
+      response = await baseAgent.runPlan(plan, requestOptions);
     }
+    response.metadata = { ...response.metadata, usage: usage.getUsage() };
+    await sessionManager.appendMessages(session.id, userInput, response);
 
     // Return the response
     return NextResponse.json({
       success: true,
+      status: 'completed',
+      sessionId: session.id,
+      ...(routing && { routing }),
       response: {
         id: response.id,
         content: response.content,
@@ -301,121 +495,24 @@ export async function POST(request: NextRequest) {
         name: agent.name,
         status: baseAgent.getStatus(),
       },
-      model: {
-        provider: modelProvider?.name || 'Unknown',
-        name: currentModel,
-        type: modelProvider?.type || 'unknown',
-      },
-    });
-  } catch (error) {
-    console.error('Chat API error:', error);
-
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
-
-export async function GET(_request: NextRequest) {
-  try {
-    // Ensure model manager is initialized
-    await ensureInitialized();
-
-    // Get available providers without requiring authentication
-    const availableProviders = modelManager.getAvailableProviders().map(p => ({
-      id: p.id,
-      name: p.name,
-      type: p.type,
-      status: p.getStatus(),
-    }));
-
-    // Get available agents from registry
-    const availableAgents = agentRegistry.getAvailableAgents();
-
-    // Try to get current agent status if any agents are active
-    let agentStatus = null;
-    const activeAgentIds = agentRegistry.getActiveAgentIds();
-    if (activeAgentIds.length > 0) {
-      // For now, just return info about available agents
-      agentStatus = {
-        id: 'multiple',
-        name: 'Agent Registry',
-        initialized: true,
-        capabilities: availableAgents.flatMap(a => a.capabilities).slice(0, 5),
-        memoryCount: 0,
-      };
-    }
-
-    return NextResponse.json({
-      success: true,
-      providers: availableProviders,
-      agents: availableAgents,
-      agent: agentStatus,
+      model: getModelInfo(agent),
     });
   } catch (error) {
-    console.error('Status API error:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to get status',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
-
-// New endpoint to get available Ollama models
-export async function PUT(request: NextRequest) {
-  try {
-    await ensureInitialized();
-
-    const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action');
-
-    if (action === 'get-ollama-models') {
-      const ollamaProvider = modelManager.getProvider('ollama');
-      if (!ollamaProvider || ollamaProvider.id !== 'ollama') {
-        return NextResponse.json(
-          { error: 'Ollama provider not found' },
-          { status: 404 }
-        );
-      }
-
-      const models = await (
-        ollamaProvider as OllamaProvider
-      ).getAvailableModels();
-      return NextResponse.json({
-        success: true,
-        models,
-      });
+    // The client went away before the response was ready
+    const aborted = abortedRequestResponse(error);
+    if (aborted) {
+      return aborted;
     }
 
-    if (action === 'get-openai-models') {
-      const openaiProvider = modelManager.getProvider('openai');
-      if (!openaiProvider || openaiProvider.id !== 'openai') {
-        return NextResponse.json(
-          { error: 'OpenAI provider not found' },
-          { status: 404 }
-        );
-      }
+    console.error('Chat API error:', error);
 
-      const models = (openaiProvider as OpenAIProvider).getAvailableModels();
-      return NextResponse.json({
-        success: true,
-        models,
-      });
+    if (error instanceof ProviderError) {
+      return providerErrorResponse(error);
     }
 
-    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
-  } catch (error) {
-    console.error('Models API error:', error);
     return NextResponse.json(
       {
-        error: 'Failed to get models',
+        error: 'Internal server error',
         details: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 500 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamBuffer } from '@/core/sessions/stream-buffer';
+import { createEventStreamResponse } from '../event-stream';
+
+function streamNotFound(streamId: string): NextResponse {
+  return NextResponse.json(
+    { error: `Stream ${streamId} not found or expired` },
+    { status: 404 }
+  );
+}
+
+// Resume a streamed response after the event in the Last-Event-ID header
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const streamId = searchParams.get('id');
+  if (!streamId) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  // EventSource sends the header; other clients may use the query parameter
+  const lastEventId =
+    request.headers.get('last-event-id') ?? searchParams.get('lastEventId');
+  const afterId = lastEventId ? Number(lastEventId) : 0;
+  if (!Number.isInteger(afterId) || afterId < 0) {
+    return NextResponse.json(
+      { error: 'Last-Event-ID must be an event id of the stream' },
+      { status: 400 }
+    );
+  }
+
+  if (!streamBuffer.has(streamId)) {
+    return streamNotFound(streamId);
+  }
+
+  return createEventStreamResponse(streamId, afterId);
+}
+
+// Stop a streamed response; disconnecting alone leaves it running for a while
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const streamId = searchParams.get('id');
+  if (!streamId) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  if (!streamBuffer.cancel(streamId)) {
+    return streamNotFound(streamId);
+  }
+
+  return NextResponse.json({ success: true });
+}
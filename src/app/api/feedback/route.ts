@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { ProviderError } from '@/core/models/provider-errors';
+import { AgentResponse, UserFeedback } from '@/core/types';
+import {
+  ensureInitialized,
+  initializeAgent,
+  providerErrorResponse,
+} from '../agent-runtime';
+
+const RATINGS = ['up', 'down'];
+
+// Rate or correct a response so its agent learns from it
+export async function POST(request: NextRequest) {
+  try {
+    await ensureInitialized();
+
+    const body = await request.json();
+    const { sessionId, responseId, rating, correction } = body;
+
+    if (typeof sessionId !== 'string' || typeof responseId !== 'string') {
+      return NextResponse.json(
+        { error: 'sessionId and responseId are required' },
+        { status: 400 }
+      );
+    }
+    if (rating !== undefined && !RATINGS.includes(rating)) {
+      return NextResponse.json(
+        { error: 'rating must be "up" or "down"' },
+        { status: 400 }
+      );
+    }
+    if (correction !== undefined && typeof correction !== 'string') {
+      return NextResponse.json(
+        { error: 'correction must be a string' },
+        { status: 400 }
+      );
+    }
+    if (!rating && !correction?.trim()) {
+      return NextResponse.json(
+        { error: 'A rating or a correction is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.getSession(sessionId);
+    const response = session?.messages.find(
+      (message): message is AgentResponse =>
+        message.id === responseId && 'agentId' in message
+    );
+    if (!response) {
+      return NextResponse.json(
+        { error: `Response ${responseId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const agent = await initializeAgent(
+      body.provider,
+      body.apiKey,
+      body.selectedOllamaModel,
+      body.selectedOpenAIModel,
+      response.agentId
+    );
+
+    const feedback: UserFeedback = {
+      responseId,
+      ...(rating && { rating }),
+      ...(correction?.trim() && { correction: correction.trim() }),
+      timestamp: new Date(),
+    };
+    const learning = await agent.reflect(response, feedback);
+
+    // Kept with the response so the chat shows it after a reload
+    await sessionManager.annotateResponse(sessionId, responseId, {
+      feedback: { rating: feedback.rating, correction: feedback.correction },
+    });
+
+    return NextResponse.json({ success: true, learning });
+  } catch (error) {
+    console.error('Feedback API error:', error);
+    if (error instanceof ProviderError) {
+      return providerErrorResponse(error);
+    }
+    return NextResponse.json(
+      {
+        error: 'Failed to record feedback',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
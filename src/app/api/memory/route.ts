@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import {
+  MemoryChanges,
+  MemoryValidationError,
+  memoryManager,
+} from '@/core/memory/memory-manager';
+import { ensureInitialized } from '../agent-runtime';
+
+interface MemoryOwner {
+  agentId: string;
+  userId: string;
+}
+
+// The agent and user whose memories a request is about
+function findOwner(
+  agentId: unknown,
+  userId: unknown
+): MemoryOwner | NextResponse {
+  if (typeof agentId !== 'string' || !agentId) {
+    return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+  }
+  if (!agentRegistry.isAgentAvailable(agentId)) {
+    return NextResponse.json(
+      { error: `Agent ${agentId} not found` },
+      { status: 404 }
+    );
+  }
+
+  // Agents keep the memories of the default user under an empty ID
+  return { agentId, userId: typeof userId === 'string' ? userId : '' };
+}
+
+function memoryNotFound(memoryId: unknown): NextResponse {
+  return NextResponse.json(
+    { error: `Memory ${memoryId} not found` },
+    { status: 404 }
+  );
+}
+
+function errorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof MemoryValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  console.error('Memory API error:', error);
+  return NextResponse.json(
+    {
+      error: message,
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+const getChanges = (body: Record<string, unknown>): MemoryChanges => ({
+  content: body.content as string | undefined,
+  importance: body.importance as number | undefined,
+  tags: body.tags as string[] | undefined,
+  pinned: body.pinned as boolean | undefined,
+});
+
+// List an agent's memories of a user, optionally matching a search query
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const owner = findOwner(
+      searchParams.get('agentId'),
+      searchParams.get('userId')
+    );
+    if (owner instanceof NextResponse) {
+      return owner;
+    }
+
+    return NextResponse.json({
+      success: true,
+      memories: await memoryManager.listMemories(
+        owner.agentId,
+        owner.userId,
+        searchParams.get('q') || undefined
+      ),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list memories');
+  }
+}
+
+// Add a memory
+export async function POST(request: NextRequest) {
+  try {
+    await ensureInitialized();
+
+    const body = await request.json();
+    const owner = findOwner(body.agentId, body.userId);
+    if (owner instanceof NextResponse) {
+      return owner;
+    }
+
+    const memory = await memoryManager.addMemory(
+      owner.agentId,
+      owner.userId,
+      getChanges(body)
+    );
+    return NextResponse.json({ success: true, memory }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to add memory');
+  }
+}
+
+// Edit, pin or unpin a memory
+export async function PATCH(request: NextRequest) {
+  try {
+    await ensureInitialized();
+
+    const body = await request.json();
+    const owner = findOwner(body.agentId, body.userId);
+    if (owner instanceof NextResponse) {
+      return owner;
+    }
+    if (typeof body.memoryId !== 'string' || !body.memoryId) {
+      return NextResponse.json(
+        { error: 'memoryId is required' },
+        { status: 400 }
+      );
+    }
+
+    const memory = await memoryManager.updateMemory(
+      owner.agentId,
+      owner.userId,
+      body.memoryId,
+      getChanges(body)
+    );
+    if (!memory) {
+      return memoryNotFound(body.memoryId);
+    }
+
+    return NextResponse.json({ success: true, memory });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update memory');
+  }
+}
+
+// Delete a memory
+export async function DELETE(request: NextRequest) {
+  try {
+    await ensureInitialized();
+
+    const { searchParams } = new URL(request.url);
+    const owner = findOwner(
+      searchParams.get('agentId'),
+      searchParams.get('userId')
+    );
+    if (owner instanceof NextResponse) {
+      return owner;
+    }
+
+    const memoryId = searchParams.get('memoryId');
+    if (!memoryId) {
+      return NextResponse.json(
+        { error: 'memoryId is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await memoryManager.deleteMemory(
+      owner.agentId,
+      owner.userId,
+      memoryId
+    );
+    if (!deleted) {
+      return memoryNotFound(memoryId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete memory');
+  }
+}
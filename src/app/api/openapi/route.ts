@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { createOpenApiDocument } from '../api-schema';
+
+// OpenAPI document of the REST API, for clients and integration scripts
+export async function GET() {
+  return NextResponse.json(createOpenApiDocument());
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  describeProvider,
+  ensureInitialized,
+  modelManager,
+} from '../../../agent-runtime';
+import {
+  AuthenticateRequest,
+  parseJsonBody,
+  schemaResponse,
+  schemas,
+} from '../../../api-schema';
+
+// Authenticate a provider, or check that a local one is running
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureInitialized();
+
+    const { id } = await params;
+    const provider = modelManager.getProvider(id);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Provider ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const body = await parseJsonBody<AuthenticateRequest>(
+      request,
+      schemas.authenticateRequest
+    );
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const success = await modelManager.authenticateProvider(id, body.apiKey);
+    if (!success) {
+      return NextResponse.json(
+        { error: `Failed to authenticate with ${id}` },
+        { status: 401 }
+      );
+    }
+
+    return schemaResponse(schemas.authenticateResponse, {
+      success: true,
+      provider: describeProvider(provider),
+    });
+  } catch (error) {
+    console.error('Authentication API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to authenticate provider',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureInitialized, modelManager } from '../../../agent-runtime';
+import { schemaResponse, schemas } from '../../../api-schema';
+
+// List the models a provider can answer with
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureInitialized();
+
+    const { id } = await params;
+    const models = await modelManager.listModels(id);
+    if (!models) {
+      return NextResponse.json(
+        { error: `Provider ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return schemaResponse(schemas.providerModelsResponse, {
+      success: true,
+      provider: id,
+      models,
+    });
+  } catch (error) {
+    console.error('Models API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get models',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import {
+  describeProvider,
+  ensureInitialized,
+  modelManager,
+} from '../agent-runtime';
+import { schemaResponse, schemas } from '../api-schema';
+
+// List the model providers and their status
+export async function GET() {
+  try {
+    await ensureInitialized();
+
+    return schemaResponse(schemas.providersResponse, {
+      success: true,
+      providers: modelManager.getAvailableProviders().map(describeProvider),
+    });
+  } catch (error) {
+    console.error('Providers API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list providers',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
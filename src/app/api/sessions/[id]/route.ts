@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { schemaResponse, schemas } from '../../api-schema';
+import { summarizeSession } from '../session-summary';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function sessionNotFound(id: string): NextResponse {
+  return NextResponse.json(
+    { error: `Session ${id} not found` },
+    { status: 404 }
+  );
+}
+
+function errorResponse(error: unknown, message: string): NextResponse {
+  console.error('Sessions API error:', error);
+  return NextResponse.json(
+    {
+      error: message,
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+// Get a chat session with its messages
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await sessionManager.getSession(id);
+    if (!session) {
+      return sessionNotFound(id);
+    }
+
+    return schemaResponse(schemas.sessionResponse, {
+      success: true,
+      session: { ...summarizeSession(session), messages: session.messages },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to get session');
+  }
+}
+
+// Delete a chat session and its history
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await sessionManager.endSession(id))) {
+      return sessionNotFound(id);
+    }
+
+    return schemaResponse(schemas.deletedResponse, { success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete session');
+  }
+}
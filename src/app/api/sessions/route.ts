@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/core/sessions/session-manager';
+import {
+  SessionsQuery,
+  parseQuery,
+  schemaResponse,
+  schemas,
+} from '../api-schema';
+import { summarizeSession } from './session-summary';
+
+// List chat sessions, most recently active first
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery<SessionsQuery>(request, schemas.sessionsQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const sessions = (await sessionManager.listSessions(query.userId))
+      .filter(session => !query.agentId || session.agentId === query.agentId)
+      .sort(
+        (a, b) =>
+          new Date(b.lastActivity).getTime() -
+          new Date(a.lastActivity).getTime()
+      )
+      .slice(0, query.limit);
+
+    return schemaResponse(schemas.sessionsResponse, {
+      success: true,
+      sessions: sessions.map(summarizeSession),
+    });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list sessions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
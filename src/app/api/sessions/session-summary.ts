@@ -0,0 +1,23 @@
+import { ChatSession } from '@/core/types';
+
+// Length of the first message kept as a session's title
+const TITLE_LENGTH = 60;
+
+const getTitle = (session: ChatSession): string => {
+  const first = session.messages[0]?.content.trim() ?? '';
+  return first.length > TITLE_LENGTH
+    ? `${first.slice(0, TITLE_LENGTH - 1)}…`
+    : first;
+};
+
+// A session as the API lists it, without its messages
+export const summarizeSession = (session: ChatSession) => ({
+  id: session.id,
+  userId: session.userId,
+  agentId: session.agentId,
+  status: session.status,
+  title: getTitle(session),
+  messageCount: session.messages.length,
+  startedAt: session.startedAt,
+  lastActivity: session.lastActivity,
+});
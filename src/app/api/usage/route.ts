@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionManager } from '@/core/sessions/session-manager';
+import {
+  summarizeDailyUsage,
+  summarizeSessionUsage,
+} from '@/core/models/usage';
+
+const DEFAULT_DAYS = 30;
+
+// Token usage and cost for a session and for each of the last days
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const days = Number(searchParams.get('days')) || DEFAULT_DAYS;
+
+    let sessionUsage = null;
+    if (sessionId) {
+      const session = await sessionManager.getSession(sessionId);
+      if (!session) {
+        return NextResponse.json(
+          { error: `Session ${sessionId} not found` },
+          { status: 404 }
+        );
+      }
+      sessionUsage = summarizeSessionUsage(session);
+    }
+
+    const sessions = await sessionManager.listSessions();
+
+    return NextResponse.json({
+      success: true,
+      session: sessionUsage,
+      daily: summarizeDailyUsage(sessions).slice(0, days),
+    });
+  } catch (error) {
+    console.error('Usage API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get usage',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
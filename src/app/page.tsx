@@ -17,6 +17,8 @@ import {
   MarkdownRenderer,
 } from '@/components/ui';
 import { usePersistedConfig } from '@/lib/hooks/usePersistedConfig';
+import { MemoryPanel } from '@/components/MemoryPanel';
+import { EventStreamParser } from '@/lib/event-stream';
 
 interface ChatMessage {
   id: string;
@@ -33,6 +35,86 @@ interface ChatMessage {
   // Add model identification
   modelProvider?: string;
   modelName?: string;
+  // Provider that was selected when a fallback answered instead
+  fallbackFrom?: string;
+  // Set when the user stopped the response before it finished
+  stopped?: boolean;
+  // Set when the agent was picked automatically
+  routing?: RoutingInfo;
+  // Set when the agent's plan waits for the user's approval
+  approval?: ApprovalInfo;
+  // Server id of the response, which feedback is posted against
+  responseId?: string;
+  feedback?: FeedbackInfo;
+}
+
+interface FeedbackInfo {
+  rating?: 'up' | 'down';
+  correction?: string;
+}
+
+interface ApprovalInfo {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  plan: {
+    steps: { id: string; action: string; dependencies: string[] }[];
+    estimatedDuration: number;
+  };
+}
+
+interface Contribution {
+  stepId: string;
+  agentId: string;
+  agentName: string;
+  task: string;
+  content: string;
+}
+
+// Progress of the reasoning pipeline, streamed ahead of and between the content
+type PipelineEvent =
+  | {
+      type: 'analysis';
+      analysis: { intent: string; confidence: number; relevantMemories?: string[] };
+    }
+  | {
+      type: 'plan';
+      plan: { steps: { id: string; action: string }[]; estimatedDuration: number };
+    }
+  | { type: 'step_start'; stepId: string; action: string }
+  | {
+      type: 'step_end';
+      stepId: string;
+      action: string;
+      status: 'completed' | 'failed' | 'skipped';
+      error?: string;
+      durationMs: number;
+    }
+  | { type: 'tool_call'; callId: string; toolId: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; callId: string; toolId: string; result?: unknown; error?: string };
+
+const PIPELINE_EVENT_TYPES = [
+  'analysis',
+  'plan',
+  'step_start',
+  'step_end',
+  'tool_call',
+  'tool_result',
+];
+
+interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  calls: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+interface RoutingInfo {
+  agentId: string;
+  confidence: number;
+  fallback: boolean;
+  matchedCapabilities: string[];
 }
 
 interface AgentStatus {
@@ -59,6 +141,57 @@ interface AgentInfo {
   icon: string;
 }
 
+const APPROVAL_MESSAGE = 'This plan needs your approval before I go ahead:';
+
+// Times a dropped response stream is resumed before giving up
+const MAX_STREAM_RESUMES = 3;
+const STREAM_RESUME_DELAY_MS = 1000;
+
+// Tokens and cost, flagging costs that leave out unpriced models
+const formatUsage = (usage: UsageSummary) =>
+  `${usage.totalTokens.toLocaleString()} tokens · $${usage.cost.toFixed(4)}${
+    usage.unpricedCalls > 0 ? '+' : ''
+  }`;
+
+// Long tool results are cut short in the reasoning trace
+const MAX_TOOL_RESULT_LENGTH = 200;
+
+// One line of the live reasoning trace of a streamed response
+const describePipelineEvent = (event: PipelineEvent): string => {
+  switch (event.type) {
+    case 'analysis': {
+      const memories = event.analysis.relevantMemories?.length ?? 0;
+      return `🔍 Analysis: ${event.analysis.intent} (${Math.round(
+        event.analysis.confidence * 100
+      )}% confidence)${memories > 0 ? `, recalled ${memories} memories` : ''}`;
+    }
+    case 'plan':
+      return `📋 Planning: Created ${event.plan.steps.length} step execution plan:\n${event.plan.steps
+        .map((step, i) => `  ${i + 1}. ${step.action}`)
+        .join('\n')}`;
+    case 'step_start':
+      return `▶️ Started: ${event.action}`;
+    case 'step_end':
+      if (event.status === 'completed') {
+        return `✅ Completed: ${event.action} (${(event.durationMs / 1000).toFixed(1)}s)`;
+      }
+      return `${event.status === 'failed' ? '❌ Failed' : '⏭️ Skipped'}: ${event.action} (${event.error})`;
+    case 'tool_call':
+      return `🔧 Calling ${event.toolId} with ${JSON.stringify(event.arguments)}`;
+    case 'tool_result': {
+      if (event.error) {
+        return `⚠️ ${event.toolId} failed: ${event.error}`;
+      }
+      const result = JSON.stringify(event.result ?? null);
+      return `📦 ${event.toolId} returned ${
+        result.length > MAX_TOOL_RESULT_LENGTH
+          ? `${result.slice(0, MAX_TOOL_RESULT_LENGTH)}…`
+          : result
+      }`;
+    }
+  }
+};
+
 // Icon components
 const SettingsIcon = () => (
   <svg
@@ -98,6 +231,12 @@ const SendIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
+    <rect x="6" y="6" width="12" height="12" rx="2" />
+  </svg>
+);
+
 const BotIcon = () => (
   <svg
     className="h-5 w-5"
@@ -132,13 +271,27 @@ const UserIcon = () => (
 
 export default function Home() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<UsageSummary | null>(null);
+  const [todayUsage, setTodayUsage] = useState<UsageSummary | null>(null);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [providers, setProviders] = useState<Provider[]>([]);
   const [agentStatus, setAgentStatus] = useState<AgentStatus | null>(null);
   const [availableAgents, setAvailableAgents] = useState<AgentInfo[]>([]);
   const [selectedAgent, setSelectedAgent] = useState<string>('general-assistant');
+
+  // "team" lets several agents collaborate, led by the General Assistant
+  const agentSelection = () =>
+    selectedAgent === 'team'
+      ? { agentId: 'auto', mode: 'coordinate' }
+      : { agentId: selectedAgent };
   const [showSettings, setShowSettings] = useState(false);
+  // Response the user is writing a correction for
+  const [correcting, setCorrecting] = useState<{
+    messageId: string;
+    text: string;
+  } | null>(null);
   const [ollamaModels, setOllamaModels] = useState<string[]>([]);
   const [openaiModels, setOpenaiModels] = useState<string[]>([]);
   const [loadingModels, setLoadingModels] = useState(false);
@@ -146,6 +299,10 @@ export default function Home() {
   // Track if models have been fetched for current session
   const modelsFetchedRef = useRef(false);
   const lastFetchTimeRef = useRef(0);
+  // Aborts the chat request in flight when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Server id of the response being streamed, used to cancel it
+  const streamIdRef = useRef<string | null>(null);
 
   const { showToast, ToastContainer } = useToast();
 
@@ -162,6 +319,13 @@ export default function Home() {
     fetchAvailableAgents();
   }, []);
 
+  useEffect(() => {
+    // Auto and team mode have no single agent to show
+    if (selectedAgent !== 'auto' && selectedAgent !== 'team') {
+      fetchAgentStatus(selectedAgent);
+    }
+  }, [selectedAgent]);
+
   const fetchOllamaModels = useCallback(async (force = false) => {
     // Use current values from the closure
     const currentProvider = config.selectedProvider;
@@ -189,9 +353,7 @@ export default function Home() {
 
     setLoadingModels(true);
     try {
-      const response = await fetch('/api/chat?action=get-ollama-models', {
-        method: 'PUT',
-      });
+      const response = await fetch('/api/providers/ollama/models');
       const data = await response.json();
 
       if (data.success && data.models && data.models.length > 0) {
@@ -237,9 +399,7 @@ export default function Home() {
 
     setLoadingModels(true);
     try {
-      const response = await fetch('/api/chat?action=get-openai-models', {
-        method: 'PUT',
-      });
+      const response = await fetch('/api/providers/openai/models');
       const data = await response.json();
 
       if (data.success && data.models && data.models.length > 0) {
@@ -267,6 +427,32 @@ export default function Home() {
     openaiModels.length,
   ]);
 
+  const fetchUsage = useCallback(async (currentSessionId: string | null) => {
+    try {
+      const query = currentSessionId
+        ? `?sessionId=${encodeURIComponent(currentSessionId)}`
+        : '';
+      const response = await fetch(`/api/usage${query}`);
+      const data = await response.json();
+      if (!data.success) return;
+
+      const today = new Date().toISOString().slice(0, 10);
+      setSessionUsage(data.session);
+      setTodayUsage(
+        data.daily.find((day: { date: string }) => day.date === today) ?? null
+      );
+    } catch (error) {
+      console.warn('Failed to fetch usage:', error);
+    }
+  }, []);
+
+  // Refresh the totals once a response has finished
+  useEffect(() => {
+    if (!loading) {
+      fetchUsage(sessionId);
+    }
+  }, [loading, sessionId, fetchUsage]);
+
   const handleSettingsToggle = useCallback(() => {
     const newShowSettings = !showSettings;
     console.log('🔧 Settings toggled:', newShowSettings ? 'OPEN' : 'CLOSE');
@@ -328,21 +514,36 @@ export default function Home() {
 
   const fetchStatus = async () => {
     try {
-      const response = await fetch('/api/chat');
+      const response = await fetch('/api/providers');
       const data = await response.json();
 
       if (data.success) {
         setProviders(data.providers);
-        setAgentStatus(data.agent);
       }
     } catch (error) {
       console.error('Failed to fetch status:', error);
     }
   };
 
+  const fetchAgentStatus = async (agentId: string) => {
+    try {
+      const response = await fetch(
+        `/api/agents/${encodeURIComponent(agentId)}/status`
+      );
+      const data = await response.json();
+
+      // Agents start with their first message
+      if (data.success) {
+        setAgentStatus(data.status.active ? data.status : null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch agent status:', error);
+    }
+  };
+
   const fetchAvailableAgents = async () => {
     try {
-      const response = await fetch('/api/chat');
+      const response = await fetch('/api/agents');
       const data = await response.json();
 
       if (data.success && data.agents) {
@@ -418,14 +619,35 @@ export default function Home() {
     setInput('');
     setLoading(true);
 
-    if (config.streamingEnabled) {
-      await handleStreamingResponse(currentInput);
-    } else {
-      await handleRegularResponse(currentInput);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      if (config.streamingEnabled) {
+        await handleStreamingResponse(currentInput, abortController.signal);
+      } else {
+        await handleRegularResponse(currentInput, abortController.signal);
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+    // Streamed responses run on at the server until they are cancelled
+    if (streamIdRef.current) {
+      fetch(`/api/chat/stream?id=${encodeURIComponent(streamIdRef.current)}`, {
+        method: 'DELETE',
+      }).catch(() => undefined);
+      streamIdRef.current = null;
     }
   };
 
-  const handleStreamingResponse = async (message: string) => {
+  const handleStreamingResponse = async (
+    message: string,
+    signal: AbortSignal
+  ) => {
     const streamingMessage: ChatMessage = {
       id: `streaming_${Date.now()}`,
       content: '',
@@ -440,10 +662,11 @@ export default function Home() {
     setMessages(prev => [...prev, streamingMessage]);
 
     try {
-      const response = await fetch('/api/chat', {
+      let response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
           message,
@@ -451,89 +674,194 @@ export default function Home() {
           apiKey: config.apiKey || undefined,
           selectedOllamaModel: config.selectedOllamaModel || undefined,
           selectedOpenAIModel: config.selectedOpenAIModel || undefined,
-          agentId: selectedAgent,
+          ...agentSelection(),
+          sessionId: sessionId || undefined,
           stream: true,
         }),
+        signal,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      let streamId: string | undefined;
+      let lastEventId: string | undefined;
+      let finished = false;
+      let streamError: string | undefined;
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
+      for (let resumes = 0; ; resumes++) {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
+        const reader = response.body?.getReader();
+        if (!reader) {
+          throw new Error('No response body');
+        }
+
+        const decoder = new TextDecoder();
+        const parser = new EventStreamParser();
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+            for (const event of parser.push(
+              decoder.decode(value, { stream: true })
+            )) {
+              lastEventId = event.id ?? lastEventId;
 
-          for (const line of lines) {
-            if (line.trim()) {
+              let data;
               try {
-                const data = JSON.parse(line);
-
-                if (data.type === 'start') {
-                  // Update agent and model info when stream starts
-                  setMessages(prev =>
-                    prev.map(msg =>
-                      msg.id === streamingMessage.id
-                        ? {
-                            ...msg,
-                            agentId: data.agentId,
-                            agentName:
-                              data.agentName ||
-                              agentStatus?.name ||
-                              'Assistant',
-                            modelProvider: data.modelProvider,
-                            modelName: data.modelName,
-                          }
-                        : msg
-                    )
-                  );
-                } else if (data.type === 'content' && data.content) {
-                  setMessages(prev =>
-                    prev.map(msg =>
-                      msg.id === streamingMessage.id
-                        ? { ...msg, content: msg.content + data.content }
-                        : msg
-                    )
-                  );
-                } else if (data.type === 'end') {
-                  setMessages(prev =>
-                    prev.map(msg =>
-                      msg.id === streamingMessage.id
-                        ? {
-                            ...msg,
-                            isStreaming: false,
-                            confidence: data.confidence || 0.9,
-                            metadata: data.metadata,
-                          }
-                        : msg
-                    )
-                  );
-                } else if (data.type === 'error') {
-                  throw new Error(data.error);
-                }
+                data = JSON.parse(event.data);
               } catch (parseError) {
                 console.warn('Failed to parse streaming data:', parseError);
+                continue;
+              }
+
+              if (data.type === 'start') {
+                if (data.sessionId) {
+                  setSessionId(data.sessionId);
+                }
+                streamId = data.id;
+                streamIdRef.current = data.id;
+
+                // Update agent and model info when stream starts
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? {
+                          ...msg,
+                          agentId: data.agentId,
+                          agentName:
+                            data.agentName ||
+                            agentStatus?.name ||
+                            'Assistant',
+                          responseId: data.id,
+                          modelProvider: data.modelProvider,
+                          modelName: data.modelName,
+                          routing: data.routing,
+                        }
+                      : msg
+                  )
+                );
+              } else if (PIPELINE_EVENT_TYPES.includes(data.type)) {
+                // Build the reasoning trace as the agent works
+                const line = describePipelineEvent(data);
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? {
+                          ...msg,
+                          reasoning: msg.reasoning
+                            ? `${msg.reasoning}\n${line}`
+                            : line,
+                        }
+                      : msg
+                  )
+                );
+              } else if (data.type === 'usage') {
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? {
+                          ...msg,
+                          metadata: { ...msg.metadata, usage: data.total },
+                        }
+                      : msg
+                  )
+                );
+              } else if (data.type === 'content' && data.content) {
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? { ...msg, content: msg.content + data.content }
+                      : msg
+                  )
+                );
+              } else if (data.type === 'end') {
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? {
+                          ...msg,
+                          isStreaming: false,
+                          confidence: data.confidence || 0.9,
+                          reasoning: data.reasoning ?? msg.reasoning,
+                          metadata: data.metadata,
+                          modelProvider:
+                            data.model?.provider ?? msg.modelProvider,
+                          modelName: data.model?.name ?? msg.modelName,
+                          fallbackFrom: data.model?.fallbackFrom,
+                        }
+                      : msg
+                  )
+                );
+              } else if (data.type === 'approval') {
+                setMessages(prev =>
+                  prev.map(msg =>
+                    msg.id === streamingMessage.id
+                      ? {
+                          ...msg,
+                          content: APPROVAL_MESSAGE,
+                          isStreaming: false,
+                          confidence: undefined,
+                          approval: data.approval,
+                        }
+                      : msg
+                  )
+                );
+              } else if (data.type === 'error') {
+                streamError = data.error;
+              }
+              if (['end', 'approval', 'error'].includes(data.type)) {
+                finished = true;
               }
             }
           }
+        } catch (error) {
+          // A dropped connection is resumed below; a stopped one is not
+          if (signal.aborted) {
+            throw error;
+          }
+        } finally {
+          reader.releaseLock();
+        }
+
+        if (finished || !streamId || resumes >= MAX_STREAM_RESUMES) {
+          break;
         }
-      } finally {
-        reader.releaseLock();
+
+        // Pick the response up again after the last event that arrived
+        await new Promise(resolve => setTimeout(resolve, STREAM_RESUME_DELAY_MS));
+        response = await fetch(
+          `/api/chat/stream?id=${encodeURIComponent(streamId)}`,
+          {
+            headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+            signal,
+          }
+        );
+      }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!finished) {
+        throw new Error('The response stream ended unexpectedly');
       }
     } catch (error) {
+      if (signal.aborted) {
+        // Keep what was streamed so far; drop the message if nothing arrived
+        setMessages(prev =>
+          prev
+            .filter(msg => msg.id !== streamingMessage.id || msg.content)
+            .map(msg =>
+              msg.id === streamingMessage.id
+                ? { ...msg, isStreaming: false, stopped: true }
+                : msg
+            )
+        );
+        return;
+      }
+
       const errorMessage: ChatMessage = {
         id: `error_${Date.now()}`,
         content: `Streaming error: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -549,12 +877,130 @@ export default function Home() {
       setMessages(prev =>
         prev.filter(msg => msg.id !== streamingMessage.id).concat(errorMessage)
       );
+    } finally {
+      streamIdRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const sendFeedback = async (message: ChatMessage, feedback: FeedbackInfo) => {
+    if (!message.responseId || !sessionId) return;
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          sessionId,
+          responseId: message.responseId,
+          ...feedback,
+          provider: config.selectedProvider || undefined,
+          apiKey: config.apiKey || undefined,
+          selectedOllamaModel: config.selectedOllamaModel || undefined,
+          selectedOpenAIModel: config.selectedOpenAIModel || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+
+      setMessages(prev =>
+        prev.map(msg =>
+          msg.id === message.id
+            ? { ...msg, feedback: { ...msg.feedback, ...feedback } }
+            : msg
+        )
+      );
+      const learned = Object.entries(data.learning.preferences ?? {});
+      showToast(
+        learned.length > 0
+          ? `Preferences updated: ${learned.map(([key, value]) => `${key} → ${value}`).join(', ')}`
+          : 'Thanks for the feedback',
+        'success'
+      );
+    } catch (error) {
+      showToast(
+        `Could not send feedback: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'error'
+      );
+    }
+  };
+
+  const submitCorrection = async (message: ChatMessage) => {
+    const text = correcting?.text.trim();
+    if (!text) return;
+    setCorrecting(null);
+    await sendFeedback(message, { correction: text });
+  };
+
+  const resolveApproval = async (
+    message: ChatMessage,
+    action: 'approve' | 'reject'
+  ) => {
+    if (!message.approval) return;
+    const approval = message.approval;
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/approvals?action=${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          approvalId: approval.id,
+          provider: config.selectedProvider || undefined,
+          apiKey: config.apiKey || undefined,
+          selectedOllamaModel: config.selectedOllamaModel || undefined,
+          selectedOpenAIModel: config.selectedOpenAIModel || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+
+      const resultMessage: ChatMessage = {
+        id: data.response.id,
+        responseId: data.response.id,
+        content: data.response.content,
+        type: 'agent',
+        timestamp: new Date(data.response.timestamp),
+        confidence: data.response.confidence,
+        reasoning: data.response.reasoning,
+        metadata: data.response.metadata,
+        agentId: message.agentId,
+        agentName: data.agent?.name ?? message.agentName,
+        modelProvider: data.model?.provider ?? message.modelProvider,
+        modelName: data.model?.name ?? message.modelName,
+      };
+      setMessages(prev => [
+        ...prev.map(msg =>
+          msg.id === message.id
+            ? { ...msg, approval: { ...approval, status: data.approval.status } }
+            : msg
+        ),
+        resultMessage,
+      ]);
+    } catch (error) {
+      showToast(
+        `Could not ${action} the plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'error'
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const handleRegularResponse = async (message: string) => {
+  const handleRegularResponse = async (
+    message: string,
+    signal: AbortSignal
+  ) => {
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -567,16 +1013,40 @@ export default function Home() {
           apiKey: config.apiKey || undefined,
           selectedOllamaModel: config.selectedOllamaModel || undefined,
           selectedOpenAIModel: config.selectedOpenAIModel || undefined,
-          agentId: selectedAgent,
+          ...agentSelection(),
+          sessionId: sessionId || undefined,
           stream: false,
         }),
+        signal,
       });
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.success && data.status === 'pending_approval') {
+        setSessionId(data.sessionId);
+        setMessages(prev => [
+          ...prev,
+          {
+            id: `approval_${data.approval.id}`,
+            content: APPROVAL_MESSAGE,
+            type: 'agent',
+            timestamp: new Date(data.approval.createdAt),
+            agentId: data.agent.id,
+            agentName: data.agent.name,
+            modelProvider: data.model?.provider,
+            modelName: data.model?.name,
+            routing: data.routing,
+            approval: data.approval,
+          },
+        ]);
+      } else if (data.success) {
+        if (data.sessionId) {
+          setSessionId(data.sessionId);
+        }
+
         const agentMessage: ChatMessage = {
           id: data.response.id,
+          responseId: data.response.id,
           content: data.response.content,
           type: 'agent',
           timestamp: new Date(data.response.timestamp),
@@ -587,6 +1057,8 @@ export default function Home() {
           agentName: data.agent.name,
           modelProvider: data.model?.provider,
           modelName: data.model?.name,
+          fallbackFrom: data.model?.fallbackFrom,
+          routing: data.routing,
         };
 
         setMessages(prev => [...prev, agentMessage]);
@@ -605,6 +1077,11 @@ export default function Home() {
         setMessages(prev => [...prev, errorMessage]);
       }
     } catch (error) {
+      // The user stopped the request, so there is nothing to report
+      if (signal.aborted) {
+        return;
+      }
+
       const errorMessage: ChatMessage = {
         id: `error_${Date.now()}`,
         content: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -621,6 +1098,12 @@ export default function Home() {
     }
   };
 
+  const startNewConversation = () => {
+    setMessages([]);
+    setSessionId(null);
+    setSessionUsage(null);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -655,14 +1138,32 @@ export default function Home() {
                   Multi-Agent Reasoning System
                 </CardDescription>
               </div>
-              <Button
-                variant="ghost"
-                size="lg"
-                onClick={handleSettingsToggle}
-                icon={<SettingsIcon />}
-              >
-                Settings
-              </Button>
+              <div className="flex items-center gap-2">
+                {(sessionUsage || todayUsage) && (
+                  <div className="mr-2 text-right text-xs text-gray-600">
+                    {sessionUsage && (
+                      <div>Session: {formatUsage(sessionUsage)}</div>
+                    )}
+                    {todayUsage && <div>Today: {formatUsage(todayUsage)}</div>}
+                  </div>
+                )}
+                <Button
+                  variant="ghost"
+                  size="lg"
+                  onClick={startNewConversation}
+                  disabled={loading || messages.length === 0}
+                >
+                  New Chat
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="lg"
+                  onClick={handleSettingsToggle}
+                  icon={<SettingsIcon />}
+                >
+                  Settings
+                </Button>
+              </div>
             </div>
           </CardHeader>
         </Card>
@@ -687,6 +1188,8 @@ export default function Home() {
                   }}
                   placeholder="Select an agent"
                 >
+                  <option value="auto">🧭 Auto (pick the best agent)</option>
+                  <option value="team">🤝 Team (agents collaborate)</option>
                   {availableAgents.map(agent => (
                     <option key={agent.id} value={agent.id}>
                       {agent.icon} {agent.name}
@@ -714,6 +1217,24 @@ export default function Home() {
                       Selected Agent
                     </h3>
                     {(() => {
+                      if (selectedAgent === 'auto') {
+                        return (
+                          <p className="text-sm text-blue-700">
+                            Each message is routed to the agent whose
+                            capabilities match it best, falling back to the
+                            General Assistant.
+                          </p>
+                        );
+                      }
+                      if (selectedAgent === 'team') {
+                        return (
+                          <p className="text-sm text-blue-700">
+                            The General Assistant splits combined requests
+                            into parts, hands each part to the best agent and
+                            merges their answers.
+                          </p>
+                        );
+                      }
                       const agent = availableAgents.find(a => a.id === selectedAgent);
                       if (!agent) return null;
                       return (
@@ -812,6 +1333,17 @@ export default function Home() {
                   </div>
                 )}
 
+                {config.selectedProvider === 'anthropic' && (
+                  <Input
+                    type="password"
+                    label="Anthropic API Key"
+                    value={config.apiKey}
+                    onChange={e => updateConfig({ apiKey: e.target.value })}
+                    placeholder="sk-ant-..."
+                    helpText="Your API key is stored locally and never sent to our servers"
+                  />
+                )}
+
                 {/* Current Model Status */}
                 {config.selectedProvider && (
                   <div className="rounded-lg border border-green-200 bg-green-50 p-3">
@@ -964,6 +1496,16 @@ export default function Home() {
                     </div>
                   </div>
                 )}
+
+                {selectedAgent !== 'auto' && selectedAgent !== 'team' && (
+                  <div className="border-t pt-4">
+                    <h3 className="mb-3 font-medium">Memory</h3>
+                    <MemoryPanel
+                      agentId={selectedAgent}
+                      onChange={() => fetchAgentStatus(selectedAgent)}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -1040,6 +1582,62 @@ export default function Home() {
                           ) : (
                             <MarkdownRenderer content={message.content} />
                           )}
+
+                          {/* Plan waiting for the user's approval */}
+                          {message.approval && (
+                            <div className="mt-3 space-y-3">
+                              <ol className="list-decimal space-y-1 pl-5 text-sm">
+                                {message.approval.plan.steps.map(step => (
+                                  <li key={step.id}>
+                                    {step.action}
+                                    {step.dependencies.length > 0 && (
+                                      <span className="text-gray-500">
+                                        {' '}
+                                        (after {step.dependencies.join(', ')})
+                                      </span>
+                                    )}
+                                  </li>
+                                ))}
+                              </ol>
+                              {message.approval.status === 'pending' ? (
+                                <div className="flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="success"
+                                    disabled={loading}
+                                    onClick={() =>
+                                      resolveApproval(message, 'approve')
+                                    }
+                                  >
+                                    Approve
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={loading}
+                                    onClick={() =>
+                                      resolveApproval(message, 'reject')
+                                    }
+                                  >
+                                    Reject
+                                  </Button>
+                                </div>
+                              ) : (
+                                <Badge
+                                  variant={
+                                    message.approval.status === 'approved'
+                                      ? 'success'
+                                      : 'secondary'
+                                  }
+                                  size="sm"
+                                >
+                                  {message.approval.status === 'approved'
+                                    ? '✅ Approved'
+                                    : '🚫 Rejected'}
+                                </Badge>
+                              )}
+                            </div>
+                          )}
                         </div>
 
                         {message.type === 'agent' && (
@@ -1056,12 +1654,31 @@ export default function Home() {
                                   })()} {message.agentName}
                                 </Badge>
                               )}
+                              {/* Automatic routing badge */}
+                              {message.routing && (
+                                <Badge variant="outline" size="sm">
+                                  🧭{' '}
+                                  {message.routing.fallback
+                                    ? 'Auto: default agent'
+                                    : `Auto: ${Math.round(message.routing.confidence * 100)}% match`}
+                                </Badge>
+                              )}
                               {/* Model identification badge */}
                               {message.modelProvider && message.modelName && (
                                 <Badge variant="secondary" size="sm">
                                   ⚡ {message.modelProvider}: {message.modelName}
                                 </Badge>
                               )}
+                              {message.fallbackFrom && (
+                                <Badge variant="warning" size="sm">
+                                  Fallback from {message.fallbackFrom}
+                                </Badge>
+                              )}
+                              {message.stopped && (
+                                <Badge variant="outline" size="sm">
+                                  Stopped
+                                </Badge>
+                              )}
                               {message.isStreaming && (
                                 <Badge variant="outline" size="sm">
                                   <span className="flex items-center gap-1">
@@ -1070,6 +1687,16 @@ export default function Home() {
                                   </span>
                                 </Badge>
                               )}
+                              {(() => {
+                                const usage = message.metadata?.usage as
+                                  | UsageSummary
+                                  | undefined;
+                                return usage ? (
+                                  <Badge variant="outline" size="sm">
+                                    🪙 {formatUsage(usage)}
+                                  </Badge>
+                                ) : null;
+                              })()}
                               {message.confidence !== undefined && (
                                 <Badge variant="secondary" size="sm">
                                   Confidence:{' '}
@@ -1083,6 +1710,74 @@ export default function Home() {
                               )}
                             </div>
 
+                            {/* Feedback the agent learns from */}
+                            {message.responseId && !message.isStreaming && sessionId && (
+                              <div className="flex flex-wrap items-center gap-1">
+                                {(['up', 'down'] as const).map(rating => (
+                                  <Button
+                                    key={rating}
+                                    size="sm"
+                                    variant={
+                                      message.feedback?.rating === rating
+                                        ? 'secondary'
+                                        : 'ghost'
+                                    }
+                                    aria-label={
+                                      rating === 'up' ? 'Good response' : 'Bad response'
+                                    }
+                                    disabled={!!message.feedback?.rating}
+                                    onClick={() => sendFeedback(message, { rating })}
+                                  >
+                                    {rating === 'up' ? '👍' : '👎'}
+                                  </Button>
+                                ))}
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() =>
+                                    setCorrecting({ messageId: message.id, text: '' })
+                                  }
+                                >
+                                  ✏️ Correct
+                                </Button>
+                                {message.feedback?.correction && (
+                                  <Badge variant="outline" size="sm">
+                                    Corrected: {message.feedback.correction}
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
+
+                            {correcting?.messageId === message.id && (
+                              <div className="flex gap-2">
+                                <Input
+                                  size="sm"
+                                  placeholder="What should the agent do differently? e.g. Keep it shorter"
+                                  value={correcting.text}
+                                  onChange={e =>
+                                    setCorrecting({ messageId: message.id, text: e.target.value })
+                                  }
+                                  onKeyDown={e => {
+                                    if (e.key === 'Enter') submitCorrection(message);
+                                  }}
+                                />
+                                <Button
+                                  size="sm"
+                                  onClick={() => submitCorrection(message)}
+                                  disabled={!correcting.text.trim()}
+                                >
+                                  Send
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setCorrecting(null)}
+                                >
+                                  Cancel
+                                </Button>
+                              </div>
+                            )}
+
                             {config.showReasoning && message.reasoning && (
                               <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm">
                                 <div className="mb-2 flex items-center gap-2">
@@ -1095,6 +1790,37 @@ export default function Home() {
                                 </div>
                               </div>
                             )}
+
+                            {/* Per-agent contributions of a team answer */}
+                            {(() => {
+                              const contributions = message.metadata
+                                ?.contributions as Contribution[] | undefined;
+                              if (!contributions || contributions.length < 2) {
+                                return null;
+                              }
+                              return (
+                                <details className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                                  <summary className="cursor-pointer font-medium text-gray-700">
+                                    🤝 Agent contributions ({contributions.length})
+                                  </summary>
+                                  <div className="mt-2 space-y-3">
+                                    {contributions.map(contribution => (
+                                      <div key={contribution.stepId}>
+                                        <div className="mb-1 font-medium text-gray-800">
+                                          {contribution.agentName}:{' '}
+                                          <span className="font-normal text-gray-600">
+                                            {contribution.task}
+                                          </span>
+                                        </div>
+                                        <MarkdownRenderer
+                                          content={contribution.content}
+                                        />
+                                      </div>
+                                    ))}
+                                  </div>
+                                </details>
+                              );
+                            })()}
                           </div>
                         )}
                       </div>
@@ -1143,16 +1869,27 @@ export default function Home() {
                     rows={1}
                     disabled={loading}
                   />
-                  <Button
-                    onClick={sendMessage}
-                    disabled={loading || !input.trim()}
-                    size="lg"
-                    variant="gradient"
-                    icon={<SendIcon />}
-                    loading={loading}
-                  >
-                    Send
-                  </Button>
+                  {loading && abortControllerRef.current ? (
+                    <Button
+                      onClick={stopGeneration}
+                      size="lg"
+                      variant="destructive"
+                      icon={<StopIcon />}
+                    >
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={sendMessage}
+                      disabled={loading || !input.trim()}
+                      size="lg"
+                      variant="gradient"
+                      icon={<SendIcon />}
+                      loading={loading}
+                    >
+                      Send
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import { BaseAgent } from '@/core/agents/base-agent';
+import { ProviderError } from '@/core/models/provider-errors';
+import { UsageTracker } from '@/core/models/usage';
+import { createUniqueId } from '@/core/utils/type-factories';
+import {
+  abortedRequestResponse,
+  ensureInitialized,
+  getProviderErrorStatus,
+  initializeAgent,
+} from '@/app/api/agent-runtime';
+import {
+  OpenAIRequestError,
+  checkApiKey,
+  createCompletion,
+  createCompletionChunk,
+  describePendingApproval,
+  openAIErrorResponse,
+  parseChatMessages,
+  toAgentId,
+  toOpenAIUsage,
+} from '../../openai-compat';
+
+const formatChunk = (chunk: object): string =>
+  `data: ${JSON.stringify(chunk)}\n\n`;
+
+// Chat completions in the OpenAI format, answered by a PolarisAI agent
+export async function POST(request: NextRequest) {
+  const unauthorized = checkApiKey(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    await ensureInitialized();
+
+    const body = await request.json();
+    const { model, messages, stream = false, stream_options } = body;
+
+    if (typeof model !== 'string' || !model) {
+      return openAIErrorResponse('model is required', 400, { param: 'model' });
+    }
+    const agentId = toAgentId(model);
+    if (!agentRegistry.isAgentAvailable(agentId)) {
+      return openAIErrorResponse(`The model ${model} does not exist`, 404, {
+        param: 'model',
+        code: 'model_not_found',
+      });
+    }
+
+    const { input, session } = parseChatMessages(messages, agentId);
+    const agent = (await initializeAgent(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      agentId
+    )) as BaseAgent;
+
+    const completionId = createUniqueId('chatcmpl');
+    const usage = new UsageTracker();
+
+    if (stream) {
+      const includeUsage = stream_options?.include_usage === true;
+      const encoder = new TextEncoder();
+      // Stop generating when the client disconnects or cancels the stream
+      const abortController = new AbortController();
+      const { signal } = abortController;
+      request.signal.addEventListener('abort', () => abortController.abort(), {
+        once: true,
+      });
+      const requestOptions = { signal, onUsage: usage.record };
+
+      const readable = new ReadableStream({
+        async start(controller) {
+          const send = (chunk: object) =>
+            controller.enqueue(encoder.encode(formatChunk(chunk)));
+
+          try {
+            send(
+              createCompletionChunk(completionId, model, { role: 'assistant' })
+            );
+
+            const plan = await agent.preparePlan(
+              input,
+              session,
+              requestOptions
+            );
+            if (plan.requiresApproval) {
+              send(
+                createCompletionChunk(completionId, model, {
+                  content: describePendingApproval(plan),
+                })
+              );
+            } else {
+              const content = await agent.streamPlan(plan, requestOptions);
+              let fullContent = '';
+              for await (const chunk of content) {
+                fullContent += chunk;
+                send(
+                  createCompletionChunk(completionId, model, { content: chunk })
+                );
+              }
+
+              // Streamed responses skip `runPlan`, so the agent remembers
+              // them here as it does after a non-streamed completion
+              await agent.reflect({
+                id: completionId,
+                agentId: agent.id,
+                content: fullContent,
+                timestamp: new Date(),
+                type: 'text',
+                confidence: 0.9,
+                metadata: { streaming: true },
+              });
+            }
+
+            send(createCompletionChunk(completionId, model, {}, 'stop'));
+            if (includeUsage) {
+              send({
+                ...createCompletionChunk(completionId, model, {}),
+                choices: [],
+                usage: toOpenAIUsage(usage.getUsage()),
+              });
+            }
+          } catch (error) {
+            // The stream is already cancelled, so there is nothing to report to
+            if (signal.aborted) {
+              return;
+            }
+            console.error('Chat completions API error:', error);
+            send({
+              error: {
+                message:
+                  error instanceof Error ? error.message : 'Unknown error',
+                type: 'server_error',
+                param: null,
+                code: error instanceof ProviderError ? error.code : null,
+              },
+            });
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        },
+        cancel() {
+          abortController.abort();
+        },
+      });
+
+      return new Response(readable, {
+        headers: {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        },
+      });
+    }
+
+    const requestOptions = { signal: request.signal, onUsage: usage.record };
+    const plan = await agent.preparePlan(input, session, requestOptions);
+    // Approval needs the PolarisAI interface, so the plan is only described
+    const content = plan.requiresApproval
+      ? describePendingApproval(plan)
+      : (await agent.runPlan(plan, requestOptions)).content;
+
+    return NextResponse.json(
+      createCompletion(completionId, model, content, usage.getUsage())
+    );
+  } catch (error) {
+    // The client went away before the response was ready
+    const aborted = abortedRequestResponse(error);
+    if (aborted) {
+      return aborted;
+    }
+    if (error instanceof OpenAIRequestError) {
+      return openAIErrorResponse(error.message, 400, { param: error.param });
+    }
+
+    console.error('Chat completions API error:', error);
+    if (error instanceof ProviderError) {
+      return openAIErrorResponse(error.message, getProviderErrorStatus(error), {
+        type: 'provider_error',
+        code: error.code,
+      });
+    }
+    return openAIErrorResponse(
+      error instanceof Error ? error.message : 'Unknown error',
+      500,
+      { type: 'server_error' }
+    );
+  }
+}
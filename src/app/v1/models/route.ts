@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import { ensureInitialized } from '@/app/api/agent-runtime';
+import {
+  checkApiKey,
+  openAIErrorResponse,
+  toModelId,
+  unixTime,
+} from '../openai-compat';
+
+// The agents, listed as models in the OpenAI format
+export async function GET(request: NextRequest) {
+  const unauthorized = checkApiKey(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    await ensureInitialized();
+
+    const created = unixTime();
+    return NextResponse.json({
+      object: 'list',
+      data: agentRegistry.getAvailableAgents().map(agent => ({
+        id: toModelId(agent.id),
+        object: 'model',
+        created,
+        owned_by: 'polaris',
+      })),
+    });
+  } catch (error) {
+    console.error('Models API error:', error);
+    return openAIErrorResponse(
+      error instanceof Error ? error.message : 'Unknown error',
+      500,
+      { type: 'server_error' }
+    );
+  }
+}
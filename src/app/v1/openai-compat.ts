@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ActionPlan,
+  AgentResponse,
+  ChatSession,
+  TokenUsage,
+  UserInput,
+} from '@/core/types';
+import { createChatSession } from '@/core/utils/type-factories';
+
+// Shared by the OpenAI-compatible routes under /v1
+
+// Agents are offered as models named `polaris/<agent id>`
+export const AGENT_MODEL_PREFIX = 'polaris/';
+
+export const toModelId = (agentId: string): string =>
+  `${AGENT_MODEL_PREFIX}${agentId}`;
+
+// Bare agent ids are accepted as well
+export const toAgentId = (model: string): string =>
+  model.startsWith(AGENT_MODEL_PREFIX)
+    ? model.slice(AGENT_MODEL_PREFIX.length)
+    : model;
+
+interface OpenAIContentPart {
+  type: string;
+  text?: string;
+}
+
+export interface OpenAIChatMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+}
+
+/**
+ * Thrown for requests that do not follow the chat completions format
+ */
+export class OpenAIRequestError extends Error {
+  readonly param?: string;
+
+  constructor(message: string, param?: string) {
+    super(message);
+    this.name = 'OpenAIRequestError';
+    this.param = param;
+  }
+}
+
+// Only text parts are understood; images and audio are left out
+const getText = (content: OpenAIChatMessage['content']): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter(part => part?.type === 'text' && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('\n');
+  }
+  return '';
+};
+
+/**
+ * Turn the messages of a chat completions request into the input for an
+ * agent and a session holding the conversation before it. System messages
+ * are passed on as instructions in front of the input.
+ */
+export const parseChatMessages = (
+  messages: unknown,
+  agentId: string
+): { input: UserInput; session: ChatSession } => {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new OpenAIRequestError(
+      'messages must be a non-empty array',
+      'messages'
+    );
+  }
+
+  const last = messages[messages.length - 1] as OpenAIChatMessage;
+  const content = getText(last?.content).trim();
+  if (last?.role !== 'user' || !content) {
+    throw new OpenAIRequestError(
+      'The last message must be a user message with text content',
+      'messages'
+    );
+  }
+
+  const instructions: string[] = [];
+  const history: (UserInput | AgentResponse)[] = [];
+  const timestamp = new Date();
+  (messages.slice(0, -1) as OpenAIChatMessage[]).forEach((message, index) => {
+    const text = getText(message?.content).trim();
+    if (!text) {
+      return;
+    }
+
+    if (message.role === 'system' || message.role === 'developer') {
+      instructions.push(text);
+    } else if (message.role === 'user') {
+      history.push({
+        id: `input_${index}`,
+        content: text,
+        timestamp,
+        type: 'text',
+      });
+    } else if (message.role === 'assistant') {
+      history.push({
+        id: `response_${index}`,
+        agentId,
+        content: text,
+        timestamp,
+        type: 'text',
+        confidence: 1,
+      });
+    }
+  });
+
+  return {
+    input: {
+      id: `input_${Date.now()}`,
+      content: [...instructions, content].join('\n\n'),
+      timestamp,
+      type: 'text',
+      metadata: { api: 'openai' },
+    },
+    session: createChatSession({ agentId, messages: history }),
+  };
+};
+
+/**
+ * Reply for a plan that waits for approval, which cannot be given here
+ */
+export const describePendingApproval = (plan: ActionPlan): string =>
+  `This request needs your approval before I go ahead. Open PolarisAI to approve this plan:\n${plan.steps
+    .map((step, i) => `${i + 1}. ${step.action}`)
+    .join('\n')}`;
+
+export const toOpenAIUsage = (usage: TokenUsage) => ({
+  prompt_tokens: usage.promptTokens,
+  completion_tokens: usage.completionTokens,
+  total_tokens: usage.totalTokens,
+});
+
+// Seconds since the epoch, as used for `created`
+export const unixTime = (date = new Date()): number =>
+  Math.floor(date.getTime() / 1000);
+
+export const createCompletion = (
+  id: string,
+  model: string,
+  content: string,
+  usage?: TokenUsage
+) => ({
+  id,
+  object: 'chat.completion',
+  created: unixTime(),
+  model,
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: 'stop',
+    },
+  ],
+  ...(usage && { usage: toOpenAIUsage(usage) }),
+});
+
+export const createCompletionChunk = (
+  id: string,
+  model: string,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: 'stop' | null = null
+) => ({
+  id,
+  object: 'chat.completion.chunk',
+  created: unixTime(),
+  model,
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+/**
+ * Respond with an error in the format OpenAI clients understand
+ */
+export function openAIErrorResponse(
+  message: string,
+  status: number,
+  details: { type?: string; param?: string; code?: string } = {}
+) {
+  return NextResponse.json(
+    {
+      error: {
+        message,
+        type: details.type ?? 'invalid_request_error',
+        param: details.param ?? null,
+        code: details.code ?? null,
+      },
+    },
+    { status }
+  );
+}
+
+/**
+ * Check the bearer token when POLARIS_API_KEY is set. Returns the error
+ * response for requests without the key.
+ */
+export function checkApiKey(request: NextRequest): NextResponse | null {
+  const apiKey = process.env.POLARIS_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  const authorization = request.headers.get('authorization');
+  if (authorization !== `Bearer ${apiKey}`) {
+    return openAIErrorResponse('Invalid API key', 401, {
+      type: 'authentication_error',
+      code: 'invalid_api_key',
+    });
+  }
+  return null;
+}
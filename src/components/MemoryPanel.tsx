@@ -0,0 +1,232 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge, Button, Input, Textarea } from '@/components/ui';
+
+interface MemoryEntry {
+  id: string;
+  content: string;
+  timestamp: string;
+  importance: number;
+  tags: string[];
+  pinned: boolean;
+}
+
+interface MemoryPanelProps {
+  agentId: string;
+  userId?: string;
+  // Called after the agent's memories were changed
+  onChange?: () => void;
+}
+
+/**
+ * Lists what an agent remembers and lets the user add, edit, pin and
+ * delete memories
+ */
+export function MemoryPanel({ agentId, userId, onChange }: MemoryPanelProps) {
+  const [memories, setMemories] = useState<MemoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [newContent, setNewContent] = useState('');
+  const [editing, setEditing] = useState<{
+    id: string;
+    content: string;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchMemories = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ agentId });
+      if (userId) params.set('userId', userId);
+      if (query.trim()) params.set('q', query.trim());
+
+      const response = await fetch(`/api/memory?${params}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load memories');
+      }
+      setMemories(data.memories);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load memories');
+    }
+  }, [agentId, userId, query]);
+
+  useEffect(() => {
+    fetchMemories();
+  }, [fetchMemories]);
+
+  // Send a change, then reload the list
+  const send = async (method: string, body?: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const init: RequestInit = { method };
+      let url = '/api/memory';
+      if (method === 'DELETE') {
+        url += `?${new URLSearchParams({
+          agentId,
+          ...(userId && { userId }),
+          memoryId: String(body?.memoryId),
+        })}`;
+      } else {
+        init.headers = { 'Content-Type': 'application/json' };
+        init.body = JSON.stringify({ agentId, userId, ...body });
+      }
+
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update memory');
+      }
+
+      await fetchMemories();
+      onChange?.();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update memory');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addMemory = async () => {
+    if (!newContent.trim()) return;
+    // What users tell an agent to remember are facts about them
+    if (await send('POST', { content: newContent, pinned: true })) {
+      setNewContent('');
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !editing.content.trim()) return;
+    if (
+      await send('PATCH', { memoryId: editing.id, content: editing.content })
+    ) {
+      setEditing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="memory-panel">
+      <Input
+        size="sm"
+        placeholder="Search memories"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {memories.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {query.trim() ? 'No matching memories' : 'Nothing remembered yet'}
+        </p>
+      ) : (
+        <ul className="max-h-80 space-y-2 overflow-y-auto">
+          {memories.map(memory => (
+            <li
+              key={memory.id}
+              className="rounded-lg border border-gray-200 p-2 text-sm"
+            >
+              {editing?.id === memory.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    size="sm"
+                    aria-label="Memory content"
+                    value={editing.content}
+                    onChange={e =>
+                      setEditing({ id: memory.id, content: e.target.value })
+                    }
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={saveEdit} disabled={busy}>
+                      Save
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditing(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="whitespace-pre-wrap text-gray-900">
+                    {memory.content}
+                  </p>
+                  <div className="mt-2 flex flex-wrap items-center gap-1">
+                    {memory.pinned && (
+                      <Badge variant="success" size="sm">
+                        📌 Pinned
+                      </Badge>
+                    )}
+                    <Badge variant="outline" size="sm">
+                      Importance {Math.round(memory.importance * 100)}%
+                    </Badge>
+                    <span className="text-xs text-gray-500">
+                      {new Date(memory.timestamp).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="mt-2 flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      onClick={() =>
+                        send('PATCH', {
+                          memoryId: memory.id,
+                          pinned: !memory.pinned,
+                        })
+                      }
+                    >
+                      {memory.pinned ? 'Unpin' : 'Pin'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      onClick={() =>
+                        setEditing({ id: memory.id, content: memory.content })
+                      }
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      onClick={() => send('DELETE', { memoryId: memory.id })}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          size="sm"
+          aria-label="New memory"
+          placeholder="Something the agent should remember, e.g. I'm allergic to peanuts"
+          value={newContent}
+          onChange={e => setNewContent(e.target.value)}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={addMemory}
+          disabled={busy || !newContent.trim()}
+        >
+          Remember
+        </Button>
+      </div>
+    </div>
+  );
+}
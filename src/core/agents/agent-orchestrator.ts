@@ -0,0 +1,615 @@
+import {
+  ActionPlan,
+  ActionStep,
+  AgentContribution,
+  AgentOrchestrator,
+  AgentResponse,
+  ChatSession,
+  CoordinationState,
+  ReasoningAgent,
+  RequestOptions,
+  UserInput,
+} from '../types';
+import { BaseAgent } from './base-agent';
+import { AgentInfo } from './agent-registry';
+import { isAbortError } from '../utils/abort';
+import { withUsagePhase } from '../models/usage';
+
+export interface RoutingDecision {
+  agentId: string;
+  confidence: number; // 0-1 score of the chosen agent
+  fallback: boolean; // True when no agent cleared the confidence threshold
+  matchedCapabilities: string[];
+  scores: Record<string, number>;
+}
+
+export interface OrchestratorOptions {
+  confidenceThreshold?: number;
+  fallbackAgentId?: string;
+  leadAgentId?: string; // Agent that decomposes and synthesises multi-agent tasks, defaults to the fallback agent
+  // Creates agents that have not been registered yet, e.g. via the agent registry
+  resolveAgent?: (agentId: string) => Promise<ReasoningAgent>;
+}
+
+/**
+ * Thrown when a delegated agent plans something the user has to approve.
+ * Coordination pauses so the plan can wait for approval like any other;
+ * `coordination` holds what `resumeCoordination` needs to finish the task.
+ */
+export class ApprovalRequiredError extends Error {
+  readonly agentId: string;
+  readonly input: UserInput;
+  readonly plan: ActionPlan;
+  readonly coordination?: CoordinationState;
+
+  constructor(
+    agentId: string,
+    input: UserInput,
+    plan: ActionPlan,
+    coordination?: CoordinationState
+  ) {
+    super(`Agent ${agentId} needs approval to run its plan`);
+    this.name = 'ApprovalRequiredError';
+    this.agentId = agentId;
+    this.input = input;
+    this.plan = plan;
+    this.coordination = coordination;
+  }
+}
+
+// Score at which a match counts as fully confident
+const FULL_CONFIDENCE_SCORE = 3;
+
+const normalize = (text: string): string =>
+  ` ${text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()} `;
+
+// Reduce a word to a prefix shared by its common forms ("suggestions" -> "suggest")
+const stem = (word: string): string =>
+  word.length > 4 ? word.replace(/(ing|ions|ion|es|s)$/, '') : word;
+
+// Match a word at a word boundary in any of its forms ("meal" matches "meals")
+const containsTerm = (text: string, word: string): boolean =>
+  text.includes(` ${stem(word)}`);
+
+export class BasicAgentOrchestrator implements AgentOrchestrator {
+  public agents: Map<string, ReasoningAgent> = new Map();
+  public activeSession: ChatSession | null = null;
+
+  private catalog: AgentInfo[];
+  private confidenceThreshold: number;
+  private fallbackAgentId: string;
+  private leadAgentId: string;
+  private resolveAgent?: (agentId: string) => Promise<ReasoningAgent>;
+  private agentErrors: Set<string> = new Set();
+
+  constructor(catalog: AgentInfo[], options: OrchestratorOptions = {}) {
+    this.catalog = catalog;
+    this.confidenceThreshold = options.confidenceThreshold ?? 0.3;
+    this.fallbackAgentId = options.fallbackAgentId ?? 'general-assistant';
+    this.leadAgentId = options.leadAgentId ?? this.fallbackAgentId;
+    this.resolveAgent = options.resolveAgent;
+  }
+
+  registerAgent(agent: ReasoningAgent): void {
+    this.agents.set(agent.id, agent);
+    this.agentErrors.delete(agent.id);
+  }
+
+  /**
+   * Score every agent in the catalog against the input.
+   * A full capability phrase ("meal planning") counts 2, a single capability
+   * word or agent keyword counts 1. If no specialist clears the threshold the
+   * agent already handling the session is kept, otherwise the fallback agent
+   * is used.
+   */
+  classify(input: UserInput, currentAgentId?: string): RoutingDecision {
+    const text = normalize(input.content);
+    const scores: Record<string, number> = {};
+    const matches: Record<string, string[]> = {};
+
+    for (const info of this.catalog) {
+      const { score, matched } = this.scoreAgent(text, info);
+      scores[info.id] = Math.min(1, score / FULL_CONFIDENCE_SCORE);
+      matches[info.id] = matched;
+    }
+
+    // Highest score wins; ties go to the fallback agent
+    const ranked = [...this.catalog].sort(
+      (a, b) =>
+        scores[b.id] - scores[a.id] ||
+        Number(b.id === this.fallbackAgentId) -
+          Number(a.id === this.fallbackAgentId)
+    );
+    const best = ranked[0];
+
+    if (best && scores[best.id] >= this.confidenceThreshold) {
+      return {
+        agentId: best.id,
+        confidence: scores[best.id],
+        fallback: false,
+        matchedCapabilities: matches[best.id],
+        scores,
+      };
+    }
+
+    const fallbackId =
+      currentAgentId && this.catalog.some(info => info.id === currentAgentId)
+        ? currentAgentId
+        : this.fallbackAgentId;
+
+    return {
+      agentId: fallbackId,
+      confidence: scores[fallbackId] ?? 0,
+      fallback: true,
+      matchedCapabilities: matches[fallbackId] ?? [],
+      scores,
+    };
+  }
+
+  /**
+   * Pick the agent for an input and make sure it is ready to use
+   */
+  async selectAgent(
+    input: UserInput,
+    session?: ChatSession
+  ): Promise<{ agent: ReasoningAgent; decision: RoutingDecision }> {
+    const decision = this.classify(input, session?.agentId);
+
+    try {
+      return {
+        agent: await this.getOrResolveAgent(decision.agentId),
+        decision,
+      };
+    } catch (error) {
+      if (decision.agentId === this.fallbackAgentId) {
+        throw error;
+      }
+
+      console.warn(
+        `Agent ${decision.agentId} unavailable, routing to ${this.fallbackAgentId}:`,
+        error
+      );
+      return {
+        agent: await this.getOrResolveAgent(this.fallbackAgentId),
+        decision: {
+          ...decision,
+          agentId: this.fallbackAgentId,
+          confidence: decision.scores[this.fallbackAgentId] ?? 0,
+          fallback: true,
+          matchedCapabilities: [],
+        },
+      };
+    }
+  }
+
+  /**
+   * Route a message to the best matching agent.
+   * The routing decision is attached to the response metadata.
+   */
+  async routeMessage(
+    input: UserInput,
+    session?: ChatSession,
+    options: RequestOptions = {}
+  ): Promise<AgentResponse> {
+    const { agent, decision } = await this.selectAgent(
+      input,
+      session ?? this.activeSession ?? undefined
+    );
+
+    const response = await this.runAgent(agent, input, session, options);
+
+    return {
+      ...response,
+      metadata: { ...response.metadata, routing: decision },
+    };
+  }
+
+  /**
+   * Let the lead agent split a task across agents and combine their answers.
+   * Returns the contributions in execution order followed by the final answer.
+   */
+  async coordinateAgents(task: string): Promise<AgentResponse[]> {
+    const input: UserInput = {
+      id: `task_${Date.now()}`,
+      content: task,
+      timestamp: new Date(),
+      type: 'text',
+    };
+
+    const { responses, final } = await this.runCoordination(input);
+    return [...responses, final];
+  }
+
+  /**
+   * Handle a combined request with several agents and return the synthesised answer.
+   * Per-agent contributions are attached to the response metadata.
+   * Rejects with an ApprovalRequiredError when a delegated plan needs approval.
+   */
+  async coordinate(
+    input: UserInput,
+    session?: ChatSession,
+    options: RequestOptions = {}
+  ): Promise<AgentResponse> {
+    const { final } = await this.runCoordination(input, session, options);
+    return final;
+  }
+
+  /**
+   * Finish a coordinated request that paused for approval: run the approved
+   * plan for the paused step, then the remaining steps and the synthesis.
+   * Rejects with an ApprovalRequiredError when a later plan needs approval.
+   */
+  async resumeCoordination(
+    state: CoordinationState,
+    plan: ActionPlan,
+    session?: ChatSession,
+    options: RequestOptions = {}
+  ): Promise<AgentResponse> {
+    const lead = await this.getOrResolveAgent(state.leadAgentId);
+    const { final } = await this.runSteps(
+      lead,
+      state.input,
+      state.steps,
+      [...state.contributions],
+      session,
+      options,
+      { stepId: state.stepId, plan }
+    );
+    return final;
+  }
+
+  async getAgentStatus(
+    agentId: string
+  ): Promise<'active' | 'inactive' | 'error'> {
+    if (this.agentErrors.has(agentId)) {
+      return 'error';
+    }
+    return this.agents.has(agentId) ? 'active' : 'inactive';
+  }
+
+  private async runCoordination(
+    input: UserInput,
+    session?: ChatSession,
+    options: RequestOptions = {}
+  ): Promise<{ responses: AgentResponse[]; final: AgentResponse }> {
+    const lead = await this.getOrResolveAgent(this.leadAgentId);
+    const steps = await this.decompose(lead, input.content, options);
+
+    return this.runSteps(lead, input, steps, [], session, options);
+  }
+
+  /**
+   * Run the steps that have no contribution yet, then combine the answers.
+   * `approved` is a plan the user approved for one of the steps.
+   */
+  private async runSteps(
+    lead: ReasoningAgent,
+    input: UserInput,
+    steps: ActionStep[],
+    contributions: AgentContribution[],
+    session: ChatSession | undefined,
+    options: RequestOptions,
+    approved?: { stepId: string; plan: ActionPlan }
+  ): Promise<{ responses: AgentResponse[]; final: AgentResponse }> {
+    const responses: AgentResponse[] = [];
+
+    for (const step of steps) {
+      if (contributions.some(item => item.stepId === step.id)) {
+        continue;
+      }
+
+      const task = String(step.parameters.task ?? step.action);
+      const agent = await this.resolveStepAgent(step, lead);
+
+      // Give the agent the results of the steps it depends on
+      const context = contributions
+        .filter(contribution => step.dependencies.includes(contribution.stepId))
+        .map(
+          contribution => `${contribution.agentName}: ${contribution.content}`
+        )
+        .join('\n\n');
+
+      let response: AgentResponse;
+      try {
+        response =
+          approved?.stepId === step.id
+            ? await this.runApprovedPlan(agent, approved.plan, options)
+            : await this.runAgent(
+                agent,
+                {
+                  id: `${input.id}_${step.id}`,
+                  content: context
+                    ? `${task}\n\nContext from other agents:\n${context}`
+                    : task,
+                  timestamp: new Date(),
+                  type: 'text',
+                  metadata: { coordinatedBy: lead.id, stepId: step.id },
+                },
+                session,
+                options
+              );
+      } catch (error) {
+        // Keep the progress so the task can resume once the plan is approved
+        if (error instanceof ApprovalRequiredError && !error.coordination) {
+          throw new ApprovalRequiredError(
+            error.agentId,
+            error.input,
+            error.plan,
+            {
+              input,
+              leadAgentId: lead.id,
+              steps,
+              contributions,
+              stepId: step.id,
+            }
+          );
+        }
+        throw error;
+      }
+
+      responses.push(response);
+      contributions.push({
+        stepId: step.id,
+        agentId: agent.id,
+        agentName: agent.name,
+        task,
+        content: response.content,
+        confidence: response.confidence,
+      });
+    }
+
+    const content = await this.synthesize(
+      lead,
+      input.content,
+      contributions,
+      options
+    );
+    const confidence =
+      contributions.reduce((sum, item) => sum + item.confidence, 0) /
+      contributions.length;
+
+    const final: AgentResponse = {
+      id: `coordinated_${Date.now()}`,
+      agentId: lead.id,
+      content,
+      timestamp: new Date(),
+      type: 'text',
+      confidence,
+      reasoning: `🤝 Coordination: ${lead.name} split the request into ${steps.length} step(s):
+${contributions.map((item, i) => `  ${i + 1}. [${item.agentName}] ${item.task}`).join('\n')}
+
+🧩 Synthesis: Combined the agents' answers into a single response.`,
+      metadata: {
+        coordination: {
+          leadAgentId: lead.id,
+          steps: steps.map(step => ({
+            id: step.id,
+            task: step.parameters.task ?? step.action,
+            dependencies: step.dependencies,
+          })),
+        },
+        contributions,
+      },
+    };
+
+    return { responses, final };
+  }
+
+  /**
+   * Ask the lead agent's planner for delegated steps, splitting the task on
+   * sentence and "and" boundaries when the planner cannot decompose it
+   */
+  private async decompose(
+    lead: ReasoningAgent,
+    task: string,
+    options: RequestOptions
+  ): Promise<ActionStep[]> {
+    if (lead.planner.decomposeTask) {
+      try {
+        const plan = await lead.planner.decomposeTask(
+          task,
+          this.catalog,
+          withUsagePhase(options, 'decompose')
+        );
+        return plan.steps;
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn(
+          'Task decomposition failed, splitting heuristically:',
+          error
+        );
+      }
+    }
+
+    const steps: ActionStep[] = [];
+    const parts = task
+      .split(/(?<=[.!?])\s+|\s+and\s+|;\s*/i)
+      .map(part => part.trim())
+      .filter(Boolean);
+
+    for (const part of parts.length > 0 ? parts : [task]) {
+      const { agentId } = this.classify({
+        id: 'decomposition',
+        content: part,
+        timestamp: new Date(),
+        type: 'text',
+      });
+
+      // Consecutive parts for the same agent become one step
+      const previous = steps[steps.length - 1];
+      if (previous && previous.parameters.agentId === agentId) {
+        previous.parameters.task = `${previous.parameters.task} and ${part}`;
+        previous.action = previous.parameters.task as string;
+        continue;
+      }
+
+      steps.push({
+        id: `step_${steps.length + 1}`,
+        action: part,
+        parameters: { agentId, task: part },
+        dependencies: [],
+        estimatedDuration: 1,
+      });
+    }
+
+    return steps;
+  }
+
+  private async resolveStepAgent(
+    step: ActionStep,
+    lead: ReasoningAgent
+  ): Promise<ReasoningAgent> {
+    const agentId =
+      (step.parameters.agentId as string | undefined) ??
+      this.classify({
+        id: step.id,
+        content: String(step.parameters.task ?? step.action),
+        timestamp: new Date(),
+        type: 'text',
+      }).agentId;
+
+    try {
+      return await this.getOrResolveAgent(agentId);
+    } catch (error) {
+      console.warn(
+        `Agent ${agentId} unavailable, ${lead.name} takes over:`,
+        error
+      );
+      return lead;
+    }
+  }
+
+  private async synthesize(
+    lead: ReasoningAgent,
+    task: string,
+    contributions: AgentContribution[],
+    options: RequestOptions
+  ): Promise<string> {
+    if (contributions.length === 1) {
+      return contributions[0].content;
+    }
+
+    if (lead.planner.synthesizeResults) {
+      try {
+        return await lead.planner.synthesizeResults(
+          task,
+          contributions,
+          withUsagePhase(options, 'synthesize')
+        );
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn(
+          'Synthesis failed, returning the individual answers:',
+          error
+        );
+      }
+    }
+
+    return contributions
+      .map(
+        contribution =>
+          `### ${contribution.agentName}\n\n${contribution.content}`
+      )
+      .join('\n\n');
+  }
+
+  private async runAgent(
+    agent: ReasoningAgent,
+    input: UserInput,
+    session: ChatSession | undefined,
+    options: RequestOptions
+  ): Promise<AgentResponse> {
+    const plan =
+      agent instanceof BaseAgent
+        ? await agent.preparePlan(input, session, options)
+        : await agent.plan(await agent.analyze(input, [], options), options);
+
+    // Plans that need approval wait for the user instead of running
+    if (plan.requiresApproval) {
+      throw new ApprovalRequiredError(agent.id, input, plan);
+    }
+
+    return this.runApprovedPlan(agent, plan, options);
+  }
+
+  private async runApprovedPlan(
+    agent: ReasoningAgent,
+    plan: ActionPlan,
+    options: RequestOptions
+  ): Promise<AgentResponse> {
+    return agent instanceof BaseAgent
+      ? agent.runPlan(plan, options)
+      : agent.execute(plan, options);
+  }
+
+  private scoreAgent(
+    text: string,
+    info: AgentInfo
+  ): { score: number; matched: string[] } {
+    let score = 0;
+    const matched: string[] = [];
+    const seenWords = new Set<string>();
+
+    for (const capability of info.capabilities) {
+      const phrase = capability.replace(/-/g, ' ');
+      if (text.includes(` ${phrase} `)) {
+        score += 2;
+        matched.push(capability);
+        phrase.split(' ').forEach(word => seenWords.add(word));
+        continue;
+      }
+
+      for (const word of phrase.split(' ')) {
+        if (
+          word.length > 2 &&
+          !seenWords.has(word) &&
+          containsTerm(text, word)
+        ) {
+          score += 1;
+          seenWords.add(word);
+          if (!matched.includes(capability)) {
+            matched.push(capability);
+          }
+        }
+      }
+    }
+
+    for (const keyword of info.keywords ?? []) {
+      if (!seenWords.has(keyword) && containsTerm(text, keyword)) {
+        score += 1;
+        seenWords.add(keyword);
+      }
+    }
+
+    return { score, matched };
+  }
+
+  private async getOrResolveAgent(agentId: string): Promise<ReasoningAgent> {
+    const existing = this.agents.get(agentId);
+    if (existing) {
+      return existing;
+    }
+
+    if (!this.resolveAgent) {
+      throw new Error(`Agent ${agentId} is not registered`);
+    }
+
+    try {
+      const agent = await this.resolveAgent(agentId);
+      this.registerAgent(agent);
+      return agent;
+    } catch (error) {
+      this.agentErrors.add(agentId);
+      throw error;
+    }
+  }
+}
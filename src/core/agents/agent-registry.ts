@@ -1,4 +1,5 @@
-import { ReasoningAgent, ModelProvider, ModelConfig } from '../types';
+import { ReasoningAgent, ModelProvider, ModelConfig, StorageAdapter, AgentConfig } from '../types';
+import { BaseAgent } from './base-agent';
 import { GeneralAssistantAgent } from './general-assistant';
 import { NutritionAgent } from './nutrition-agent';
 
@@ -7,6 +8,8 @@ export interface AgentInfo {
   name: string;
   description: string;
   capabilities: string[];
+  keywords?: string[]; // Extra domain terms used for automatic routing
+  localOnly?: boolean; // Never fall back to remote providers with this agent's data
   category: string;
   icon: string;
 }
@@ -14,6 +17,8 @@ export interface AgentInfo {
 export class AgentRegistry {
   private agents: Map<string, ReasoningAgent> = new Map();
   private agentFactories: Map<string, (provider: ModelProvider, config: ModelConfig) => ReasoningAgent> = new Map();
+  private storage?: StorageAdapter;
+  private agentSettings: Record<string, AgentConfig['customSettings']> = {};
 
   constructor() {
     this.registerAgentFactories();
@@ -30,6 +35,21 @@ export class AgentRegistry {
     );
   }
 
+  /**
+   * Set the storage adapter used to persist agent memory
+   */
+  setStorage(storage: StorageAdapter): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Set the custom settings, keyed by agent id, that agents are configured
+   * with when they are created
+   */
+  setAgentSettings(settings: Record<string, AgentConfig['customSettings']>): void {
+    this.agentSettings = settings;
+  }
+
   /**
    * Get list of available agent types
    */
@@ -64,8 +84,28 @@ export class AgentRegistry {
           'recipe-suggestions',
           'shopping-lists'
         ],
+        keywords: [
+          'nutrition',
+          'diet',
+          'food',
+          'calorie',
+          'protein',
+          'carb',
+          'vitamin',
+          'vegan',
+          'vegetarian',
+          'breakfast',
+          'lunch',
+          'dinner',
+          'snack',
+          'eat',
+          'cook',
+          'grocer'
+        ],
         category: 'Health & Wellness',
-        icon: '🥗'
+        icon: '🥗',
+        // Health details stay on local models unless a remote one is chosen
+        localOnly: true
       }
     ];
   }
@@ -91,6 +131,15 @@ export class AgentRegistry {
     }
 
     const agent = factory(provider, config);
+    if (agent instanceof BaseAgent) {
+      if (this.storage) {
+        agent.setStorage(this.storage);
+      }
+      const settings = this.agentSettings[agentId];
+      if (settings) {
+        agent.configure(settings);
+      }
+    }
     await agent.initialize();
 
     // Store the initialized agent
@@ -99,6 +148,16 @@ export class AgentRegistry {
     return agent;
   }
 
+  /**
+   * Reload the memory of a running agent after it was changed in storage
+   */
+  async reloadMemory(agentId: string, userId: string): Promise<void> {
+    const agent = this.agents.get(agentId);
+    if (agent instanceof BaseAgent && agent.memory.userId === userId) {
+      await agent.reloadMemory();
+    }
+  }
+
   /**
    * Get agent info by ID
    */
@@ -120,6 +179,13 @@ export class AgentRegistry {
     return Array.from(this.agents.keys());
   }
 
+  /**
+   * Get the running instance of an agent, if it has been initialized
+   */
+  getActiveAgent(agentId: string): ReasoningAgent | undefined {
+    return this.agents.get(agentId);
+  }
+
   /**
    * Check if an agent type is available
    */
@@ -135,5 +201,34 @@ export class AgentRegistry {
   }
 }
 
+/**
+ * Read agent custom settings from a JSON object keyed by agent id, as set
+ * in POLARIS_AGENT_SETTINGS
+ */
+export const parseAgentSettings = (
+  json: string | undefined
+): Record<string, AgentConfig['customSettings']> => {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of agent settings');
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, AgentConfig['customSettings']] =>
+          !!entry[1] && typeof entry[1] === 'object' && !Array.isArray(entry[1])
+      )
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid agent settings config:', error);
+    return {};
+  }
+};
+
 // Singleton instance
 export const agentRegistry = new AgentRegistry();
@@ -9,8 +9,39 @@ import {
   LongTermMemory,
   Tool,
   ModelConfig,
-  ModelProvider
+  ModelProvider,
+  ChatSession,
+  ChatMessage,
+  StorageAdapter,
+  RequestOptions,
+  Memory,
+  EmbeddingResult,
+  AgentConfig,
+  UserFeedback
 } from '../types';
+import { withArgumentValidation } from '../tools/tool-validation';
+import { isAbortError } from '../utils/abort';
+import { createUniqueId } from '../utils/type-factories';
+import { withUsagePhase } from '../models/usage';
+import { EmbeddingsUnsupportedError, ProviderError } from '../models/provider-errors';
+import { VectorIndex } from '../memory/vector-index';
+import { queueMemoryUpdate } from '../memory/memory-updates';
+import {
+  MemoryPolicy,
+  buildConsolidationPrompt,
+  createSummaryMemory,
+  findMemoryClusters,
+  parseMemoryPolicy,
+  reinforceMemory,
+  selectMemoriesToKeep
+} from '../memory/consolidation';
+import {
+  CORRECTION_TAG,
+  RATING_IMPORTANCE_STEP,
+  buildPreferencePrompt,
+  createPreferenceSchema,
+  getFeedbackSentiment
+} from './feedback-learning';
 
 export abstract class BaseAgent implements ReasoningAgent {
   public readonly id: string;
@@ -21,7 +52,16 @@ export abstract class BaseAgent implements ReasoningAgent {
 
   protected modelProvider: ModelProvider;
   protected modelConfig: ModelConfig;
+  protected storage?: StorageAdapter;
   protected isInitialized = false;
+  // Number of previous session messages fed into the reasoning pipeline
+  protected historyLimit = 10;
+  // Memories recalled into the prompts for each input, and how similar they must be
+  protected memoryRecallLimit = 5;
+  protected memoryMinSimilarity = 0.4;
+  private memoryIndex = new VectorIndex<Memory>();
+  protected memoryPolicy: MemoryPolicy = parseMemoryPolicy();
+  private consolidation?: Promise<unknown>;
 
   public planner: TaskPlanner;
   public memory: LongTermMemory;
@@ -82,35 +122,140 @@ export abstract class BaseAgent implements ReasoningAgent {
     // Override in subclasses to add specific tools
   }
 
+  /**
+   * Persist memory through the given storage adapter. Must be called before
+   * initialize() for stored memory to be loaded.
+   */
+  setStorage(storage: StorageAdapter): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Apply an agent's custom settings; the memory policy is read from `memory`
+   */
+  configure(customSettings: AgentConfig['customSettings']): void {
+    this.memoryPolicy = parseMemoryPolicy(customSettings);
+  }
+
   protected async loadMemory(): Promise<void> {
     // Override in subclasses to load specific memory patterns
+    await queueMemoryUpdate(this.id, this.memory.userId, () => this.syncMemory());
+
+    // Memories added or edited by the user arrive without embeddings
+    const unembedded = this.memory.memories.filter(memory => !memory.embedding);
+    const embedded = unembedded.length > 0
+      ? await this.embedTexts(unembedded.map(memory => memory.content))
+      : undefined;
+    if (embedded) {
+      await this.changeMemory(() => {
+        unembedded.forEach(({ id, content }, index) => {
+          // Skip memories the user changed again while they were embedded
+          const memory = this.memory.memories.find(item => item.id === id && item.content === content);
+          if (memory && !memory.embedding) {
+            memory.embedding = embedded.embeddings[index];
+            memory.embeddingModel = embedded.model;
+          }
+        });
+      });
+    }
   }
 
-  async analyze(input: UserInput): Promise<Analysis> {
+  /**
+   * Replace the agent's memory with the stored one. Stored values win,
+   * defaults from createMemory() fill in new keys.
+   */
+  private async syncMemory(): Promise<void> {
+    const stored = await this.storage?.loadMemory(this.id, this.memory.userId);
+    if (stored) {
+      this.memory = {
+        ...this.memory,
+        memories: stored.memories,
+        patterns: { ...this.memory.patterns, ...stored.patterns },
+        preferences: { ...this.memory.preferences, ...stored.preferences },
+        pendingConsolidation: stored.pendingConsolidation,
+      };
+    }
+    this.indexMemories();
+  }
+
+  private indexMemories(): void {
+    this.memoryIndex.clear();
+    for (const memory of this.memory.memories) {
+      if (memory.embedding) {
+        this.memoryIndex.add(memory.id, memory.embedding, memory);
+      }
+    }
+  }
+
+  /**
+   * Change the agent's memory and save it. Changes wait for the edits made
+   * through the memory manager and apply to the stored memory, so neither
+   * side overwrites the other.
+   */
+  private changeMemory<T>(change: () => T): Promise<T> {
+    return queueMemoryUpdate(this.id, this.memory.userId, async () => {
+      if (this.storage) {
+        await this.syncMemory();
+      }
+      const result = change();
+      this.indexMemories();
+      await this.storage?.saveMemory(this.memory);
+      return result;
+    });
+  }
+
+  /**
+   * Load memory again after it was changed in storage, e.g. by the user
+   */
+  async reloadMemory(): Promise<void> {
+    await this.loadMemory();
+  }
+
+  async analyze(input: UserInput, history: string[] = [], options: RequestOptions = {}): Promise<Analysis> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    return await this.planner.analyzeTask(input);
+    const analyzeOptions = withUsagePhase(options, 'analyze');
+    const memories = await this.recallMemories(input.content, analyzeOptions);
+    const analysis = await this.planner.analyzeTask(
+      input,
+      history,
+      analyzeOptions,
+      memories.map(memory => memory.content)
+    );
+
+    // Preferences, learned from feedback or the agent's defaults, shape the response
+    const result = Object.keys(this.memory.preferences).length > 0
+      ? { ...analysis, preferences: { ...this.memory.preferences } }
+      : analysis;
+    options.onEvent?.({ type: 'analysis', analysis: result });
+    return result;
   }
 
-  async plan(analysis: Analysis): Promise<ActionPlan> {
+  async plan(analysis: Analysis, options: RequestOptions = {}): Promise<ActionPlan> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    return await this.planner.createPlan(analysis);
+    const plan = await this.planner.createPlan(analysis, withUsagePhase(options, 'plan'));
+    options.onEvent?.({ type: 'plan', plan });
+    return plan;
   }
 
-  async execute(plan: ActionPlan): Promise<AgentResponse> {
+  async execute(plan: ActionPlan, options: RequestOptions = {}): Promise<AgentResponse> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    return await this.planner.executePlan(plan);
+    return await this.planner.executePlan(plan, withUsagePhase(options, 'execute'));
   }
 
-  async reflect(response: AgentResponse): Promise<LearningUpdate> {
+  async reflect(response: AgentResponse, userFeedback?: UserFeedback): Promise<LearningUpdate> {
+    if (userFeedback) {
+      return this.learnFromFeedback(response, userFeedback);
+    }
+
     // Analyze the response and generate learning updates
     const patterns: Record<string, unknown> = {};
     const preferences: Record<string, unknown> = {};
@@ -131,52 +276,326 @@ export abstract class BaseAgent implements ReasoningAgent {
   }
 
   protected async updateMemory(response: AgentResponse): Promise<void> {
-    // Add to memory system
-    this.memory.memories.push({
-      id: `memory_${Date.now()}`,
+    await this.storeMemory({
+      id: createUniqueId('memory'),
       content: response.content,
       timestamp: response.timestamp,
       importance: response.confidence,
       tags: ['response', this.id],
-      embedding: undefined // Would be populated with actual embeddings
+      responseId: response.id
     });
+  }
 
-    // Keep only recent memories (simple implementation)
-    if (this.memory.memories.length > 100) {
-      this.memory.memories = this.memory.memories
-        .sort((a, b) => b.importance - a.importance)
-        .slice(0, 100);
+  /**
+   * Add a new memory, evicting the least important ones once there are too
+   * many and consolidating once enough have been added
+   */
+  protected async storeMemory(memory: Memory): Promise<void> {
+    const embedded = await this.embedTexts([memory.content]);
+    if (embedded) {
+      memory.embedding = embedded.embeddings[0];
+      memory.embeddingModel = embedded.model;
     }
+
+    const pending = await this.changeMemory(() => {
+      // Add to memory system; the count is stored so it survives the agent
+      this.memory.memories.push(memory);
+      this.memory.pendingConsolidation = (this.memory.pendingConsolidation ?? 0) + 1;
+
+      // Evict the least important memories, pinned ones excepted
+      this.memory.memories = selectMemoriesToKeep(this.memory.memories, this.memoryPolicy);
+      return this.memory.pendingConsolidation;
+    });
+
+    const { consolidateEvery } = this.memoryPolicy;
+    if (consolidateEvery > 0 && pending >= consolidateEvery && !this.consolidation) {
+      // Runs off the response path, so the response does not wait for the model
+      this.consolidation = this.consolidateMemories()
+        .catch(error => console.warn(`Agent ${this.id} could not save consolidated memories:`, error))
+        .finally(() => {
+          this.consolidation = undefined;
+        });
+    }
+  }
+
+  /**
+   * Resolves when a consolidation started by a new memory has finished
+   */
+  async whenConsolidated(): Promise<void> {
+    await this.consolidation;
+  }
+
+  /**
+   * Learn from the user's feedback on a response: a rating moves the
+   * importance of the response's memory, and a correction is remembered
+   * and may change the user's preferences
+   */
+  protected async learnFromFeedback(response: AgentResponse, feedback: UserFeedback): Promise<LearningUpdate> {
+    const sentiment = getFeedbackSentiment(feedback);
+    const correction = feedback.correction?.trim();
+    const preferences = correction ? await this.learnPreferences(response, correction) : {};
+
+    await this.changeMemory(() => {
+      const rated = this.memory.memories.find(memory => memory.responseId === response.id);
+      if (rated && feedback.rating) {
+        const step = feedback.rating === 'up' ? RATING_IMPORTANCE_STEP : -RATING_IMPORTANCE_STEP;
+        rated.importance = Math.min(1, Math.max(0, rated.importance + step));
+      }
+      this.memory.preferences = { ...this.memory.preferences, ...preferences };
+    });
+
+    if (correction) {
+      await this.storeMemory({
+        id: createUniqueId('memory'),
+        content: `The user corrected a response: ${correction}`,
+        timestamp: feedback.timestamp,
+        importance: 1,
+        tags: [CORRECTION_TAG, this.id],
+        responseId: response.id
+      });
+    }
+
+    return {
+      patterns: {},
+      preferences,
+      feedback: sentiment,
+      context: `User gave ${sentiment} feedback on response ${response.id} from agent ${this.id}`
+    };
   }
 
-  async processInput(input: UserInput): Promise<AgentResponse> {
+  /**
+   * Ask the model which preferences a correction changes. Only known
+   * preferences are changed, and a failed request changes none.
+   */
+  private async learnPreferences(response: AgentResponse, correction: string): Promise<Record<string, unknown>> {
+    const schema = createPreferenceSchema(this.memory.preferences);
+    if (Object.keys(schema.properties ?? {}).length === 0) {
+      return {};
+    }
+
     try {
-      // Full reasoning pipeline
-      const analysis = await this.analyze(input);
-      const plan = await this.plan(analysis);
-      const response = await this.execute(plan);
+      const changes = await this.modelProvider.generateStructured<Record<string, unknown>>(
+        buildPreferencePrompt(response, correction, this.memory.preferences),
+        schema,
+        this.modelConfig,
+        { name: 'preference_changes' }
+      );
+      return Object.fromEntries(
+        Object.entries(changes).filter(([key]) => key in (schema.properties ?? {}))
+      );
+    } catch (error) {
+      console.warn(`Agent ${this.id} could not learn preferences from feedback:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Summarise each cluster of related memories into a single memory that
+   * replaces it. A cluster the model fails to summarise is left as it is.
+   * Returns the number of summaries created.
+   */
+  protected async consolidateMemories(): Promise<number> {
+    const memories = await this.changeMemory(() => {
+      this.memory.pendingConsolidation = 0;
+      return this.memory.memories;
+    });
+    let created = 0;
+
+    for (const cluster of findMemoryClusters(memories, this.memoryPolicy)) {
+      let content: string;
+      try {
+        content = (await this.generateResponse(buildConsolidationPrompt(cluster))).trim();
+      } catch (error) {
+        console.warn(`Agent ${this.id} could not consolidate memories:`, error);
+        continue;
+      }
+      if (!content) {
+        continue;
+      }
+
+      const summary = createSummaryMemory(createUniqueId('memory'), content, cluster, this.memoryPolicy);
+      const embedded = await this.embedTexts([content]);
+      if (embedded) {
+        summary.embedding = embedded.embeddings[0];
+        summary.embeddingModel = embedded.model;
+      }
+
+      const replaced = await this.changeMemory(() => {
+        // A cluster the user edited while it was summarised is left as it is
+        const unchanged = cluster.every(item =>
+          this.memory.memories.some(memory => memory.id === item.id && memory.content === item.content)
+        );
+        if (unchanged) {
+          const clusterIds = new Set(cluster.map(item => item.id));
+          this.memory.memories = [
+            ...this.memory.memories.filter(item => !clusterIds.has(item.id)),
+            summary
+          ];
+        }
+        return unchanged;
+      });
+      if (replaced) {
+        created++;
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * The stored memories most similar to `query`, each reinforced against
+   * decay. Only memories embedded by the same model as the query can be
+   * compared.
+   */
+  protected async recallMemories(query: string, options: RequestOptions = {}): Promise<Memory[]> {
+    if (this.memoryIndex.size === 0 || this.memoryRecallLimit <= 0) {
+      return [];
+    }
+
+    const embedded = await this.embedTexts([query], options);
+    if (!embedded) {
+      return [];
+    }
+
+    const recalled = this.memoryIndex
+      .search(embedded.embeddings[0], {
+        limit: this.memoryRecallLimit,
+        minScore: this.memoryMinSimilarity,
+        filter: memory => memory.embeddingModel === embedded.model
+      })
+      .map(match => match.item.id);
+    if (recalled.length === 0) {
+      return [];
+    }
+
+    // Reinforcements are saved, so the memory's next change keeps them
+    return this.changeMemory(() =>
+      recalled.flatMap(id => {
+        const memory = this.memory.memories.find(item => item.id === id);
+        return memory ? [reinforceMemory(memory, this.memoryPolicy)] : [];
+      })
+    );
+  }
+
+  /**
+   * Embed texts with the agent's provider. Without embeddings, memories are
+   * still stored but not recalled.
+   */
+  protected async embedTexts(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult | undefined> {
+    try {
+      return await this.modelProvider.embed(texts, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      if (!(error instanceof EmbeddingsUnsupportedError)) {
+        console.warn(`Agent ${this.id} could not compute embeddings:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Format the last `historyLimit` messages of a session as prompt lines
+   */
+  protected buildConversationHistory(session?: ChatSession): string[] {
+    if (!session || this.historyLimit <= 0) {
+      return [];
+    }
+
+    return session.messages
+      .slice(-this.historyLimit)
+      .map(message =>
+        'agentId' in message
+          ? `Assistant: ${message.content}`
+          : `User: ${message.content}`
+      );
+  }
+
+  /**
+   * Analyse the input and plan a response without executing the plan
+   */
+  async preparePlan(input: UserInput, session?: ChatSession, options: RequestOptions = {}): Promise<ActionPlan> {
+    const analysis = await this.analyze(input, this.buildConversationHistory(session), options);
+    return this.plan(analysis, options);
+  }
+
+  /**
+   * Execute a plan and learn from the result. Cancelled requests and provider
+   * failures reject with their error instead of returning an error response.
+   */
+  async runPlan(plan: ActionPlan, options: RequestOptions = {}): Promise<AgentResponse> {
+    try {
+      const response = await this.execute(plan, options);
 
       // Learn from this interaction
       await this.reflect(response);
 
       return response;
     } catch (error) {
-      console.error(`Error processing input in agent ${this.id}:`, error);
-
-      // Return error response
-      return {
-        id: `error_${Date.now()}`,
-        agentId: this.id,
-        content: `I encountered an error while processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        timestamp: new Date(),
-        type: 'text',
-        confidence: 0,
-        metadata: { error: true },
-        reasoning: 'Error occurred during processing'
-      };
+      if (isAbortError(error) || error instanceof ProviderError) {
+        throw error;
+      }
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Stream the response to a plan
+   */
+  async streamPlan(plan: ActionPlan, options: RequestOptions = {}): Promise<AsyncIterable<string>> {
+    return this.planner.streamExecution(plan, withUsagePhase(options, 'execute'));
+  }
+
+  async processInput(input: UserInput, session?: ChatSession, options: RequestOptions = {}): Promise<AgentResponse> {
+    try {
+      // Full reasoning pipeline
+      const plan = await this.preparePlan(input, session, options);
+      return await this.runPlan(plan, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return this.createErrorResponse(error);
+    }
+  }
+
+  async streamUserInput(input: UserInput, session?: ChatSession, options: RequestOptions = {}): Promise<AsyncIterable<string>> {
+    // Use the proper reasoning pipeline for streaming
+    try {
+      const plan = await this.preparePlan(input, session, options);
+
+      // Use the planner's streaming execution
+      return await this.streamPlan(plan, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Fallback to simple streaming if reasoning pipeline fails
+      console.warn(
+        'Streaming reasoning pipeline failed, falling back to simple response:',
+        error
+      );
+      const prompt = `User: ${input.content}\n\nProvide a helpful response.`;
+      return this.streamResponse(prompt, withUsagePhase(options, 'execute'));
     }
   }
 
+  private createErrorResponse(error: unknown): AgentResponse {
+    console.error(`Error processing input in agent ${this.id}:`, error);
+
+    return {
+      id: `error_${Date.now()}`,
+      agentId: this.id,
+      content: `I encountered an error while processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timestamp: new Date(),
+      type: 'text',
+      confidence: 0,
+      metadata: { error: true },
+      reasoning: 'Error occurred during processing'
+    };
+  }
+
   async cleanup(): Promise<void> {
     // Cleanup resources
     console.log(`Agent ${this.id} cleaning up`);
@@ -193,21 +612,33 @@ export abstract class BaseAgent implements ReasoningAgent {
     };
   }
 
+  /**
+   * Register a tool; its arguments are validated against its schema on every call
+   */
   addTool(tool: Tool): void {
-    this.tools.push(tool);
+    this.tools.push(withArgumentValidation(tool));
   }
 
   getTool(id: string): Tool | undefined {
     return this.tools.find(tool => tool.id === id);
   }
 
-  protected async generateResponse(prompt: string): Promise<string> {
-    const fullPrompt = `${this.systemPrompt}\n\n${prompt}`;
-    return await this.modelProvider.generateResponse(fullPrompt, this.modelConfig);
+  /**
+   * Build chat messages with the agent's system prompt as the system message
+   */
+  protected buildMessages(prompt: string): ChatMessage[] {
+    return [
+      { role: 'system', content: this.systemPrompt },
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  protected async generateResponse(prompt: string, options: RequestOptions = {}): Promise<string> {
+    const completion = await this.modelProvider.generateChat(this.buildMessages(prompt), this.modelConfig, options);
+    return completion.content;
   }
 
-  protected async streamResponse(prompt: string): Promise<AsyncIterable<string>> {
-    const fullPrompt = `${this.systemPrompt}\n\n${prompt}`;
-    return this.modelProvider.streamResponse(fullPrompt, this.modelConfig);
+  protected async streamResponse(prompt: string, options: RequestOptions = {}): Promise<AsyncIterable<string>> {
+    return this.modelProvider.streamChat(this.buildMessages(prompt), this.modelConfig, options);
   }
 }
@@ -7,72 +7,240 @@ import {
   AgentResponse,
   ModelProvider,
   ModelConfig,
+  ChatMessage,
+  Tool,
+  JsonSchema,
+  CollaboratorInfo,
+  AgentContribution,
+  RequestOptions,
 } from '../types';
+import {
+  runToolLoop,
+  streamToolLoop,
+  ToolExecutionRecord,
+} from '../tools/tool-calling';
+import {
+  executePlanSteps,
+  PlanValidationError,
+  StepOutcome,
+  StepResult,
+} from './plan-executor';
+import {
+  PROMPT_PRIORITY,
+  PromptSection,
+  assemblePrompt,
+  getPromptBudget,
+} from './prompt-assembler';
+import { ProviderError } from '../models/provider-errors';
+import { isAbortError } from '../utils/abort';
+import { estimateMessageTokens } from '../utils/tokens';
+import { formatPreferences } from './feedback-learning';
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string', minLength: 1 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    entities: { type: 'object' },
+    context: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string' },
+        complexity: { type: 'string', enum: ['low', 'medium', 'high'] },
+        urgency: { type: 'string', enum: ['low', 'medium', 'high'] },
+      },
+    },
+  },
+  required: ['intent', 'confidence', 'entities', 'context'],
+};
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          action: { type: 'string', minLength: 1 },
+          parameters: { type: 'object', default: {} },
+          dependencies: {
+            type: 'array',
+            items: { type: 'string' },
+            default: [],
+          },
+          estimatedDuration: { type: 'number', minimum: 0, default: 1 },
+        },
+        required: ['id', 'action'],
+      },
+    },
+    estimatedDuration: { type: 'number', minimum: 0, default: 1 },
+    requiresApproval: { type: 'boolean', default: false },
+  },
+  required: ['steps'],
+};
+
+const DECOMPOSITION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          agentId: { type: 'string' },
+          task: { type: 'string' },
+          dependencies: {
+            type: 'array',
+            items: { type: 'string' },
+            default: [],
+          },
+        },
+        required: ['task'],
+      },
+    },
+  },
+  required: ['steps'],
+};
 
 export class BasicTaskPlanner implements TaskPlanner {
   private modelProvider: ModelProvider;
   private modelConfig: ModelConfig;
   private agentId: string;
   private systemPrompt: string;
+  private tools: Tool[];
+  private maxToolIterations = 5;
   private static counter = 0;
 
   constructor(
     modelProvider: ModelProvider,
     modelConfig: ModelConfig,
     agentId: string,
-    systemPrompt: string
+    systemPrompt: string,
+    tools: Tool[] = []
   ) {
     this.modelProvider = modelProvider;
     this.modelConfig = modelConfig;
     this.agentId = agentId;
     this.systemPrompt = systemPrompt;
+    // Shared with the agent, so tools registered after construction are visible
+    this.tools = tools;
   }
 
-  private extractJsonFromResponse(response: string): unknown {
-    // Remove thinking tags
-    let cleaned = response.replace(/<think>[\s\S]*?<\/think>/g, '');
-
-    // Remove markdown code blocks and extract JSON
-    const jsonBlockMatch = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (jsonBlockMatch) {
-      cleaned = jsonBlockMatch[1];
+  private formatConversation(conversation: string): string {
+    if (!conversation) {
+      return '';
     }
 
-    // Remove any remaining markdown formatting
-    cleaned = cleaned.replace(/```[\s\S]*?```/g, '');
+    return `
+Conversation so far:
+${conversation}
+`;
+  }
 
-    // Find JSON object in the response (handle multiple line JSON)
-    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleaned = jsonMatch[0];
+  private formatMemories(memories: string): string {
+    if (!memories) {
+      return '';
     }
 
-    // Clean up extra whitespace
-    cleaned = cleaned.trim();
+    return `
+Relevant things you remember from earlier conversations:
+${memories}
+`;
+  }
 
-    // If still no valid JSON structure, try to find it in the original response
-    if (!cleaned.startsWith('{') || !cleaned.endsWith('}')) {
-      const fallbackMatch = response.match(/\{[\s\S]*?\}/);
-      if (fallbackMatch) {
-        cleaned = fallbackMatch[0];
-      }
+  private formatPreferences(preferences?: Record<string, unknown>): string {
+    const lines = formatPreferences(preferences);
+    if (!lines) {
+      return '';
     }
 
-    try {
-      return JSON.parse(cleaned);
-    } catch (parseError) {
-      console.error('Failed to parse JSON from response:', response);
-      console.error('Cleaned content:', cleaned);
-      throw new Error(
-        `Invalid JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-      );
-    }
+    return `
+The user's preferences for your responses:
+${lines}
+`;
+  }
+
+  private memoriesSection(memories: string[] = []): PromptSection {
+    return {
+      content: memories.map(memory => `- ${memory}`).join('\n'),
+      priority: PROMPT_PRIORITY.memories,
+    };
+  }
+
+  private historySection(history: string[] = []): PromptSection {
+    return {
+      content: history.join('\n'),
+      priority: PROMPT_PRIORITY.history,
+      keep: 'end',
+    };
+  }
+
+  private resultsSection(results: StepResult[]): PromptSection {
+    return {
+      content: this.formatStepResults(results),
+      priority: PROMPT_PRIORITY.toolResults,
+    };
   }
 
-  async analyzeTask(input: UserInput): Promise<Analysis> {
-    const analysisPrompt = `
-${this.systemPrompt}
+  /**
+   * Render a prompt that fits the model's context window alongside its
+   * output, shortening the lowest priority sections first
+   */
+  private async fitPrompt<K extends string>(
+    sections: Record<K, PromptSection>,
+    render: (parts: Record<K, string>) => string,
+    reservedTokens = 0,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const budget = getPromptBudget(
+      await this.modelProvider.getContextLength(options),
+      this.modelConfig.maxTokens
+    );
+
+    return assemblePrompt(sections, render, budget - reservedTokens).prompt;
+  }
+
+  // Tokens taken by the system message sent ahead of a chat prompt
+  private systemMessageTokens(): number {
+    return estimateMessageTokens([
+      { role: 'system', content: this.systemPrompt },
+    ]);
+  }
+
+  // Structured requests take a single prompt; the system prompt goes with
+  // the config so the provider sends it as the system message
+  private structuredConfig(): ModelConfig {
+    return { ...this.modelConfig, systemPrompt: this.systemPrompt };
+  }
+
+  private formatToolsForPlanning(): string {
+    if (this.tools.length === 0) {
+      return '';
+    }
+
+    return `
+To call a tool directly in a step, set "tool" to its id and "arguments" to its arguments in the step parameters. Available tools:
+${this.tools.map(tool => `- ${tool.id}: ${tool.description}`).join('\n')}
+`;
+  }
 
+  async analyzeTask(
+    input: UserInput,
+    history: string[] = [],
+    options: RequestOptions = {},
+    memories: string[] = []
+  ): Promise<Analysis> {
+    const analysisPrompt = await this.fitPrompt(
+      {
+        memories: this.memoriesSection(memories),
+        history: this.historySection(history),
+      },
+      parts => `
+${this.formatMemories(parts.memories)}${this.formatConversation(parts.history)}
 Please analyze the following user input and provide a structured analysis:
 
 User Input: "${input.content}"
@@ -90,48 +258,37 @@ Provide an analysis in the following JSON format:
     "domain": "what domain or area this relates to",
     "complexity": "low|medium|high",
     "urgency": "low|medium|high"
-  },
-  "previousConversation": ["relevant context from previous messages if any"]
+  }
 }
 
 Return only the JSON object, no additional text.
-`;
-
-    try {
-      const response = await this.modelProvider.generateResponse(
-        analysisPrompt,
-        this.modelConfig
-      );
-      const analysis = this.extractJsonFromResponse(response) as Record<
-        string,
-        unknown
-      >;
-
-      return {
-        intent: (analysis.intent as string) || 'Unknown intent',
-        confidence: (analysis.confidence as number) || 0.5,
-        entities: (analysis.entities as Record<string, unknown>) || {},
-        context: (analysis.context as Record<string, unknown>) || {},
-        previousConversation: (analysis.previousConversation as string[]) || [],
-      };
-    } catch (error) {
-      console.error('Error analyzing task:', error);
-
-      // Fallback analysis
-      return {
-        intent: 'General assistance request',
-        confidence: 0.3,
-        entities: {},
-        context: { domain: 'general', complexity: 'medium', urgency: 'medium' },
-        previousConversation: [],
-      };
-    }
+`,
+      this.systemMessageTokens(),
+      options
+    );
+
+    const analysis = await this.modelProvider.generateStructured<
+      Omit<Analysis, 'previousConversation'>
+    >(analysisPrompt, ANALYSIS_SCHEMA, this.structuredConfig(), {
+      ...options,
+      name: 'task_analysis',
+    });
+
+    return {
+      ...analysis,
+      previousConversation: history,
+      ...(memories.length > 0 && { relevantMemories: memories }),
+    };
   }
 
-  async createPlan(analysis: Analysis): Promise<ActionPlan> {
-    const planningPrompt = `
-${this.systemPrompt}
-
+  async createPlan(
+    analysis: Analysis,
+    options: RequestOptions = {}
+  ): Promise<ActionPlan> {
+    const planningPrompt = await this.fitPrompt(
+      { history: this.historySection(analysis.previousConversation) },
+      parts => `
+${this.formatConversation(parts.history)}
 Based on the following analysis, create a detailed action plan:
 
 Analysis:
@@ -142,7 +299,6 @@ Analysis:
 
 Create a step-by-step action plan in the following JSON format:
 {
-  "id": "unique_plan_id",
   "steps": [
     {
       "id": "step_1",
@@ -150,7 +306,7 @@ Create a step-by-step action plan in the following JSON format:
       "parameters": {
         "key": "value"
       },
-      "dependencies": [],
+      "dependencies": ["ids of earlier steps whose results this step needs"],
       "estimatedDuration": minutes_as_number
     }
   ],
@@ -158,60 +314,169 @@ Create a step-by-step action plan in the following JSON format:
   "requiresApproval": boolean_if_action_needs_user_approval
 }
 
+Use a single step for simple requests. Steps that do not depend on each other are executed in parallel.
+Set "requiresApproval" to true only when a step acts on the user's behalf in a way they should confirm first, such as sending messages, spending money or deleting data. The plan is then shown to the user before it runs.
+${this.formatToolsForPlanning()}
 Return only the JSON object, no additional text.
-`;
+`,
+      this.systemMessageTokens(),
+      options
+    );
+
+    const plan = await this.modelProvider.generateStructured<
+      Omit<ActionPlan, 'id' | 'analysis'>
+    >(planningPrompt, PLAN_SCHEMA, this.structuredConfig(), {
+      ...options,
+      name: 'action_plan',
+    });
+
+    return {
+      ...plan,
+      id: `plan_${Date.now()}_${++BasicTaskPlanner.counter}`,
+      analysis,
+    };
+  }
 
-    try {
-      const response = await this.modelProvider.generateResponse(
-        planningPrompt,
-        this.modelConfig
-      );
-      const plan = this.extractJsonFromResponse(response) as Record<
-        string,
-        unknown
-      >;
+  /**
+   * Split a task into steps and assign each step to one of the collaborators
+   */
+  async decomposeTask(
+    task: string,
+    collaborators: CollaboratorInfo[],
+    options: RequestOptions = {}
+  ): Promise<ActionPlan> {
+    const decompositionPrompt = `
+You are leading a team of agents. Split the user's request into self-contained steps and assign each step to the best agent.
 
-      return {
-        id: (plan.id as string) || `plan_${Date.now()}`,
-        steps: (plan.steps as ActionStep[]) || [
-          {
-            id: 'default_step',
-            action: 'Provide helpful response',
-            parameters: {},
-            dependencies: [],
-            estimatedDuration: 1,
-          },
-        ],
-        estimatedDuration: (plan.estimatedDuration as number) || 1,
-        requiresApproval: (plan.requiresApproval as boolean) || false,
-      };
-    } catch (error) {
-      console.error('Error creating plan:', error);
+Available agents:
+${collaborators.map(agent => `- ${agent.id}: ${agent.name} - ${agent.description} (capabilities: ${agent.capabilities.join(', ')})`).join('\n')}
 
-      // Fallback plan
-      return {
-        id: `fallback_plan_${Date.now()}_${++BasicTaskPlanner.counter}`,
-        steps: [
-          {
-            id: 'fallback_step',
-            action: 'Provide general assistance',
-            parameters: { intent: analysis.intent },
-            dependencies: [],
-            estimatedDuration: 2,
-          },
-        ],
-        estimatedDuration: 2,
-        requiresApproval: false,
-      };
+User request: "${task}"
+
+Respond in the following JSON format:
+{
+  "steps": [
+    {
+      "id": "step_1",
+      "agentId": "id of the agent that should handle this step",
+      "task": "complete instruction for that agent, including any details from the request it needs",
+      "dependencies": ["ids of steps whose results this step needs"]
+    }
+  ]
+}
+
+Use as few steps as possible and only the agent ids listed above.
+Return only the JSON object, no additional text.
+`;
+
+    const decomposition = await this.modelProvider.generateStructured<{
+      steps: {
+        id?: string;
+        agentId?: string;
+        task: string;
+        dependencies: string[];
+      }[];
+    }>(decompositionPrompt, DECOMPOSITION_SCHEMA, this.structuredConfig(), {
+      ...options,
+      name: 'task_decomposition',
+    });
+
+    const knownIds = new Set(collaborators.map(agent => agent.id));
+    const steps: ActionStep[] = decomposition.steps
+      .filter(step => step.task.trim())
+      .map((step, index) => ({
+        id: step.id || `step_${index + 1}`,
+        action: step.task,
+        parameters: {
+          task: step.task,
+          // Unknown agents are left unassigned for the caller to route
+          ...(step.agentId &&
+            knownIds.has(step.agentId) && { agentId: step.agentId }),
+        },
+        dependencies: step.dependencies,
+        estimatedDuration: 1,
+      }));
+
+    if (steps.length === 0) {
+      throw new Error('Task decomposition returned no steps');
     }
+
+    return {
+      id: `plan_${Date.now()}_${++BasicTaskPlanner.counter}`,
+      steps,
+      estimatedDuration: steps.length,
+      requiresApproval: false,
+    };
   }
 
-  async executePlan(plan: ActionPlan): Promise<AgentResponse> {
-    const executionPrompt = `
-${this.systemPrompt}
+  /**
+   * Combine the answers of several agents into a single reply
+   */
+  async synthesizeResults(
+    task: string,
+    contributions: AgentContribution[],
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const prompt = await this.fitPrompt(
+      {
+        contributions: {
+          content: contributions
+            .map(
+              contribution =>
+                `### ${contribution.agentName}: ${contribution.task}\n${contribution.content}`
+            )
+            .join('\n\n'),
+          priority: PROMPT_PRIORITY.toolResults,
+        },
+      },
+      parts => `Several specialist agents worked on parts of this request:
+"${task}"
+
+${parts.contributions}
+
+Combine their work into one coherent answer for the user. Keep the useful details, resolve overlaps or conflicts between the parts, and do not mention the agents or this process.`,
+      this.systemMessageTokens(),
+      options
+    );
+    const { content } = await this.modelProvider.generateChat(
+      [
+        { role: 'system', content: this.systemPrompt },
+        { role: 'user', content: prompt },
+      ],
+      this.modelConfig,
+      options
+    );
+
+    return content;
+  }
 
-User request: ${plan.steps.map(step => step.parameters.intent || step.action).join(', ')}
+  private formatStepResults(results: StepResult[]): string {
+    return results
+      .map(result =>
+        result.status === 'completed'
+          ? `[${result.stepId}] ${result.action}\n${result.output}`
+          : `[${result.stepId}] ${result.action}\n(${result.status}: ${result.error})`
+      )
+      .join('\n\n');
+  }
 
+  private buildExecutionInstructions(
+    parts: { memories: string; history: string; results: string },
+    plan: ActionPlan,
+    withTools: boolean
+  ): string {
+    const results = parts.results
+      ? `
+Results of the steps carried out for this request:
+${parts.results}
+
+Base your response on these results.
+`
+      : '';
+
+    return `${this.formatMemories(parts.memories)}${this.formatConversation(parts.history)}
+User request: ${plan.steps.map(step => step.parameters.intent || step.action).join(', ')}
+${results}${this.formatPreferences(plan.analysis?.preferences)}
 Please provide a helpful, conversational response to the user. Be friendly, direct, and genuinely useful.
 
 Do not include:
@@ -220,17 +485,239 @@ Do not include:
 - Internal processing information
 - Formal structure unless needed
 
-Just respond naturally and helpfully to what the user is asking for.
-`;
+Just respond naturally and helpfully to what the user is asking for, taking the conversation so far into account.
+${withTools ? '\nUse the available tools when they help answer accurately.\n' : ''}`;
+  }
+
+  private async buildExecutionMessages(
+    plan: ActionPlan,
+    withTools = false,
+    stepResults: StepResult[] = [],
+    options: RequestOptions = {}
+  ): Promise<ChatMessage[]> {
+    const instructions = await this.fitPrompt(
+      {
+        memories: this.memoriesSection(plan.analysis?.relevantMemories),
+        history: this.historySection(plan.analysis?.previousConversation),
+        results: this.resultsSection(stepResults),
+      },
+      parts => this.buildExecutionInstructions(parts, plan, withTools),
+      this.systemMessageTokens(),
+      options
+    );
+    return [
+      { role: 'system', content: this.systemPrompt },
+      { role: 'user', content: instructions },
+    ];
+  }
+
+  private async generateExecution(
+    plan: ActionPlan,
+    stepResults: StepResult[],
+    options: RequestOptions
+  ): Promise<{ content: string; toolCalls: ToolExecutionRecord[] }> {
+    if (this.tools.length === 0) {
+      const { content } = await this.modelProvider.generateChat(
+        await this.buildExecutionMessages(plan, false, stepResults, options),
+        this.modelConfig,
+        options
+      );
+      return { content, toolCalls: [] };
+    }
+
+    return runToolLoop(
+      this.modelProvider,
+      await this.buildExecutionMessages(plan, true, stepResults, options),
+      this.tools,
+      this.modelConfig,
+      this.maxToolIterations,
+      options
+    );
+  }
+
+  /**
+   * Execute one plan step. Steps naming a registered tool call it directly;
+   * other steps ask the model, with the outputs of their dependencies.
+   */
+  private async runStep(
+    plan: ActionPlan,
+    step: ActionStep,
+    dependencyResults: StepResult[],
+    options: RequestOptions
+  ): Promise<StepOutcome> {
+    const { tool: toolId, arguments: args, ...details } = step.parameters;
+    const tool = this.tools.find(candidate => candidate.id === toolId);
+
+    if (tool) {
+      const toolArguments =
+        args && typeof args === 'object' && !Array.isArray(args)
+          ? (args as Record<string, unknown>)
+          : {};
+      options.onEvent?.({
+        type: 'tool_call',
+        callId: step.id,
+        toolId: tool.id,
+        arguments: toolArguments,
+      });
+      const result = await tool.execute(toolArguments);
+      options.onEvent?.({
+        type: 'tool_result',
+        callId: step.id,
+        toolId: tool.id,
+        result,
+      });
+      return {
+        output: JSON.stringify(result),
+        toolCalls: [
+          {
+            callId: step.id,
+            toolId: tool.id,
+            arguments: toolArguments,
+            result,
+          },
+        ],
+      };
+    }
+
+    const goal =
+      plan.analysis?.intent || plan.steps.map(item => item.action).join(', ');
+    const prompt = await this.fitPrompt(
+      {
+        memories: this.memoriesSection(plan.analysis?.relevantMemories),
+        history: this.historySection(plan.analysis?.previousConversation),
+        results: this.resultsSection(dependencyResults),
+      },
+      parts => `${this.formatMemories(parts.memories)}${this.formatConversation(parts.history)}
+You are carrying out one step of a plan for this request: ${goal}
+
+Step: ${step.action}
+${Object.keys(details).length > 0 ? `Details: ${JSON.stringify(details)}\n` : ''}${
+        parts.results
+          ? `
+Results of the steps this one depends on:
+${parts.results}
+`
+          : ''
+      }
+Complete only this step. Your result is combined with the other steps before the user sees it, so focus on the content this step asks for.`,
+      this.systemMessageTokens(),
+      options
+    );
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.systemPrompt },
+      { role: 'user', content: prompt },
+    ];
+
+    if (this.tools.length === 0) {
+      const { content } = await this.modelProvider.generateChat(
+        messages,
+        this.modelConfig,
+        options
+      );
+      return { output: content };
+    }
+
+    const { content, toolCalls } = await runToolLoop(
+      this.modelProvider,
+      messages,
+      this.tools,
+      this.modelConfig,
+      this.maxToolIterations,
+      options
+    );
+    return { output: content, toolCalls };
+  }
+
+  /**
+   * Run the steps of multi-step plans in dependency order. Single-step plans
+   * are answered directly, as are plans whose steps cannot be ordered.
+   */
+  private async runPlanSteps(
+    plan: ActionPlan,
+    options: RequestOptions
+  ): Promise<{ stepResults: StepResult[]; planError?: string }> {
+    if (plan.steps.length < 2) {
+      return { stepResults: [] };
+    }
 
     try {
-      const response = await this.modelProvider.generateResponse(
-        executionPrompt,
-        this.modelConfig
+      const stepResults = await executePlanSteps(
+        plan.steps,
+        (step, dependencyResults) => {
+          options.onEvent?.({
+            type: 'step_start',
+            stepId: step.id,
+            action: step.action,
+          });
+          return this.runStep(plan, step, dependencyResults, options);
+        },
+        ({ stepId, action, status, output, error, durationMs }) =>
+          options.onEvent?.({
+            type: 'step_end',
+            stepId,
+            action,
+            status,
+            output,
+            error,
+            durationMs,
+          })
+      );
+      return { stepResults };
+    } catch (error) {
+      if (error instanceof PlanValidationError) {
+        console.warn(`Plan ${plan.id} cannot be executed step by step:`, error);
+        return { stepResults: [], planError: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private describeExecution(
+    stepResults: StepResult[],
+    toolCalls: ToolExecutionRecord[],
+    planError?: string
+  ): string {
+    const parts: string[] = [];
+
+    if (planError) {
+      parts.push(
+        `Answered directly because the plan is invalid (${planError}).`
       );
+    }
+    if (stepResults.length > 0) {
+      const completed = stepResults.filter(
+        result => result.status === 'completed'
+      ).length;
+      parts.push(
+        `Completed ${completed} of ${stepResults.length} steps in dependency order.`
+      );
+    }
+    if (toolCalls.length > 0) {
+      parts.push(
+        `Called ${toolCalls.length} tool(s): ${toolCalls.map(call => call.toolId).join(', ')}.`
+      );
+    }
+
+    return parts.length > 0
+      ? parts.join(' ')
+      : 'Successfully processed request using available knowledge.';
+  }
+
+  async executePlan(
+    plan: ActionPlan,
+    options: RequestOptions = {}
+  ): Promise<AgentResponse> {
+    try {
+      const { stepResults, planError } = await this.runPlanSteps(plan, options);
+      const { content: response, toolCalls: responseToolCalls } =
+        await this.generateExecution(plan, stepResults, options);
+      const toolCalls = [
+        ...stepResults.flatMap(result => result.toolCalls ?? []),
+        ...responseToolCalls,
+      ];
 
       // Calculate confidence based on plan complexity and execution
-      const confidence = this.calculateConfidence(plan, response);
+      const confidence = this.calculateConfidence(plan, response, stepResults);
 
       return {
         id: `response_${Date.now()}_${++BasicTaskPlanner.counter}`,
@@ -243,6 +730,9 @@ Just respond naturally and helpfully to what the user is asking for.
           planId: plan.id,
           stepsExecuted: plan.steps.length,
           estimatedDuration: plan.estimatedDuration,
+          ...(stepResults.length > 0 && { stepResults }),
+          ...(planError && { planError }),
+          ...(toolCalls.length > 0 && { toolCalls }),
         },
         reasoning: `🔍 Analysis: Processed user request and identified optimal response strategy.
 
@@ -251,11 +741,16 @@ ${plan.steps.map((step, i) => `  ${i + 1}. ${step.action}`).join('\n')}
 
 ⏱️ Estimation: Expected completion time of ${plan.estimatedDuration} minute(s).
 
-⚡ Execution: Successfully processed request using available tools and knowledge.
+⚡ Execution: ${this.describeExecution(stepResults, toolCalls, planError)}
 
 🎯 Confidence: ${Math.round(confidence * 100)}% based on plan clarity and execution success.`,
       };
     } catch (error) {
+      // Nobody is waiting for a fallback answer to a cancelled request, and
+      // provider failures are reported to the caller with their own status
+      if (isAbortError(error) || error instanceof ProviderError) {
+        throw error;
+      }
       console.error('Error executing plan:', error);
 
       // Fallback execution
@@ -276,7 +771,11 @@ ${plan.steps.map((step, i) => `  ${i + 1}. ${step.action}`).join('\n')}
     }
   }
 
-  private calculateConfidence(plan: ActionPlan, response: string): number {
+  private calculateConfidence(
+    plan: ActionPlan,
+    response: string,
+    stepResults: StepResult[] = []
+  ): number {
     let confidence = 0.7; // Base confidence
 
     // Adjust based on plan complexity
@@ -293,6 +792,14 @@ ${plan.steps.map((step, i) => `  ${i + 1}. ${step.action}`).join('\n')}
       confidence -= 0.1;
     }
 
+    // Adjust based on how many plan steps could not be completed
+    const incomplete = stepResults.filter(
+      result => result.status !== 'completed'
+    ).length;
+    if (incomplete > 0) {
+      confidence -= 0.2 * (incomplete / stepResults.length);
+    }
+
     // Adjust based on whether approval is required
     if (plan.requiresApproval) {
       confidence -= 0.1; // Less confident when approval is needed
@@ -302,29 +809,33 @@ ${plan.steps.map((step, i) => `  ${i + 1}. ${step.action}`).join('\n')}
     return Math.max(0, Math.min(1, confidence));
   }
 
-  async streamExecution(plan: ActionPlan): Promise<AsyncIterable<string>> {
-    const executionPrompt = `
-${this.systemPrompt}
-
-User request: ${plan.steps.map(step => step.parameters.intent || step.action).join(', ')}
-
-Please provide a helpful, conversational response to the user. Be friendly, direct, and genuinely useful.
-
-Do not include:
-- Plan IDs or execution details
-- Step-by-step breakdowns unless specifically requested
-- Internal processing information
-- Formal structure unless needed
-
-Just respond naturally and helpfully to what the user is asking for.
-`;
-
+  async streamExecution(
+    plan: ActionPlan,
+    options: RequestOptions = {}
+  ): Promise<AsyncIterable<string>> {
     try {
-      return this.modelProvider.streamResponse(
-        executionPrompt,
-        this.modelConfig
+      const { stepResults } = await this.runPlanSteps(plan, options);
+      if (this.tools.length === 0) {
+        return this.modelProvider.streamChat(
+          await this.buildExecutionMessages(plan, false, stepResults, options),
+          this.modelConfig,
+          options
+        );
+      }
+
+      // Offer the tools as the non-streaming execution does
+      return streamToolLoop(
+        this.modelProvider,
+        await this.buildExecutionMessages(plan, true, stepResults, options),
+        this.tools,
+        this.modelConfig,
+        this.maxToolIterations,
+        options
       );
     } catch (error) {
+      if (isAbortError(error) || error instanceof ProviderError) {
+        throw error;
+      }
       console.error('Error streaming execution:', error);
 
       // Return error as async iterable
@@ -0,0 +1,101 @@
+import {
+  AgentResponse,
+  JsonSchema,
+  LearningUpdate,
+  UserFeedback,
+} from '../types';
+import { truncateToTokens } from '../utils/tokens';
+
+// Tag of the memories that keep the user's corrections
+export const CORRECTION_TAG = 'correction';
+
+// How far a rating moves the importance of the rated response's memory
+export const RATING_IMPORTANCE_STEP = 0.2;
+
+// Enough of the response for the model to see what the feedback is about
+const RESPONSE_EXCERPT_TOKENS = 1_000;
+
+export const getFeedbackSentiment = (
+  feedback: UserFeedback
+): LearningUpdate['feedback'] => {
+  if (feedback.rating) {
+    return feedback.rating === 'up' ? 'positive' : 'negative';
+  }
+  // A correction on its own means the response missed something
+  return feedback.correction ? 'negative' : 'neutral';
+};
+
+const valueSchema = (value: unknown): JsonSchema | undefined => {
+  if (typeof value === 'string') return { type: 'string' };
+  if (typeof value === 'boolean') return { type: 'boolean' };
+  if (typeof value === 'number') return { type: 'number' };
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return { type: 'array', items: { type: 'string' } };
+  }
+  return undefined;
+};
+
+/**
+ * Schema for changes to the preferences an agent keeps. Only preferences
+ * with plain values can be learned, and each keeps its type.
+ */
+export const createPreferenceSchema = (
+  preferences: Record<string, unknown>
+): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(
+    Object.entries(preferences).flatMap(([key, value]) => {
+      const schema = valueSchema(value);
+      return schema ? [[key, schema]] : [];
+    })
+  ),
+  additionalProperties: false,
+});
+
+/**
+ * Prompt asking the model which preferences a correction changes
+ */
+export const buildPreferencePrompt = (
+  response: AgentResponse,
+  correction: string,
+  preferences: Record<string, unknown>
+): string => `A user corrected one of your responses. Work out whether the correction tells you how they want future responses to be.
+
+Your response:
+"""
+${truncateToTokens(response.content, RESPONSE_EXCERPT_TOKENS)}
+"""
+
+The user's correction: "${correction}"
+
+Current preferences:
+${Object.entries(preferences)
+  .map(([key, value]) => `- ${key}: ${JSON.stringify(value)}`)
+  .join('\n')}
+
+Return a JSON object with only the preferences that should change and their new values, keeping the style of the current values, e.g. {"responseLength": "short"}. Return {} if the correction is only about this response.
+
+Return only the JSON object, no additional text.`;
+
+// "responseLength" becomes "Response length"
+const humanize = (key: string): string => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+};
+
+/**
+ * Preferences as prompt lines, e.g. "- Response length: short"
+ */
+export const formatPreferences = (
+  preferences: Record<string, unknown> = {}
+): string =>
+  Object.entries(preferences)
+    .filter(([, value]) => valueSchema(value))
+    .map(([key, value]) => `- ${humanize(key)}: ${formatValue(value)}`)
+    .join('\n');
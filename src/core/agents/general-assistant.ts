@@ -96,7 +96,8 @@ Remember: You're designed to be a reasoning agent that thinks through problems s
       this.modelProvider,
       this.modelConfig,
       this.id,
-      this.systemPrompt
+      this.systemPrompt,
+      this.tools
     );
   }
 
@@ -107,11 +108,16 @@ Remember: You're designed to be a reasoning agent that thinks through problems s
       name: 'Text Analysis',
       description: 'Analyze text for sentiment, key points, and insights',
       parameters: {
-        text: { type: 'string', required: true },
-        analysisType: {
-          type: 'string',
-          enum: ['sentiment', 'summary', 'keywords'],
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: 'Text to analyze' },
+          analysisType: {
+            type: 'string',
+            enum: ['sentiment', 'summary', 'keywords'],
+            default: 'summary',
+          },
         },
+        required: ['text'],
       },
       execute: async params => {
         const { text, analysisType } = params;
@@ -125,8 +131,12 @@ Remember: You're designed to be a reasoning agent that thinks through problems s
       name: 'Brainstorming',
       description: 'Generate creative ideas and suggestions',
       parameters: {
-        topic: { type: 'string', required: true },
-        quantity: { type: 'number', default: 5 },
+        type: 'object',
+        properties: {
+          topic: { type: 'string', description: 'Topic to brainstorm on' },
+          quantity: { type: 'integer', minimum: 1, maximum: 20, default: 5 },
+        },
+        required: ['topic'],
       },
       execute: async params => {
         const { topic, quantity } = params;
@@ -140,11 +150,16 @@ Remember: You're designed to be a reasoning agent that thinks through problems s
       name: 'Step-by-Step Guide',
       description: 'Break down complex tasks into manageable steps',
       parameters: {
-        task: { type: 'string', required: true },
-        difficulty: {
-          type: 'string',
-          enum: ['beginner', 'intermediate', 'advanced'],
+        type: 'object',
+        properties: {
+          task: { type: 'string', description: 'Task to break down' },
+          difficulty: {
+            type: 'string',
+            enum: ['beginner', 'intermediate', 'advanced'],
+            default: 'beginner',
+          },
         },
+        required: ['task'],
       },
       execute: async params => {
         const { task, difficulty } = params;
@@ -156,8 +171,8 @@ Remember: You're designed to be a reasoning agent that thinks through problems s
 
   protected async loadMemory(): Promise<void> {
     // Load user-specific patterns and preferences
-    // In a real implementation, this would load from a database
     console.log(`Loading memory for general assistant ${this.id}`);
+    await super.loadMemory();
   }
 
   async processSpecializedInput(input: UserInput): Promise<AgentResponse> {
@@ -292,23 +307,4 @@ I'm your General Assistant, part of the Polaris AI system. Here's what I can hel
 Just ask me anything, and I'll do my best to help! I'm designed to be thoughtful, accurate, and genuinely useful.
 `;
   }
-
-  async streamUserInput(input: UserInput): Promise<AsyncIterable<string>> {
-    // Use the proper reasoning pipeline for streaming
-    try {
-      const analysis = await this.analyze(input);
-      const plan = await this.plan(analysis);
-
-      // Use the planner's streaming execution
-      return await this.planner.streamExecution(plan);
-    } catch (error) {
-      // Fallback to simple streaming if reasoning pipeline fails
-      console.warn(
-        'Streaming reasoning pipeline failed, falling back to simple response:',
-        error
-      );
-      const prompt = `User: ${input.content}\n\nProvide a helpful response.`;
-      return this.streamResponse(prompt);
-    }
-  }
 }
@@ -123,7 +123,8 @@ Remember: You provide educational nutrition information, not medical advice. Alw
       - Creating comprehensive meal plans
       - Calculating nutritional requirements
       - Generating shopping lists and meal prep instructions
-      - Providing educational nutrition information`
+      - Providing educational nutrition information`,
+      this.tools
     );
   }
 
@@ -134,12 +135,24 @@ Remember: You provide educational nutrition information, not medical advice. Alw
       name: 'Nutrition Calculator',
       description: 'Calculate calories, macros, and nutritional values',
       parameters: {
-        age: 'number',
-        gender: 'string',
-        weight: 'number',
-        height: 'number',
-        activityLevel: 'string',
-        goal: 'string', // 'lose', 'gain', 'maintain'
+        type: 'object',
+        properties: {
+          age: { type: 'number', description: 'Age in years', minimum: 1 },
+          gender: { type: 'string', enum: ['male', 'female'] },
+          weight: { type: 'number', description: 'Weight in kg', minimum: 1 },
+          height: { type: 'number', description: 'Height in cm', minimum: 1 },
+          activityLevel: {
+            type: 'string',
+            enum: ['sedentary', 'light', 'moderate', 'active', 'very-active'],
+            default: 'moderate',
+          },
+          goal: {
+            type: 'string',
+            enum: ['lose', 'gain', 'maintain'],
+            default: 'maintain',
+          },
+        },
+        required: ['age', 'gender', 'weight', 'height'],
       },
       execute: async (params: Record<string, unknown>) => {
         const { age, gender, weight, height, activityLevel, goal } = params;
@@ -204,10 +217,13 @@ Remember: You provide educational nutrition information, not medical advice. Alw
       name: 'Meal Timing Optimizer',
       description: 'Suggest optimal meal timing based on lifestyle and goals',
       parameters: {
-        wakeTime: 'string',
-        workoutTime: 'string',
-        workSchedule: 'string',
-        goal: 'string',
+        type: 'object',
+        properties: {
+          wakeTime: { type: 'string', description: 'e.g. 07:00' },
+          workoutTime: { type: 'string', description: 'e.g. 18:00' },
+          workSchedule: { type: 'string' },
+          goal: { type: 'string', description: 'e.g. muscle gain' },
+        },
       },
       execute: async (params: Record<string, unknown>) => {
         const {
@@ -235,7 +251,7 @@ Remember: You provide educational nutrition information, not medical advice. Alw
 
   protected async loadMemory(): Promise<void> {
     // Load user's nutrition preferences and history
-    // This would integrate with a persistence layer in a full implementation
+    await super.loadMemory();
   }
 
   async processSpecializedInput(input: UserInput): Promise<AgentResponse> {
@@ -0,0 +1,170 @@
+import { ActionStep } from '../types';
+import { ToolExecutionRecord } from '../tools/tool-calling';
+import { isAbortError } from '../utils/abort';
+
+export type StepStatus = 'completed' | 'failed' | 'skipped';
+
+export interface StepResult {
+  stepId: string;
+  action: string;
+  status: StepStatus;
+  dependencies: string[];
+  output?: string;
+  error?: string;
+  toolCalls?: ToolExecutionRecord[];
+  durationMs: number;
+}
+
+export interface StepOutcome {
+  output: string;
+  toolCalls?: ToolExecutionRecord[];
+}
+
+/**
+ * Runs a single step. Receives the results of the step's dependencies in
+ * the order they are listed on the step.
+ */
+export type StepRunner = (
+  step: ActionStep,
+  dependencyResults: StepResult[]
+) => Promise<StepOutcome>;
+
+/**
+ * Thrown when a plan's steps cannot be ordered: duplicate ids, dependencies
+ * on unknown steps or dependency cycles
+ */
+export class PlanValidationError extends Error {
+  readonly stepIds: string[];
+
+  constructor(message: string, stepIds: string[]) {
+    super(message);
+    this.name = 'PlanValidationError';
+    this.stepIds = stepIds;
+  }
+}
+
+const dependenciesOf = (step: ActionStep): string[] =>
+  Array.isArray(step.dependencies) ? step.dependencies : [];
+
+/**
+ * Sort steps so every step comes after the steps it depends on.
+ * Independent steps keep their original relative order.
+ */
+export const orderPlanSteps = (steps: ActionStep[]): ActionStep[] => {
+  const byId = new Map<string, ActionStep>();
+  for (const step of steps) {
+    if (byId.has(step.id)) {
+      throw new PlanValidationError(`Duplicate step id: ${step.id}`, [step.id]);
+    }
+    byId.set(step.id, step);
+  }
+
+  for (const step of steps) {
+    const missing = dependenciesOf(step).filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      throw new PlanValidationError(
+        `Step ${step.id} depends on unknown step(s): ${missing.join(', ')}`,
+        [step.id, ...missing]
+      );
+    }
+  }
+
+  // Kahn's algorithm, picking ready steps in plan order
+  const remaining = new Map(
+    steps.map(step => [step.id, new Set(dependenciesOf(step))])
+  );
+  const ordered: ActionStep[] = [];
+
+  while (remaining.size > 0) {
+    const ready = steps.find(step => remaining.get(step.id)?.size === 0);
+
+    if (!ready) {
+      const cycle = [...remaining.keys()];
+      throw new PlanValidationError(
+        `Dependency cycle between steps: ${cycle.join(', ')}`,
+        cycle
+      );
+    }
+
+    remaining.delete(ready.id);
+    remaining.forEach(dependencies => dependencies.delete(ready.id));
+    ordered.push(ready);
+  }
+
+  return ordered;
+};
+
+/**
+ * Execute plan steps in dependency order.
+ *
+ * Each step starts as soon as all of its dependencies have completed, so
+ * independent steps run concurrently. Steps whose dependencies failed are
+ * skipped. Results are returned in execution order; a cancelled request
+ * rejects with its abort error. `onStepEnd` sees each result as soon as
+ * its step finishes or is skipped.
+ */
+export const executePlanSteps = async (
+  steps: ActionStep[],
+  runStep: StepRunner,
+  onStepEnd?: (result: StepResult) => void
+): Promise<StepResult[]> => {
+  const ordered = orderPlanSteps(steps);
+  const pending = new Map<string, Promise<StepResult>>();
+
+  for (const step of ordered) {
+    const dependencies = dependenciesOf(step);
+    const base = { stepId: step.id, action: step.action, dependencies };
+
+    pending.set(
+      step.id,
+      (async (): Promise<StepResult> => {
+        // Dependencies were scheduled earlier because the steps are ordered
+        const dependencyResults = await Promise.all(
+          dependencies.map(id => pending.get(id) as Promise<StepResult>)
+        );
+
+        const unmet = dependencyResults.filter(
+          result => result.status !== 'completed'
+        );
+        if (unmet.length > 0) {
+          return {
+            ...base,
+            status: 'skipped',
+            error: `Dependency ${unmet.map(result => result.stepId).join(', ')} did not complete`,
+            durationMs: 0,
+          };
+        }
+
+        const startedAt = Date.now();
+        try {
+          const { output, toolCalls } = await runStep(step, dependencyResults);
+          return {
+            ...base,
+            status: 'completed',
+            output,
+            ...(toolCalls && toolCalls.length > 0 && { toolCalls }),
+            durationMs: Date.now() - startedAt,
+          };
+        } catch (error) {
+          // A cancelled request stops the whole plan, not just this step
+          if (isAbortError(error)) {
+            throw error;
+          }
+          return {
+            ...base,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Step failed',
+            durationMs: Date.now() - startedAt,
+          };
+        }
+      })().then(result => {
+        onStepEnd?.(result);
+        return result;
+      })
+    );
+  }
+
+  return Promise.all(
+    ordered.map(step => pending.get(step.id) as Promise<StepResult>)
+  );
+};
@@ -0,0 +1,96 @@
+import { estimateTokens, truncateToTokens } from '../utils/tokens';
+
+// Share of the context window left free because token counts are estimates
+const ESTIMATE_MARGIN = 0.1;
+
+/**
+ * Order in which optional prompt sections give way, lowest first
+ */
+export const PROMPT_PRIORITY = {
+  memories: 1,
+  history: 2,
+  toolResults: 3,
+} as const;
+
+export interface PromptSection {
+  content: string;
+  priority: number;
+  keep?: 'start' | 'end'; // The end that survives truncation, e.g. 'end' for the latest messages
+}
+
+export interface AssembledPrompt<K extends string> {
+  prompt: string;
+  tokens: number; // Estimated
+  truncated: K[]; // Sections that were shortened or left out
+}
+
+/**
+ * Tokens available for a prompt once the output has been set aside
+ */
+export const getPromptBudget = (
+  contextLength: number,
+  maxOutputTokens: number
+): number =>
+  Math.max(
+    0,
+    Math.floor(contextLength * (1 - ESTIMATE_MARGIN)) - maxOutputTokens
+  );
+
+/**
+ * Render a prompt within `budget` tokens. Optional sections are shortened,
+ * or left out, from the lowest priority up; everything else `render` adds,
+ * such as the system prompt and the user's input, is kept as is. A prompt
+ * that is too long even then is left for the provider to reject.
+ */
+export const assemblePrompt = <K extends string>(
+  sections: Record<K, PromptSection>,
+  render: (parts: Record<K, string>) => string,
+  budget: number
+): AssembledPrompt<K> => {
+  const keys = Object.keys(sections) as K[];
+  const parts = Object.fromEntries(
+    keys.map(key => [key, sections[key].content])
+  ) as Record<K, string>;
+
+  const full = render(parts);
+  const fullTokens = estimateTokens(full);
+  if (fullTokens <= budget) {
+    return { prompt: full, tokens: fullTokens, truncated: [] };
+  }
+
+  const empty = Object.fromEntries(keys.map(key => [key, ''])) as Record<
+    K,
+    string
+  >;
+  const sizes = keys.map(key => estimateTokens(sections[key].content));
+  let excess =
+    sizes.reduce((total, size) => total + size, 0) -
+    Math.max(0, budget - estimateTokens(render(empty)));
+
+  const truncated: K[] = [];
+  const byPriority = keys
+    .map((key, index) => ({ key, size: sizes[index] }))
+    .sort((a, b) => sections[a.key].priority - sections[b.key].priority);
+  for (const { key, size } of byPriority) {
+    if (excess <= 0) {
+      break;
+    }
+    if (size === 0) {
+      continue;
+    }
+
+    parts[key] =
+      size <= excess
+        ? ''
+        : truncateToTokens(
+            sections[key].content,
+            size - excess,
+            sections[key].keep
+          );
+    excess -= size;
+    truncated.push(key);
+  }
+
+  const prompt = render(parts);
+  return { prompt, tokens: estimateTokens(prompt), truncated };
+};
@@ -0,0 +1,224 @@
+import { Memory } from '../types';
+import { VectorIndex } from './vector-index';
+
+// Memories with this tag are never decayed, consolidated or evicted by default
+export const USER_FACT_TAG = 'user-fact';
+// Tag of the memories that replace a consolidated cluster
+export const SUMMARY_TAG = 'summary';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How an agent keeps its long-term memory in shape. Set per agent under
+ * `memory` in `AgentConfig.customSettings`.
+ */
+export interface MemoryPolicy {
+  maxMemories: number; // Memories kept once the least important are evicted
+  halfLifeDays: number; // Days for unused importance to halve; 0 turns decay off
+  reinforcement: number; // Importance added each time a memory is recalled
+  pinnedTags: string[]; // Memories with any of these tags are always kept as is
+  consolidateEvery: number; // New memories between consolidations; 0 turns it off
+  clusterSimilarity: number; // Cosine similarity for memories to be summarised together
+  minClusterSize: number;
+}
+
+export const DEFAULT_MEMORY_POLICY: MemoryPolicy = {
+  maxMemories: 100,
+  halfLifeDays: 30,
+  reinforcement: 0.1,
+  pinnedTags: [USER_FACT_TAG],
+  consolidateEvery: 20,
+  clusterSimilarity: 0.8,
+  minClusterSize: 3,
+};
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const POLICY_CHECKS: Record<keyof MemoryPolicy, (value: unknown) => boolean> = {
+  maxMemories: value => Number.isInteger(value) && isNonNegative(value),
+  halfLifeDays: isNonNegative,
+  reinforcement: value => isNonNegative(value) && value <= 1,
+  pinnedTags: value =>
+    Array.isArray(value) && value.every(tag => typeof tag === 'string'),
+  consolidateEvery: value => Number.isInteger(value) && isNonNegative(value),
+  clusterSimilarity: value =>
+    typeof value === 'number' && value > 0 && value <= 1,
+  minClusterSize: value => Number.isInteger(value) && (value as number) >= 2,
+};
+
+/**
+ * Read a memory policy from the `memory` entry of an agent's custom
+ * settings. Invalid values fall back to the defaults.
+ */
+export const parseMemoryPolicy = (
+  customSettings: Record<string, unknown> = {}
+): MemoryPolicy => {
+  const settings = customSettings.memory;
+  if (settings === undefined) {
+    return { ...DEFAULT_MEMORY_POLICY };
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    console.warn('Ignoring invalid memory policy config:', settings);
+    return { ...DEFAULT_MEMORY_POLICY };
+  }
+
+  const policy = { ...DEFAULT_MEMORY_POLICY };
+  for (const [key, value] of Object.entries(settings)) {
+    const check = POLICY_CHECKS[key as keyof MemoryPolicy];
+    if (check?.(value)) {
+      Object.assign(policy, { [key]: value });
+    } else {
+      console.warn(`Ignoring invalid memory policy setting ${key}:`, value);
+    }
+  }
+  return policy;
+};
+
+export const isPinned = (memory: Memory, policy: MemoryPolicy): boolean =>
+  memory.tags.some(tag => policy.pinnedTags.includes(tag));
+
+/**
+ * Importance after decay since the memory was last stored or recalled.
+ * Pinned memories do not decay.
+ */
+export const getEffectiveImportance = (
+  memory: Memory,
+  policy: MemoryPolicy,
+  now = Date.now()
+): number => {
+  if (policy.halfLifeDays <= 0 || isPinned(memory, policy)) {
+    return memory.importance;
+  }
+
+  const lastUsed = new Date(memory.lastAccessed ?? memory.timestamp).getTime();
+  const ageDays = Math.max(0, now - lastUsed) / DAY_MS;
+  return memory.importance * Math.pow(0.5, ageDays / policy.halfLifeDays);
+};
+
+/**
+ * Record a recall of `memory` in place: the decay so far is settled and
+ * the importance raised by the policy's reinforcement, up to 1
+ */
+export const reinforceMemory = (
+  memory: Memory,
+  policy: MemoryPolicy,
+  now = Date.now()
+): Memory => {
+  memory.importance = Math.min(
+    1,
+    getEffectiveImportance(memory, policy, now) + policy.reinforcement
+  );
+  memory.lastAccessed = new Date(now);
+  memory.accessCount = (memory.accessCount ?? 0) + 1;
+  return memory;
+};
+
+/**
+ * The memories to keep under the policy's limit: every pinned memory, then
+ * the rest by effective importance. The original order is preserved.
+ */
+export const selectMemoriesToKeep = (
+  memories: Memory[],
+  policy: MemoryPolicy,
+  now = Date.now()
+): Memory[] => {
+  if (memories.length <= policy.maxMemories) {
+    return memories;
+  }
+
+  const pinned = memories.filter(memory => isPinned(memory, policy));
+  const ranked = memories
+    .filter(memory => !isPinned(memory, policy))
+    .map(memory => ({
+      memory,
+      importance: getEffectiveImportance(memory, policy, now),
+    }))
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, Math.max(0, policy.maxMemories - pinned.length));
+
+  const kept = new Set([...pinned, ...ranked.map(({ memory }) => memory)]);
+  return memories.filter(memory => kept.has(memory));
+};
+
+/**
+ * Groups of related memories to summarise, oldest memory first in each.
+ * Pinned memories and memories without embeddings are left alone.
+ */
+export const findMemoryClusters = (
+  memories: Memory[],
+  policy: MemoryPolicy
+): Memory[][] => {
+  const candidates = memories
+    .filter(memory => memory.embedding && !isPinned(memory, policy))
+    .sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+  const index = new VectorIndex<Memory>();
+  for (const memory of candidates) {
+    index.add(memory.id, memory.embedding!, memory);
+  }
+
+  const clusters: Memory[][] = [];
+  for (const seed of candidates) {
+    if (index.size < policy.minClusterSize) {
+      break;
+    }
+    if (!index.remove(seed.id)) {
+      continue; // Already part of a cluster
+    }
+
+    const related = index
+      .search(seed.embedding!, {
+        limit: index.size,
+        minScore: policy.clusterSimilarity,
+        filter: memory => memory.embeddingModel === seed.embeddingModel,
+      })
+      .map(match => match.item);
+    if (related.length + 1 < policy.minClusterSize) {
+      continue;
+    }
+
+    const cluster = [seed, ...related].sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    related.forEach(memory => index.remove(memory.id));
+    clusters.push(cluster);
+  }
+
+  return clusters;
+};
+
+/**
+ * Prompt asking the model to merge a cluster of memories into one fact
+ */
+export const buildConsolidationPrompt = (memories: Memory[]): string =>
+  `Summarise these related memories into one compact fact that keeps every detail worth remembering, such as names, numbers, preferences and decisions. Leave out small talk.
+
+Memories, oldest first:
+${memories.map(memory => `- ${memory.content}`).join('\n')}
+
+Reply with the summary only.`;
+
+/**
+ * The memory that replaces a summarised cluster. It is as important as the
+ * most important memory in it and keeps their tags.
+ */
+export const createSummaryMemory = (
+  id: string,
+  content: string,
+  cluster: Memory[],
+  policy: MemoryPolicy,
+  now = Date.now()
+): Memory => ({
+  id,
+  content,
+  timestamp: new Date(now),
+  importance: Math.max(
+    ...cluster.map(memory => getEffectiveImportance(memory, policy, now))
+  ),
+  tags: [...new Set([...cluster.flatMap(memory => memory.tags), SUMMARY_TAG])],
+});
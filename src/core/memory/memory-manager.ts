@@ -0,0 +1,249 @@
+import { LongTermMemory, Memory, StorageAdapter } from '../types';
+import { createUniqueId } from '../utils/type-factories';
+import { createStorageAdapter } from '../storage';
+import { sessionManager } from '../sessions/session-manager';
+import { USER_FACT_TAG } from './consolidation';
+import { queueMemoryUpdate } from './memory-updates';
+
+// Memories added by hand matter more than what an agent picks up itself
+const DEFAULT_IMPORTANCE = 0.8;
+
+/**
+ * A memory as shown to users; embeddings are left out
+ */
+export type MemoryEntry = Omit<Memory, 'embedding'> & { pinned: boolean };
+
+export interface MemoryChanges {
+  content?: string;
+  importance?: number;
+  tags?: string[];
+  pinned?: boolean; // Adds or removes the user fact tag
+}
+
+export class MemoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryValidationError';
+  }
+}
+
+type MemoryListener = (memory: LongTermMemory) => Promise<void> | void;
+
+/**
+ * Lets users see and correct what an agent remembers about them. Changes
+ * are saved to storage in turn with the agents' own saves; agents that are
+ * running reload their memory through the change listener.
+ */
+export class MemoryManager {
+  private storage: StorageAdapter;
+  private listeners: MemoryListener[] = [];
+
+  constructor(storage: StorageAdapter = createStorageAdapter()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Be told whenever an agent's memory is changed through the manager
+   */
+  onChange(listener: MemoryListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * List an agent's memories of a user, newest first. With a query, only
+   * memories whose content or tags contain every word of it are listed.
+   */
+  async listMemories(
+    agentId: string,
+    userId: string,
+    query?: string
+  ): Promise<MemoryEntry[]> {
+    const memory = await this.load(agentId, userId);
+    const words = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    return memory.memories
+      .filter(item => {
+        const text = [item.content, ...item.tags].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      )
+      .map(toEntry);
+  }
+
+  /**
+   * Add a memory. It is embedded by the agent once the agent reloads.
+   */
+  async addMemory(
+    agentId: string,
+    userId: string,
+    changes: MemoryChanges
+  ): Promise<MemoryEntry> {
+    validateChanges(changes);
+    if (!changes.content?.trim()) {
+      throw new MemoryValidationError('content is required');
+    }
+
+    const item = applyChanges(
+      {
+        id: createUniqueId('memory'),
+        content: '',
+        timestamp: new Date(),
+        importance: DEFAULT_IMPORTANCE,
+        tags: [],
+      },
+      changes
+    );
+    await this.update(agentId, userId, memory => {
+      memory.memories.push(item);
+      return true;
+    });
+
+    return toEntry(item);
+  }
+
+  /**
+   * Change a memory. Returns null if the agent has no such memory.
+   */
+  async updateMemory(
+    agentId: string,
+    userId: string,
+    memoryId: string,
+    changes: MemoryChanges
+  ): Promise<MemoryEntry | null> {
+    validateChanges(changes);
+    if (changes.content !== undefined && !changes.content.trim()) {
+      throw new MemoryValidationError('content cannot be empty');
+    }
+
+    let item: Memory | undefined;
+    await this.update(agentId, userId, memory => {
+      const index = memory.memories.findIndex(entry => entry.id === memoryId);
+      if (index === -1) {
+        return false;
+      }
+
+      item = applyChanges({ ...memory.memories[index] }, changes);
+      memory.memories[index] = item;
+      return true;
+    });
+
+    return item ? toEntry(item) : null;
+  }
+
+  /**
+   * Forget a memory. Returns false if the agent has no such memory.
+   */
+  async deleteMemory(
+    agentId: string,
+    userId: string,
+    memoryId: string
+  ): Promise<boolean> {
+    return this.update(agentId, userId, memory => {
+      const remaining = memory.memories.filter(item => item.id !== memoryId);
+      if (remaining.length === memory.memories.length) {
+        return false;
+      }
+
+      memory.memories = remaining;
+      return true;
+    });
+  }
+
+  private async load(agentId: string, userId: string): Promise<LongTermMemory> {
+    return (
+      (await this.storage.loadMemory(agentId, userId)) ?? {
+        agentId,
+        userId,
+        memories: [],
+        patterns: {},
+        preferences: {},
+      }
+    );
+  }
+
+  /**
+   * Load, change and save an agent's memory of a user in turn with other
+   * changes to it. `change` returns whether it changed anything; listeners
+   * are told after the save, outside the queue, as agents reload through them.
+   */
+  private async update(
+    agentId: string,
+    userId: string,
+    change: (memory: LongTermMemory) => boolean
+  ): Promise<boolean> {
+    const saved = await queueMemoryUpdate(agentId, userId, async () => {
+      const memory = await this.load(agentId, userId);
+      if (!change(memory)) {
+        return null;
+      }
+
+      await this.storage.saveMemory(memory);
+      return memory;
+    });
+    if (!saved) {
+      return false;
+    }
+
+    for (const listener of this.listeners) {
+      await listener(saved);
+    }
+    return true;
+  }
+}
+
+const toEntry = (memory: Memory): MemoryEntry => {
+  const { embedding: _embedding, ...entry } = memory;
+  return { ...entry, pinned: memory.tags.includes(USER_FACT_TAG) };
+};
+
+const validateChanges = (changes: MemoryChanges): void => {
+  if (changes.content !== undefined && typeof changes.content !== 'string') {
+    throw new MemoryValidationError('content must be a string');
+  }
+  if (
+    changes.importance !== undefined &&
+    (typeof changes.importance !== 'number' ||
+      changes.importance < 0 ||
+      changes.importance > 1)
+  ) {
+    throw new MemoryValidationError('importance must be between 0 and 1');
+  }
+  if (
+    changes.tags !== undefined &&
+    (!Array.isArray(changes.tags) ||
+      changes.tags.some(tag => typeof tag !== 'string'))
+  ) {
+    throw new MemoryValidationError('tags must be an array of strings');
+  }
+  if (changes.pinned !== undefined && typeof changes.pinned !== 'boolean') {
+    throw new MemoryValidationError('pinned must be a boolean');
+  }
+};
+
+const applyChanges = (memory: Memory, changes: MemoryChanges): Memory => {
+  if (changes.content !== undefined && changes.content !== memory.content) {
+    memory.content = changes.content.trim();
+    // The agent embeds the new content when it reloads
+    delete memory.embedding;
+    delete memory.embeddingModel;
+  }
+  if (changes.importance !== undefined) {
+    memory.importance = changes.importance;
+    // Decay starts over from the importance the user set
+    memory.lastAccessed = new Date();
+  }
+  if (changes.tags !== undefined) {
+    memory.tags = [...new Set(changes.tags)];
+  }
+  if (changes.pinned !== undefined) {
+    const tags = memory.tags.filter(tag => tag !== USER_FACT_TAG);
+    memory.tags = changes.pinned ? [...tags, USER_FACT_TAG] : tags;
+  }
+  return memory;
+};
+
+// Singleton instance, sharing storage with chat sessions
+export const memoryManager = new MemoryManager(sessionManager.getStorage());
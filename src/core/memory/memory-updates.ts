@@ -0,0 +1,28 @@
+// Latest update of each agent's memory of a user; updates wait for the one
+// before them
+const updates: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Run a change of an agent's stored memory of a user once the changes queued
+ * before it have finished. The memory manager and the agents share the
+ * queue, so a load-modify-save on one side does not undo the other's.
+ */
+export function queueMemoryUpdate<T>(
+  agentId: string,
+  userId: string,
+  run: () => Promise<T>
+): Promise<T> {
+  const key = `${agentId}__${userId}`;
+  const previous = updates.get(key) ?? Promise.resolve();
+  const result = previous.then(run);
+  const settled = result.catch(() => undefined);
+  updates.set(key, settled);
+
+  void settled.then(() => {
+    if (updates.get(key) === settled) {
+      updates.delete(key);
+    }
+  });
+
+  return result;
+}
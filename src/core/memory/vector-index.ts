@@ -0,0 +1,80 @@
+export interface VectorMatch<T> {
+  id: string;
+  item: T;
+  score: number; // Cosine similarity to the query
+}
+
+export interface VectorSearchOptions<T> {
+  limit: number;
+  minScore?: number;
+  filter?: (item: T) => boolean;
+}
+
+interface VectorEntry<T> {
+  vector: number[];
+  norm: number;
+  item: T;
+}
+
+/**
+ * In-memory vector index searched exhaustively by cosine similarity, which
+ * is fast enough for a few thousand entries
+ */
+export class VectorIndex<T> {
+  private entries = new Map<string, VectorEntry<T>>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add an entry, replacing any entry with the same id
+   */
+  add(id: string, vector: number[], item: T): void {
+    this.entries.set(id, { vector, norm: this.norm(vector), item });
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * The `limit` entries most similar to `query`, best first
+   */
+  search(query: number[], options: VectorSearchOptions<T>): VectorMatch<T>[] {
+    const queryNorm = this.norm(query);
+    if (queryNorm === 0 || options.limit <= 0) {
+      return [];
+    }
+
+    const matches: VectorMatch<T>[] = [];
+    for (const [id, entry] of this.entries) {
+      if (
+        entry.vector.length !== query.length ||
+        entry.norm === 0 ||
+        (options.filter && !options.filter(entry.item))
+      ) {
+        continue;
+      }
+
+      let dot = 0;
+      for (let i = 0; i < query.length; i++) {
+        dot += query[i] * entry.vector[i];
+      }
+      const score = dot / (queryNorm * entry.norm);
+      if (score >= (options.minScore ?? -1)) {
+        matches.push({ id, item: entry.item, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+
+  private norm(vector: number[]): number {
+    return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  }
+}
@@ -0,0 +1,386 @@
+import { BaseModelProvider } from './base-provider';
+import {
+  ModelConfig,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  RequestOptions,
+  ToolCall,
+  TokenUsage,
+} from '../types';
+import {
+  AuthenticationError,
+  ContentFilterError,
+  ProviderError,
+  RateLimitError,
+  TransientNetworkError,
+} from './provider-errors';
+import { createTokenUsage } from './usage';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+const API_VERSION = '2023-06-01';
+
+export class AnthropicProvider extends BaseModelProvider {
+  private baseUrl = 'https://api.anthropic.com/v1';
+  private defaultModel = 'claude-sonnet-4-5';
+  private discoveredModels: string[] = [];
+
+  // Used until the model list has been fetched from the API
+  private static readonly AVAILABLE_MODELS = [
+    'claude-sonnet-4-5',
+    'claude-haiku-4-5',
+    'claude-opus-4-1',
+  ];
+
+  constructor(model: string = 'claude-sonnet-4-5', baseUrl?: string) {
+    super('anthropic', 'Anthropic', 'remote');
+    this.defaultModel = model;
+    if (baseUrl) {
+      this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+  }
+
+  getAvailableModels(): string[] {
+    return this.discoveredModels.length > 0
+      ? [...this.discoveredModels]
+      : [...AnthropicProvider.AVAILABLE_MODELS];
+  }
+
+  setModel(modelName: string): void {
+    this.defaultModel = modelName;
+  }
+
+  getCurrentModel(): string {
+    return this.defaultModel;
+  }
+
+  async authenticate(apiKey?: string): Promise<boolean> {
+    if (!apiKey) {
+      this.isAuthenticated = false;
+      return false;
+    }
+
+    try {
+      const response = await this.request(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(apiKey),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        this.discoveredModels = (data.data || []).map(
+          (model: { id: string }) => model.id
+        );
+        this.apiKey = apiKey;
+        this.isAuthenticated = true;
+        return true;
+      }
+
+      this.isAuthenticated = false;
+      return false;
+    } catch (error) {
+      console.error('Anthropic authentication error:', error);
+      this.isAuthenticated = false;
+      return false;
+    }
+  }
+
+  async generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletion> {
+    const tools = options.tools || [];
+    const { responseFormat } = options;
+    if (!this.isAuthenticated || !this.apiKey) {
+      throw new AuthenticationError(
+        'Anthropic provider not authenticated',
+        this.id
+      );
+    }
+
+    this.validateConfig(config);
+
+    const response = await this.request(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: this.buildHeaders(this.apiKey),
+      body: JSON.stringify({
+        ...this.buildRequestBody(messages, config),
+        ...(tools.length > 0 && {
+          tools: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+        }),
+        // The Messages API has no JSON mode, so structured output is
+        // requested as a forced call to a tool whose input is the schema
+        ...(responseFormat && {
+          tools: [
+            {
+              name: responseFormat.name,
+              description: 'Reply with a JSON object matching this schema',
+              input_schema: responseFormat.schema,
+            },
+          ],
+          tool_choice: { type: 'tool', name: responseFormat.name },
+        }),
+      }),
+    });
+
+    const data = await response.json();
+    const blocks: AnthropicContentBlock[] = data.content;
+    const usage = data.usage
+      ? createTokenUsage(data.usage.input_tokens, data.usage.output_tokens)
+      : undefined;
+    this.reportUsage(usage, this.defaultModel, options);
+
+    if (data.stop_reason === 'refusal') {
+      throw new ContentFilterError(
+        'Anthropic declined to answer this request',
+        this.id
+      );
+    }
+
+    if (responseFormat) {
+      const output = blocks.find(block => block.type === 'tool_use');
+      return {
+        content:
+          output?.type === 'tool_use' ? JSON.stringify(output.input) : '',
+        toolCalls: [],
+        ...(usage && { usage }),
+      };
+    }
+
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        name: block.name,
+        arguments: block.input || {},
+      }));
+    const content = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    return { content, toolCalls, ...(usage && { usage }) };
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: RequestOptions = {}
+  ): AsyncIterable<string> {
+    if (!this.isAuthenticated || !this.apiKey) {
+      throw new AuthenticationError(
+        'Anthropic provider not authenticated',
+        this.id
+      );
+    }
+
+    this.validateConfig(config);
+
+    const response = await this.request(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: this.buildHeaders(this.apiKey),
+      body: JSON.stringify({
+        ...this.buildRequestBody(messages, config),
+        stream: true,
+      }),
+    });
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    // Input tokens arrive with message_start, output tokens with message_delta
+    let usage: TokenUsage | undefined;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // SSE events can be split across chunks, so keep the partial line
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+
+          let event;
+          try {
+            event = JSON.parse(line.slice(6));
+          } catch (_e) {
+            continue; // Skip invalid JSON
+          }
+
+          if (event.type === 'error') {
+            throw this.createStreamError(event.error);
+          }
+          if (event.type === 'message_start' && event.message?.usage) {
+            usage = createTokenUsage(event.message.usage.input_tokens, 0);
+          }
+          if (event.type === 'message_delta' && event.usage) {
+            usage = createTokenUsage(
+              usage?.promptTokens ?? event.usage.input_tokens,
+              event.usage.output_tokens
+            );
+          }
+          if (
+            event.type === 'content_block_delta' &&
+            event.delta?.type === 'text_delta' &&
+            event.delta.text
+          ) {
+            yield event.delta.text;
+          }
+        }
+      }
+
+      this.reportUsage(usage, this.defaultModel, options);
+    } finally {
+      if (reader && typeof reader.releaseLock === 'function') {
+        reader.releaseLock();
+      }
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(this.apiKey),
+      });
+
+      // Without a key the API answers 401, which still means it is reachable
+      return response.status < 500;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  getStatus() {
+    return {
+      ...super.getStatus(),
+      available: true,
+      model: this.defaultModel,
+    };
+  }
+
+  /**
+   * Classify an error event sent in the middle of a stream
+   */
+  private createStreamError(error?: {
+    type?: string;
+    message?: string;
+  }): ProviderError {
+    const message = `Anthropic API error: ${error?.message || 'stream failed'}`;
+
+    switch (error?.type) {
+      case 'overloaded_error':
+      case 'api_error':
+        return new TransientNetworkError(message, this.id);
+      case 'rate_limit_error':
+        return new RateLimitError(message, this.id);
+      default:
+        return new ProviderError(message, this.id);
+    }
+  }
+
+  private buildHeaders(apiKey?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'anthropic-version': API_VERSION,
+      ...(apiKey && { 'x-api-key': apiKey }),
+    };
+  }
+
+  /**
+   * Map a chat to a Messages API request. System messages move to the
+   * top-level `system` field; frequency and presence penalties have no
+   * equivalent and are not sent. Current models reject requests setting
+   * both temperature and top_p, so top_p is only sent without a temperature.
+   */
+  private buildRequestBody(
+    messages: ChatMessage[],
+    config: ModelConfig
+  ): Record<string, unknown> {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: this.defaultModel,
+      ...(system && { system }),
+      messages: this.toAnthropicMessages(messages),
+      max_tokens: config.maxTokens,
+      ...(config.temperature !== undefined
+        ? { temperature: config.temperature }
+        : config.topP !== undefined && { top_p: config.topP }),
+    };
+  }
+
+  /**
+   * Tool results are sent as user content blocks, and consecutive messages
+   * from the same role are merged because the API requires roles to alternate
+   */
+  private toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const content: AnthropicContentBlock[] = [];
+
+      if (message.role === 'tool') {
+        content.push({
+          type: 'tool_result',
+          tool_use_id: message.toolCallId || '',
+          content: message.content,
+        });
+      } else {
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          });
+        }
+      }
+
+      const previous = result[result.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...content);
+      } else {
+        result.push({ role, content });
+      }
+    }
+
+    return result;
+  }
+}
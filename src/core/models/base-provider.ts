@@ -1,4 +1,19 @@
-import { ModelProvider, ModelConfig } from '../types';
+import {
+  ModelProvider,
+  ModelConfig,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  JsonSchema,
+  StructuredOutputOptions,
+  RequestOptions,
+  TokenUsage,
+  EmbeddingResult,
+} from '../types';
+import { generateStructuredOutput } from './structured-output';
+import { contextWindows } from './context-window';
+import { createHttpError, createNetworkError, EmbeddingsUnsupportedError } from './provider-errors';
+import { isAbortError } from '../utils/abort';
 
 export abstract class BaseModelProvider implements ModelProvider {
   public readonly id: string;
@@ -15,10 +30,75 @@ export abstract class BaseModelProvider implements ModelProvider {
   }
   
   abstract authenticate(apiKey?: string): Promise<boolean>;
-  abstract generateResponse(prompt: string, config: ModelConfig): Promise<string>;
-  abstract streamResponse(prompt: string, config: ModelConfig): AsyncIterable<string>;
+  abstract generateChat(messages: ChatMessage[], config: ModelConfig, options?: ChatOptions): Promise<ChatCompletion>;
+  abstract streamChat(messages: ChatMessage[], config: ModelConfig, options?: RequestOptions): AsyncIterable<string>;
   abstract isAvailable(): Promise<boolean>;
+  abstract getCurrentModel(): string;
+
+  /**
+   * Context length of the current model from the registry. Providers whose
+   * servers report it can look it up instead.
+   */
+  async getContextLength(_options?: RequestOptions): Promise<number> {
+    return contextWindows.getContextLength(this.id, this.getCurrentModel());
+  }
+
+  /**
+   * Providers with an embeddings API override this
+   */
+  async embed(_texts: string[], _options?: RequestOptions): Promise<EmbeddingResult> {
+    throw new EmbeddingsUnsupportedError(this.name, this.id);
+  }
+
+  async generateResponse(prompt: string, config: ModelConfig, options?: RequestOptions): Promise<string> {
+    const completion = await this.generateChat(this.buildMessages(prompt, config), config, options);
+    return completion.content;
+  }
+
+  async* streamResponse(prompt: string, config: ModelConfig, options?: RequestOptions): AsyncIterable<string> {
+    yield* this.streamChat(this.buildMessages(prompt, config), config, options);
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    config: ModelConfig,
+    options?: StructuredOutputOptions
+  ): Promise<T> {
+    return generateStructuredOutput<T>(this, this.buildMessages(prompt, config), schema, config, options);
+  }
   
+  /**
+   * Fetch from the provider's API, turning failures into typed ProviderErrors.
+   * Pass the caller's signal in `init` so cancelling aborts the request.
+   */
+  protected async request(url: string, init?: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      // Cancelled requests are not provider failures and must not be retried
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw createNetworkError(this.id, this.name, error);
+    }
+
+    if (!response.ok) {
+      throw await createHttpError(this.id, this.name, response);
+    }
+    return response;
+  }
+
+  /**
+   * Pass the token usage of a model call to `options.onUsage`
+   */
+  protected reportUsage(usage: TokenUsage | undefined, model: string, options?: RequestOptions): void {
+    if (usage) {
+      options?.onUsage?.({ ...usage, providerId: this.id, providerType: this.type, model });
+    }
+  }
+
   protected validateConfig(config: ModelConfig): void {
     if (config.temperature < 0 || config.temperature > 1) {
       throw new Error('Temperature must be between 0 and 1');
@@ -31,9 +111,16 @@ export abstract class BaseModelProvider implements ModelProvider {
     }
   }
   
-  protected buildSystemPrompt(basePrompt: string, config: ModelConfig): string {
-    const systemPrompt = config.systemPrompt || '';
-    return systemPrompt ? `${systemPrompt}\n\n${basePrompt}` : basePrompt;
+  /**
+   * Turn a single prompt into chat messages, with `config.systemPrompt` as the system message
+   */
+  protected buildMessages(prompt: string, config: ModelConfig): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    if (config.systemPrompt) {
+      messages.push({ role: 'system', content: config.systemPrompt });
+    }
+    messages.push({ role: 'user', content: prompt });
+    return messages;
   }
   
   getStatus(): { authenticated: boolean; available: boolean; id: string; name: string } {
@@ -0,0 +1,63 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures before the circuit opens
+  cooldownMs?: number; // Time the circuit stays open before a retry
+  now?: () => number;
+}
+
+/**
+ * Tracks consecutive failures of one provider.
+ *
+ * - closed: requests go through
+ * - open: requests are refused until the cooldown has passed
+ * - half-open: requests go through again; the next success closes the
+ *   circuit and the next failure opens it for another cooldown
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      this.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.state = 'half-open';
+    }
+
+    return this.state;
+  }
+
+  allowRequest(): boolean {
+    return this.getState() !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (
+      this.getState() === 'half-open' ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
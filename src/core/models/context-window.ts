@@ -0,0 +1,92 @@
+// Used for models that are neither registered nor reported by their server
+export const DEFAULT_CONTEXT_LENGTH = 8_192;
+
+/**
+ * Context lengths of the built-in remote models, in tokens. Entries also
+ * match dated or tagged variants, e.g. `gpt-4o-2024-08-06`.
+ */
+export const DEFAULT_CONTEXT_LENGTHS: Record<string, number> = {
+  'gpt-4o': 128_000,
+  'gpt-4o-mini': 128_000,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  'claude-sonnet-4-5': 200_000,
+  'claude-haiku-4-5': 200_000,
+  'claude-opus-4-1': 200_000,
+};
+
+/**
+ * Looks up how many tokens a model accepts, prompt and output together, by
+ * `providerId/model`, by model name or by the longest model name prefix
+ */
+export class ContextWindowRegistry {
+  private lengths: Map<string, number>;
+
+  constructor(lengths: Record<string, number> = DEFAULT_CONTEXT_LENGTHS) {
+    this.lengths = new Map(Object.entries(lengths));
+  }
+
+  get(providerId: string, model: string): number | undefined {
+    const exact =
+      this.lengths.get(`${providerId}/${model}`) ?? this.lengths.get(model);
+    if (exact !== undefined || !model) {
+      return exact;
+    }
+
+    let match: string | undefined;
+    for (const key of this.lengths.keys()) {
+      if (
+        !key.includes('/') &&
+        model.startsWith(key) &&
+        key.length > (match?.length ?? 0)
+      ) {
+        match = key;
+      }
+    }
+    return match === undefined ? undefined : this.lengths.get(match);
+  }
+
+  set(key: string, length: number): void {
+    this.lengths.set(key, length);
+  }
+
+  getContextLength(providerId: string, model: string): number {
+    return this.get(providerId, model) ?? DEFAULT_CONTEXT_LENGTH;
+  }
+}
+
+/**
+ * Read context lengths from a JSON object keyed by model name or
+ * `providerId/model`, as set in POLARIS_CONTEXT_LENGTHS
+ */
+export const parseContextLengths = (
+  json: string | undefined
+): Record<string, number> => {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of context lengths');
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === 'number' && entry[1] > 0
+      )
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid context length config:', error);
+    return {};
+  }
+};
+
+// Singleton instance
+export const contextWindows = new ContextWindowRegistry({
+  ...DEFAULT_CONTEXT_LENGTHS,
+  ...parseContextLengths(process.env.POLARIS_CONTEXT_LENGTHS),
+});
@@ -0,0 +1,351 @@
+import { BaseModelProvider } from './base-provider';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  ContentFilterError,
+  ContextLengthError,
+  ProviderUnavailableError,
+} from './provider-errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  getRetryDelay,
+  sleep,
+  withRetry,
+} from './retry';
+import {
+  ModelConfig,
+  ModelProvider,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  RequestOptions,
+  EmbeddingResult,
+} from '../types';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+
+export interface FallbackProviderOptions {
+  // Circuit breaker for each provider id, shared between chains
+  getCircuitBreaker: (providerId: string) => CircuitBreaker;
+  // False keeps requests off remote fallbacks, e.g. for privacy-sensitive agents
+  allowRemote?: boolean;
+  // Retries for each provider before moving on to the next
+  retryPolicy?: RetryPolicy;
+}
+
+interface ProviderFailure {
+  providerId: string;
+  error: Error;
+}
+
+/**
+ * Sends each request to the first provider in the chain that is not
+ * tripped, retrying retryable errors and moving on to the next provider
+ * when a request still fails.
+ *
+ * The first provider is always tried; the others are only used once
+ * authenticated, and remote ones only when `allowRemote` is set.
+ */
+export class FallbackProvider extends BaseModelProvider {
+  private readonly chain: ModelProvider[];
+  private readonly getCircuitBreaker: (providerId: string) => CircuitBreaker;
+  private readonly allowRemote: boolean;
+  private readonly retryPolicy: RetryPolicy;
+  private activeProvider: ModelProvider;
+
+  constructor(chain: ModelProvider[], options: FallbackProviderOptions) {
+    if (chain.length === 0) {
+      throw new Error('A fallback chain needs at least one provider');
+    }
+
+    const [primary] = chain;
+    super(primary.id, primary.name, primary.type);
+    this.chain = chain;
+    this.getCircuitBreaker = options.getCircuitBreaker;
+    this.allowRemote = options.allowRemote ?? true;
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.activeProvider = primary;
+  }
+
+  /**
+   * The first provider of the chain, as selected by the user
+   */
+  getPrimaryProvider(): ModelProvider {
+    return this.chain[0];
+  }
+
+  /**
+   * The provider that answered the most recent request
+   */
+  getActiveProvider(): ModelProvider {
+    return this.activeProvider;
+  }
+
+  async authenticate(apiKey?: string): Promise<boolean> {
+    return this.getPrimaryProvider().authenticate(apiKey);
+  }
+
+  getCurrentModel(): string {
+    return this.getPrimaryProvider().getCurrentModel();
+  }
+
+  /**
+   * Prompts are sized for the primary provider; a fallback with a smaller
+   * window fails with a ContextLengthError and the next one is tried
+   */
+  async getContextLength(options: RequestOptions = {}): Promise<number> {
+    return this.getPrimaryProvider().getContextLength(options);
+  }
+
+  async generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options?: ChatOptions
+  ): Promise<ChatCompletion> {
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.getCandidates()) {
+      throwIfAborted(options?.signal);
+      const breaker = this.getCircuitBreaker(provider.id);
+      if (!breaker.allowRequest()) {
+        failures.push({
+          providerId: provider.id,
+          error: this.createCircuitOpenError(provider),
+        });
+        continue;
+      }
+
+      try {
+        const completion = await withRetry(
+          () => provider.generateChat(messages, config, options),
+          this.retryPolicy,
+          ms => sleep(ms, options?.signal)
+        );
+        breaker.recordSuccess();
+        this.activeProvider = provider;
+        return completion;
+      } catch (error) {
+        // Cancelled requests say nothing about the provider, and asking
+        // another provider would only work around a refusal
+        if (isAbortError(error) || error instanceof ContentFilterError) {
+          throw error;
+        }
+        failures.push({
+          providerId: provider.id,
+          error: this.recordFailure(provider, error),
+        });
+      }
+    }
+
+    throw this.createExhaustedError(failures);
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: RequestOptions = {}
+  ): AsyncIterable<string> {
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.getCandidates()) {
+      throwIfAborted(options?.signal);
+      const breaker = this.getCircuitBreaker(provider.id);
+      if (!breaker.allowRequest()) {
+        failures.push({
+          providerId: provider.id,
+          error: this.createCircuitOpenError(provider),
+        });
+        continue;
+      }
+
+      let started = false;
+      try {
+        for await (const chunk of this.streamWithRetry(
+          provider,
+          messages,
+          config,
+          options
+        )) {
+          if (!started) {
+            started = true;
+            this.activeProvider = provider;
+          }
+          yield chunk;
+        }
+        breaker.recordSuccess();
+        this.activeProvider = provider;
+        return;
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        // Part of the reply has been sent, so another provider cannot take
+        // over; refusals are not worked around either
+        if (started || error instanceof ContentFilterError) {
+          this.recordFailure(provider, error);
+          throw error;
+        }
+        failures.push({
+          providerId: provider.id,
+          error: this.recordFailure(provider, error),
+        });
+      }
+    }
+
+    throw this.createExhaustedError(failures);
+  }
+
+  /**
+   * Embeddings always come from the primary provider: vectors of different
+   * models cannot be compared, so a fallback would spoil the memory index
+   */
+  async embed(
+    texts: string[],
+    options?: RequestOptions
+  ): Promise<EmbeddingResult> {
+    return this.getPrimaryProvider().embed(texts, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const provider of this.getCandidates()) {
+      if (
+        this.getCircuitBreaker(provider.id).allowRequest() &&
+        (await provider.isAvailable())
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  getStatus() {
+    return {
+      ...this.getPrimaryProvider().getStatus(),
+      activeProvider: this.activeProvider.id,
+      fallbacks: this.chain.slice(1).map(provider => provider.id),
+      circuits: Object.fromEntries(
+        this.chain.map(provider => [
+          provider.id,
+          this.getCircuitBreaker(provider.id).getState(),
+        ])
+      ),
+    };
+  }
+
+  private getCandidates(): ModelProvider[] {
+    const [primary, ...fallbacks] = this.chain;
+
+    return [
+      primary,
+      ...fallbacks.filter(
+        provider =>
+          provider.type === 'local' ||
+          (this.allowRemote && provider.getStatus().authenticated)
+      ),
+    ];
+  }
+
+  /**
+   * Retry a stream that fails before its first chunk
+   */
+  private async *streamWithRetry(
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: RequestOptions
+  ): AsyncIterable<string> {
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+      try {
+        for await (const chunk of provider.streamChat(
+          messages,
+          config,
+          options
+        )) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        const delay = started
+          ? null
+          : getRetryDelay(error, attempt, this.retryPolicy);
+        if (delay === null) {
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Count a failed request against the provider's circuit, unless the
+   * request itself was at fault
+   */
+  private recordFailure(provider: ModelProvider, error: unknown): Error {
+    if (
+      !(error instanceof ContextLengthError) &&
+      !(error instanceof ContentFilterError)
+    ) {
+      this.getCircuitBreaker(provider.id).recordFailure();
+    }
+
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  private createCircuitOpenError(
+    provider: ModelProvider
+  ): ProviderUnavailableError {
+    return new ProviderUnavailableError(
+      `${provider.name} is temporarily unavailable after repeated failures`,
+      provider.id
+    );
+  }
+
+  /**
+   * A single failure is passed on as is so callers keep its type
+   */
+  private createExhaustedError(failures: ProviderFailure[]): Error {
+    if (failures.length === 1) {
+      return failures[0].error;
+    }
+
+    return new ProviderUnavailableError(
+      `All providers failed: ${failures
+        .map(({ providerId, error }) => `${providerId}: ${error.message}`)
+        .join('; ')}`,
+      this.id,
+      { cause: failures[failures.length - 1].error }
+    );
+  }
+}
+
+/**
+ * Read fallback chains from a JSON object mapping a provider id to the ids
+ * to try after it, as set in POLARIS_PROVIDER_FALLBACKS
+ */
+export const parseFallbackChains = (
+  json: string | undefined
+): Record<string, string[]> => {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of provider id arrays');
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, string[]] =>
+          Array.isArray(entry[1]) &&
+          entry[1].every(id => typeof id === 'string')
+      )
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid provider fallback config:', error);
+    return {};
+  }
+};
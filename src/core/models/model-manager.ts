@@ -1,13 +1,26 @@
-import { ModelProvider, ModelConfig } from '../types';
+import { ModelProvider, ModelConfig, RequestOptions } from '../types';
 import { OpenAIProvider } from './openai-provider';
 import { OllamaProvider } from './ollama-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import {
+  OpenAICompatibleProvider,
+  parseCompatibleProviders,
+} from './openai-compatible-provider';
+import { CircuitBreaker } from './circuit-breaker';
+import { FallbackProvider, parseFallbackChains } from './fallback-provider';
+import { AuthenticationError } from './provider-errors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry';
 
 export class ModelManager {
   private providers: Map<string, ModelProvider> = new Map();
   private defaultProvider?: ModelProvider;
+  private fallbackChains: Map<string, string[]> = new Map();
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
 
   constructor() {
     this.initializeProviders();
+    this.initializeFallbackChains();
   }
 
   async initialize() {
@@ -17,7 +30,22 @@ export class ModelManager {
   private initializeProviders() {
     // Register built-in providers
     this.registerProvider(new OpenAIProvider());
+    this.registerProvider(new AnthropicProvider());
     this.registerProvider(new OllamaProvider());
+
+    // Self-hosted OpenAI-compatible servers (llama.cpp, vLLM, LM Studio, ...)
+    for (const options of parseCompatibleProviders(
+      process.env.POLARIS_OPENAI_COMPATIBLE_PROVIDERS
+    )) {
+      this.registerProvider(new OpenAICompatibleProvider(options));
+    }
+  }
+
+  private initializeFallbackChains() {
+    const chains = parseFallbackChains(process.env.POLARIS_PROVIDER_FALLBACKS);
+    for (const [providerId, fallbackIds] of Object.entries(chains)) {
+      this.setFallbackChain(providerId, fallbackIds);
+    }
   }
 
   private async autoAuthenticateLocalProviders() {
@@ -110,10 +138,74 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Set the providers to try, in order, when `providerId` fails
+   */
+  setFallbackChain(providerId: string, fallbackIds: string[]): void {
+    this.fallbackChains.set(
+      providerId,
+      fallbackIds.filter(id => id !== providerId)
+    );
+  }
+
+  /**
+   * The provider followed by its fallbacks
+   */
+  getFallbackChain(providerId: string): string[] {
+    return [providerId, ...(this.fallbackChains.get(providerId) || [])];
+  }
+
+  /**
+   * Change how often and how long retryable provider errors are retried
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+
+  /**
+   * Circuit breaker for a provider, shared by every chain that uses it
+   */
+  getCircuitBreaker(providerId: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.circuitBreakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Wrap a provider so requests move down its fallback chain when it fails.
+   * Unknown fallback ids are ignored.
+   */
+  withFallbacks(
+    providerId: string,
+    options: { allowRemote?: boolean } = {}
+  ): FallbackProvider {
+    const chain = this.getFallbackChain(providerId)
+      .map(id => this.getProvider(id))
+      .filter((provider): provider is ModelProvider => !!provider);
+
+    if (chain[0]?.id !== providerId) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+
+    return new FallbackProvider(chain, {
+      getCircuitBreaker: id => this.getCircuitBreaker(id),
+      allowRemote: options.allowRemote,
+      retryPolicy: this.retryPolicy,
+    });
+  }
+
   async generateResponse(
     providerId: string,
     prompt: string,
-    config: ModelConfig
+    config: ModelConfig,
+    options?: RequestOptions
   ): Promise<string> {
     const provider = this.getProvider(providerId);
     if (!provider) {
@@ -130,23 +222,32 @@ export class ModelManager {
       provider.type === 'remote' &&
       !(await this.isProviderAuthenticated(provider))
     ) {
-      throw new Error('Provider not authenticated');
+      throw new AuthenticationError('Provider not authenticated', providerId);
     }
 
-    return await provider.generateResponse(prompt, config);
+    return await this.withFallbacks(providerId).generateResponse(
+      prompt,
+      config,
+      options
+    );
   }
 
   async streamResponse(
     providerId: string,
     prompt: string,
-    config: ModelConfig
+    config: ModelConfig,
+    options?: RequestOptions
   ): Promise<AsyncIterable<string>> {
     const provider = this.getProvider(providerId);
     if (!provider) {
       throw new Error(`Provider ${providerId} not found`);
     }
 
-    return provider.streamResponse(prompt, config);
+    return this.withFallbacks(providerId).streamResponse(
+      prompt,
+      config,
+      options
+    );
   }
 
   async getBestAvailableProvider(): Promise<ModelProvider | null> {
@@ -252,6 +353,38 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Models a provider can answer with, or undefined for unknown providers.
+   * OpenAI-compatible servers are asked for their list until one is known.
+   */
+  async listModels(id: string): Promise<string[] | undefined> {
+    const provider = this.getProvider(id);
+    if (!provider) {
+      return undefined;
+    }
+
+    if (
+      provider instanceof OllamaProvider ||
+      provider instanceof AnthropicProvider
+    ) {
+      return provider.getAvailableModels();
+    }
+    if (provider instanceof OpenAICompatibleProvider) {
+      const models = provider.getAvailableModels();
+      if (models.length > 0) {
+        return models;
+      }
+      try {
+        return await provider.discoverModels();
+      } catch (error) {
+        console.error(`Failed to list models of provider ${id}:`, error);
+        return [];
+      }
+    }
+
+    return [];
+  }
+
   getDefaultModelConfig(): ModelConfig {
     return {
       temperature: 0.7,
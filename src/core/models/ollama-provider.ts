@@ -1,13 +1,47 @@
 import { BaseModelProvider } from './base-provider';
-import { ModelConfig } from '../types';
+import {
+  ModelConfig,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  RequestOptions,
+  ToolCall,
+  TokenUsage,
+  EmbeddingResult,
+} from '../types';
+import { ProviderUnavailableError } from './provider-errors';
+import { createTokenUsage } from './usage';
+import { DEFAULT_CONTEXT_LENGTH, contextWindows } from './context-window';
+import { isAbortError, withTimeout } from '../utils/abort';
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
+
+// Context length Ollama runs models with unless their Modelfile sets num_ctx
+const OLLAMA_DEFAULT_NUM_CTX = 4_096;
+// How long the context length lookup may hold up a request
+const CONTEXT_LENGTH_TIMEOUT_MS = 2_000;
+
+// Token counts sent with the final (or only) response
+interface OllamaCounts {
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
 
 export class OllamaProvider extends BaseModelProvider {
   private baseUrl = 'http://localhost:11434';
   private defaultModel = 'llama3.2';
+  private embeddingModel: string;
 
-  constructor(model: string = 'llama3.2', baseUrl?: string) {
+  constructor(
+    model: string = 'llama3.2',
+    baseUrl?: string,
+    embeddingModel: string = 'nomic-embed-text'
+  ) {
     super('ollama', 'Ollama', 'local');
     this.defaultModel = model;
+    this.embeddingModel = embeddingModel;
     if (baseUrl) {
       this.baseUrl = baseUrl;
     }
@@ -62,21 +96,37 @@ export class OllamaProvider extends BaseModelProvider {
     return cleaned;
   }
 
-  async generateResponse(prompt: string, config: ModelConfig): Promise<string> {
+  async generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletion> {
+    const tools = options.tools || [];
     if (!this.isAuthenticated) {
-      throw new Error('Ollama provider not available');
+      throw new ProviderUnavailableError(
+        'Ollama provider not available',
+        this.id
+      );
     }
 
     this.validateConfig(config);
 
-    const response = await fetch(`${this.baseUrl}/api/generate`, {
+    const response = await this.request(`${this.baseUrl}/api/chat`, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: this.defaultModel,
-        prompt: prompt,
+        messages: messages.map(message => this.toOllamaMessage(message)),
+        ...(tools.length > 0 && {
+          tools: tools.map(tool => ({ type: 'function', function: tool })),
+        }),
+        // Ollama constrains generation to the schema when `format` is set
+        ...(options.responseFormat && {
+          format: options.responseFormat.schema,
+        }),
         options: {
           temperature: config.temperature,
           top_p: config.topP,
@@ -87,37 +137,97 @@ export class OllamaProvider extends BaseModelProvider {
       }),
     });
 
-    if (!response.ok) {
-      throw new Error(
-        `Ollama API error: ${response.status} ${response.statusText}`
-      );
+    const data = await response.json();
+    const usage = this.parseUsage(data);
+    this.reportUsage(usage, this.defaultModel, options);
+
+    // Ollama does not assign IDs to tool calls, so derive stable ones
+    const toolCalls: ToolCall[] = (data.message?.tool_calls || []).map(
+      (call: OllamaToolCall, index: number) => ({
+        id: `call_${Date.now()}_${index}`,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments),
+      })
+    );
+
+    return {
+      content: this.cleanResponse(data.message?.content || ''),
+      toolCalls,
+      ...(usage && { usage }),
+    };
+  }
+
+  private toOllamaMessage(message: ChatMessage): Record<string, unknown> {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_name: message.name,
+      };
     }
 
-    const data = await response.json();
-    const rawResponse = data.response || '';
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: message.role,
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
 
-    // Clean the response before returning
-    return this.cleanResponse(rawResponse);
+    return { role: message.role, content: message.content };
   }
 
-  async *streamResponse(
-    prompt: string,
-    config: ModelConfig
+  private parseUsage(counts: OllamaCounts): TokenUsage | undefined {
+    if (
+      counts.prompt_eval_count === undefined &&
+      counts.eval_count === undefined
+    ) {
+      return undefined;
+    }
+
+    return createTokenUsage(counts.prompt_eval_count, counts.eval_count);
+  }
+
+  private parseToolArguments(
+    raw: Record<string, unknown> | string
+  ): Record<string, unknown> {
+    if (typeof raw !== 'string') {
+      return raw || {};
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (_error) {
+      return {};
+    }
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: RequestOptions = {}
   ): AsyncIterable<string> {
     if (!this.isAuthenticated) {
-      throw new Error('Ollama provider not available');
+      throw new ProviderUnavailableError(
+        'Ollama provider not available',
+        this.id
+      );
     }
 
     this.validateConfig(config);
 
-    const response = await fetch(`${this.baseUrl}/api/generate`, {
+    const response = await this.request(`${this.baseUrl}/api/chat`, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: this.defaultModel,
-        prompt: prompt,
+        messages: messages.map(message => this.toOllamaMessage(message)),
         options: {
           temperature: config.temperature,
           top_p: config.topP,
@@ -128,34 +238,33 @@ export class OllamaProvider extends BaseModelProvider {
       }),
     });
 
-    if (!response.ok) {
-      throw new Error(
-        `Ollama API error: ${response.status} ${response.statusText}`
-      );
-    }
-
     const reader = response.body?.getReader();
     if (!reader) {
       throw new Error('No response body');
     }
 
     const decoder = new TextDecoder();
+    let buffer = '';
     let fullResponse = '';
     let insideThinking = false;
 
     try {
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
+        // NDJSON lines can be split across chunks, so keep the partial line
+        // until the rest arrives or the stream ends
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
 
-        for (const line of lines) {
+        for (const line of lines.filter(line => line.trim())) {
           try {
             const parsed = JSON.parse(line);
-            if (parsed.response) {
-              const chunkContent = parsed.response;
+            if (parsed.message?.content) {
+              const chunkContent = parsed.message.content;
               fullResponse += chunkContent;
 
               // Simple thinking tag filtering for streaming
@@ -179,6 +288,12 @@ export class OllamaProvider extends BaseModelProvider {
 
             // Check if generation is complete
             if (parsed.done === true) {
+              this.reportUsage(
+                this.parseUsage(parsed),
+                this.defaultModel,
+                options
+              );
+
               // At the end, clean the full response and yield any remaining content
               const cleaned = this.cleanResponse(fullResponse);
               const alreadyStreamed = fullResponse.replace(
@@ -199,12 +314,34 @@ export class OllamaProvider extends BaseModelProvider {
             // Skip invalid JSON
           }
         }
+
+        if (done) break;
       }
     } finally {
       reader.releaseLock();
     }
   }
 
+  async embed(
+    texts: string[],
+    options: RequestOptions = {}
+  ): Promise<EmbeddingResult> {
+    const response = await this.request(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.embeddingModel, input: texts }),
+    });
+
+    const data: { embeddings: number[][] } & OllamaCounts =
+      await response.json();
+    this.reportUsage(this.parseUsage(data), this.embeddingModel, options);
+
+    return { embeddings: data.embeddings, model: this.embeddingModel };
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/api/tags`, {
@@ -291,6 +428,66 @@ export class OllamaProvider extends BaseModelProvider {
     };
   }
 
+  /**
+   * Context length the server runs the current model with, looked up through
+   * /api/show once per model and kept in the registry. A server that does not
+   * answer in time gets the default length.
+   */
+  async getContextLength(options: RequestOptions = {}): Promise<number> {
+    const key = `${this.id}/${this.defaultModel}`;
+    const known = contextWindows.get(this.id, this.defaultModel);
+    if (known !== undefined) {
+      return known;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: 'POST',
+        signal: withTimeout(CONTEXT_LENGTH_TIMEOUT_MS, options.signal),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: this.defaultModel }),
+      });
+      if (!response.ok) {
+        return DEFAULT_CONTEXT_LENGTH;
+      }
+
+      const length = this.parseContextLength(await response.json());
+      contextWindows.set(key, length);
+      return length;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Ollama context length lookup failed:', error);
+      return DEFAULT_CONTEXT_LENGTH;
+    }
+  }
+
+  /**
+   * A num_ctx set in the Modelfile wins; otherwise Ollama uses its default,
+   * capped by what the model supports
+   */
+  private parseContextLength(data: {
+    parameters?: string;
+    model_info?: Record<string, unknown>;
+  }): number {
+    const numCtx = data.parameters?.match(/^num_ctx\s+(\d+)/m);
+    if (numCtx) {
+      return Number(numCtx[1]);
+    }
+
+    const modelLength = Object.entries(data.model_info ?? {}).find(
+      ([key, value]) =>
+        key.endsWith('.context_length') && typeof value === 'number'
+    )?.[1] as number | undefined;
+    return Math.min(
+      modelLength ?? OLLAMA_DEFAULT_NUM_CTX,
+      OLLAMA_DEFAULT_NUM_CTX
+    );
+  }
+
   setModel(modelName: string): void {
     this.defaultModel = modelName;
   }
@@ -0,0 +1,405 @@
+import { BaseModelProvider } from './base-provider';
+import {
+  ModelConfig,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  RequestOptions,
+  ModelProvider,
+  ToolCall,
+  TokenUsage,
+  EmbeddingResult,
+} from '../types';
+import { AuthenticationError, ContentFilterError } from './provider-errors';
+import { createTokenUsage } from './usage';
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAICompatibleProviderOptions {
+  id: string;
+  name?: string;
+  baseUrl: string; // Including the version prefix, e.g. http://localhost:8080/v1
+  apiKey?: string;
+  model?: string; // Defaults to the first model the server lists
+  embeddingModel?: string; // Defaults to `model`, as servers like llama.cpp embed with their chat model
+  headers?: Record<string, string>;
+  type?: 'local' | 'remote'; // Defaults to remote; set local for servers on your own machine or network
+}
+
+/**
+ * Provider for any server that speaks the OpenAI `/v1/chat/completions`
+ * protocol, such as llama.cpp server, vLLM or LM Studio. Can be registered
+ * several times under different ids.
+ */
+export class OpenAICompatibleProvider extends BaseModelProvider {
+  protected baseUrl: string;
+  protected defaultModel: string;
+  protected embeddingModel?: string;
+  private headers: Record<string, string>;
+  private discoveredModels: string[] = [];
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    super(options.id, options.name || options.id, options.type || 'remote');
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.defaultModel = options.model || '';
+    this.embeddingModel = options.embeddingModel;
+    this.apiKey = options.apiKey;
+    this.headers = options.headers || {};
+  }
+
+  /**
+   * Models reported by the server's `/models` endpoint at the last discovery
+   */
+  getAvailableModels(): string[] {
+    return [...this.discoveredModels];
+  }
+
+  setModel(modelName: string): void {
+    this.defaultModel = modelName;
+  }
+
+  getCurrentModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * Fetch the model list from the server
+   */
+  async discoverModels(apiKey = this.apiKey): Promise<string[]> {
+    const response = await this.request(`${this.baseUrl}/models`, {
+      headers: this.buildHeaders(apiKey),
+    });
+
+    const data = await response.json();
+    this.discoveredModels = (data.data || []).map(
+      (model: { id: string }) => model.id
+    );
+
+    return this.getAvailableModels();
+  }
+
+  async authenticate(apiKey?: string): Promise<boolean> {
+    const key = apiKey || this.apiKey;
+
+    try {
+      const models = await this.discoverModels(key);
+      this.apiKey = key;
+      this.isAuthenticated = true;
+
+      if (!this.defaultModel && models.length > 0) {
+        this.defaultModel = models[0];
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`${this.name} authentication error:`, error);
+      this.isAuthenticated = false;
+      return false;
+    }
+  }
+
+  async generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletion> {
+    const tools = options.tools || [];
+    this.ensureAuthenticated();
+    this.validateConfig(config);
+
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        ...this.buildRequestBody(messages, config),
+        ...(tools.length > 0 && {
+          tools: tools.map(tool => ({ type: 'function', function: tool })),
+        }),
+        ...(options.responseFormat && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: options.responseFormat.name,
+              schema: options.responseFormat.schema,
+            },
+          },
+        }),
+      }),
+    });
+
+    const data = await response.json();
+    const usage = this.parseUsage(data.usage);
+    this.reportUsage(usage, this.defaultModel || data.model || '', options);
+
+    const choice = data.choices[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new ContentFilterError(
+        `${this.name} filtered the response to this request`,
+        this.id
+      );
+    }
+
+    const message = choice?.message;
+    const toolCalls: ToolCall[] = (message?.tool_calls || []).map(
+      (call: OpenAIToolCall) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments),
+      })
+    );
+
+    return {
+      content: message?.content || '',
+      toolCalls,
+      ...(usage && { usage }),
+    };
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options: RequestOptions = {}
+  ): AsyncIterable<string> {
+    this.ensureAuthenticated();
+    this.validateConfig(config);
+
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        ...this.buildRequestBody(messages, config),
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // SSE events can be split across chunks, so keep the partial line
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            const data = line.slice(6);
+            if (data === '[DONE]') continue;
+
+            try {
+              const parsed = JSON.parse(data);
+              if (parsed.usage) {
+                this.reportUsage(
+                  this.parseUsage(parsed.usage),
+                  this.defaultModel || parsed.model || '',
+                  options
+                );
+              }
+              const content = parsed.choices?.[0]?.delta?.content;
+              if (content) {
+                yield content;
+              }
+            } catch (_e) {
+              // Skip invalid JSON
+            }
+          }
+        }
+      }
+    } finally {
+      if (reader && typeof reader.releaseLock === 'function') {
+        reader.releaseLock();
+      }
+    }
+  }
+
+  async embed(
+    texts: string[],
+    options: RequestOptions = {}
+  ): Promise<EmbeddingResult> {
+    this.ensureAuthenticated();
+    const model = this.embeddingModel || this.defaultModel;
+
+    const response = await this.request(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: this.buildHeaders(),
+      body: JSON.stringify({ ...(model && { model }), input: texts }),
+    });
+
+    const data = await response.json();
+    this.reportUsage(this.parseUsage(data.usage), model, options);
+
+    const embeddings: number[][] = [];
+    for (const item of data.data as { index: number; embedding: number[] }[]) {
+      embeddings[item.index] = item.embedding;
+    }
+    return { embeddings, model: model || data.model || '' };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+      });
+
+      return response.ok;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  getStatus(): ReturnType<ModelProvider['getStatus']> {
+    return {
+      ...super.getStatus(),
+      available: this.isAuthenticated,
+      model: this.defaultModel,
+      baseUrl: this.baseUrl,
+      models: this.getAvailableModels(),
+    };
+  }
+
+  protected ensureAuthenticated(): void {
+    if (!this.isAuthenticated) {
+      throw new AuthenticationError(
+        `${this.name} provider not authenticated`,
+        this.id
+      );
+    }
+  }
+
+  /**
+   * Request headers: JSON content type, bearer auth when a key is set and
+   * any custom headers configured for the server
+   */
+  protected buildHeaders(apiKey = this.apiKey): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      ...this.headers,
+    };
+  }
+
+  private buildRequestBody(
+    messages: ChatMessage[],
+    config: ModelConfig
+  ): Record<string, unknown> {
+    return {
+      // Single-model servers such as llama.cpp accept requests without a model
+      ...(this.defaultModel && { model: this.defaultModel }),
+      messages: messages.map(message => this.toOpenAIMessage(message)),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      top_p: config.topP,
+      frequency_penalty: config.frequencyPenalty,
+      presence_penalty: config.presencePenalty,
+    };
+  }
+
+  private toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    }
+
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  private parseUsage(usage?: OpenAIUsage): TokenUsage | undefined {
+    return usage
+      ? createTokenUsage(usage.prompt_tokens, usage.completion_tokens)
+      : undefined;
+  }
+
+  private parseToolArguments(raw: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(raw || '{}');
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (_error) {
+      return {};
+    }
+  }
+}
+
+/**
+ * Read provider definitions from a JSON array, as set in
+ * POLARIS_OPENAI_COMPATIBLE_PROVIDERS. Invalid entries are skipped with a
+ * warning so one typo does not take down the other providers.
+ */
+export const parseCompatibleProviders = (
+  json: string | undefined
+): OpenAICompatibleProviderOptions[] => {
+  if (!json) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    console.warn('Ignoring invalid OpenAI-compatible provider config:', error);
+    return [];
+  }
+
+  if (!Array.isArray(entries)) {
+    console.warn('OpenAI-compatible provider config must be a JSON array');
+    return [];
+  }
+
+  return entries.filter((entry): entry is OpenAICompatibleProviderOptions => {
+    const valid =
+      entry !== null &&
+      typeof entry === 'object' &&
+      typeof entry.id === 'string' &&
+      entry.id.length > 0 &&
+      typeof entry.baseUrl === 'string' &&
+      entry.baseUrl.length > 0;
+
+    if (!valid) {
+      console.warn(
+        'Skipping OpenAI-compatible provider without an id and baseUrl:',
+        entry
+      );
+    }
+    return valid;
+  });
+};
@@ -1,10 +1,6 @@
-import { BaseModelProvider } from './base-provider';
-import { ModelConfig } from '../types';
-
-export class OpenAIProvider extends BaseModelProvider {
-  private baseUrl = 'https://api.openai.com/v1';
-  private defaultModel = 'gpt-4o';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
 
+export class OpenAIProvider extends OpenAICompatibleProvider {
   // Predefined available models for OpenAI
   private static readonly AVAILABLE_MODELS = [
     'gpt-4o',
@@ -12,8 +8,14 @@ export class OpenAIProvider extends BaseModelProvider {
   ];
 
   constructor(model: string = 'gpt-4o') {
-    super('openai', 'OpenAI', 'remote');
-    this.defaultModel = model;
+    super({
+      id: 'openai',
+      name: 'OpenAI',
+      baseUrl: 'https://api.openai.com/v1',
+      model,
+      embeddingModel: 'text-embedding-3-small',
+      type: 'remote',
+    });
   }
 
   getAvailableModels(): string[] {
@@ -24,140 +26,17 @@ export class OpenAIProvider extends BaseModelProvider {
     if (!OpenAIProvider.AVAILABLE_MODELS.includes(modelName)) {
       console.warn(`Model ${modelName} not in predefined list, but setting anyway`);
     }
-    this.defaultModel = modelName;
-  }
-
-  getCurrentModel(): string {
-    return this.defaultModel;
+    super.setModel(modelName);
   }
 
   async authenticate(apiKey?: string): Promise<boolean> {
+    // OpenAI always needs a key, unlike self-hosted servers
     if (!apiKey) {
       this.isAuthenticated = false;
       return false;
     }
 
-    try {
-      const response = await fetch(`${this.baseUrl}/models`, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        this.apiKey = apiKey;
-        this.isAuthenticated = true;
-        return true;
-      }
-
-      this.isAuthenticated = false;
-      return false;
-    } catch (error) {
-      console.error('OpenAI authentication error:', error);
-      this.isAuthenticated = false;
-      return false;
-    }
-  }
-
-  async generateResponse(prompt: string, config: ModelConfig): Promise<string> {
-    if (!this.isAuthenticated || !this.apiKey) {
-      throw new Error('OpenAI provider not authenticated');
-    }
-
-    this.validateConfig(config);
-
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.defaultModel,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: config.temperature,
-        max_tokens: config.maxTokens,
-        top_p: config.topP,
-        frequency_penalty: config.frequencyPenalty,
-        presence_penalty: config.presencePenalty,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
-  }
-
-  async* streamResponse(prompt: string, config: ModelConfig): AsyncIterable<string> {
-    if (!this.isAuthenticated || !this.apiKey) {
-      throw new Error('OpenAI provider not authenticated');
-    }
-
-    this.validateConfig(config);
-
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.defaultModel,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: config.temperature,
-        max_tokens: config.maxTokens,
-        top_p: config.topP,
-        frequency_penalty: config.frequencyPenalty,
-        presence_penalty: config.presencePenalty,
-        stream: true,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body');
-    }
-
-    const decoder = new TextDecoder();
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices[0]?.delta?.content;
-              if (content) {
-                yield content;
-              }
-            } catch (_e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      if (reader && typeof reader.releaseLock === 'function') {
-        reader.releaseLock();
-      }
-    }
+    return super.authenticate(apiKey);
   }
 
   async isAvailable(): Promise<boolean> {
@@ -176,8 +55,10 @@ export class OpenAIProvider extends BaseModelProvider {
 
   getStatus() {
     return {
-      ...super.getStatus(),
+      authenticated: this.isAuthenticated,
       available: true,
+      id: this.id,
+      name: this.name,
       model: this.defaultModel,
     };
   }
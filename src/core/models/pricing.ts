@@ -0,0 +1,97 @@
+import { UsageRecord } from '../types';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of the built-in remote models. Override or extend them with
+ * POLARIS_MODEL_PRICES when they change or other models are used.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+/**
+ * Looks up model prices by `providerId/model` or by model name alone.
+ * Local models are free unless a price is configured for them.
+ */
+export class PriceTable {
+  private prices: Map<string, ModelPrice>;
+
+  constructor(prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES) {
+    this.prices = new Map(Object.entries(prices));
+  }
+
+  getPrice(providerId: string, model: string): ModelPrice | undefined {
+    return this.prices.get(`${providerId}/${model}`) ?? this.prices.get(model);
+  }
+
+  setPrice(key: string, price: ModelPrice): void {
+    this.prices.set(key, price);
+  }
+
+  /**
+   * Cost of a model call in USD, or undefined for remote models without a
+   * known price
+   */
+  getCost(usage: UsageRecord): number | undefined {
+    const price = this.getPrice(usage.providerId, usage.model);
+    if (!price) {
+      return usage.providerType === 'local' ? 0 : undefined;
+    }
+
+    return (
+      (usage.promptTokens * price.input +
+        usage.completionTokens * price.output) /
+      1_000_000
+    );
+  }
+}
+
+const isModelPrice = (value: unknown): value is ModelPrice =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as ModelPrice).input === 'number' &&
+  typeof (value as ModelPrice).output === 'number';
+
+/**
+ * Read model prices from a JSON object keyed by model name or
+ * `providerId/model`, as set in POLARIS_MODEL_PRICES
+ */
+export const parseModelPrices = (
+  json: string | undefined
+): Record<string, ModelPrice> => {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of model prices');
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, ModelPrice] =>
+        isModelPrice(entry[1])
+      )
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid model price config:', error);
+    return {};
+  }
+};
+
+// Singleton instance
+export const priceTable = new PriceTable({
+  ...DEFAULT_MODEL_PRICES,
+  ...parseModelPrices(process.env.POLARIS_MODEL_PRICES),
+});
@@ -0,0 +1,268 @@
+export type ProviderErrorCode =
+  | 'authentication'
+  | 'rate_limit'
+  | 'context_length'
+  | 'model_not_found'
+  | 'transient'
+  | 'content_filter'
+  | 'unavailable'
+  | 'unknown';
+
+export interface ProviderErrorOptions {
+  status?: number; // HTTP status returned by the provider, if any
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors returned by model providers. `code` tells callers
+ * what went wrong; `retryable` whether the same request may succeed later.
+ */
+export class ProviderError extends Error {
+  readonly providerId: string;
+  readonly code: ProviderErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    providerId: string,
+    code: ProviderErrorCode = 'unknown',
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.providerId = providerId;
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission
+ */
+export class AuthenticationError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'authentication', options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Too many requests. Exhausted quotas are not retryable.
+ */
+export class RateLimitError extends ProviderError {
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super(message, providerId, 'rate_limit', { retryable: true, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The prompt and requested output do not fit the model's context window
+ */
+export class ContextLengthError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'context_length', options);
+    this.name = 'ContextLengthError';
+  }
+}
+
+/**
+ * The selected model does not exist or is not installed
+ */
+export class ModelNotFoundError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'model_not_found', options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+/**
+ * Network failures, timeouts and server-side errors that may clear up
+ */
+export class TransientNetworkError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'transient', { retryable: true, ...options });
+    this.name = 'TransientNetworkError';
+  }
+}
+
+/**
+ * The provider refused to answer because of its content policy
+ */
+export class ContentFilterError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'content_filter', options);
+    this.name = 'ContentFilterError';
+  }
+}
+
+/**
+ * No provider could take the request, e.g. because every circuit is open
+ */
+export class ProviderUnavailableError extends ProviderError {
+  constructor(
+    message: string,
+    providerId: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, providerId, 'unavailable', options);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * The provider has no embeddings API. Not a ProviderError, since nothing
+ * went wrong with the request.
+ */
+export class EmbeddingsUnsupportedError extends Error {
+  readonly providerId: string;
+
+  constructor(providerName: string, providerId: string) {
+    super(`${providerName} does not support embeddings`);
+    this.name = 'EmbeddingsUnsupportedError';
+    this.providerId = providerId;
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long/i;
+const CONTENT_FILTER_PATTERN =
+  /content[_ ](filter|policy|management)|safety system/i;
+const TRANSIENT_STATUSES = [408, 425, 500, 502, 503, 504, 529];
+
+/**
+ * Read the delay requested by `retry-after-ms` or `retry-after` (seconds or
+ * an HTTP date)
+ */
+const parseRetryAfter = (headers?: Headers): number | undefined => {
+  const milliseconds = Number(headers?.get?.('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const value = headers?.get?.('retry-after');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Pull the error message and code out of OpenAI-, Anthropic- and
+ * Ollama-style error bodies
+ */
+const parseErrorBody = async (
+  response: Response
+): Promise<{ detail: string; code?: string }> => {
+  let text = '';
+  try {
+    text = (await response.text?.()) || '';
+  } catch (_error) {
+    return { detail: '' };
+  }
+
+  try {
+    const { error } = JSON.parse(text);
+    if (typeof error === 'string') {
+      return { detail: error };
+    }
+    return {
+      detail: error?.message || '',
+      code: error?.code || error?.type,
+    };
+  } catch (_error) {
+    return { detail: text.slice(0, 200) };
+  }
+};
+
+/**
+ * Classify an unsuccessful HTTP response from a provider
+ */
+export const createHttpError = async (
+  providerId: string,
+  providerName: string,
+  response: Response
+): Promise<ProviderError> => {
+  const { status } = response;
+  const { detail, code } = await parseErrorBody(response);
+  const message = `${providerName} API error: ${status}${response.statusText ? ` ${response.statusText}` : ''}${detail ? ` - ${detail}` : ''}`;
+  const classifiable = `${code || ''} ${detail}`;
+  const options = { status };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, providerId, options);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, providerId, {
+      ...options,
+      retryAfterMs: parseRetryAfter(response.headers),
+      // An exhausted quota will not recover by waiting
+      retryable: code !== 'insufficient_quota',
+    });
+  }
+  if (status === 404 && /model/i.test(classifiable)) {
+    return new ModelNotFoundError(message, providerId, options);
+  }
+  if (CONTEXT_LENGTH_PATTERN.test(classifiable)) {
+    return new ContextLengthError(message, providerId, options);
+  }
+  if (CONTENT_FILTER_PATTERN.test(classifiable)) {
+    return new ContentFilterError(message, providerId, options);
+  }
+  if (TRANSIENT_STATUSES.includes(status)) {
+    return new TransientNetworkError(message, providerId, options);
+  }
+
+  return new ProviderError(message, providerId, 'unknown', options);
+};
+
+/**
+ * Wrap a failed `fetch` (connection refused, DNS failure, reset, ...)
+ */
+export const createNetworkError = (
+  providerId: string,
+  providerName: string,
+  error: unknown
+): TransientNetworkError =>
+  new TransientNetworkError(
+    `${providerName} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    providerId,
+    { cause: error }
+  );
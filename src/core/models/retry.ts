@@ -0,0 +1,85 @@
+import { ProviderError, RateLimitError } from './provider-errors';
+import { AbortError } from '../utils/abort';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // Delay cap for the first retry, doubled for each further one
+  maxDelayMs: number; // Longer waits, including retry-after hints, are not attempted
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/**
+ * Wait `ms` milliseconds, rejecting with an AbortError once `signal` fires
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * How long to wait before retrying after `error`, or null to give up.
+ *
+ * Only retryable provider errors are retried. Rate limits honour the
+ * provider's retry-after hint; everything else uses full jitter
+ * exponential backoff.
+ */
+export const getRetryDelay = (
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number | null => {
+  if (
+    !(error instanceof ProviderError) ||
+    !error.retryable ||
+    attempt >= policy.maxRetries
+  ) {
+    return null;
+  }
+
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * cap);
+};
+
+/**
+ * Run `operation`, retrying retryable provider errors according to `policy`
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const delay = getRetryDelay(error, attempt, policy);
+      if (delay === null) {
+        throw error;
+      }
+      await wait(delay);
+    }
+  }
+};
@@ -0,0 +1,121 @@
+import {
+  ChatMessage,
+  JsonSchema,
+  ModelConfig,
+  ModelProvider,
+  StructuredOutputOptions,
+} from '../types';
+import {
+  SchemaValidationIssue,
+  SchemaValidationResult,
+  formatValidationIssues,
+  validateJsonSchema,
+} from '../utils/json-schema';
+
+/**
+ * Thrown when a model keeps returning output that does not match the
+ * requested schema
+ */
+export class StructuredOutputError extends Error {
+  readonly issues: SchemaValidationIssue[];
+  readonly attempts: number;
+  readonly content: string; // Last raw reply from the model
+
+  constructor(
+    name: string,
+    issues: SchemaValidationIssue[],
+    attempts: number,
+    content: string
+  ) {
+    super(
+      `Invalid ${name} output after ${attempts} attempt(s): ${formatValidationIssues(issues)}`
+    );
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.attempts = attempts;
+    this.content = content;
+  }
+}
+
+/**
+ * Parse a JSON reply, ignoring `<think>` blocks and markdown code fences
+ * that some models add even when asked for JSON only
+ */
+export const parseJsonContent = (content: string): unknown => {
+  const withoutThinking = content
+    .replace(/<think>[\s\S]*?<\/think>/g, '')
+    .trim();
+  const fenced = withoutThinking.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+
+  return JSON.parse(fenced ? fenced[1] : withoutThinking);
+};
+
+const validateContent = <T>(
+  content: string,
+  schema: JsonSchema
+): SchemaValidationResult<T | undefined> => {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch (error) {
+    return {
+      valid: false,
+      value: undefined,
+      issues: [
+        {
+          path: '',
+          message: `must be valid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+        },
+      ],
+    };
+  }
+
+  return validateJsonSchema<T>(parsed, schema, {
+    coerce: true,
+    applyDefaults: true,
+  });
+};
+
+/**
+ * Ask the model for JSON matching `schema` and validate the reply.
+ *
+ * The schema is passed to the provider as a response format so it can
+ * constrain generation natively. Invalid replies are sent back to the model
+ * together with the validation issues, up to `maxRetries` times.
+ */
+export const generateStructuredOutput = async <T>(
+  provider: Pick<ModelProvider, 'generateChat'>,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  config: ModelConfig,
+  options: StructuredOutputOptions = {}
+): Promise<T> => {
+  const { name = 'response', maxRetries = 2, signal, onUsage } = options;
+  const conversation = [...messages];
+  let issues: SchemaValidationIssue[] = [];
+  let content = '';
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    ({ content } = await provider.generateChat(conversation, config, {
+      responseFormat: { name, schema },
+      signal,
+      onUsage,
+    }));
+
+    const result = validateContent<T>(content, schema);
+    if (result.valid) {
+      return result.value as T;
+    }
+
+    issues = result.issues;
+    conversation.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your reply did not match the required JSON schema: ${formatValidationIssues(issues)}. Reply again with only the corrected JSON object.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(name, issues, maxRetries + 1, content);
+};
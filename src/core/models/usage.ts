@@ -0,0 +1,149 @@
+import {
+  AgentResponse,
+  ChatSession,
+  DailyUsage,
+  RequestOptions,
+  ResponseUsage,
+  TokenUsage,
+  UsagePhase,
+  UsageRecord,
+  UsageSummary,
+  UserInput,
+} from '../types';
+import { PriceTable, priceTable } from './pricing';
+
+export const createTokenUsage = (
+  promptTokens = 0,
+  completionTokens = 0
+): TokenUsage => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+export const createUsageSummary = (): UsageSummary => ({
+  ...createTokenUsage(),
+  calls: 0,
+  cost: 0,
+  unpricedCalls: 0,
+});
+
+/**
+ * Add `usage` to `summary` in place
+ */
+export const addUsage = (
+  summary: UsageSummary,
+  usage: UsageSummary
+): UsageSummary => {
+  summary.promptTokens += usage.promptTokens;
+  summary.completionTokens += usage.completionTokens;
+  summary.totalTokens += usage.totalTokens;
+  summary.calls += usage.calls;
+  summary.cost += usage.cost;
+  summary.unpricedCalls += usage.unpricedCalls;
+  return summary;
+};
+
+/**
+ * Tag the usage reported through `options` with a pipeline phase. Phases
+ * set further down, e.g. by a delegated agent, are kept.
+ */
+export const withUsagePhase = (
+  options: RequestOptions,
+  phase: UsagePhase
+): RequestOptions => {
+  const { onUsage } = options;
+  if (!onUsage) {
+    return options;
+  }
+
+  return {
+    ...options,
+    onUsage: usage => onUsage({ ...usage, phase: usage.phase ?? phase }),
+  };
+};
+
+/**
+ * Collects the usage of the model calls made for one response
+ */
+export class UsageTracker {
+  private readonly prices: PriceTable;
+  private readonly records: UsageRecord[] = [];
+
+  constructor(prices: PriceTable = priceTable) {
+    this.prices = prices;
+  }
+
+  // An arrow function so it can be passed as `onUsage` directly
+  readonly record = (usage: UsageRecord): void => {
+    this.records.push(usage);
+  };
+
+  getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Totals with costs, overall and for each pipeline phase
+   */
+  getUsage(): ResponseUsage {
+    const total: ResponseUsage = { ...createUsageSummary(), phases: {} };
+
+    for (const record of this.records) {
+      const cost = this.prices.getCost(record);
+      const call: UsageSummary = {
+        ...createTokenUsage(record.promptTokens, record.completionTokens),
+        calls: 1,
+        cost: cost ?? 0,
+        unpricedCalls: cost === undefined ? 1 : 0,
+      };
+
+      addUsage(total, call);
+      if (record.phase) {
+        total.phases[record.phase] = addUsage(
+          total.phases[record.phase] ?? createUsageSummary(),
+          call
+        );
+      }
+    }
+
+    return total;
+  }
+}
+
+/**
+ * The usage stored in a response's metadata, if it has any
+ */
+export const getResponseUsage = (
+  message: UserInput | AgentResponse
+): UsageSummary | undefined => {
+  const usage = message.metadata?.usage as UsageSummary | undefined;
+  return usage && typeof usage.totalTokens === 'number' ? usage : undefined;
+};
+
+/**
+ * Total usage of the responses in a session
+ */
+export const summarizeSessionUsage = (session: ChatSession): UsageSummary =>
+  session.messages.reduce((summary, message) => {
+    const usage = getResponseUsage(message);
+    return usage ? addUsage(summary, usage) : summary;
+  }, createUsageSummary());
+
+/**
+ * Usage per UTC day across sessions, most recent day first
+ */
+export const summarizeDailyUsage = (sessions: ChatSession[]): DailyUsage[] => {
+  const days = new Map<string, DailyUsage>();
+
+  for (const message of sessions.flatMap(session => session.messages)) {
+    const usage = getResponseUsage(message);
+    if (!usage) continue;
+
+    const date = new Date(message.timestamp).toISOString().slice(0, 10);
+    const day = days.get(date) ?? { date, ...createUsageSummary() };
+    days.set(date, addUsage(day, usage) as DailyUsage);
+  }
+
+  return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,272 @@
+import {
+  ActionPlan,
+  ActionStep,
+  CoordinationState,
+  PendingApproval,
+  StorageAdapter,
+  UserInput,
+} from '../types';
+import { createUniqueId } from '../utils/type-factories';
+import { createStorageAdapter } from '../storage';
+import { orderPlanSteps, PlanValidationError } from '../agents/plan-executor';
+import { sessionManager } from './session-manager';
+
+/**
+ * Thrown when a decision is made on an approval that is no longer pending
+ */
+export class ApprovalStatusError extends Error {
+  readonly status: PendingApproval['status'];
+
+  constructor(approvalId: string, status: PendingApproval['status']) {
+    super(`Approval ${approvalId} is already ${status}`);
+    this.name = 'ApprovalStatusError';
+    this.status = status;
+  }
+}
+
+/**
+ * Holds plans that require approval until the user approves, edits or
+ * rejects them. Decisions are persisted so pending plans survive restarts.
+ */
+export class ApprovalManager {
+  private storage: StorageAdapter;
+  // Latest update of each approval; updates wait for the one before them
+  private updates: Map<string, Promise<unknown>> = new Map();
+
+  constructor(storage: StorageAdapter = createStorageAdapter()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Hold a plan back until the user decides on it. A plan delegated by a
+   * multi-agent task keeps the task's progress so it can resume on approval.
+   */
+  async requestApproval(
+    sessionId: string,
+    agentId: string,
+    input: UserInput,
+    plan: ActionPlan,
+    coordination?: CoordinationState
+  ): Promise<PendingApproval> {
+    const approval: PendingApproval = {
+      id: createUniqueId('approval'),
+      sessionId,
+      agentId,
+      input,
+      plan,
+      status: 'pending',
+      createdAt: new Date(),
+      ...(coordination && { coordination }),
+    };
+    await this.storage.saveApproval(approval);
+
+    return approval;
+  }
+
+  /**
+   * Get an approval by ID, whatever its status
+   */
+  async getApproval(approvalId: string): Promise<PendingApproval | null> {
+    return this.storage.getApproval(approvalId);
+  }
+
+  /**
+   * List plans still waiting for a decision, optionally for one session
+   */
+  async listPending(sessionId?: string): Promise<PendingApproval[]> {
+    const approvals = await this.storage.listApprovals(sessionId);
+    return approvals
+      .filter(approval => approval.status === 'pending')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Replace the steps of a pending plan. The new steps are checked for
+   * malformed fields, unknown dependencies and cycles before they are saved.
+   */
+  async editPlan(
+    approvalId: string,
+    steps: Partial<ActionStep>[]
+  ): Promise<PendingApproval> {
+    return this.update(approvalId, () => this.replaceSteps(approvalId, steps));
+  }
+
+  /**
+   * Claim a pending plan for execution, so it cannot be approved twice
+   * while it runs
+   */
+  async startExecution(approvalId: string): Promise<PendingApproval> {
+    return this.update(approvalId, async () => {
+      const approval = await this.getPending(approvalId);
+      approval.status = 'executing';
+      await this.storage.saveApproval(approval);
+
+      return approval;
+    });
+  }
+
+  /**
+   * Put a plan that did not finish running back up for a decision
+   */
+  async releaseExecution(approvalId: string): Promise<PendingApproval> {
+    return this.update(approvalId, async () => {
+      const approval = await this.getApprovalOrThrow(approvalId);
+      if (approval.status === 'executing') {
+        approval.status = 'pending';
+        await this.storage.saveApproval(approval);
+      }
+
+      return approval;
+    });
+  }
+
+  private async replaceSteps(
+    approvalId: string,
+    steps: Partial<ActionStep>[]
+  ): Promise<PendingApproval> {
+    const approval = await this.getPending(approvalId);
+
+    if (steps.length === 0) {
+      throw new PlanValidationError('A plan needs at least one step', []);
+    }
+
+    const normalized = steps.map((step, index): ActionStep => {
+      const invalid = (problem: string) =>
+        new PlanValidationError(`Step ${index + 1} ${problem}`, []);
+
+      if (
+        !step ||
+        typeof step !== 'object' ||
+        typeof step.id !== 'string' ||
+        typeof step.action !== 'string'
+      ) {
+        throw invalid('needs an id and an action');
+      }
+      if (
+        step.parameters !== undefined &&
+        (!step.parameters ||
+          typeof step.parameters !== 'object' ||
+          Array.isArray(step.parameters))
+      ) {
+        throw invalid('parameters must be an object');
+      }
+      if (
+        step.dependencies !== undefined &&
+        (!Array.isArray(step.dependencies) ||
+          step.dependencies.some(id => typeof id !== 'string'))
+      ) {
+        throw invalid('dependencies must be a list of step ids');
+      }
+      if (
+        step.estimatedDuration !== undefined &&
+        (typeof step.estimatedDuration !== 'number' ||
+          !Number.isFinite(step.estimatedDuration) ||
+          step.estimatedDuration < 0)
+      ) {
+        throw invalid('estimatedDuration must be a non-negative number');
+      }
+
+      return {
+        id: step.id,
+        action: step.action,
+        parameters: step.parameters ?? {},
+        dependencies: step.dependencies ?? [],
+        estimatedDuration: step.estimatedDuration ?? 1,
+      };
+    });
+    orderPlanSteps(normalized);
+
+    approval.plan = {
+      ...approval.plan,
+      steps: normalized,
+      estimatedDuration: normalized.reduce(
+        (total, step) => total + step.estimatedDuration,
+        0
+      ),
+    };
+    await this.storage.saveApproval(approval);
+
+    return approval;
+  }
+
+  /**
+   * Mark a plan as approved, either straight from pending or once the
+   * execution claimed with `startExecution` has finished
+   */
+  async approve(approvalId: string): Promise<PendingApproval> {
+    return this.update(approvalId, async () => {
+      const approval = await this.getPending(approvalId, ['executing']);
+      approval.status = 'approved';
+      approval.resolvedAt = new Date();
+      await this.storage.saveApproval(approval);
+
+      return approval;
+    });
+  }
+
+  /**
+   * Reject a pending plan so it is never executed
+   */
+  async reject(approvalId: string, reason?: string): Promise<PendingApproval> {
+    return this.update(approvalId, async () => {
+      const approval = await this.getPending(approvalId);
+      approval.status = 'rejected';
+      approval.resolvedAt = new Date();
+      if (reason) {
+        approval.rejectionReason = reason;
+      }
+      await this.storage.saveApproval(approval);
+
+      return approval;
+    });
+  }
+
+  private async getApprovalOrThrow(
+    approvalId: string
+  ): Promise<PendingApproval> {
+    const approval = await this.storage.getApproval(approvalId);
+    if (!approval) {
+      throw new Error(`Approval ${approvalId} not found`);
+    }
+
+    return approval;
+  }
+
+  // The approval, if it is pending or in one of the other allowed states
+  private async getPending(
+    approvalId: string,
+    alsoAllowed: PendingApproval['status'][] = []
+  ): Promise<PendingApproval> {
+    const approval = await this.getApprovalOrThrow(approvalId);
+    if (
+      approval.status !== 'pending' &&
+      !alsoAllowed.includes(approval.status)
+    ) {
+      throw new ApprovalStatusError(approvalId, approval.status);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Run a read-modify-write of an approval once its earlier updates have
+   * finished, so concurrent decisions cannot both see it pending
+   */
+  private update<T>(approvalId: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.updates.get(approvalId) ?? Promise.resolve();
+    const result = previous.then(run);
+    const settled = result.catch(() => undefined);
+    this.updates.set(approvalId, settled);
+
+    void settled.then(() => {
+      if (this.updates.get(approvalId) === settled) {
+        this.updates.delete(approvalId);
+      }
+    });
+
+    return result;
+  }
+}
+
+// Singleton instance, sharing storage with chat sessions
+export const approvalManager = new ApprovalManager(sessionManager.getStorage());
@@ -0,0 +1,159 @@
+import {
+  ChatSession,
+  UserInput,
+  AgentResponse,
+  StorageAdapter,
+} from '../types';
+import { createChatSession, createUniqueId } from '../utils/type-factories';
+import { createStorageAdapter } from '../storage';
+
+export class SessionManager {
+  private storage: StorageAdapter;
+  // Latest update of each session; updates wait for the one before them
+  private updates: Map<string, Promise<unknown>> = new Map();
+
+  constructor(storage: StorageAdapter = createStorageAdapter()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get the storage adapter sessions are persisted with
+   */
+  getStorage(): StorageAdapter {
+    return this.storage;
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    return this.storage.getSession(sessionId);
+  }
+
+  /**
+   * Look up an existing session or start a new one.
+   * Unknown IDs are kept so that clients can choose their own session IDs.
+   */
+  async getOrCreateSession(
+    sessionId: string | undefined,
+    agentId: string,
+    userId = 'anonymous'
+  ): Promise<ChatSession> {
+    const id = sessionId || createUniqueId('session');
+
+    return this.update(id, async () => {
+      if (sessionId) {
+        const existing = await this.storage.getSession(sessionId);
+        if (existing) {
+          existing.agentId = agentId;
+          existing.status = 'active';
+          await this.storage.saveSession(existing);
+          return existing;
+        }
+      }
+
+      const session = createChatSession({ id, userId, agentId });
+      await this.storage.saveSession(session);
+
+      return session;
+    });
+  }
+
+  /**
+   * Append messages to a session and bump its activity timestamp
+   */
+  async appendMessages(
+    sessionId: string,
+    ...messages: (UserInput | AgentResponse)[]
+  ): Promise<ChatSession> {
+    return this.update(sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      session.messages.push(...messages);
+      session.lastActivity = new Date();
+      await this.storage.saveSession(session);
+
+      return session;
+    });
+  }
+
+  /**
+   * Merge `metadata` into the metadata of one of a session's responses.
+   * Returns null if the session has no such response.
+   */
+  async annotateResponse(
+    sessionId: string,
+    responseId: string,
+    metadata: Record<string, unknown>
+  ): Promise<AgentResponse | null> {
+    return this.update(sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      const response = session?.messages.find(
+        (message): message is AgentResponse =>
+          message.id === responseId && 'agentId' in message
+      );
+      if (!session || !response) {
+        return null;
+      }
+
+      response.metadata = { ...response.metadata, ...metadata };
+      await this.storage.saveSession(session);
+
+      return response;
+    });
+  }
+
+  /**
+   * Get the last `limit` messages of a session
+   */
+  async getRecentMessages(
+    sessionId: string,
+    limit: number
+  ): Promise<(UserInput | AgentResponse)[]> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session || limit <= 0) {
+      return [];
+    }
+
+    return session.messages.slice(-limit);
+  }
+
+  /**
+   * List stored sessions, optionally for a single user
+   */
+  async listSessions(userId?: string): Promise<ChatSession[]> {
+    return this.storage.listSessions(userId);
+  }
+
+  /**
+   * Delete a session and its history
+   */
+  async endSession(sessionId: string): Promise<boolean> {
+    return this.update(sessionId, () => this.storage.deleteSession(sessionId));
+  }
+
+  /**
+   * Run a read-modify-write of a session once its earlier updates have
+   * finished, so concurrent requests do not overwrite each other's changes
+   */
+  private update<T>(sessionId: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.updates.get(sessionId) ?? Promise.resolve();
+    const result = previous.then(run);
+    const settled = result.catch(() => undefined);
+    this.updates.set(sessionId, settled);
+
+    void settled.then(() => {
+      if (this.updates.get(sessionId) === settled) {
+        this.updates.delete(sessionId);
+      }
+    });
+
+    return result;
+  }
+}
+
+// Singleton instance
+export const sessionManager = new SessionManager();
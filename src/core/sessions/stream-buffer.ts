@@ -0,0 +1,182 @@
+// One event of a streamed response
+export interface BufferedEvent {
+  id: number; // Position in the stream, starting at 1
+  event: string;
+  data: Record<string, unknown>;
+}
+
+export interface StreamBufferOptions {
+  retentionMs?: number; // How long a finished stream can still be read
+  abandonAfterMs?: number; // How long a stream runs without readers before it is cancelled
+}
+
+interface BufferedStream {
+  events: BufferedEvent[];
+  done: boolean;
+  readers: number;
+  abortController: AbortController;
+  waiting: (() => void)[];
+  abandonTimer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_RETENTION_MS = 60_000;
+const DEFAULT_ABANDON_AFTER_MS = 30_000;
+
+/**
+ * Keeps the events of in-flight streamed responses so a client that lost
+ * its connection can resume where it left off. Responses run on without a
+ * connected client, but one nobody reads for a while is cancelled.
+ */
+export class StreamBuffer {
+  private readonly streams = new Map<string, BufferedStream>();
+  private readonly retentionMs: number;
+  private readonly abandonAfterMs: number;
+
+  constructor(options: StreamBufferOptions = {}) {
+    this.retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+    this.abandonAfterMs = options.abandonAfterMs ?? DEFAULT_ABANDON_AFTER_MS;
+  }
+
+  /**
+   * Start buffering a stream. The returned signal aborts when the stream
+   * is cancelled or abandoned.
+   */
+  open(streamId: string): AbortSignal {
+    const stream: BufferedStream = {
+      events: [],
+      done: false,
+      readers: 0,
+      abortController: new AbortController(),
+      waiting: [],
+    };
+    this.streams.set(streamId, stream);
+    this.scheduleAbandon(stream);
+
+    return stream.abortController.signal;
+  }
+
+  push(
+    streamId: string,
+    event: { type: string } & Record<string, unknown>
+  ): void {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return;
+    }
+
+    stream.events.push({
+      id: stream.events.length + 1,
+      event: event.type,
+      data: event,
+    });
+    this.wakeReaders(stream);
+  }
+
+  /**
+   * Mark a stream as finished. It can still be read for a while.
+   */
+  close(streamId: string): void {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return;
+    }
+
+    stream.done = true;
+    clearTimeout(stream.abandonTimer);
+    this.wakeReaders(stream);
+    setTimeout(() => {
+      if (this.streams.get(streamId) === stream) {
+        this.streams.delete(streamId);
+      }
+    }, this.retentionMs);
+  }
+
+  has(streamId: string): boolean {
+    return this.streams.has(streamId);
+  }
+
+  /**
+   * Cancel a stream that is still running. Returns false for unknown and
+   * finished streams.
+   */
+  cancel(streamId: string): boolean {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return false;
+    }
+
+    stream.abortController.abort();
+    return true;
+  }
+
+  /**
+   * Read the events after `afterId`, then follow the stream until it
+   * finishes or `signal` aborts. Unknown streams yield nothing.
+   */
+  async *read(
+    streamId: string,
+    afterId = 0,
+    signal?: AbortSignal
+  ): AsyncGenerator<BufferedEvent> {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return;
+    }
+
+    stream.readers++;
+    clearTimeout(stream.abandonTimer);
+    try {
+      let next = Math.max(0, afterId);
+      while (!signal?.aborted) {
+        while (next < stream.events.length) {
+          yield stream.events[next++];
+        }
+        if (stream.done) {
+          return;
+        }
+        await this.waitForEvents(stream, signal);
+      }
+    } finally {
+      stream.readers--;
+      if (stream.readers === 0 && !stream.done) {
+        this.scheduleAbandon(stream);
+      }
+    }
+  }
+
+  private scheduleAbandon(stream: BufferedStream): void {
+    clearTimeout(stream.abandonTimer);
+    stream.abandonTimer = setTimeout(
+      () => stream.abortController.abort(),
+      this.abandonAfterMs
+    );
+  }
+
+  private waitForEvents(
+    stream: BufferedStream,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise(resolve => {
+      // The reader may have disconnected while it was handed an event
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const wake = () => {
+        signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      stream.waiting.push(wake);
+      signal?.addEventListener('abort', wake, { once: true });
+    });
+  }
+
+  private wakeReaders(stream: BufferedStream): void {
+    const waiting = stream.waiting;
+    stream.waiting = [];
+    waiting.forEach(wake => wake());
+  }
+}
+
+export const streamBuffer = new StreamBuffer();
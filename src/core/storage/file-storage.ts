@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  StorageAdapter,
+  ChatSession,
+  LongTermMemory,
+  PendingApproval,
+} from '../types';
+
+// Fields that hold Date values in persisted records
+const DATE_FIELDS = new Set([
+  'timestamp',
+  'startedAt',
+  'lastActivity',
+  'expiresAt',
+  'createdAt',
+  'resolvedAt',
+  'lastAccessed',
+]);
+
+type Collection = 'sessions' | 'memory' | 'approvals';
+
+// Keeps temporary file names unique when a record is written twice at once
+let tempCounter = 0;
+
+/**
+ * Storage adapter that keeps one JSON file per record:
+ *
+ *   <baseDir>/sessions/<sessionId>.json
+ *   <baseDir>/memory/<agentId>__<userId>.json
+ *   <baseDir>/approvals/<approvalId>.json
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private readonly baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    return this.readRecord<ChatSession>('sessions', sessionId);
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    await this.writeRecord('sessions', session.id, session);
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.deleteRecord('sessions', sessionId);
+  }
+
+  async listSessions(userId?: string): Promise<ChatSession[]> {
+    const sessions = await this.readCollection<ChatSession>('sessions');
+    return sessions.filter(session => !userId || session.userId === userId);
+  }
+
+  async loadMemory(
+    agentId: string,
+    userId: string
+  ): Promise<LongTermMemory | null> {
+    return this.readRecord<LongTermMemory>(
+      'memory',
+      memoryKey(agentId, userId)
+    );
+  }
+
+  async saveMemory(memory: LongTermMemory): Promise<void> {
+    await this.writeRecord(
+      'memory',
+      memoryKey(memory.agentId, memory.userId),
+      memory
+    );
+  }
+
+  async getApproval(approvalId: string): Promise<PendingApproval | null> {
+    return this.readRecord<PendingApproval>('approvals', approvalId);
+  }
+
+  async saveApproval(approval: PendingApproval): Promise<void> {
+    await this.writeRecord('approvals', approval.id, approval);
+  }
+
+  async listApprovals(sessionId?: string): Promise<PendingApproval[]> {
+    const approvals = await this.readCollection<PendingApproval>('approvals');
+    return approvals.filter(
+      approval => !sessionId || approval.sessionId === sessionId
+    );
+  }
+
+  private recordPath(collection: Collection, id: string): string {
+    return path.join(
+      this.baseDir,
+      collection,
+      `${encodeURIComponent(id)}.json`
+    );
+  }
+
+  private async readRecord<T>(
+    collection: Collection,
+    id: string
+  ): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(this.recordPath(collection, id), 'utf-8');
+      return JSON.parse(raw, reviveDates) as T;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readCollection<T>(collection: Collection): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.baseDir, collection));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: T[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const record = await this.readRecord<T>(
+        collection,
+        decodeURIComponent(file.slice(0, -'.json'.length))
+      );
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  private async writeRecord(
+    collection: Collection,
+    id: string,
+    record: unknown
+  ): Promise<void> {
+    const filePath = this.recordPath(collection, id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated record
+    const tempPath = `${filePath}.${process.pid}.${++tempCounter}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private async deleteRecord(
+    collection: Collection,
+    id: string
+  ): Promise<boolean> {
+    try {
+      await fs.unlink(this.recordPath(collection, id));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+const memoryKey = (agentId: string, userId: string): string =>
+  `${agentId}__${userId || 'default'}`;
+
+const isNotFound = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
@@ -0,0 +1,21 @@
+import { StorageAdapter } from '../types';
+import { FileStorageAdapter } from './file-storage';
+import { InMemoryStorageAdapter } from './memory-storage';
+
+export { FileStorageAdapter } from './file-storage';
+export { InMemoryStorageAdapter } from './memory-storage';
+
+/**
+ * Create the storage adapter selected by the environment:
+ * - POLARIS_STORAGE: 'file' (default) or 'memory'
+ * - POLARIS_DATA_DIR: directory for the file adapter (default '.polaris/data')
+ */
+export const createStorageAdapter = (): StorageAdapter => {
+  if (process.env.POLARIS_STORAGE === 'memory') {
+    return new InMemoryStorageAdapter();
+  }
+
+  return new FileStorageAdapter(
+    process.env.POLARIS_DATA_DIR || '.polaris/data'
+  );
+};
@@ -0,0 +1,69 @@
+import {
+  StorageAdapter,
+  ChatSession,
+  LongTermMemory,
+  PendingApproval,
+} from '../types';
+import { deepClone } from '../utils/type-factories';
+
+/**
+ * Non-persistent storage adapter, used in tests and when persistence is disabled.
+ * Records are cloned on the way in and out so callers cannot mutate stored state.
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private sessions: Map<string, ChatSession> = new Map();
+  private memories: Map<string, LongTermMemory> = new Map();
+  private approvals: Map<string, PendingApproval> = new Map();
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? deepClone(session) : null;
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    this.sessions.set(session.id, deepClone(session));
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async listSessions(userId?: string): Promise<ChatSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => !userId || session.userId === userId)
+      .map(session => deepClone(session));
+  }
+
+  async loadMemory(
+    agentId: string,
+    userId: string
+  ): Promise<LongTermMemory | null> {
+    const memory = this.memories.get(memoryKey(agentId, userId));
+    return memory ? deepClone(memory) : null;
+  }
+
+  async saveMemory(memory: LongTermMemory): Promise<void> {
+    this.memories.set(
+      memoryKey(memory.agentId, memory.userId),
+      deepClone(memory)
+    );
+  }
+
+  async getApproval(approvalId: string): Promise<PendingApproval | null> {
+    const approval = this.approvals.get(approvalId);
+    return approval ? deepClone(approval) : null;
+  }
+
+  async saveApproval(approval: PendingApproval): Promise<void> {
+    this.approvals.set(approval.id, deepClone(approval));
+  }
+
+  async listApprovals(sessionId?: string): Promise<PendingApproval[]> {
+    return Array.from(this.approvals.values())
+      .filter(approval => !sessionId || approval.sessionId === sessionId)
+      .map(approval => deepClone(approval));
+  }
+}
+
+const memoryKey = (agentId: string, userId: string): string =>
+  `${agentId}:${userId || 'default'}`;
@@ -0,0 +1,238 @@
+import {
+  ChatMessage,
+  ModelConfig,
+  ModelProvider,
+  RequestOptions,
+  Tool,
+  ToolCall,
+  ToolDefinition,
+} from '../types';
+import { SchemaValidationIssue } from '../utils/json-schema';
+import { ToolValidationError } from './tool-validation';
+import { throwIfAborted } from '../utils/abort';
+
+export interface ToolExecutionRecord {
+  callId: string;
+  toolId: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  validationIssues?: SchemaValidationIssue[]; // Set when the arguments failed schema validation
+}
+
+export interface ToolLoopResult {
+  content: string;
+  toolCalls: ToolExecutionRecord[];
+  iterations: number;
+}
+
+/**
+ * Convert a registered tool into a function definition for the model
+ */
+export const toToolDefinition = (tool: Tool): ToolDefinition => ({
+  name: tool.id,
+  description: tool.description,
+  parameters: tool.parameters,
+});
+
+const executeToolCall = async (
+  call: ToolCall,
+  tools: Tool[]
+): Promise<ToolExecutionRecord> => {
+  const record: ToolExecutionRecord = {
+    callId: call.id,
+    toolId: call.name,
+    arguments: call.arguments,
+  };
+
+  const tool = tools.find(candidate => candidate.id === call.name);
+  if (!tool) {
+    record.error = `Unknown tool: ${call.name}`;
+    return record;
+  }
+
+  try {
+    record.result = await tool.execute(call.arguments);
+  } catch (error) {
+    if (error instanceof ToolValidationError) {
+      record.validationIssues = error.issues;
+    }
+    record.error =
+      error instanceof Error ? error.message : 'Tool execution failed';
+  }
+
+  return record;
+};
+
+/**
+ * Shape a tool result for the model. Validation failures are reported with
+ * their individual issues so the model can correct its arguments and retry.
+ */
+const toToolMessagePayload = (record: ToolExecutionRecord): unknown => {
+  if (record.validationIssues) {
+    return {
+      error: 'invalid_arguments',
+      message: record.error,
+      issues: record.validationIssues,
+    };
+  }
+
+  return record.error ? { error: record.error } : (record.result ?? null);
+};
+
+// State of a conversation once the model stopped calling tools
+interface ToolRounds {
+  conversation: ChatMessage[];
+  toolCalls: ToolExecutionRecord[];
+  iterations: number;
+  content?: string; // The model's answer, unless the rounds ran out first
+}
+
+/**
+ * Send the conversation plus tool definitions to the provider, execute the
+ * requested tool calls and feed their results back as `tool` messages, until
+ * the model answers without tools or `maxIterations` rounds have run
+ */
+const runToolRounds = async (
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  tools: Tool[],
+  config: ModelConfig,
+  maxIterations: number,
+  options: RequestOptions
+): Promise<ToolRounds> => {
+  const { signal, onUsage, onEvent } = options;
+  const conversation = [...messages];
+  const definitions = tools.map(toToolDefinition);
+  const executed: ToolExecutionRecord[] = [];
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const completion = await provider.generateChat(conversation, config, {
+      tools: definitions,
+      signal,
+      onUsage,
+    });
+
+    if (completion.toolCalls.length === 0) {
+      return {
+        conversation,
+        toolCalls: executed,
+        iterations: iteration,
+        content: completion.content,
+      };
+    }
+
+    conversation.push({
+      role: 'assistant',
+      content: completion.content,
+      toolCalls: completion.toolCalls,
+    });
+
+    for (const call of completion.toolCalls) {
+      throwIfAborted(signal);
+      onEvent?.({
+        type: 'tool_call',
+        callId: call.id,
+        toolId: call.name,
+        arguments: call.arguments,
+      });
+      const record = await executeToolCall(call, tools);
+      onEvent?.({
+        type: 'tool_result',
+        callId: record.callId,
+        toolId: record.toolId,
+        result: record.result,
+        error: record.error,
+      });
+      executed.push(record);
+      conversation.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(toToolMessagePayload(record)),
+      });
+    }
+  }
+
+  return { conversation, toolCalls: executed, iterations: maxIterations + 1 };
+};
+
+/**
+ * Let the model call tools until it produces a final answer.
+ *
+ * Each round sends the conversation plus tool definitions to the provider,
+ * executes the requested tool calls and feeds their results back as `tool`
+ * messages. After `maxIterations` rounds the model is asked to answer
+ * without tools. Aborting `options.signal` stops the loop between tool calls,
+ * and `options.onEvent` is told of each tool call and its result.
+ */
+export const runToolLoop = async (
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  tools: Tool[],
+  config: ModelConfig,
+  maxIterations = 5,
+  options: RequestOptions = {}
+): Promise<ToolLoopResult> => {
+  const rounds = await runToolRounds(
+    provider,
+    messages,
+    tools,
+    config,
+    maxIterations,
+    options
+  );
+  if (rounds.content !== undefined) {
+    return {
+      content: rounds.content,
+      toolCalls: rounds.toolCalls,
+      iterations: rounds.iterations,
+    };
+  }
+
+  // Out of tool rounds: force a final answer
+  const final = await provider.generateChat(rounds.conversation, config, {
+    signal: options.signal,
+    onUsage: options.onUsage,
+  });
+  return {
+    content: final.content,
+    toolCalls: rounds.toolCalls,
+    iterations: rounds.iterations,
+  };
+};
+
+/**
+ * Streaming counterpart of `runToolLoop`: the tool rounds run first, then
+ * the answer is streamed. Whether the model wants a tool is only known from
+ * a complete reply, so an answer given in a tool round arrives in one piece;
+ * the answer forced after `maxIterations` rounds is streamed as generated.
+ */
+export async function* streamToolLoop(
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  tools: Tool[],
+  config: ModelConfig,
+  maxIterations = 5,
+  options: RequestOptions = {}
+): AsyncIterable<string> {
+  const rounds = await runToolRounds(
+    provider,
+    messages,
+    tools,
+    config,
+    maxIterations,
+    options
+  );
+  if (rounds.content !== undefined) {
+    if (rounds.content) {
+      yield rounds.content;
+    }
+    return;
+  }
+
+  yield* provider.streamChat(rounds.conversation, config, {
+    signal: options.signal,
+    onUsage: options.onUsage,
+  });
+}
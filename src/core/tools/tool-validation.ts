@@ -0,0 +1,60 @@
+import { Tool } from '../types';
+import {
+  SchemaValidationIssue,
+  formatValidationIssues,
+  validateJsonSchema,
+} from '../utils/json-schema';
+
+/**
+ * Thrown when a tool is called with arguments that do not match its schema
+ */
+export class ToolValidationError extends Error {
+  readonly toolId: string;
+  readonly issues: SchemaValidationIssue[];
+
+  constructor(toolId: string, issues: SchemaValidationIssue[]) {
+    super(
+      `Invalid arguments for tool ${toolId}: ${formatValidationIssues(issues)}`
+    );
+    this.name = 'ToolValidationError';
+    this.toolId = toolId;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate tool arguments against the tool's parameter schema.
+ * Numeric/boolean strings and enum casing are coerced and defaults applied,
+ * so the returned arguments can be passed to `execute` as-is.
+ */
+export const validateToolArguments = (
+  tool: Tool,
+  args: Record<string, unknown>
+): Record<string, unknown> => {
+  const result = validateJsonSchema<Record<string, unknown>>(
+    args ?? {},
+    tool.parameters,
+    { coerce: true, applyDefaults: true }
+  );
+
+  if (!result.valid) {
+    throw new ToolValidationError(tool.id, result.issues);
+  }
+
+  return result.value;
+};
+
+/**
+ * Wrap a tool so every call validates its arguments before `execute` runs
+ */
+export const withArgumentValidation = (tool: Tool): Tool => {
+  if (tool.parameters.type !== 'object') {
+    throw new Error(`Tool ${tool.id} parameters must be an object schema`);
+  }
+
+  return {
+    ...tool,
+    execute: async (params: Record<string, unknown>) =>
+      tool.execute(validateToolArguments(tool, params)),
+  };
+};
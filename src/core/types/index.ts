@@ -28,14 +28,169 @@ export interface ModelConfig {
   systemPrompt?: string;
 }
 
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ToolCall[]; // Tool calls requested by an assistant message
+  toolCallId?: string; // Tool call a tool message answers
+  name?: string; // Tool name for tool messages
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Subset of JSON Schema used to describe and validate structured data
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+  description?: string;
+  enum?: (string | number | boolean)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+// Function definition exposed to the model
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ChatCompletion {
+  content: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage; // Set when the provider reports token counts
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Reasoning pipeline step a model call was made for
+export type UsagePhase =
+  | 'analyze'
+  | 'plan'
+  | 'execute'
+  | 'decompose'
+  | 'synthesize';
+
+// Token usage of one model call, as reported to `RequestOptions.onUsage`
+export interface UsageRecord extends TokenUsage {
+  providerId: string;
+  providerType: 'local' | 'remote';
+  model: string;
+  phase?: UsagePhase;
+}
+
+// Token and cost totals over a number of model calls
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  cost: number; // USD
+  unpricedCalls: number; // Remote calls without a known price, not included in `cost`
+}
+
+// Usage of one response, split by pipeline phase
+export interface ResponseUsage extends UsageSummary {
+  phases: Partial<Record<UsagePhase, UsageSummary>>;
+}
+
+export interface DailyUsage extends UsageSummary {
+  date: string; // UTC day, YYYY-MM-DD
+}
+
+// JSON schema the model's reply must conform to
+export interface ResponseFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+// Progress of the reasoning pipeline, as reported to `RequestOptions.onEvent`
+export type PipelineEvent =
+  | { type: 'analysis'; analysis: Analysis }
+  | { type: 'plan'; plan: ActionPlan }
+  | { type: 'step_start'; stepId: string; action: string }
+  | {
+      type: 'step_end';
+      stepId: string;
+      action: string;
+      status: 'completed' | 'failed' | 'skipped';
+      output?: string;
+      error?: string;
+      durationMs: number;
+    }
+  | { type: 'tool_call'; callId: string; toolId: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; callId: string; toolId: string; result?: unknown; error?: string };
+
+// Options accepted by every model request
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request, e.g. when the client disconnects
+  onUsage?: (usage: UsageRecord) => void; // Called after each model call, streamed ones included
+  onEvent?: (event: PipelineEvent) => void; // Called as the agent analyses, plans and executes a request
+}
+
+export interface ChatOptions extends RequestOptions {
+  tools?: ToolDefinition[]; // Functions the model may call in its reply
+  responseFormat?: ResponseFormat; // Constrain the reply to JSON matching a schema
+}
+
+export interface StructuredOutputOptions extends RequestOptions {
+  name?: string; // Identifies the schema to the provider and in errors
+  maxRetries?: number; // Extra attempts after an invalid reply (default 2)
+}
+
 export interface ModelProvider {
   id: string;
   name: string;
   type: 'local' | 'remote';
   authenticate(apiKey?: string): Promise<boolean>;
-  generateResponse(prompt: string, config: ModelConfig): Promise<string>;
-  streamResponse(prompt: string, config: ModelConfig): AsyncIterable<string>;
+  // Role-based chat API; tool calls are returned when `options.tools` is set
+  generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options?: ChatOptions
+  ): Promise<ChatCompletion>;
+  streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    options?: RequestOptions
+  ): AsyncIterable<string>;
+  // Single-prompt wrappers around the chat API; `config.systemPrompt` becomes the system message
+  generateResponse(
+    prompt: string,
+    config: ModelConfig,
+    options?: RequestOptions
+  ): Promise<string>;
+  streamResponse(
+    prompt: string,
+    config: ModelConfig,
+    options?: RequestOptions
+  ): AsyncIterable<string>;
+  // JSON output validated against `schema`, retrying with the issues fed back
+  generateStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    config: ModelConfig,
+    options?: StructuredOutputOptions
+  ): Promise<T>;
   isAvailable(): Promise<boolean>;
+  getCurrentModel(): string;
+  // Tokens the current model accepts, prompt and output together
+  getContextLength(options?: RequestOptions): Promise<number>;
+  // One vector per text; throws EmbeddingsUnsupportedError without an embeddings API
+  embed(texts: string[], options?: RequestOptions): Promise<EmbeddingResult>;
   getStatus(): {
     authenticated: boolean;
     available: boolean;
@@ -45,11 +200,16 @@ export interface ModelProvider {
   };
 }
 
+export interface EmbeddingResult {
+  embeddings: number[][]; // In the order of the input texts
+  model: string;
+}
+
 export interface Tool {
   id: string;
   name: string;
   description: string;
-  parameters: Record<string, unknown>;
+  parameters: JsonSchema; // Object schema describing the accepted arguments
   execute(params: Record<string, unknown>): Promise<unknown>;
 }
 
@@ -59,6 +219,8 @@ export interface Analysis {
   entities: Record<string, unknown>;
   context: Record<string, unknown>;
   previousConversation?: string[];
+  relevantMemories?: string[]; // Recalled for the input and shown to later prompts
+  preferences?: Record<string, unknown>; // The user's preferences, followed by the response
 }
 
 export interface ActionPlan {
@@ -66,6 +228,7 @@ export interface ActionPlan {
   steps: ActionStep[];
   estimatedDuration: number;
   requiresApproval: boolean;
+  analysis?: Analysis; // Analysis the plan was derived from, carries conversation context
 }
 
 export interface ActionStep {
@@ -76,6 +239,14 @@ export interface ActionStep {
   estimatedDuration: number;
 }
 
+// Explicit feedback from the user on one response
+export interface UserFeedback {
+  responseId: string;
+  rating?: 'up' | 'down';
+  correction?: string; // Free text, e.g. "Too long, just give me the command"
+  timestamp: Date;
+}
+
 export interface LearningUpdate {
   patterns: Record<string, unknown>;
   preferences: Record<string, unknown>;
@@ -89,6 +260,7 @@ export interface LongTermMemory {
   memories: Memory[];
   patterns: Record<string, unknown>;
   preferences: Record<string, unknown>;
+  pendingConsolidation?: number; // Memories added since the last consolidation
 }
 
 export interface Memory {
@@ -98,13 +270,67 @@ export interface Memory {
   importance: number;
   tags: string[];
   embedding?: number[];
+  embeddingModel?: string; // Vectors of different models cannot be compared
+  lastAccessed?: Date; // Last recall, from which importance decays
+  accessCount?: number;
+  responseId?: string; // Response the memory was made from
 }
 
+// `options.signal` cancels the model requests a planner method makes
 export interface TaskPlanner {
-  analyzeTask(input: UserInput): Promise<Analysis>;
-  createPlan(analysis: Analysis): Promise<ActionPlan>;
-  executePlan(plan: ActionPlan): Promise<AgentResponse>;
-  streamExecution(plan: ActionPlan): Promise<AsyncIterable<string>>;
+  analyzeTask(
+    input: UserInput,
+    history?: string[],
+    options?: RequestOptions,
+    memories?: string[]
+  ): Promise<Analysis>;
+  createPlan(analysis: Analysis, options?: RequestOptions): Promise<ActionPlan>;
+  executePlan(
+    plan: ActionPlan,
+    options?: RequestOptions
+  ): Promise<AgentResponse>;
+  streamExecution(
+    plan: ActionPlan,
+    options?: RequestOptions
+  ): Promise<AsyncIterable<string>>;
+  // Multi-agent coordination, used when this planner's agent leads a task
+  decomposeTask?(
+    task: string,
+    collaborators: CollaboratorInfo[],
+    options?: RequestOptions
+  ): Promise<ActionPlan>;
+  synthesizeResults?(
+    task: string,
+    contributions: AgentContribution[],
+    options?: RequestOptions
+  ): Promise<string>;
+}
+
+// Agent a lead agent can delegate steps to
+export interface CollaboratorInfo {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: string[];
+}
+
+// Result of one delegated step in a multi-agent task
+export interface AgentContribution {
+  stepId: string;
+  agentId: string;
+  agentName: string;
+  task: string;
+  content: string;
+  confidence: number;
+}
+
+// A multi-agent task paused while a delegated plan waits for approval
+export interface CoordinationState {
+  input: UserInput; // The request the lead agent split up
+  leadAgentId: string;
+  steps: ActionStep[];
+  contributions: AgentContribution[]; // Results of the steps that already ran
+  stepId: string; // Step whose plan waits for approval
 }
 
 export interface ReasoningAgent {
@@ -120,10 +346,18 @@ export interface ReasoningAgent {
   tools: Tool[];
 
   // Reasoning process
-  analyze(input: UserInput): Promise<Analysis>;
-  plan(analysis: Analysis): Promise<ActionPlan>;
-  execute(plan: ActionPlan): Promise<AgentResponse>;
-  reflect(response: AgentResponse): Promise<LearningUpdate>;
+  analyze(
+    input: UserInput,
+    history?: string[],
+    options?: RequestOptions
+  ): Promise<Analysis>;
+  plan(analysis: Analysis, options?: RequestOptions): Promise<ActionPlan>;
+  execute(plan: ActionPlan, options?: RequestOptions): Promise<AgentResponse>;
+  // Learns from the user's feedback when given, otherwise from the response alone
+  reflect(
+    response: AgentResponse,
+    feedback?: UserFeedback
+  ): Promise<LearningUpdate>;
 
   // Lifecycle
   initialize(): Promise<void>;
@@ -186,6 +420,20 @@ export interface ChatSession {
   status: 'active' | 'paused' | 'completed';
 }
 
+// A plan held back until the user approves, edits or rejects it
+export interface PendingApproval {
+  id: string;
+  sessionId: string;
+  agentId: string;
+  input: UserInput;
+  plan: ActionPlan;
+  status: 'pending' | 'executing' | 'approved' | 'rejected'; // Executing while an approved plan runs
+  createdAt: Date;
+  resolvedAt?: Date;
+  rejectionReason?: string;
+  coordination?: CoordinationState; // Set when the plan was delegated by a multi-agent task
+}
+
 export interface AgentOrchestrator {
   agents: Map<string, ReasoningAgent>;
   activeSession: ChatSession | null;
@@ -195,3 +443,20 @@ export interface AgentOrchestrator {
   coordinateAgents(task: string): Promise<AgentResponse[]>;
   getAgentStatus(agentId: string): Promise<'active' | 'inactive' | 'error'>;
 }
+
+export interface StorageAdapter {
+  // Chat sessions
+  getSession(sessionId: string): Promise<ChatSession | null>;
+  saveSession(session: ChatSession): Promise<void>;
+  deleteSession(sessionId: string): Promise<boolean>;
+  listSessions(userId?: string): Promise<ChatSession[]>;
+
+  // Agent long-term memory (memory entries, patterns and preferences)
+  loadMemory(agentId: string, userId: string): Promise<LongTermMemory | null>;
+  saveMemory(memory: LongTermMemory): Promise<void>;
+
+  // Plans awaiting approval
+  getApproval(approvalId: string): Promise<PendingApproval | null>;
+  saveApproval(approval: PendingApproval): Promise<void>;
+  listApprovals(sessionId?: string): Promise<PendingApproval[]>;
+}
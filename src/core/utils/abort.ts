@@ -0,0 +1,37 @@
+/**
+ * Thrown when a request is cancelled through its AbortSignal, matching the
+ * `AbortError` that `fetch` rejects with
+ */
+export class AbortError extends Error {
+  constructor(message = 'Request aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Whether an error comes from a cancelled request, whether thrown by
+ * `fetch`, a stream reader or `throwIfAborted`
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as { name?: unknown }).name === 'AbortError';
+
+/**
+ * A signal that fires when `signal` does or after `ms`, whichever comes
+ * first. The timeout fires with a `TimeoutError`, which is not an abort.
+ */
+export const withTimeout = (ms: number, signal?: AbortSignal): AbortSignal => {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
+/**
+ * Stop work that has not started yet once the signal has fired
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+};
@@ -0,0 +1,256 @@
+import { JsonSchema } from '../types';
+import { deepClone } from './type-factories';
+
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult<T = unknown> {
+  valid: boolean;
+  value: T;
+  issues: SchemaValidationIssue[];
+}
+
+export interface SchemaValidationOptions {
+  coerce?: boolean; // Convert numeric/boolean strings and match enums case-insensitively
+  applyDefaults?: boolean; // Fill in missing properties that declare a default
+}
+
+/**
+ * Validates a value against a JSON schema subset and returns the (optionally
+ * coerced) value together with every issue found.
+ */
+export const validateJsonSchema = <T = unknown>(
+  value: unknown,
+  schema: JsonSchema,
+  options: SchemaValidationOptions = {}
+): SchemaValidationResult<T> => {
+  const issues: SchemaValidationIssue[] = [];
+  const result = validateValue(value, schema, '', issues, options);
+
+  return { valid: issues.length === 0, value: result as T, issues };
+};
+
+/**
+ * Formats validation issues as a single human-readable sentence
+ */
+export const formatValidationIssues = (
+  issues: SchemaValidationIssue[]
+): string =>
+  issues
+    .map(issue =>
+      issue.path ? `${issue.path} ${issue.message}` : issue.message
+    )
+    .join('; ');
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describeType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const withArticle = (type: string): string =>
+  `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function coerceValue(
+  value: unknown,
+  type: JsonSchema['type'],
+  options: SchemaValidationOptions
+): unknown {
+  if (!options.coerce) {
+    return value;
+  }
+
+  if ((type === 'number' || type === 'integer') && typeof value === 'string') {
+    const trimmed = value.trim();
+    const parsed = Number(trimmed);
+    return trimmed !== '' && !isNaN(parsed) ? parsed : value;
+  }
+
+  if (type === 'boolean' && typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true') return true;
+    if (normalized === 'false') return false;
+  }
+
+  if (
+    type === 'string' &&
+    (typeof value === 'number' || typeof value === 'boolean')
+  ) {
+    return String(value);
+  }
+
+  return value;
+}
+
+function checkType(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function validateValue(
+  input: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: SchemaValidationIssue[],
+  options: SchemaValidationOptions
+): unknown {
+  const value = coerceValue(input, schema.type, options);
+
+  if (!checkType(value, schema.type)) {
+    issues.push({
+      path,
+      message: `must be ${withArticle(schema.type)} (received ${describeType(input)})`,
+    });
+    return input;
+  }
+
+  if (schema.enum) {
+    return validateEnum(value, schema.enum, path, issues, options);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({
+        path,
+        message: `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({
+        path,
+        message: `must be at most ${schema.maxLength} characters`,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `must have at least ${schema.minItems} item(s)`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `must have at most ${schema.maxItems} item(s)`,
+      });
+    }
+
+    const items = schema.items;
+    return items
+      ? value.map((item, index) =>
+          validateValue(item, items, joinPath(path, index), issues, options)
+        )
+      : value;
+  }
+
+  if (isPlainObject(value)) {
+    return validateObject(value, schema, path, issues, options);
+  }
+
+  return value;
+}
+
+function validateEnum(
+  value: unknown,
+  allowed: NonNullable<JsonSchema['enum']>,
+  path: string,
+  issues: SchemaValidationIssue[],
+  options: SchemaValidationOptions
+): unknown {
+  if (allowed.includes(value as string | number | boolean)) {
+    return value;
+  }
+
+  if (options.coerce && typeof value === 'string') {
+    const match = allowed.find(
+      candidate =>
+        typeof candidate === 'string' &&
+        candidate.toLowerCase() === value.trim().toLowerCase()
+    );
+    if (match !== undefined) {
+      return match;
+    }
+  }
+
+  issues.push({
+    path,
+    message: `must be one of: ${allowed.map(option => JSON.stringify(option)).join(', ')}`,
+  });
+  return value;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  issues: SchemaValidationIssue[],
+  options: SchemaValidationOptions
+): Record<string, unknown> {
+  const properties = schema.properties || {};
+  const required = schema.required || [];
+  const result: Record<string, unknown> = { ...value };
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const propertyPath = joinPath(path, key);
+
+    if (value[key] === undefined || value[key] === null) {
+      if (options.applyDefaults && propertySchema.default !== undefined) {
+        result[key] = deepClone(propertySchema.default);
+      } else if (required.includes(key)) {
+        issues.push({ path: propertyPath, message: 'is required' });
+      }
+      continue;
+    }
+
+    result[key] = validateValue(
+      value[key],
+      propertySchema,
+      propertyPath,
+      issues,
+      options
+    );
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(value)) {
+      if (!(key in properties)) {
+        issues.push({
+          path: joinPath(path, key),
+          message: 'is not an allowed property',
+        });
+      }
+    }
+  }
+
+  return result;
+}
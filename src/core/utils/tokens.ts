@@ -0,0 +1,83 @@
+import { ChatMessage } from '../types';
+
+// Typical for English text with BPE tokenizers; other scripts use more
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators added around each chat message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const TRUNCATION_MARKER = '[…]';
+
+/**
+ * Rough token count of `text`, erring on the high side. Characters outside
+ * ASCII, such as CJK or emoji, are counted as a token each.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) {
+    return 0;
+  }
+
+  const ascii = text.replace(/[^\x00-\x7f]/g, '').length;
+  return Math.ceil(ascii / CHARS_PER_TOKEN) + (text.length - ascii);
+};
+
+/**
+ * Rough token count of a chat request's messages, including tool calls
+ */
+export const estimateMessageTokens = (messages: ChatMessage[]): number =>
+  messages.reduce(
+    (total, message) =>
+      total +
+      MESSAGE_OVERHEAD_TOKENS +
+      estimateTokens(message.content) +
+      estimateTokens(
+        message.toolCalls ? JSON.stringify(message.toolCalls) : ''
+      ),
+    0
+  );
+
+/**
+ * Shorten `text` to about `maxTokens`, keeping its start or its end and
+ * cutting at a line break where one is close. A marker shows where text
+ * was removed.
+ */
+export const truncateToTokens = (
+  text: string,
+  maxTokens: number,
+  keep: 'start' | 'end' = 'start'
+): string => {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const available = maxTokens - estimateTokens(TRUNCATION_MARKER) - 1;
+  if (available <= 0) {
+    return '';
+  }
+
+  // Find the longest part that fits; non-ASCII text needs fewer characters
+  let low = 0;
+  let high = Math.min(text.length, available * CHARS_PER_TOKEN);
+  const part = (length: number) =>
+    keep === 'start' ? text.slice(0, length) : text.slice(text.length - length);
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (estimateTokens(part(middle)) <= available) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const kept = part(low);
+  // Prefer whole lines, unless that would throw away most of what fits
+  const lineBreak =
+    keep === 'start' ? kept.lastIndexOf('\n') : kept.indexOf('\n');
+  const cutAtLine =
+    lineBreak >= 0 &&
+    (keep === 'start' ? lineBreak : kept.length - lineBreak) >= kept.length / 2;
+
+  if (keep === 'start') {
+    return `${cutAtLine ? kept.slice(0, lineBreak) : kept}\n${TRUNCATION_MARKER}`;
+  }
+  return `${TRUNCATION_MARKER}\n${cutAtLine ? kept.slice(lineBreak + 1) : kept}`;
+};
@@ -0,0 +1,53 @@
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+const parseEvent = (block: string): ServerSentEvent | null => {
+  const event: ServerSentEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    // Lines starting with a colon are comments, e.g. heartbeats
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      data.push(value);
+    } else if (field === 'event') {
+      event.event = value;
+    } else if (field === 'id') {
+      event.id = value;
+    }
+  }
+
+  if (data.length === 0) {
+    return null;
+  }
+  event.data = data.join('\n');
+  return event;
+};
+
+/**
+ * Incremental parser for a `text/event-stream` body. Feed it the decoded
+ * text as it arrives; it returns the events completed so far.
+ */
+export class EventStreamParser {
+  private buffer = '';
+
+  push(text: string): ServerSentEvent[] {
+    this.buffer += text.replace(/\r/g, '');
+    const blocks = this.buffer.split('\n\n');
+    this.buffer = blocks.pop() ?? '';
+
+    return blocks.flatMap(block => {
+      const event = parseEvent(block);
+      return event ? [event] : [];
+    });
+  }
+}
@@ -0,0 +1,370 @@
+import {
+  ApprovalRequiredError,
+  BasicAgentOrchestrator,
+} from '@/core/agents/agent-orchestrator';
+import { AgentRegistry } from '@/core/agents/agent-registry';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { createChatSession } from '@/core/utils/type-factories';
+import {
+  MockAgent,
+  MockModelProvider,
+  MockTaskPlanner,
+  createMockActionPlan,
+  createMockAgentResponse,
+  createMockModelConfig,
+  createMockUserInput,
+} from '../../utils/mocks';
+import { AgentContribution } from '@/core/types';
+import { AbortError } from '@/core/utils/abort';
+
+const createAgent = (id: string, name: string, content: string) => {
+  const agent = new MockAgent(id, name);
+  (agent.planner as MockTaskPlanner).setResponse(
+    createMockAgentResponse({ agentId: id, content, confidence: 0.8 })
+  );
+  return agent;
+};
+
+describe('BasicAgentOrchestrator', () => {
+  const catalog = new AgentRegistry().getAvailableAgents();
+  let orchestrator: BasicAgentOrchestrator;
+
+  beforeEach(() => {
+    orchestrator = new BasicAgentOrchestrator(catalog);
+  });
+
+  describe('classify', () => {
+    it.each([
+      'Can you create a meal plan for a vegetarian?',
+      'How many calories and how much protein do I need?',
+      'Give me a shopping list for healthy lunches',
+      'I have dietary restrictions, what should I cook?',
+    ])('should route nutrition requests to the nutrition agent: %s', text => {
+      const decision = orchestrator.classify(
+        createMockUserInput({ content: text })
+      );
+
+      expect(decision.agentId).toBe('nutrition-agent');
+      expect(decision.fallback).toBe(false);
+      expect(decision.confidence).toBeGreaterThanOrEqual(0.3);
+    });
+
+    it('should route general requests to the general assistant', () => {
+      const decision = orchestrator.classify(
+        createMockUserInput({
+          content: 'Help me with brainstorming and creative writing',
+        })
+      );
+
+      expect(decision.agentId).toBe('general-assistant');
+      expect(decision.fallback).toBe(false);
+      expect(decision.matchedCapabilities).toEqual(
+        expect.arrayContaining(['creative-writing', 'brainstorming'])
+      );
+    });
+
+    it('should fall back to the general assistant below the threshold', () => {
+      const decision = orchestrator.classify(
+        createMockUserInput({ content: 'Hello there!' })
+      );
+
+      expect(decision).toMatchObject({
+        agentId: 'general-assistant',
+        fallback: true,
+        confidence: 0,
+      });
+    });
+
+    it('should keep the current agent for follow-ups without a clear match', () => {
+      const decision = orchestrator.classify(
+        createMockUserInput({ content: 'Make it cheaper please' }),
+        'nutrition-agent'
+      );
+
+      expect(decision.agentId).toBe('nutrition-agent');
+      expect(decision.fallback).toBe(true);
+    });
+
+    it('should respect a custom confidence threshold', () => {
+      const strict = new BasicAgentOrchestrator(catalog, {
+        confidenceThreshold: 0.9,
+      });
+
+      const decision = strict.classify(
+        createMockUserInput({ content: 'Suggest a dinner' })
+      );
+
+      expect(decision.scores['nutrition-agent']).toBeGreaterThan(0);
+      expect(decision.agentId).toBe('general-assistant');
+      expect(decision.fallback).toBe(true);
+    });
+  });
+
+  describe('routeMessage', () => {
+    it('should process input with the chosen agent and report the routing', async () => {
+      const nutrition = new MockAgent('nutrition-agent', 'Dr. Nutri');
+      const general = new MockAgent('general-assistant', 'General Assistant');
+      const executeSpy = jest.spyOn(nutrition, 'execute');
+      orchestrator.registerAgent(nutrition);
+      orchestrator.registerAgent(general);
+
+      const response = await orchestrator.routeMessage(
+        createMockUserInput({ content: 'Plan my meals for the week' })
+      );
+
+      expect(executeSpy).toHaveBeenCalled();
+      expect(response.metadata?.routing).toMatchObject({
+        agentId: 'nutrition-agent',
+        fallback: false,
+      });
+    });
+
+    it('should pass the session to base agents', async () => {
+      const provider = new MockModelProvider();
+      provider.setAuthenticated(true);
+      const general = new GeneralAssistantAgent(
+        provider,
+        createMockModelConfig()
+      );
+      await general.initialize();
+      const prepareSpy = jest.spyOn(general, 'preparePlan');
+      orchestrator.registerAgent(general);
+      const session = createChatSession({ agentId: 'general-assistant' });
+      const input = createMockUserInput({ content: 'Hi' });
+
+      await orchestrator.routeMessage(input, session);
+
+      expect(prepareSpy).toHaveBeenCalledWith(input, session, {});
+    });
+
+    it('should resolve unregistered agents on demand', async () => {
+      const resolveAgent = jest.fn(async (id: string) => new MockAgent(id));
+      const lazy = new BasicAgentOrchestrator(catalog, { resolveAgent });
+
+      await lazy.routeMessage(
+        createMockUserInput({ content: 'Calculate my macros' })
+      );
+
+      expect(resolveAgent).toHaveBeenCalledWith('nutrition-agent');
+      expect(await lazy.getAgentStatus('nutrition-agent')).toBe('active');
+      expect(await lazy.getAgentStatus('general-assistant')).toBe('inactive');
+    });
+
+    it('should fall back when the chosen agent cannot be created', async () => {
+      const lazy = new BasicAgentOrchestrator(catalog, {
+        resolveAgent: async id => {
+          if (id === 'nutrition-agent') {
+            throw new Error('boom');
+          }
+          return new MockAgent(id);
+        },
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { agent, decision } = await lazy.selectAgent(
+        createMockUserInput({ content: 'Create a meal plan' })
+      );
+
+      expect(agent.id).toBe('general-assistant');
+      expect(decision).toMatchObject({
+        agentId: 'general-assistant',
+        fallback: true,
+      });
+      expect(await lazy.getAgentStatus('nutrition-agent')).toBe('error');
+    });
+
+    it('should throw when no agent is available', async () => {
+      await expect(
+        orchestrator.routeMessage(createMockUserInput({ content: 'Hi' }))
+      ).rejects.toThrow('Agent general-assistant is not registered');
+    });
+  });
+
+  describe('coordinateAgents', () => {
+    let general: MockAgent;
+    let nutrition: MockAgent;
+
+    beforeEach(() => {
+      general = createAgent(
+        'general-assistant',
+        'General Assistant',
+        'Study schedule'
+      );
+      nutrition = createAgent('nutrition-agent', 'Dr. Nutri', 'Meal plan');
+      orchestrator.registerAgent(general);
+      orchestrator.registerAgent(nutrition);
+    });
+
+    it('should split combined requests between agents and merge the answers', async () => {
+      const responses = await orchestrator.coordinateAgents(
+        'Plan a week of meals and a study schedule around my exams'
+      );
+
+      expect(responses.map(response => response.content)).toEqual([
+        'Meal plan',
+        'Study schedule',
+        '### Dr. Nutri\n\nMeal plan\n\n### General Assistant\n\nStudy schedule',
+      ]);
+
+      const final = responses[2];
+      expect(final.agentId).toBe('general-assistant');
+      expect(final.confidence).toBeCloseTo(0.8);
+      expect(final.metadata?.contributions).toEqual([
+        expect.objectContaining({
+          agentId: 'nutrition-agent',
+          task: 'Plan a week of meals',
+          content: 'Meal plan',
+        }),
+        expect.objectContaining({
+          agentId: 'general-assistant',
+          task: 'a study schedule around my exams',
+          content: 'Study schedule',
+        }),
+      ]);
+    });
+
+    it('should use the lead planner to decompose and synthesise', async () => {
+      const leadPlanner = general.planner as MockTaskPlanner & {
+        decomposeTask: jest.Mock;
+        synthesizeResults: jest.Mock;
+      };
+      leadPlanner.decomposeTask = jest.fn(async () => ({
+        id: 'plan',
+        steps: [
+          {
+            id: 'meals',
+            action: 'Plan meals',
+            parameters: { agentId: 'nutrition-agent', task: 'Plan meals' },
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+          {
+            id: 'schedule',
+            action: 'Plan study sessions for exams',
+            parameters: { task: 'Plan study sessions for exams' },
+            dependencies: ['meals'],
+            estimatedDuration: 1,
+          },
+        ],
+        estimatedDuration: 2,
+        requiresApproval: false,
+      }));
+      leadPlanner.synthesizeResults = jest.fn(
+        async (_task: string, contributions: AgentContribution[]) =>
+          `Combined ${contributions.length} answers`
+      );
+      const analyzeSpy = jest.spyOn(general, 'analyze');
+
+      const final = await orchestrator.coordinate(
+        createMockUserInput({ content: 'Meals and studying' })
+      );
+
+      expect(leadPlanner.decomposeTask).toHaveBeenCalledWith(
+        'Meals and studying',
+        catalog,
+        {}
+      );
+      expect(final.content).toBe('Combined 2 answers');
+      // The unassigned step is classified; dependency results are passed along
+      const [delegated] = analyzeSpy.mock.calls[0];
+      expect(delegated.content).toContain('Plan study sessions for exams');
+      expect(delegated.content).toContain('Dr. Nutri: Meal plan');
+      expect(final.metadata?.coordination).toMatchObject({
+        leadAgentId: 'general-assistant',
+        steps: [
+          { id: 'meals', dependencies: [] },
+          { id: 'schedule', dependencies: ['meals'] },
+        ],
+      });
+    });
+
+    it('should stop instead of splitting heuristically when aborted', async () => {
+      const leadPlanner = general.planner as MockTaskPlanner & {
+        decomposeTask: jest.Mock;
+      };
+      leadPlanner.decomposeTask = jest.fn(async () => {
+        throw new AbortError();
+      });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        orchestrator.coordinate(
+          createMockUserInput({ content: 'Meals and studying' }),
+          undefined,
+          { signal: controller.signal }
+        )
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(leadPlanner.decomposeTask).toHaveBeenCalledWith(
+        'Meals and studying',
+        catalog,
+        { signal: controller.signal }
+      );
+    });
+
+    it('should hold delegated plans that need approval instead of running them', async () => {
+      const plan = createMockActionPlan({ requiresApproval: true });
+      (nutrition.planner as MockTaskPlanner).setPlan(plan);
+      const executeSpy = jest.spyOn(nutrition, 'execute');
+
+      const coordination = orchestrator.coordinate(
+        createMockUserInput({ content: 'Order groceries for my meal plan' })
+      );
+
+      await expect(coordination).rejects.toBeInstanceOf(ApprovalRequiredError);
+      await expect(coordination).rejects.toMatchObject({
+        agentId: 'nutrition-agent',
+        plan,
+        input: expect.objectContaining({
+          content: 'Order groceries for my meal plan',
+        }),
+      });
+      expect(executeSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resume the coordination once the delegated plan is approved', async () => {
+      const plan = createMockActionPlan({ requiresApproval: true });
+      (general.planner as MockTaskPlanner).setPlan(plan);
+      const nutritionSpy = jest.spyOn(nutrition, 'execute');
+      const generalSpy = jest.spyOn(general, 'execute');
+      const input = createMockUserInput({
+        content: 'Plan a week of meals and a study schedule around my exams',
+      });
+
+      const error = await orchestrator.coordinate(input).catch(error => error);
+
+      expect(error).toBeInstanceOf(ApprovalRequiredError);
+      expect(error.coordination).toMatchObject({
+        input,
+        leadAgentId: 'general-assistant',
+        stepId: 'step_2',
+        contributions: [
+          expect.objectContaining({ stepId: 'step_1', content: 'Meal plan' }),
+        ],
+      });
+      expect(generalSpy).not.toHaveBeenCalled();
+
+      const approved = { ...plan, requiresApproval: false };
+      const final = await orchestrator.resumeCoordination(
+        error.coordination,
+        approved
+      );
+
+      expect(generalSpy).toHaveBeenCalledWith(approved, {});
+      expect(nutritionSpy).toHaveBeenCalledTimes(1);
+      expect(final.content).toBe(
+        '### Dr. Nutri\n\nMeal plan\n\n### General Assistant\n\nStudy schedule'
+      );
+      expect(final.metadata?.contributions).toHaveLength(2);
+    });
+
+    it('should return a single contribution without synthesis', async () => {
+      const final = await orchestrator.coordinate(
+        createMockUserInput({ content: 'Create a meal plan' })
+      );
+
+      expect(final.content).toBe('Meal plan');
+      expect(final.metadata?.contributions).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  buildPreferencePrompt,
+  createPreferenceSchema,
+  formatPreferences,
+  getFeedbackSentiment,
+} from '@/core/agents/feedback-learning';
+import { createMockAgentResponse } from '../../utils/mocks';
+
+describe('feedback learning', () => {
+  const timestamp = new Date();
+
+  describe('getFeedbackSentiment', () => {
+    it('should follow the rating', () => {
+      expect(
+        getFeedbackSentiment({ responseId: 'r', rating: 'up', timestamp })
+      ).toBe('positive');
+      expect(
+        getFeedbackSentiment({
+          responseId: 'r',
+          rating: 'down',
+          correction: 'Shorter please',
+          timestamp,
+        })
+      ).toBe('negative');
+    });
+
+    it('should treat a correction without a rating as negative', () => {
+      expect(
+        getFeedbackSentiment({
+          responseId: 'r',
+          correction: 'Shorter please',
+          timestamp,
+        })
+      ).toBe('negative');
+      expect(getFeedbackSentiment({ responseId: 'r', timestamp })).toBe(
+        'neutral'
+      );
+    });
+  });
+
+  describe('createPreferenceSchema', () => {
+    it('should allow changes to plain preferences, keeping their types', () => {
+      const schema = createPreferenceSchema({
+        responseLength: 'medium',
+        includeExamples: true,
+        maxIngredients: 10,
+        favoriteCuisines: [],
+        budget: { weekly: 100 },
+      });
+
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          responseLength: { type: 'string' },
+          includeExamples: { type: 'boolean' },
+          maxIngredients: { type: 'number' },
+          favoriteCuisines: { type: 'array', items: { type: 'string' } },
+        },
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe('buildPreferencePrompt', () => {
+    it('should show the response, the correction and the preferences', () => {
+      const prompt = buildPreferencePrompt(
+        createMockAgentResponse({ content: 'A very long explanation' }),
+        'Too long, keep it brief',
+        { responseLength: 'medium', includeExamples: true }
+      );
+
+      expect(prompt).toContain('A very long explanation');
+      expect(prompt).toContain('"Too long, keep it brief"');
+      expect(prompt).toContain('- responseLength: "medium"');
+      expect(prompt).toContain('- includeExamples: true');
+    });
+  });
+
+  describe('formatPreferences', () => {
+    it('should render readable prompt lines', () => {
+      expect(
+        formatPreferences({
+          responseLength: 'short',
+          includeExamples: false,
+          favoriteCuisines: ['thai', 'italian'],
+          dietaryRestrictions: [],
+          budget: { weekly: 100 },
+        })
+      ).toBe(
+        [
+          '- Response length: short',
+          '- Include examples: no',
+          '- Favorite cuisines: thai, italian',
+          '- Dietary restrictions: none',
+        ].join('\n')
+      );
+      expect(formatPreferences()).toBe('');
+    });
+  });
+});
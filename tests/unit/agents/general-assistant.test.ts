@@ -1,6 +1,12 @@
 import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
 import { MockModelProvider, MockMemory, MockTaskPlanner, createMockModelConfig, createMockUserInput, createMockAgentResponse } from '../../utils/mocks';
-import { UserInput, AgentResponse } from '@/core/types';
+import { UserInput, AgentResponse, PipelineEvent } from '@/core/types';
+import { createChatSession } from '@/core/utils/type-factories';
+import { InMemoryStorageAdapter } from '@/core/storage';
+import { StructuredOutputError } from '@/core/models/structured-output';
+import { AbortError } from '@/core/utils/abort';
+import { EmbeddingsUnsupportedError } from '@/core/models/provider-errors';
+import { TRUNCATION_MARKER, estimateTokens } from '@/core/utils/tokens';
 
 describe('GeneralAssistantAgent', () => {
   let agent: GeneralAssistantAgent;
@@ -99,6 +105,229 @@ describe('GeneralAssistantAgent', () => {
       const retrievedMemory = agent.memory.memories.find(m => m.id === 'test-memory');
       expect(retrievedMemory).toEqual(testMemory);
     });
+
+    it('should persist memory through the storage adapter', async () => {
+      const storage = new InMemoryStorageAdapter();
+      const firstAgent = new GeneralAssistantAgent(mockProvider, mockConfig);
+      firstAgent.setStorage(storage);
+      await firstAgent.initialize();
+      firstAgent.memory.preferences.responseLength = 'short';
+
+      await firstAgent.reflect(
+        createMockAgentResponse({ content: 'Remember this', confidence: 0.9 })
+      );
+
+      const restartedAgent = new GeneralAssistantAgent(mockProvider, mockConfig);
+      restartedAgent.setStorage(storage);
+      await restartedAgent.initialize();
+
+      expect(restartedAgent.memory.memories.map(m => m.content)).toEqual([
+        'Remember this',
+      ]);
+      expect(restartedAgent.memory.preferences.responseLength).toBe('short');
+      expect(restartedAgent.memory.preferences.technicalLevel).toBe('moderate');
+    });
+  });
+
+  describe('Memory Recall', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      mockProvider.setAvailability(true);
+      await agent.initialize();
+      await agent.reflect(
+        createMockAgentResponse({ content: 'The user is allergic to peanuts and tree nuts' })
+      );
+      await agent.reflect(
+        createMockAgentResponse({ content: 'Paris is the capital of France' })
+      );
+    });
+
+    it('should embed memories when they are stored', () => {
+      for (const memory of agent.memory.memories) {
+        expect(memory.embedding).toHaveLength(64);
+        expect(memory.embeddingModel).toBe('mock-embedding');
+      }
+    });
+
+    it('should recall related memories into the analysis and execution prompts', async () => {
+      const generateSpy = jest.spyOn(mockProvider, 'generateResponse');
+
+      await agent.processInput(
+        createMockUserInput({ content: 'Is the user allergic to peanuts?' })
+      );
+
+      const [analysisPrompt] = generateSpy.mock.calls[0];
+      const [executionPrompt] = generateSpy.mock.calls[2];
+      for (const prompt of [analysisPrompt, executionPrompt]) {
+        expect(prompt).toContain('- The user is allergic to peanuts and tree nuts');
+        expect(prompt).not.toContain('Paris is the capital of France');
+      }
+    });
+
+    it('should skip recall when the provider cannot embed', async () => {
+      jest.spyOn(mockProvider, 'embed').mockRejectedValue(new EmbeddingsUnsupportedError('Mock', 'mock-provider'));
+      const generateSpy = jest.spyOn(mockProvider, 'generateResponse');
+
+      const analysis = await agent.analyze(
+        createMockUserInput({ content: 'peanuts allergic' })
+      );
+
+      expect(analysis.relevantMemories).toBeUndefined();
+      expect(generateSpy.mock.calls[0][0]).not.toContain('Relevant things you remember');
+    });
+
+    it('should embed memories added to storage when memory is reloaded', async () => {
+      const storage = new InMemoryStorageAdapter();
+      agent.setStorage(storage);
+      await storage.saveMemory({
+        ...agent.memory,
+        memories: [
+          ...agent.memory.memories,
+          { id: 'memory-added', content: 'The user is vegetarian', timestamp: new Date(), importance: 0.8, tags: ['user-fact'] },
+        ],
+      });
+
+      await agent.reloadMemory();
+
+      const stored = await storage.loadMemory(agent.id, agent.memory.userId);
+      expect(stored?.memories.find(memory => memory.id === 'memory-added')?.embeddingModel).toBe('mock-embedding');
+      const analysis = await agent.analyze(
+        createMockUserInput({ content: 'Is the user vegetarian?' })
+      );
+      expect(analysis.relevantMemories).toContain('The user is vegetarian');
+    });
+
+    it('should ignore memories embedded by another model', async () => {
+      jest.spyOn(mockProvider, 'embed').mockImplementation(async texts => ({
+        embeddings: texts.map(() => agent.memory.memories[0].embedding as number[]),
+        model: 'other-embedding',
+      }));
+
+      const analysis = await agent.analyze(
+        createMockUserInput({ content: 'peanuts allergic' })
+      );
+
+      expect(analysis.relevantMemories).toBeUndefined();
+    });
+  });
+
+  describe('Memory Consolidation', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      mockProvider.setAvailability(true);
+      await agent.initialize();
+    });
+
+    it('should summarise related memories into one', async () => {
+      agent.configure({ memory: { consolidateEvery: 3, clusterSimilarity: 0.6 } });
+      mockProvider.setResponses(['The user runs 5km three times a week']);
+
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Monday' }));
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Wednesday' }));
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Friday' }));
+      await agent.whenConsolidated();
+
+      expect(agent.memory.memories).toHaveLength(1);
+      expect(agent.memory.memories[0]).toMatchObject({
+        content: 'The user runs 5km three times a week',
+        embeddingModel: 'mock-embedding',
+      });
+      expect(agent.memory.memories[0].tags).toContain('summary');
+    });
+
+    it('should count new memories across agent instances', async () => {
+      const storage = new InMemoryStorageAdapter();
+      const settings = { memory: { consolidateEvery: 3, clusterSimilarity: 0.6 } };
+      agent.setStorage(storage);
+      agent.configure(settings);
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Monday' }));
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Wednesday' }));
+
+      // Agents are rebuilt, e.g. when the provider changes
+      const rebuilt = new GeneralAssistantAgent(mockProvider, mockConfig);
+      rebuilt.setStorage(storage);
+      rebuilt.configure(settings);
+      await rebuilt.initialize();
+      mockProvider.setResponses(['The user runs 5km three times a week']);
+      await rebuilt.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Friday' }));
+      await rebuilt.whenConsolidated();
+
+      const stored = await storage.loadMemory(rebuilt.id, rebuilt.memory.userId);
+      expect(stored?.memories.map(memory => memory.content)).toEqual(['The user runs 5km three times a week']);
+      expect(stored?.pendingConsolidation).toBe(0);
+    });
+
+    it('should not hold up the response while consolidating', async () => {
+      agent.configure({ memory: { consolidateEvery: 1, minClusterSize: 2 } });
+      let finishSummary: (content: string) => void = () => {};
+      jest.spyOn(agent as any, 'generateResponse').mockReturnValue(
+        new Promise<string>(resolve => {
+          finishSummary = resolve;
+        })
+      );
+      agent.memory.memories.push({
+        id: 'memory-monday',
+        content: 'The user went running for 5km on Monday',
+        timestamp: new Date(),
+        importance: 0.5,
+        tags: [],
+        embedding: (await mockProvider.embed(['The user went running for 5km on Monday'])).embeddings[0],
+        embeddingModel: 'mock-embedding',
+      });
+
+      await agent.reflect(createMockAgentResponse({ content: 'The user went running for 5km on Monday' }));
+      expect(agent.memory.memories).toHaveLength(2);
+
+      finishSummary('The user runs 5km on Mondays');
+      await agent.whenConsolidated();
+      expect(agent.memory.memories.map(memory => memory.content)).toEqual(['The user runs 5km on Mondays']);
+    });
+
+    it('should keep memories the model fails to summarise', async () => {
+      agent.configure({ memory: { consolidateEvery: 3, clusterSimilarity: 0.6 } });
+      jest.spyOn(mockProvider, 'generateChat').mockRejectedValue(new Error('Model offline'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      for (const day of ['Monday', 'Wednesday', 'Friday']) {
+        await agent.reflect(createMockAgentResponse({ content: `The user went running for 5km on ${day}` }));
+      }
+      await agent.whenConsolidated();
+
+      expect(agent.memory.memories).toHaveLength(3);
+      expect(warnSpy).toHaveBeenCalledWith('Agent general-assistant could not consolidate memories:', expect.any(Error));
+      warnSpy.mockRestore();
+    });
+
+    it('should never evict memories tagged as user facts', async () => {
+      agent.configure({ memory: { maxMemories: 2, consolidateEvery: 0 } });
+      agent.memory.memories.push({
+        id: 'memory-allergy',
+        content: 'The user is allergic to peanuts',
+        timestamp: new Date('2020-01-01'),
+        importance: 0.2,
+        tags: ['user-fact'],
+      });
+
+      await agent.reflect(createMockAgentResponse({ content: 'Nice weather today', confidence: 0.9 }));
+      await agent.reflect(createMockAgentResponse({ content: 'Thanks for the chat', confidence: 0.95 }));
+
+      expect(agent.memory.memories.map(memory => memory.content)).toEqual([
+        'The user is allergic to peanuts',
+        'Thanks for the chat',
+      ]);
+    });
+
+    it('should reinforce memories when they are recalled', async () => {
+      await agent.reflect(
+        createMockAgentResponse({ content: 'The user is allergic to peanuts and tree nuts', confidence: 0.5 })
+      );
+
+      await agent.analyze(createMockUserInput({ content: 'Is the user allergic to peanuts?' }));
+
+      expect(agent.memory.memories[0].accessCount).toBe(1);
+      expect(agent.memory.memories[0].importance).toBeCloseTo(0.6);
+      expect(agent.memory.memories[0].lastAccessed).toBeInstanceOf(Date);
+    });
   });
 
   describe('Task Planning', () => {
@@ -134,6 +363,19 @@ describe('GeneralAssistantAgent', () => {
       expect(analysis.context).toBeDefined();
     });
 
+    it('should reject analysis the model cannot structure instead of guessing', async () => {
+      const generateChat = jest
+        .spyOn(mockProvider, 'generateChat')
+        .mockResolvedValue({ content: 'I think you want help planning.', toolCalls: [] });
+
+      await expect(
+        agent.analyze(createMockUserInput({ content: 'Help me plan my day' }))
+      ).rejects.toBeInstanceOf(StructuredOutputError);
+      // Initial attempt plus two retries with the issues fed back
+      expect(generateChat).toHaveBeenCalledTimes(3);
+      expect(generateChat.mock.calls[2][0].at(-1)?.content).toContain('must be valid JSON');
+    });
+
     it('should create action plan from analysis', async () => {
       const input = createMockUserInput({
         content: 'Help me write a report',
@@ -171,6 +413,382 @@ describe('GeneralAssistantAgent', () => {
     });
   });
 
+  describe('Conversation History', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      mockProvider.setAvailability(true);
+      await agent.initialize();
+    });
+
+    it('should feed previous session messages into every pipeline prompt', async () => {
+      const session = createChatSession({
+        agentId: 'general-assistant',
+        messages: [
+          createMockUserInput({ content: 'Plan a high-protein dinner' }),
+          createMockAgentResponse({ content: 'Grilled chicken with quinoa' }),
+        ],
+      });
+      const generateSpy = jest.spyOn(mockProvider, 'generateResponse');
+
+      await agent.processInput(
+        createMockUserInput({ content: 'Make it vegetarian' }),
+        session
+      );
+
+      expect(generateSpy).toHaveBeenCalledTimes(3);
+      for (const [prompt] of generateSpy.mock.calls) {
+        expect(prompt).toContain('User: Plan a high-protein dinner');
+        expect(prompt).toContain('Assistant: Grilled chicken with quinoa');
+      }
+    });
+
+    it('should use the real history instead of model output for previousConversation', async () => {
+      const analysis = await agent.analyze(
+        createMockUserInput({ content: 'And for lunch?' }),
+        ['User: Suggest a breakfast', 'Assistant: Oatmeal']
+      );
+
+      expect(analysis.previousConversation).toEqual([
+        'User: Suggest a breakfast',
+        'Assistant: Oatmeal',
+      ]);
+    });
+
+    it('should only include the most recent messages', async () => {
+      const session = createChatSession({
+        messages: Array.from({ length: 15 }, (_, i) =>
+          createMockUserInput({ content: `message ${i}` })
+        ),
+      });
+      const generateSpy = jest.spyOn(mockProvider, 'generateResponse');
+
+      await agent.processInput(createMockUserInput({ content: 'Hi' }), session);
+
+      const [analysisPrompt] = generateSpy.mock.calls[0];
+      expect(analysisPrompt).not.toContain('User: message 4');
+      expect(analysisPrompt).toContain('User: message 5');
+      expect(analysisPrompt).toContain('User: message 14');
+    });
+
+    it('should drop the oldest messages that do not fit the context window', async () => {
+      mockProvider.setContextLength(4096);
+      const session = createChatSession({
+        messages: Array.from({ length: 10 }, (_, i) =>
+          createMockUserInput({ content: `message ${i} ${'word '.repeat(400)}` })
+        ),
+      });
+      const generateSpy = jest.spyOn(mockProvider, 'generateResponse');
+
+      await agent.processInput(createMockUserInput({ content: 'Hi' }), session);
+
+      const [analysisPrompt] = generateSpy.mock.calls[0];
+      expect(analysisPrompt).not.toContain('User: message 0 ');
+      expect(analysisPrompt).toContain('User: message 9 ');
+      expect(analysisPrompt).toContain(TRUNCATION_MARKER);
+      expect(analysisPrompt).toContain('User Input: "Hi"');
+      expect(estimateTokens(analysisPrompt)).toBeLessThanOrEqual(4096 * 0.9 - 100);
+    });
+  });
+
+  describe('Multi-Agent Coordination', () => {
+    const collaborators = [
+      { id: 'general-assistant', name: 'General Assistant', description: 'General help', capabilities: ['task-planning'] },
+      { id: 'nutrition-agent', name: 'Dr. Nutri', description: 'Nutrition', capabilities: ['meal-planning'] },
+    ];
+
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      await agent.initialize();
+    });
+
+    it('should decompose a task into steps assigned to collaborators', async () => {
+      mockProvider.setResponses([
+        JSON.stringify({
+          steps: [
+            { id: 'meals', agentId: 'nutrition-agent', task: 'Plan a week of meals', dependencies: [] },
+            { id: 'study', agentId: 'fitness-agent', task: 'Plan study sessions', dependencies: ['meals'] },
+            { id: 'empty', agentId: 'general-assistant', task: '' },
+          ],
+        }),
+      ]);
+
+      const plan = await agent.planner.decomposeTask!('Meals and a study schedule', collaborators);
+
+      expect(plan.steps).toEqual([
+        expect.objectContaining({
+          id: 'meals',
+          parameters: { agentId: 'nutrition-agent', task: 'Plan a week of meals' },
+          dependencies: [],
+        }),
+        expect.objectContaining({
+          id: 'study',
+          parameters: { task: 'Plan study sessions' },
+          dependencies: ['meals'],
+        }),
+      ]);
+    });
+
+    it('should send the system prompt only as a system message when planning', async () => {
+      const chatSpy = jest.spyOn(mockProvider, 'generateChat');
+      mockProvider.setResponses([
+        JSON.stringify({ steps: [{ agentId: 'nutrition-agent', task: 'Plan meals', dependencies: [] }] }),
+      ]);
+
+      await agent.analyze(createMockUserInput({ content: 'Help me plan my day' }));
+      await agent.planner.decomposeTask!('Plan meals', collaborators);
+
+      for (const [messages] of chatSpy.mock.calls) {
+        expect(messages[0]).toEqual({ role: 'system', content: agent.systemPrompt });
+        expect(messages[1].content).not.toContain(agent.systemPrompt);
+      }
+      expect(chatSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject decompositions without steps', async () => {
+      mockProvider.setResponses([JSON.stringify({ steps: [] })]);
+
+      await expect(
+        agent.planner.decomposeTask!('Anything', collaborators)
+      ).rejects.toThrow('Task decomposition returned no steps');
+    });
+
+    it('should synthesise contributions with a chat request', async () => {
+      mockProvider.setResponses(['Here is your combined plan']);
+      const chatSpy = jest.spyOn(mockProvider, 'generateChat');
+
+      const result = await agent.planner.synthesizeResults!('Meals and study', [
+        { stepId: 'meals', agentId: 'nutrition-agent', agentName: 'Dr. Nutri', task: 'Plan meals', content: 'Oats daily', confidence: 0.9 },
+      ]);
+
+      expect(result).toBe('Here is your combined plan');
+      const [messages] = chatSpy.mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[1].content).toContain('### Dr. Nutri: Plan meals\nOats daily');
+    });
+  });
+
+  describe('Plan Execution', () => {
+    const step = (id: string, action: string, dependencies: string[] = [], parameters: Record<string, unknown> = {}) => ({
+      id, action, parameters, dependencies, estimatedDuration: 1,
+    });
+
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      await agent.initialize();
+    });
+
+    it('should execute steps in dependency order with dependency results in context', async () => {
+      const prompts: string[] = [];
+      jest.spyOn(mockProvider, 'generateChat').mockImplementation(async messages => {
+        const prompt = messages[1].content;
+        prompts.push(prompt);
+        const match = prompt.match(/Step: (.*)/);
+        return { content: match ? `Result of ${match[1]}` : 'Final answer', toolCalls: [] };
+      });
+
+      const response = await agent.planner.executePlan({
+        id: 'plan',
+        steps: [
+          step('summary', 'Summarise the findings', ['research', 'budget']),
+          step('research', 'Research destinations'),
+          step('budget', 'Estimate the budget'),
+        ],
+        estimatedDuration: 3,
+        requiresApproval: false,
+      });
+
+      expect(response.content).toBe('Final answer');
+      expect(response.metadata?.stepResults).toEqual([
+        expect.objectContaining({ stepId: 'research', status: 'completed', output: 'Result of Research destinations' }),
+        expect.objectContaining({ stepId: 'budget', status: 'completed', output: 'Result of Estimate the budget' }),
+        expect.objectContaining({ stepId: 'summary', status: 'completed', dependencies: ['research', 'budget'] }),
+      ]);
+      const summaryPrompt = prompts.find(prompt => prompt.includes('Step: Summarise the findings'));
+      expect(summaryPrompt).toContain('[research] Research destinations\nResult of Research destinations');
+      expect(summaryPrompt).toContain('[budget] Estimate the budget\nResult of Estimate the budget');
+      expect(prompts[prompts.length - 1]).toContain('[summary] Summarise the findings\nResult of Summarise the findings');
+    });
+
+    it('should call tools named by a step directly', async () => {
+      mockProvider.setResponses(['Ideas', 'Answer']);
+
+      const response = await agent.planner.executePlan({
+        id: 'plan',
+        steps: [
+          step('ideas', 'Brainstorm names', [], { tool: 'brainstorming', arguments: { topic: 'cafe names', quantity: '3' } }),
+          step('answer', 'Pick the best name', ['ideas']),
+        ],
+        estimatedDuration: 2,
+        requiresApproval: false,
+      });
+
+      const [ideas] = response.metadata?.stepResults as Array<Record<string, unknown>>;
+      expect(ideas.toolCalls).toEqual([
+        expect.objectContaining({ toolId: 'brainstorming', arguments: { topic: 'cafe names', quantity: '3' } }),
+      ]);
+      expect(response.metadata?.toolCalls).toEqual([expect.objectContaining({ toolId: 'brainstorming' })]);
+    });
+
+    it('should skip steps whose dependencies failed', async () => {
+      const response = await agent.planner.executePlan({
+        id: 'plan',
+        steps: [
+          step('ideas', 'Brainstorm names', [], { tool: 'brainstorming', arguments: {} }),
+          step('answer', 'Pick the best name', ['ideas']),
+        ],
+        estimatedDuration: 2,
+        requiresApproval: false,
+      });
+
+      expect(response.metadata?.stepResults).toEqual([
+        expect.objectContaining({ stepId: 'ideas', status: 'failed', error: expect.stringContaining('topic is required') }),
+        expect.objectContaining({ stepId: 'answer', status: 'skipped' }),
+      ]);
+      expect(response.reasoning).toContain('Completed 0 of 2 steps');
+    });
+
+    it('should answer directly when the plan has a dependency cycle', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const chatSpy = jest.spyOn(mockProvider, 'generateChat');
+
+      const response = await agent.planner.executePlan({
+        id: 'plan',
+        steps: [step('a', 'First', ['b']), step('b', 'Second', ['a'])],
+        estimatedDuration: 2,
+        requiresApproval: false,
+      });
+
+      expect(response.metadata?.planError).toBe('Dependency cycle between steps: a, b');
+      expect(response.metadata?.stepResults).toBeUndefined();
+      expect(chatSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Pipeline Events', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      await agent.initialize();
+    });
+
+    it('should report the analysis and the plan', async () => {
+      const events: PipelineEvent[] = [];
+
+      const plan = await agent.preparePlan(createMockUserInput(), undefined, { onEvent: event => events.push(event) });
+
+      expect(events.map(event => event.type)).toEqual(['analysis', 'plan']);
+      expect(events[0]).toMatchObject({ type: 'analysis', analysis: { intent: 'mock-intent' } });
+      expect(events[1]).toEqual({ type: 'plan', plan });
+    });
+
+    it('should report steps and tool calls while streaming a plan', async () => {
+      const events: PipelineEvent[] = [];
+      mockProvider.setResponses(['Ideas', 'Answer']);
+
+      const stream = await agent.streamPlan(
+        {
+          id: 'plan',
+          steps: [
+            { id: 'ideas', action: 'Brainstorm names', parameters: { tool: 'brainstorming', arguments: { topic: 'cafe names' } }, dependencies: [], estimatedDuration: 1 },
+            { id: 'answer', action: 'Pick the best name', parameters: {}, dependencies: ['ideas'], estimatedDuration: 1 },
+          ],
+          estimatedDuration: 2,
+          requiresApproval: false,
+        },
+        { onEvent: event => events.push(event) }
+      );
+      for await (const _chunk of stream) {
+        // Drain the stream
+      }
+
+      expect(events.map(event => `${event.type}:${'stepId' in event ? event.stepId : event.type === 'tool_call' || event.type === 'tool_result' ? event.toolId : ''}`)).toEqual([
+        'step_start:ideas',
+        'tool_call:brainstorming',
+        'tool_result:brainstorming',
+        'step_end:ideas',
+        'step_start:answer',
+        'step_end:answer',
+      ]);
+      expect(events[3]).toMatchObject({ status: 'completed', action: 'Brainstorm names' });
+    });
+
+    it('should let the model call tools while streaming', async () => {
+      const events: PipelineEvent[] = [];
+      const generateChat = jest.spyOn(mockProvider, 'generateChat')
+        .mockResolvedValueOnce({
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'brainstorming', arguments: { topic: 'cafe names' } }],
+        })
+        // The brainstorming tool asks the model for ideas itself
+        .mockResolvedValueOnce({ content: 'Bean There, Brew Haven', toolCalls: [] })
+        .mockResolvedValueOnce({ content: 'Try "Bean There"', toolCalls: [] });
+
+      const stream = await agent.streamPlan(
+        {
+          id: 'plan',
+          steps: [{ id: 'names', action: 'Suggest cafe names', parameters: {}, dependencies: [], estimatedDuration: 1 }],
+          estimatedDuration: 1,
+          requiresApproval: false,
+        },
+        { onEvent: event => events.push(event) }
+      );
+      const chunks: string[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.join('')).toBe('Try "Bean There"');
+      expect(generateChat.mock.calls[0][2]?.tools?.map(tool => tool.name)).toContain('brainstorming');
+      expect(generateChat.mock.calls[2][0]).toContainEqual(
+        expect.objectContaining({ role: 'tool', toolCallId: 'call_1', name: 'brainstorming' })
+      );
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'tool_call', toolId: 'brainstorming' }),
+        expect.objectContaining({ type: 'tool_result', toolId: 'brainstorming', result: 'Bean There, Brew Haven' }),
+      ]);
+    });
+
+    it('should report the usage of planner calls with their phase', async () => {
+      const generateChat = mockProvider.generateChat.bind(mockProvider);
+      jest.spyOn(mockProvider, 'generateChat').mockImplementation(async (messages, config, options) => {
+        options?.onUsage?.({ promptTokens: 10, completionTokens: 5, totalTokens: 15, providerId: 'mock-provider', providerType: 'remote', model: 'mock-model' });
+        return generateChat(messages, config, options);
+      });
+      const onUsage = jest.fn();
+
+      await agent.preparePlan(createMockUserInput(), undefined, { onUsage });
+
+      expect(onUsage.mock.calls.map(([usage]) => usage.phase)).toEqual(['analyze', 'plan']);
+    });
+  });
+
+  describe('Cancellation', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      await agent.initialize();
+    });
+
+    it('should pass the abort signal to the model', async () => {
+      const controller = new AbortController();
+      const generateChat = jest.spyOn(mockProvider, 'generateChat');
+
+      await agent.analyze(createMockUserInput({ content: 'Hi' }), [], { signal: controller.signal });
+
+      expect(generateChat).toHaveBeenCalledWith(
+        expect.any(Array),
+        { ...mockConfig, systemPrompt: agent.systemPrompt },
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should reject aborted requests instead of answering with an error', async () => {
+      jest.spyOn(mockProvider, 'generateChat').mockRejectedValue(new AbortError());
+
+      await expect(
+        agent.processInput(createMockUserInput({ content: 'Hi' }))
+      ).rejects.toBeInstanceOf(AbortError);
+    });
+  });
+
   describe('Specialized Input Handling', () => {
     beforeEach(async () => {
       mockProvider.setAuthenticated(true);
@@ -197,6 +815,19 @@ describe('GeneralAssistantAgent', () => {
       expect(response.confidence).toBeGreaterThan(0.7);
     });
 
+    it('should send the agent system prompt as a system message', async () => {
+      const chatSpy = jest.spyOn(mockProvider, 'generateChat');
+
+      await agent.processSpecializedInput(
+        createMockUserInput({ content: 'brainstorm ideas for a new app' })
+      );
+
+      const [messages] = chatSpy.mock.calls[0];
+      expect(messages[0]).toEqual({ role: 'system', content: agent.systemPrompt });
+      expect(messages[1].role).toBe('user');
+      expect(messages[1].content).not.toContain(agent.systemPrompt);
+    });
+
     it('should handle step-by-step requests', async () => {
       const input = createMockUserInput({
         content: 'step by step guide to baking a cake',
@@ -285,6 +916,112 @@ describe('GeneralAssistantAgent', () => {
     });
   });
 
+  describe('Feedback Learning', () => {
+    beforeEach(async () => {
+      mockProvider.setAuthenticated(true);
+      mockProvider.setAvailability(true);
+      await agent.initialize();
+    });
+
+    it('should learn preferences from a correction and remember it', async () => {
+      const response = createMockAgentResponse({ id: 'response-1', content: 'A very long explanation' });
+      mockProvider.setResponses(['{"responseLength": "short"}']);
+
+      const learning = await agent.reflect(response, {
+        responseId: 'response-1',
+        correction: 'Too long, keep it brief',
+        timestamp: new Date(),
+      });
+
+      expect(learning.feedback).toBe('negative');
+      expect(learning.preferences).toEqual({ responseLength: 'short' });
+      expect(agent.memory.preferences).toMatchObject({ responseLength: 'short', includeExamples: true });
+      expect(agent.memory.memories).toEqual([
+        expect.objectContaining({
+          content: 'The user corrected a response: Too long, keep it brief',
+          importance: 1,
+          tags: ['correction', 'general-assistant'],
+          responseId: 'response-1',
+          embeddingModel: 'mock-embedding',
+        }),
+      ]);
+    });
+
+    it('should follow learned preferences in later responses', async () => {
+      agent.memory.preferences.responseLength = 'short';
+      const analysis = await agent.analyze(createMockUserInput({ content: 'Explain photosynthesis' }));
+
+      const prompts: string[] = [];
+      jest.spyOn(mockProvider, 'generateChat').mockImplementation(async messages => {
+        prompts.push(messages[1].content);
+        return { content: 'Brief answer', toolCalls: [] };
+      });
+      await agent.planner.executePlan({
+        id: 'plan',
+        steps: [],
+        estimatedDuration: 0,
+        requiresApproval: false,
+        analysis,
+      });
+
+      expect(analysis.preferences).toMatchObject({ responseLength: 'short' });
+      expect(prompts[prompts.length - 1]).toContain("The user's preferences for your responses:\n- Response length: short");
+    });
+
+    it('should move the importance of the rated response memory', async () => {
+      const response = createMockAgentResponse({ id: 'response-1', confidence: 0.5 });
+      await agent.reflect(response);
+
+      const learning = await agent.reflect(response, { responseId: 'response-1', rating: 'up', timestamp: new Date() });
+      expect(learning.feedback).toBe('positive');
+      expect(agent.memory.memories[0].importance).toBeCloseTo(0.7);
+
+      await agent.reflect(response, { responseId: 'response-1', rating: 'down', timestamp: new Date() });
+      await agent.reflect(response, { responseId: 'response-1', rating: 'down', timestamp: new Date() });
+      await agent.reflect(response, { responseId: 'response-1', rating: 'down', timestamp: new Date() });
+      expect(agent.memory.memories[0].importance).toBeCloseTo(0.1);
+      expect(agent.memory.memories).toHaveLength(1);
+    });
+
+    it('should evict memories to make room for a correction', async () => {
+      agent.configure({ memory: { maxMemories: 2, consolidateEvery: 0 } });
+      await agent.reflect(createMockAgentResponse({ id: 'response-1', content: 'Nice weather today', confidence: 0.3 }));
+      await agent.reflect(createMockAgentResponse({ id: 'response-2', content: 'Use 200g of flour', confidence: 0.9 }));
+      mockProvider.setResponses(['{}']);
+
+      await agent.reflect(createMockAgentResponse({ id: 'response-2' }), {
+        responseId: 'response-2',
+        correction: 'Use metric units',
+        timestamp: new Date(),
+      });
+
+      expect(agent.memory.memories.map(memory => memory.content)).toEqual([
+        'Use 200g of flour',
+        'The user corrected a response: Use metric units',
+      ]);
+    });
+
+    it('should keep the preferences when they cannot be learned', async () => {
+      jest.spyOn(mockProvider, 'generateChat').mockRejectedValue(new Error('Model offline'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const learning = await agent.reflect(createMockAgentResponse({ id: 'response-1' }), {
+        responseId: 'response-1',
+        correction: 'Use metric units',
+        timestamp: new Date(),
+      });
+
+      expect(learning.preferences).toEqual({});
+      expect(agent.memory.preferences.responseLength).toBe('medium');
+      expect(agent.memory.memories).toHaveLength(1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Agent general-assistant could not learn preferences from feedback:',
+        expect.any(Error)
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
   describe('Capabilities Description', () => {
     beforeEach(async () => {
       mockProvider.setAuthenticated(true);
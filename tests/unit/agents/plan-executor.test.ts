@@ -0,0 +1,176 @@
+import {
+  PlanValidationError,
+  executePlanSteps,
+  orderPlanSteps,
+  StepResult,
+} from '@/core/agents/plan-executor';
+import { ActionStep } from '@/core/types';
+import { AbortError } from '@/core/utils/abort';
+
+const step = (id: string, dependencies: string[] = []): ActionStep => ({
+  id,
+  action: `Do ${id}`,
+  parameters: {},
+  dependencies,
+  estimatedDuration: 1,
+});
+
+describe('orderPlanSteps', () => {
+  it('should place steps after their dependencies', () => {
+    const ordered = orderPlanSteps([
+      step('report', ['data', 'charts']),
+      step('charts', ['data']),
+      step('data'),
+      step('intro'),
+    ]);
+
+    expect(ordered.map(item => item.id)).toEqual([
+      'data',
+      'charts',
+      'report',
+      'intro',
+    ]);
+  });
+
+  it('should treat missing dependency lists as empty', () => {
+    const loose = { ...step('a'), dependencies: undefined } as unknown;
+
+    expect(orderPlanSteps([loose as ActionStep])).toHaveLength(1);
+  });
+
+  it('should reject dependencies on unknown steps', () => {
+    expect(() => orderPlanSteps([step('a', ['missing'])])).toThrow(
+      new PlanValidationError('Step a depends on unknown step(s): missing', [
+        'a',
+        'missing',
+      ])
+    );
+  });
+
+  it('should reject duplicate step ids', () => {
+    expect(() => orderPlanSteps([step('a'), step('a')])).toThrow(
+      'Duplicate step id: a'
+    );
+  });
+
+  it('should reject dependency cycles', () => {
+    expect.assertions(2);
+    try {
+      orderPlanSteps([step('a'), step('b', ['c']), step('c', ['b'])]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(PlanValidationError);
+      expect((error as PlanValidationError).stepIds).toEqual(['b', 'c']);
+    }
+  });
+});
+
+describe('executePlanSteps', () => {
+  it('should pass dependency results to each step', async () => {
+    const runStep = jest.fn(
+      async (item: ActionStep, dependencies: StepResult[]) => ({
+        output: [item.id, ...dependencies.map(dep => dep.output)].join('<'),
+      })
+    );
+
+    const results = await executePlanSteps(
+      [step('c', ['a', 'b']), step('a'), step('b', ['a'])],
+      runStep
+    );
+
+    expect(results.map(result => [result.stepId, result.output])).toEqual([
+      ['a', 'a'],
+      ['b', 'b<a'],
+      ['c', 'c<a<b<a'],
+    ]);
+    expect(results.every(result => result.status === 'completed')).toBe(true);
+  });
+
+  it('should run independent steps concurrently', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const runStep = async (item: ActionStep) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { output: item.id };
+    };
+
+    await executePlanSteps(
+      [step('a'), step('b'), step('c'), step('d', ['a', 'b', 'c'])],
+      runStep
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should skip steps whose dependencies failed', async () => {
+    const runStep = jest.fn(async (item: ActionStep) => {
+      if (item.id === 'a') {
+        throw new Error('model unavailable');
+      }
+      return { output: item.id };
+    });
+
+    const results = await executePlanSteps(
+      [step('a'), step('b', ['a']), step('c')],
+      runStep
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        stepId: 'a',
+        status: 'failed',
+        error: 'model unavailable',
+      }),
+      expect.objectContaining({
+        stepId: 'b',
+        status: 'skipped',
+        error: 'Dependency a did not complete',
+        durationMs: 0,
+      }),
+      expect.objectContaining({ stepId: 'c', status: 'completed' }),
+    ]);
+    expect(runStep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report each result as soon as its step ends', async () => {
+    const ended: string[] = [];
+    const runStep = jest.fn(async (item: ActionStep) => {
+      if (item.id === 'a') {
+        throw new Error('model unavailable');
+      }
+      return { output: item.id };
+    });
+
+    await executePlanSteps(
+      [step('a'), step('b', ['a']), step('c')],
+      runStep,
+      result => ended.push(`${result.stepId}:${result.status}`)
+    );
+
+    expect(ended).toEqual(['a:failed', 'c:completed', 'b:skipped']);
+  });
+
+  it('should stop the plan when a step is aborted', async () => {
+    const runStep = jest.fn(async (item: ActionStep) => {
+      if (item.id === 'a') {
+        throw new AbortError();
+      }
+      return { output: item.id };
+    });
+
+    await expect(
+      executePlanSteps([step('a'), step('b', ['a'])], runStep)
+    ).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should not run any step when the plan is invalid', async () => {
+    const runStep = jest.fn();
+
+    await expect(executePlanSteps([step('a', ['a'])], runStep)).rejects.toThrow(
+      PlanValidationError
+    );
+    expect(runStep).not.toHaveBeenCalled();
+  });
+});
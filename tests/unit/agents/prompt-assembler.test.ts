@@ -0,0 +1,70 @@
+import {
+  PROMPT_PRIORITY,
+  assemblePrompt,
+  getPromptBudget,
+} from '@/core/agents/prompt-assembler';
+import { estimateTokens } from '@/core/utils/tokens';
+
+describe('getPromptBudget', () => {
+  it('should set aside the output and a margin for estimation errors', () => {
+    expect(getPromptBudget(10_000, 1_000)).toBe(8_000);
+  });
+
+  it('should not go below zero', () => {
+    expect(getPromptBudget(4_096, 4_096)).toBe(0);
+  });
+});
+
+describe('assemblePrompt', () => {
+  const history = Array.from(
+    { length: 50 },
+    (_, i) => `User: message number ${i + 1}`
+  ).join('\n');
+  const results = 'Result: '.repeat(100).trim();
+  const render = (parts: { history: string; results: string }) =>
+    `System prompt\n${parts.history}\n${parts.results}\nUser input`;
+  const sections = {
+    history: {
+      content: history,
+      priority: PROMPT_PRIORITY.history,
+      keep: 'end' as const,
+    },
+    results: { content: results, priority: PROMPT_PRIORITY.toolResults },
+  };
+
+  it('should keep prompts that fit as they are', () => {
+    const assembled = assemblePrompt(sections, render, 10_000);
+
+    expect(assembled.prompt).toBe(render({ history, results }));
+    expect(assembled.truncated).toEqual([]);
+  });
+
+  it('should shorten the lowest priority section first', () => {
+    const budget = estimateTokens(render({ history, results })) - 100;
+    const assembled = assemblePrompt(sections, render, budget);
+
+    expect(assembled.truncated).toEqual(['history']);
+    expect(assembled.prompt).toContain(results);
+    expect(assembled.prompt).toContain('message number 50');
+    expect(assembled.prompt).not.toContain('message number 1\n');
+    expect(assembled.prompt.startsWith('System prompt')).toBe(true);
+    expect(assembled.prompt.endsWith('User input')).toBe(true);
+    expect(assembled.tokens).toBeLessThanOrEqual(budget);
+  });
+
+  it('should leave out sections that do not fit at all', () => {
+    const budget = estimateTokens(render({ history: '', results }));
+    const assembled = assemblePrompt(sections, render, budget);
+
+    expect(assembled.truncated).toEqual(['history']);
+    expect(assembled.prompt).toBe(render({ history: '', results }));
+  });
+
+  it('should shorten higher priority sections once lower ones are gone', () => {
+    const assembled = assemblePrompt(sections, render, 60);
+
+    expect(assembled.truncated).toEqual(['history', 'results']);
+    expect(assembled.prompt).toContain('User input');
+    expect(assembled.tokens).toBeLessThanOrEqual(60);
+  });
+});
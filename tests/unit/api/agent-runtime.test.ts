@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import {
+  abortedRequestResponse,
+  initializeAgent,
+} from '@/app/api/agent-runtime';
+import { agentRegistry } from '@/core/agents/agent-registry';
+import { AbortError } from '@/core/utils/abort';
+
+describe('initializeAgent', () => {
+  it('should keep running agents while the provider stays the same', async () => {
+    const general = await initializeAgent(
+      'ollama',
+      undefined,
+      undefined,
+      undefined,
+      'general-assistant'
+    );
+    // A coordinated request resolves a second agent mid-request
+    const nutrition = await initializeAgent(
+      'ollama',
+      undefined,
+      undefined,
+      undefined,
+      'nutrition-agent'
+    );
+
+    expect(
+      await initializeAgent(
+        'ollama',
+        undefined,
+        undefined,
+        undefined,
+        'general-assistant'
+      )
+    ).toBe(general);
+    expect(agentRegistry.getActiveAgent('general-assistant')).toBe(general);
+    expect(agentRegistry.getActiveAgent('nutrition-agent')).toBe(nutrition);
+  });
+
+  it('should recreate agents when switching providers', async () => {
+    const ollamaAgent = await initializeAgent(
+      'ollama',
+      undefined,
+      undefined,
+      undefined,
+      'general-assistant'
+    );
+    await expect(
+      initializeAgent(
+        'anthropic',
+        undefined,
+        undefined,
+        undefined,
+        'general-assistant'
+      )
+    ).rejects.toThrow('requires authentication');
+    const agent = await initializeAgent(
+      'ollama',
+      undefined,
+      undefined,
+      undefined,
+      'general-assistant'
+    );
+
+    expect(agent).not.toBe(ollamaAgent);
+  });
+});
+
+describe('abortedRequestResponse', () => {
+  it('should respond to aborted requests with 499', () => {
+    expect(abortedRequestResponse(new AbortError())?.status).toBe(499);
+  });
+
+  it('should leave other errors to the route', () => {
+    expect(abortedRequestResponse(new Error('Boom'))).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import {
+  createOpenApiDocument,
+  parseJsonBody,
+  parseQuery,
+  schemas,
+} from '@/app/api/api-schema';
+import { summarizeSession } from '@/app/api/sessions/session-summary';
+import { validateJsonSchema } from '@/core/utils/json-schema';
+import { createChatSession } from '@/core/utils/type-factories';
+
+const mockRequest = (url: string, body = '') =>
+  ({ url, text: async () => body }) as unknown as NextRequest;
+
+describe('API schema', () => {
+  describe('createOpenApiDocument', () => {
+    it('should describe every resource route', () => {
+      const document = createOpenApiDocument();
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(Object.keys(document.paths)).toEqual([
+        '/api/providers',
+        '/api/providers/{id}/models',
+        '/api/providers/{id}/authenticate',
+        '/api/agents',
+        '/api/agents/{id}/status',
+        '/api/sessions',
+        '/api/sessions/{id}',
+      ]);
+      expect(Object.keys(document.paths['/api/sessions/{id}'])).toEqual([
+        'get',
+        'delete',
+      ]);
+    });
+
+    it('should include request and response schemas', () => {
+      const operation = createOpenApiDocument().paths[
+        '/api/providers/{id}/authenticate'
+      ].post as Record<string, any>;
+
+      expect(operation.requestBody.content['application/json'].schema).toBe(
+        schemas.authenticateRequest
+      );
+      expect(
+        operation.responses['200'].content['application/json'].schema
+      ).toBe(schemas.authenticateResponse);
+      expect(operation.parameters[0]).toMatchObject({
+        name: 'id',
+        in: 'path',
+        required: true,
+      });
+    });
+  });
+
+  describe('parseJsonBody', () => {
+    it('should return a body that matches the schema', async () => {
+      const body = await parseJsonBody(
+        mockRequest('http://localhost/api', '{"apiKey":"sk-test"}'),
+        schemas.authenticateRequest
+      );
+
+      expect(body).toEqual({ apiKey: 'sk-test' });
+    });
+
+    it('should treat an empty body as an empty object', async () => {
+      const body = await parseJsonBody(
+        mockRequest('http://localhost/api'),
+        schemas.authenticateRequest
+      );
+
+      expect(body).toEqual({});
+    });
+
+    it('should reject bodies that do not match the schema', async () => {
+      const response = (await parseJsonBody(
+        mockRequest('http://localhost/api', '{"apiKey":42,"model":"x"}'),
+        schemas.authenticateRequest
+      )) as Response;
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.issues.map((issue: { path: string }) => issue.path)).toEqual(
+        expect.arrayContaining(['apiKey', 'model'])
+      );
+    });
+
+    it('should reject invalid JSON', async () => {
+      const response = (await parseJsonBody(
+        mockRequest('http://localhost/api', '{apiKey'),
+        schemas.authenticateRequest
+      )) as Response;
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should convert numbers and apply defaults', () => {
+      expect(
+        parseQuery(
+          mockRequest('http://localhost/api/sessions?limit=10&userId=u1'),
+          schemas.sessionsQuery
+        )
+      ).toEqual({ limit: 10, userId: 'u1' });
+      expect(
+        parseQuery(
+          mockRequest('http://localhost/api/sessions'),
+          schemas.sessionsQuery
+        )
+      ).toEqual({ limit: 50 });
+    });
+
+    it('should reject invalid parameters', () => {
+      const response = parseQuery(
+        mockRequest('http://localhost/api/sessions?limit=0'),
+        schemas.sessionsQuery
+      ) as Response;
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('summarizeSession', () => {
+    it('should match the documented session schema', () => {
+      const session = createChatSession({
+        messages: [
+          {
+            id: 'input_1',
+            content: 'Plan a week of vegetarian dinners for a family of four',
+            timestamp: new Date(),
+            type: 'text',
+          },
+        ],
+      });
+
+      const summary = summarizeSession(session);
+
+      expect(summary.title).toBe(
+        'Plan a week of vegetarian dinners for a family of four'
+      );
+      expect(summary.messageCount).toBe(1);
+      expect(
+        validateJsonSchema(
+          JSON.parse(JSON.stringify({ success: true, sessions: [summary] })),
+          schemas.sessionsResponse
+        ).valid
+      ).toBe(true);
+    });
+
+    it('should shorten long titles', () => {
+      const session = createChatSession({
+        messages: [
+          {
+            id: 'input_1',
+            content: 'a'.repeat(100),
+            timestamp: new Date(),
+            type: 'text',
+          },
+        ],
+      });
+
+      expect(summarizeSession(session).title).toHaveLength(60);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/approvals/route';
+import { approvalManager } from '@/core/sessions/approval-manager';
+import { sessionManager } from '@/core/sessions/session-manager';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { BasicTaskPlanner } from '@/core/agents/basic-planner';
+import { AbortError } from '@/core/utils/abort';
+import {
+  MockModelProvider,
+  createMockActionPlan,
+  createMockAgentResponse,
+  createMockModelConfig,
+  createMockUserInput,
+} from '../../utils/mocks';
+
+const agent = new GeneralAssistantAgent(
+  new MockModelProvider(),
+  createMockModelConfig()
+);
+
+jest.mock('@/core/sessions/session-manager', () => {
+  const { SessionManager } = jest.requireActual(
+    '@/core/sessions/session-manager'
+  );
+  const { InMemoryStorageAdapter } = jest.requireActual('@/core/storage');
+  return {
+    SessionManager,
+    sessionManager: new SessionManager(new InMemoryStorageAdapter()),
+  };
+});
+
+jest.mock('@/app/api/agent-runtime', () => ({
+  ...jest.requireActual('@/app/api/agent-runtime'),
+  ensureInitialized: jest.fn(),
+  initializeAgent: jest.fn(async () => agent),
+}));
+
+const post = (
+  action: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+) =>
+  POST(
+    new NextRequest(`http://localhost/api/approvals?action=${action}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      signal,
+    })
+  );
+
+const edit = (body: Record<string, unknown>) => post('edit', body);
+
+const requestApproval = async () => {
+  const session = await sessionManager.getOrCreateSession(
+    undefined,
+    'general-assistant'
+  );
+  return approvalManager.requestApproval(
+    session.id,
+    'general-assistant',
+    createMockUserInput(),
+    createMockActionPlan({ requiresApproval: true })
+  );
+};
+
+describe('Editing pending plans', () => {
+  it.each([
+    [[{ id: 'a', action: 'A', estimatedDuration: '5' }]],
+    [[{ id: 'a', action: 'A', parameters: 'to everyone' }]],
+    [[{ id: 'a', action: 'A', dependencies: [{ id: 'b' }] }]],
+    [['Send the drafts']],
+  ])('should reject malformed steps with a 400', async steps => {
+    const approval = await approvalManager.requestApproval(
+      'session-1',
+      'general-assistant',
+      createMockUserInput(),
+      createMockActionPlan({ requiresApproval: true })
+    );
+
+    const response = await edit({ approvalId: approval.id, steps });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Step 1 /);
+    expect(
+      (await approvalManager.getApproval(approval.id))?.plan.steps
+    ).toEqual(approval.plan.steps);
+  });
+});
+
+describe('Approving plans', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run the plan only once when approved twice at the same time', async () => {
+    const runPlan = jest
+      .spyOn(agent, 'runPlan')
+      .mockResolvedValue(createMockAgentResponse({ content: 'Emails sent' }));
+    const approval = await requestApproval();
+
+    const responses = await Promise.all([
+      post('approve', { approvalId: approval.id }),
+      post('approve', { approvalId: approval.id }),
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([
+      200, 409,
+    ]);
+    expect(runPlan).toHaveBeenCalledTimes(1);
+    expect((await approvalManager.getApproval(approval.id))?.status).toBe(
+      'approved'
+    );
+  });
+
+  it('should leave the plan pending when the request is aborted mid-run', async () => {
+    const controller = new AbortController();
+    jest.spyOn(agent, 'runPlan').mockImplementation(
+      (_plan, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () =>
+            reject(new AbortError())
+          );
+          controller.abort();
+        })
+    );
+    const approval = await requestApproval();
+
+    const response = await post(
+      'approve',
+      { approvalId: approval.id },
+      controller.signal
+    );
+
+    expect(response.status).toBe(499);
+    expect((await approvalManager.getApproval(approval.id))?.status).toBe(
+      'pending'
+    );
+  });
+
+  it('should finish the multi-agent task a delegated plan belongs to', async () => {
+    const runPlan = jest
+      .spyOn(agent, 'runPlan')
+      .mockResolvedValue(
+        createMockAgentResponse({ content: 'Study schedule' })
+      );
+    const synthesize = jest
+      .spyOn(BasicTaskPlanner.prototype, 'synthesizeResults')
+      .mockResolvedValue('Meals and studying, combined');
+    const session = await sessionManager.getOrCreateSession(
+      undefined,
+      'general-assistant'
+    );
+    const task = createMockUserInput({ content: 'Plan meals and studying' });
+    const plan = createMockActionPlan({ requiresApproval: true });
+    const approval = await approvalManager.requestApproval(
+      session.id,
+      'general-assistant',
+      createMockUserInput({ content: 'Plan studying' }),
+      plan,
+      {
+        input: task,
+        leadAgentId: 'general-assistant',
+        steps: [
+          {
+            id: 'meals',
+            action: 'Plan meals',
+            parameters: { agentId: 'nutrition-agent', task: 'Plan meals' },
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+          {
+            id: 'study',
+            action: 'Plan studying',
+            parameters: { agentId: 'general-assistant', task: 'Plan studying' },
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+        ],
+        contributions: [
+          {
+            stepId: 'meals',
+            agentId: 'nutrition-agent',
+            agentName: 'Dr. Nutri',
+            task: 'Plan meals',
+            content: 'Meal plan',
+            confidence: 0.8,
+          },
+        ],
+        stepId: 'study',
+      }
+    );
+
+    const response = await post('approve', { approvalId: approval.id });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(runPlan).toHaveBeenCalledTimes(1);
+    expect(runPlan.mock.calls[0][0]).toEqual({
+      ...plan,
+      requiresApproval: false,
+    });
+    expect(synthesize).toHaveBeenCalledWith(
+      'Plan meals and studying',
+      [
+        expect.objectContaining({ stepId: 'meals', content: 'Meal plan' }),
+        expect.objectContaining({ stepId: 'study', content: 'Study schedule' }),
+      ],
+      expect.anything()
+    );
+    expect(body.response.content).toBe('Meals and studying, combined');
+    // The conversation records the user's request and the combined answer
+    const messages = (await sessionManager.getSession(session.id))?.messages;
+    expect(messages?.map(message => message.content)).toEqual([
+      'Plan meals and studying',
+      'Meals and studying, combined',
+    ]);
+  });
+});
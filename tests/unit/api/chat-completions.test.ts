@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/v1/chat/completions/route';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { createActionPlan } from '@/core/utils/type-factories';
+import { MockModelProvider, createMockModelConfig } from '../../utils/mocks';
+
+const provider = new MockModelProvider();
+const agent = new GeneralAssistantAgent(provider, createMockModelConfig());
+
+jest.mock('@/app/api/agent-runtime', () => ({
+  ...jest.requireActual('@/app/api/agent-runtime'),
+  ensureInitialized: jest.fn(),
+  initializeAgent: jest.fn(async () => agent),
+}));
+
+const complete = (stream: boolean) =>
+  POST(
+    new NextRequest('http://localhost/v1/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: 'polaris/general-assistant',
+        messages: [{ role: 'user', content: 'Suggest a cafe name' }],
+        stream,
+      }),
+    })
+  );
+
+describe('Chat completions', () => {
+  beforeAll(async () => {
+    provider.setAuthenticated(true);
+    await agent.initialize();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(agent, 'preparePlan').mockResolvedValue(
+      createActionPlan({
+        steps: [
+          {
+            id: 'answer',
+            action: 'Suggest a name',
+            parameters: {},
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+        ],
+      })
+    );
+    jest
+      .spyOn(provider, 'generateChat')
+      .mockResolvedValue({ content: 'Bean There', toolCalls: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ['a completion', false],
+    ['a streamed completion', true],
+  ])('should remember %s', async (_mode, stream) => {
+    const before = agent.memory.memories.length;
+
+    const response = await complete(stream);
+    // Drain the stream so the response finishes
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(agent.memory.memories).toHaveLength(before + 1);
+    expect(agent.memory.memories.at(-1)).toMatchObject({
+      content: 'Bean There',
+      tags: ['response', 'general-assistant'],
+    });
+  });
+});
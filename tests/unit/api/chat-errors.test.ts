@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST as chat } from '@/app/api/chat/route';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { RateLimitError } from '@/core/models/provider-errors';
+import { createActionPlan } from '@/core/utils/type-factories';
+import { MockModelProvider, createMockModelConfig } from '../../utils/mocks';
+
+const provider = new MockModelProvider();
+const agent = new GeneralAssistantAgent(provider, createMockModelConfig());
+
+jest.mock('@/core/sessions/session-manager', () => {
+  const { SessionManager } = jest.requireActual(
+    '@/core/sessions/session-manager'
+  );
+  const { InMemoryStorageAdapter } = jest.requireActual('@/core/storage');
+  return {
+    SessionManager,
+    sessionManager: new SessionManager(new InMemoryStorageAdapter()),
+  };
+});
+
+jest.mock('@/app/api/agent-runtime', () => ({
+  ...jest.requireActual('@/app/api/agent-runtime'),
+  ensureInitialized: jest.fn(),
+  initializeAgent: jest.fn(async () => agent),
+}));
+
+const post = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+describe('Provider failures during execution', () => {
+  beforeAll(async () => {
+    provider.setAuthenticated(true);
+    await agent.initialize();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(agent, 'preparePlan').mockResolvedValue(
+      createActionPlan({
+        steps: [
+          {
+            id: 'answer',
+            action: 'Answer the question',
+            parameters: {},
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+        ],
+      })
+    );
+    jest
+      .spyOn(provider, 'generateChat')
+      .mockRejectedValue(
+        new RateLimitError('Too many requests', 'mock', { retryAfterMs: 2000 })
+      );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should respond with the status of the provider error', async () => {
+    const response = await chat(post({ message: 'Hello', agentId: agent.id }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('2');
+    expect(await response.json()).toMatchObject({
+      code: 'rate_limit',
+      provider: 'mock',
+      retryable: true,
+    });
+  });
+
+  it('should end a stream with the provider error', async () => {
+    const response = await chat(
+      post({ message: 'Hello', agentId: agent.id, stream: true })
+    );
+    const events = (await response.text())
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    expect(events.map(event => event.type)).toEqual(['start', 'error']);
+    expect(events[1]).toEqual({
+      type: 'error',
+      error: 'Too many requests',
+      code: 'rate_limit',
+    });
+  });
+});
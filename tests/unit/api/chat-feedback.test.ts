@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST as chat } from '@/app/api/chat/route';
+import { POST as feedback } from '@/app/api/feedback/route';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { createActionPlan } from '@/core/utils/type-factories';
+import { MockModelProvider, createMockModelConfig } from '../../utils/mocks';
+
+const agent = new GeneralAssistantAgent(
+  new MockModelProvider(),
+  createMockModelConfig()
+);
+
+jest.mock('@/core/sessions/session-manager', () => {
+  const { SessionManager } = jest.requireActual(
+    '@/core/sessions/session-manager'
+  );
+  const { InMemoryStorageAdapter } = jest.requireActual('@/core/storage');
+  return {
+    SessionManager,
+    sessionManager: new SessionManager(new InMemoryStorageAdapter()),
+  };
+});
+
+jest.mock('@/app/api/agent-runtime', () => ({
+  ...jest.requireActual('@/app/api/agent-runtime'),
+  ensureInitialized: jest.fn(),
+  initializeAgent: jest.fn(async () => agent),
+}));
+
+const post = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost/api', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+describe('Feedback on streamed responses', () => {
+  beforeEach(() => {
+    jest.spyOn(agent, 'preparePlan').mockResolvedValue(createActionPlan());
+    jest.spyOn(agent, 'streamPlan').mockResolvedValue(
+      (async function* () {
+        yield 'Streamed ';
+        yield 'answer';
+      })()
+    );
+  });
+
+  it('should remember a streamed response so rating it changes its memory', async () => {
+    const response = await chat(
+      post({ message: 'Hello', agentId: agent.id, stream: true })
+    );
+    const events = (await response.text())
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    const start = events.find(event => event.type === 'start');
+    expect(events.at(-1).type).toBe('end');
+
+    const memory = agent.memory.memories.find(
+      item => item.responseId === start.id
+    );
+    expect(memory?.content).toBe('Streamed answer');
+    const importance = memory!.importance;
+
+    const rated = await feedback(
+      post({ sessionId: start.sessionId, responseId: start.id, rating: 'up' })
+    );
+
+    expect(rated.status).toBe(200);
+    expect(memory!.importance).toBeGreaterThan(importance);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST as chat } from '@/app/api/chat/route';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { createActionPlan } from '@/core/utils/type-factories';
+import { MockModelProvider, createMockModelConfig } from '../../utils/mocks';
+
+const provider = new MockModelProvider();
+const agent = new GeneralAssistantAgent(provider, createMockModelConfig());
+
+jest.mock('@/core/sessions/session-manager', () => {
+  const { SessionManager } = jest.requireActual(
+    '@/core/sessions/session-manager'
+  );
+  const { InMemoryStorageAdapter } = jest.requireActual('@/core/storage');
+  return {
+    SessionManager,
+    sessionManager: new SessionManager(new InMemoryStorageAdapter()),
+  };
+});
+
+jest.mock('@/app/api/agent-runtime', () => ({
+  ...jest.requireActual('@/app/api/agent-runtime'),
+  ensureInitialized: jest.fn(),
+  initializeAgent: jest.fn(async () => agent),
+}));
+
+const post = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+describe('Streamed chat', () => {
+  beforeAll(async () => {
+    provider.setAuthenticated(true);
+    await agent.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report the tools the model calls', async () => {
+    jest.spyOn(agent, 'preparePlan').mockResolvedValue(
+      createActionPlan({
+        steps: [
+          {
+            id: 'names',
+            action: 'Suggest cafe names',
+            parameters: {},
+            dependencies: [],
+            estimatedDuration: 1,
+          },
+        ],
+      })
+    );
+    jest
+      .spyOn(provider, 'generateChat')
+      .mockResolvedValueOnce({
+        content: '',
+        toolCalls: [
+          {
+            id: 'call_1',
+            name: 'brainstorming',
+            arguments: { topic: 'cafe names' },
+          },
+        ],
+      })
+      // The brainstorming tool asks the model for ideas itself
+      .mockResolvedValueOnce({ content: 'Bean There', toolCalls: [] })
+      .mockResolvedValueOnce({ content: 'Try "Bean There"', toolCalls: [] });
+
+    const response = await chat(
+      post({ message: 'Name my cafe', agentId: agent.id, stream: true })
+    );
+    const events = (await response.text())
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    expect(events.map(event => event.type)).toEqual([
+      'start',
+      'tool_call',
+      'tool_result',
+      'content',
+      'end',
+    ]);
+    expect(events[1]).toMatchObject({
+      callId: 'call_1',
+      toolId: 'brainstorming',
+      arguments: { topic: 'cafe names' },
+    });
+    expect(events[2]).toMatchObject({
+      callId: 'call_1',
+      toolId: 'brainstorming',
+      result: 'Bean There',
+    });
+    expect(events.at(-1).fullContent).toBe('Try "Bean There"');
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  OpenAIRequestError,
+  createCompletion,
+  createCompletionChunk,
+  describePendingApproval,
+  parseChatMessages,
+  toAgentId,
+  toModelId,
+} from '@/app/v1/openai-compat';
+import {
+  createActionPlan,
+  createActionStep,
+} from '@/core/utils/type-factories';
+
+describe('OpenAI compatibility', () => {
+  describe('model ids', () => {
+    it('should name agents as polaris models', () => {
+      expect(toModelId('general-assistant')).toBe('polaris/general-assistant');
+      expect(toAgentId('polaris/general-assistant')).toBe('general-assistant');
+    });
+
+    it('should accept bare agent ids', () => {
+      expect(toAgentId('general-assistant')).toBe('general-assistant');
+    });
+  });
+
+  describe('parseChatMessages', () => {
+    it('should use the last user message as input and keep the history', () => {
+      const { input, session } = parseChatMessages(
+        [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello! How can I help?' },
+          { role: 'user', content: 'What is 2 + 2?' },
+        ],
+        'general-assistant'
+      );
+
+      expect(input.content).toBe('What is 2 + 2?');
+      expect(session.agentId).toBe('general-assistant');
+      expect(session.messages.map(message => message.content)).toEqual([
+        'Hi',
+        'Hello! How can I help?',
+      ]);
+      expect(session.messages[1]).toMatchObject({
+        agentId: 'general-assistant',
+      });
+    });
+
+    it('should put system messages in front of the input', () => {
+      const { input, session } = parseChatMessages(
+        [
+          { role: 'system', content: 'Answer in French.' },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Good morning' },
+              { type: 'image_url', image_url: { url: 'https://example.com' } },
+            ],
+          },
+        ],
+        'general-assistant'
+      );
+
+      expect(input.content).toBe('Answer in French.\n\nGood morning');
+      expect(session.messages).toEqual([]);
+    });
+
+    it.each([
+      ['no messages', []],
+      ['not an array', 'Hello'],
+      ['an assistant message last', [{ role: 'assistant', content: 'Hi' }]],
+      ['an empty user message last', [{ role: 'user', content: '  ' }]],
+    ])('should reject %s', (_name, messages) => {
+      expect(() => parseChatMessages(messages, 'general-assistant')).toThrow(
+        OpenAIRequestError
+      );
+    });
+  });
+
+  describe('completions', () => {
+    it('should create a completion with usage', () => {
+      const completion = createCompletion('chatcmpl-1', 'polaris/x', 'Hi', {
+        promptTokens: 10,
+        completionTokens: 5,
+        totalTokens: 15,
+      });
+
+      expect(completion).toMatchObject({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        model: 'polaris/x',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hi' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+      expect(Number.isInteger(completion.created)).toBe(true);
+    });
+
+    it('should create chunks with a delta', () => {
+      expect(
+        createCompletionChunk('chatcmpl-1', 'polaris/x', { content: 'Hi' })
+      ).toMatchObject({
+        object: 'chat.completion.chunk',
+        choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: null }],
+      });
+      expect(
+        createCompletionChunk('chatcmpl-1', 'polaris/x', {}, 'stop').choices[0]
+          .finish_reason
+      ).toBe('stop');
+    });
+
+    it('should list the steps of a plan waiting for approval', () => {
+      const plan = createActionPlan({
+        steps: [
+          createActionStep({ action: 'Search the web' }),
+          createActionStep({ action: 'Write the summary' }),
+        ],
+      });
+
+      expect(describePendingApproval(plan)).toContain(
+        '1. Search the web\n2. Write the summary'
+      );
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryPanel } from '@/components/MemoryPanel';
+
+const memories = [
+  {
+    id: 'memory-1',
+    content: 'The user is allergic to peanuts',
+    timestamp: '2025-02-01T00:00:00.000Z',
+    importance: 0.8,
+    tags: ['user-fact'],
+    pinned: true,
+  },
+  {
+    id: 'memory-2',
+    content: 'The user prefers short answers',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    importance: 0.5,
+    tags: ['response'],
+    pinned: false,
+  },
+];
+
+const jsonResponse = (body: unknown) =>
+  Promise.resolve({ json: () => Promise.resolve(body) });
+
+describe('MemoryPanel', () => {
+  const fetchMock = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((_url: string, init?: RequestInit) =>
+      jsonResponse(
+        init?.method ? { success: true } : { success: true, memories }
+      )
+    );
+  });
+
+  it('lists the agent memories', async () => {
+    render(<MemoryPanel agentId="nutrition-agent" />);
+
+    expect(
+      await screen.findByText('The user is allergic to peanuts')
+    ).toBeInTheDocument();
+    expect(screen.getByText('📌 Pinned')).toBeInTheDocument();
+    expect(screen.getByText('Importance 50%')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/memory?agentId=nutrition-agent'
+    );
+  });
+
+  it('searches memories', async () => {
+    render(<MemoryPanel agentId="general-assistant" />);
+    await screen.findByText('The user prefers short answers');
+
+    fireEvent.change(screen.getByPlaceholderText('Search memories'), {
+      target: { value: 'peanuts' },
+    });
+
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        '/api/memory?agentId=general-assistant&q=peanuts'
+      )
+    );
+  });
+
+  it('adds pinned memories and reports the change', async () => {
+    const onChange = jest.fn();
+    render(<MemoryPanel agentId="general-assistant" onChange={onChange} />);
+    await screen.findByText('The user prefers short answers');
+
+    fireEvent.change(screen.getByLabelText('New memory'), {
+      target: { value: 'I run every morning' },
+    });
+    fireEvent.click(screen.getByText('Remember'));
+
+    await waitFor(() => expect(onChange).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls.find(
+      ([, options]) => options?.method === 'POST'
+    );
+    expect(url).toBe('/api/memory');
+    expect(JSON.parse(init.body)).toEqual({
+      agentId: 'general-assistant',
+      content: 'I run every morning',
+      pinned: true,
+    });
+  });
+
+  it('pins, edits and deletes memories', async () => {
+    render(<MemoryPanel agentId="general-assistant" />);
+    await screen.findByText('The user prefers short answers');
+
+    fireEvent.click(screen.getAllByText('Pin')[0]);
+    await waitFor(() =>
+      expect(
+        fetchMock.mock.calls.some(([, init]) => init?.method === 'PATCH')
+      ).toBe(true)
+    );
+    const pinCall = fetchMock.mock.calls.find(
+      ([, init]) => init?.method === 'PATCH'
+    );
+    expect(JSON.parse(pinCall[1].body)).toMatchObject({
+      memoryId: 'memory-2',
+      pinned: true,
+    });
+
+    await waitFor(() =>
+      expect(screen.getAllByRole('button', { name: 'Edit' })[1]).toBeEnabled()
+    );
+    fireEvent.click(screen.getAllByRole('button', { name: 'Edit' })[1]);
+    fireEvent.change(screen.getByLabelText('Memory content'), {
+      target: { value: 'The user prefers detailed answers' },
+    });
+    fireEvent.click(screen.getByText('Save'));
+    await waitFor(() =>
+      expect(screen.queryByLabelText('Memory content')).not.toBeInTheDocument()
+    );
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete' })[0]);
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/memory?agentId=general-assistant&memoryId=memory-1',
+        { method: 'DELETE' }
+      )
+    );
+  });
+
+  it('shows errors from the API', async () => {
+    fetchMock.mockImplementation(() =>
+      jsonResponse({ error: 'Agent unknown not found' })
+    );
+
+    render(<MemoryPanel agentId="unknown" />);
+
+    expect(
+      await screen.findByText('Agent unknown not found')
+    ).toBeInTheDocument();
+  });
+});
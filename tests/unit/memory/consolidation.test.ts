@@ -0,0 +1,262 @@
+import {
+  DEFAULT_MEMORY_POLICY,
+  MemoryPolicy,
+  SUMMARY_TAG,
+  USER_FACT_TAG,
+  buildConsolidationPrompt,
+  createSummaryMemory,
+  findMemoryClusters,
+  getEffectiveImportance,
+  parseMemoryPolicy,
+  reinforceMemory,
+  selectMemoriesToKeep,
+} from '@/core/memory/consolidation';
+import { createMockMemory } from '../../utils/mocks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-30T12:00:00Z').getTime();
+
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS);
+
+describe('memory consolidation', () => {
+  let policy: MemoryPolicy;
+
+  beforeEach(() => {
+    policy = { ...DEFAULT_MEMORY_POLICY };
+  });
+
+  describe('parseMemoryPolicy', () => {
+    it('should use the defaults without memory settings', () => {
+      expect(parseMemoryPolicy()).toEqual(DEFAULT_MEMORY_POLICY);
+      expect(parseMemoryPolicy({ theme: 'dark' })).toEqual(
+        DEFAULT_MEMORY_POLICY
+      );
+    });
+
+    it('should override the defaults with valid settings', () => {
+      const parsed = parseMemoryPolicy({
+        memory: { maxMemories: 20, halfLifeDays: 7, pinnedTags: ['goal'] },
+      });
+
+      expect(parsed).toEqual({
+        ...DEFAULT_MEMORY_POLICY,
+        maxMemories: 20,
+        halfLifeDays: 7,
+        pinnedTags: ['goal'],
+      });
+    });
+
+    it('should warn about and skip invalid settings', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const parsed = parseMemoryPolicy({
+        memory: { maxMemories: -1, reinforcement: 2, unknown: true },
+      });
+
+      expect(parsed).toEqual(DEFAULT_MEMORY_POLICY);
+      expect(warnSpy).toHaveBeenCalledTimes(3);
+
+      parseMemoryPolicy({ memory: 'keep everything' });
+      expect(warnSpy).toHaveBeenLastCalledWith(
+        'Ignoring invalid memory policy config:',
+        'keep everything'
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('getEffectiveImportance', () => {
+    it('should halve importance every half-life', () => {
+      const memory = createMockMemory({
+        importance: 0.8,
+        timestamp: daysAgo(60),
+      });
+
+      expect(getEffectiveImportance(memory, policy, NOW)).toBeCloseTo(0.2);
+    });
+
+    it('should decay from the last recall', () => {
+      const memory = createMockMemory({
+        importance: 0.8,
+        timestamp: daysAgo(60),
+        lastAccessed: daysAgo(30),
+      });
+
+      expect(getEffectiveImportance(memory, policy, NOW)).toBeCloseTo(0.4);
+    });
+
+    it('should not decay pinned memories or without a half-life', () => {
+      const pinned = createMockMemory({
+        importance: 0.8,
+        timestamp: daysAgo(365),
+        tags: [USER_FACT_TAG],
+      });
+      const unpinned = createMockMemory({
+        importance: 0.8,
+        timestamp: daysAgo(365),
+      });
+
+      expect(getEffectiveImportance(pinned, policy, NOW)).toBe(0.8);
+      expect(
+        getEffectiveImportance(unpinned, { ...policy, halfLifeDays: 0 }, NOW)
+      ).toBe(0.8);
+    });
+  });
+
+  describe('reinforceMemory', () => {
+    it('should settle decay and add the reinforcement', () => {
+      const memory = createMockMemory({
+        importance: 0.8,
+        timestamp: daysAgo(30),
+      });
+
+      reinforceMemory(memory, policy, NOW);
+
+      expect(memory.importance).toBeCloseTo(0.5);
+      expect(memory.lastAccessed).toEqual(new Date(NOW));
+      expect(memory.accessCount).toBe(1);
+    });
+
+    it('should cap importance at 1', () => {
+      const memory = createMockMemory({
+        importance: 0.95,
+        timestamp: new Date(NOW),
+      });
+
+      reinforceMemory(memory, policy, NOW);
+
+      expect(memory.importance).toBe(1);
+    });
+  });
+
+  describe('selectMemoriesToKeep', () => {
+    it('should keep pinned memories and the most important of the rest', () => {
+      policy.maxMemories = 2;
+      const allergy = createMockMemory({
+        id: 'allergy',
+        importance: 0.3,
+        timestamp: daysAgo(300),
+        tags: [USER_FACT_TAG],
+      });
+      const oldImportant = createMockMemory({
+        id: 'old-important',
+        importance: 0.9,
+        timestamp: daysAgo(90),
+      });
+      const recentChat = createMockMemory({
+        id: 'recent-chat',
+        importance: 0.5,
+        timestamp: daysAgo(1),
+      });
+
+      const kept = selectMemoriesToKeep(
+        [allergy, oldImportant, recentChat],
+        policy,
+        NOW
+      );
+
+      expect(kept.map(memory => memory.id)).toEqual(['allergy', 'recent-chat']);
+    });
+
+    it('should return the memories unchanged within the limit', () => {
+      const memories = [createMockMemory(), createMockMemory()];
+
+      expect(selectMemoriesToKeep(memories, policy, NOW)).toBe(memories);
+    });
+  });
+
+  describe('findMemoryClusters', () => {
+    it('should group similar memories, oldest first', () => {
+      const memories = [
+        createMockMemory({
+          id: 'run-2',
+          embedding: [1, 0.1, 0],
+          timestamp: daysAgo(2),
+        }),
+        createMockMemory({
+          id: 'run-1',
+          embedding: [1, 0, 0],
+          timestamp: daysAgo(3),
+        }),
+        createMockMemory({
+          id: 'run-3',
+          embedding: [1, 0, 0.1],
+          timestamp: daysAgo(1),
+        }),
+        createMockMemory({
+          id: 'cooking',
+          embedding: [0, 1, 0],
+          timestamp: daysAgo(1),
+        }),
+      ];
+
+      const clusters = findMemoryClusters(memories, policy);
+
+      expect(clusters.map(cluster => cluster.map(memory => memory.id))).toEqual(
+        [['run-1', 'run-2', 'run-3']]
+      );
+    });
+
+    it('should leave pinned, unembedded and too few memories alone', () => {
+      const memories = [
+        createMockMemory({ id: 'a', embedding: [1, 0] }),
+        createMockMemory({ id: 'b', embedding: [1, 0], tags: [USER_FACT_TAG] }),
+        createMockMemory({ id: 'c', embedding: undefined }),
+        createMockMemory({ id: 'd', embedding: [1, 0.1] }),
+      ];
+
+      expect(findMemoryClusters(memories, policy)).toEqual([]);
+    });
+
+    it('should not mix embedding models', () => {
+      const memories = ['a', 'b', 'c'].map((id, index) =>
+        createMockMemory({
+          id,
+          embedding: [1, 0],
+          embeddingModel: index === 0 ? 'other' : 'mock-embedding',
+        })
+      );
+
+      expect(findMemoryClusters(memories, policy)).toEqual([]);
+    });
+  });
+
+  describe('summaries', () => {
+    it('should list the memories in the consolidation prompt', () => {
+      const prompt = buildConsolidationPrompt([
+        createMockMemory({ content: 'Ran 5km on Monday' }),
+        createMockMemory({ content: 'Ran 10km on Friday' }),
+      ]);
+
+      expect(prompt).toContain('- Ran 5km on Monday\n- Ran 10km on Friday');
+    });
+
+    it('should keep the highest importance and the tags of the cluster', () => {
+      const summary = createSummaryMemory(
+        'memory-summary',
+        'The user runs twice a week',
+        [
+          createMockMemory({
+            importance: 0.4,
+            tags: ['response', 'general-assistant'],
+          }),
+          createMockMemory({
+            importance: 0.8,
+            timestamp: daysAgo(30),
+            tags: ['response'],
+          }),
+        ],
+        policy,
+        NOW
+      );
+
+      expect(summary).toEqual({
+        id: 'memory-summary',
+        content: 'The user runs twice a week',
+        timestamp: new Date(NOW),
+        importance: 0.4,
+        tags: ['response', 'general-assistant', SUMMARY_TAG],
+      });
+    });
+  });
+});
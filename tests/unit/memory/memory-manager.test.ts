@@ -0,0 +1,226 @@
+import {
+  MemoryManager,
+  MemoryValidationError,
+} from '@/core/memory/memory-manager';
+import { InMemoryStorageAdapter } from '@/core/storage';
+import { GeneralAssistantAgent } from '@/core/agents/general-assistant';
+import { LongTermMemory } from '@/core/types';
+import {
+  MockModelProvider,
+  createMockAgentResponse,
+  createMockMemory,
+  createMockModelConfig,
+} from '../../utils/mocks';
+
+describe('MemoryManager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: MemoryManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    manager = new MemoryManager(storage);
+    await storage.saveMemory({
+      agentId: 'general-assistant',
+      userId: '',
+      memories: [
+        createMockMemory({
+          id: 'memory-old',
+          content: 'The user prefers short answers',
+          timestamp: new Date('2025-01-01'),
+          tags: ['response'],
+        }),
+        createMockMemory({
+          id: 'memory-new',
+          content: 'The user is training for a marathon',
+          timestamp: new Date('2025-02-01'),
+          tags: ['response', 'running'],
+          embeddingModel: 'mock-embedding',
+        }),
+      ],
+      patterns: { preferredResponseStyle: 'concise' },
+      preferences: {},
+    });
+  });
+
+  it('should list memories newest first without embeddings', async () => {
+    const memories = await manager.listMemories('general-assistant', '');
+
+    expect(memories.map(memory => memory.id)).toEqual([
+      'memory-new',
+      'memory-old',
+    ]);
+    expect(memories[0]).not.toHaveProperty('embedding');
+    expect(memories[0].pinned).toBe(false);
+  });
+
+  it('should search content and tags for every word', async () => {
+    expect(
+      await manager.listMemories('general-assistant', '', 'USER running')
+    ).toHaveLength(1);
+    expect(
+      await manager.listMemories('general-assistant', '', 'user swimming')
+    ).toEqual([]);
+  });
+
+  it('should keep the memories of each agent and user apart', async () => {
+    expect(await manager.listMemories('general-assistant', 'alice')).toEqual(
+      []
+    );
+    expect(await manager.listMemories('nutrition-agent', '')).toEqual([]);
+  });
+
+  it('should add memories and create the memory record if needed', async () => {
+    const added = await manager.addMemory('nutrition-agent', 'alice', {
+      content: '  Allergic to peanuts ',
+      pinned: true,
+    });
+
+    expect(added).toMatchObject({
+      content: 'Allergic to peanuts',
+      importance: 0.8,
+      tags: ['user-fact'],
+      pinned: true,
+    });
+    const stored = await storage.loadMemory('nutrition-agent', 'alice');
+    expect(stored?.memories).toHaveLength(1);
+    expect(stored?.memories[0].id).toBe(added.id);
+  });
+
+  it('should edit content and drop the stale embedding', async () => {
+    const updated = await manager.updateMemory(
+      'general-assistant',
+      '',
+      'memory-new',
+      { content: 'The user ran a marathon in April', importance: 0.9 }
+    );
+
+    expect(updated).toMatchObject({
+      content: 'The user ran a marathon in April',
+      importance: 0.9,
+    });
+    const stored = await storage.loadMemory('general-assistant', '');
+    const memory = stored?.memories.find(item => item.id === 'memory-new');
+    expect(memory?.embedding).toBeUndefined();
+    expect(memory?.embeddingModel).toBeUndefined();
+    expect(stored?.patterns).toEqual({ preferredResponseStyle: 'concise' });
+  });
+
+  it('should pin and unpin memories through the user fact tag', async () => {
+    const pinned = await manager.updateMemory(
+      'general-assistant',
+      '',
+      'memory-old',
+      { pinned: true }
+    );
+    expect(pinned?.tags).toEqual(['response', 'user-fact']);
+    expect(pinned?.pinned).toBe(true);
+
+    const unpinned = await manager.updateMemory(
+      'general-assistant',
+      '',
+      'memory-old',
+      { pinned: false }
+    );
+    expect(unpinned?.tags).toEqual(['response']);
+  });
+
+  it('should reject invalid changes', async () => {
+    await expect(
+      manager.addMemory('general-assistant', '', { content: ' ' })
+    ).rejects.toThrow(MemoryValidationError);
+    await expect(
+      manager.updateMemory('general-assistant', '', 'memory-old', {
+        importance: 2,
+      })
+    ).rejects.toThrow('importance must be between 0 and 1');
+    await expect(
+      manager.updateMemory('general-assistant', '', 'memory-old', {
+        tags: 'running' as unknown as string[],
+      })
+    ).rejects.toThrow('tags must be an array of strings');
+  });
+
+  it('should delete memories', async () => {
+    expect(
+      await manager.deleteMemory('general-assistant', '', 'memory-old')
+    ).toBe(true);
+    expect(
+      await manager.deleteMemory('general-assistant', '', 'memory-old')
+    ).toBe(false);
+
+    const memories = await manager.listMemories('general-assistant', '');
+    expect(memories.map(memory => memory.id)).toEqual(['memory-new']);
+  });
+
+  it('should report unknown memories', async () => {
+    expect(
+      await manager.updateMemory('general-assistant', '', 'missing', {
+        content: 'Anything',
+      })
+    ).toBeNull();
+  });
+
+  it('should notify listeners of changes', async () => {
+    const changes: LongTermMemory[] = [];
+    manager.onChange(memory => {
+      changes.push(memory);
+    });
+
+    await manager.deleteMemory('general-assistant', '', 'memory-old');
+    await manager.deleteMemory('general-assistant', '', 'memory-old');
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].memories).toHaveLength(1);
+  });
+
+  it('should apply concurrent edits one after another', async () => {
+    await Promise.all([
+      manager.addMemory('general-assistant', '', { content: 'Likes tea' }),
+      manager.addMemory('general-assistant', '', { content: 'Lives in Oslo' }),
+      manager.updateMemory('general-assistant', '', 'memory-old', {
+        pinned: true,
+      }),
+      manager.deleteMemory('general-assistant', '', 'memory-new'),
+    ]);
+
+    const memories = await manager.listMemories('general-assistant', '');
+    expect(memories.map(memory => memory.content).sort()).toEqual([
+      'Likes tea',
+      'Lives in Oslo',
+      'The user prefers short answers',
+    ]);
+    expect(memories.find(memory => memory.id === 'memory-old')?.pinned).toBe(
+      true
+    );
+  });
+
+  it('should keep what an agent remembers while the user edits', async () => {
+    const agent = new GeneralAssistantAgent(
+      new MockModelProvider(),
+      createMockModelConfig()
+    );
+    agent.configure({ memory: { consolidateEvery: 0 } });
+    agent.setStorage(storage);
+    await agent.reloadMemory();
+    manager.onChange(() => agent.reloadMemory());
+
+    await Promise.all([
+      agent.reflect(
+        createMockAgentResponse({ content: 'Remembered by the agent' })
+      ),
+      manager.addMemory('general-assistant', '', {
+        content: 'Added by the user',
+      }),
+    ]);
+
+    const expected = expect.arrayContaining([
+      'Remembered by the agent',
+      'Added by the user',
+    ]);
+    const stored = await storage.loadMemory('general-assistant', '');
+    expect(stored?.memories.map(memory => memory.content)).toEqual(expected);
+    expect(agent.memory.memories.map(memory => memory.content)).toEqual(
+      expected
+    );
+  });
+});
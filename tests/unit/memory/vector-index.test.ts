@@ -0,0 +1,58 @@
+import { VectorIndex } from '@/core/memory/vector-index';
+
+describe('VectorIndex', () => {
+  let index: VectorIndex<string>;
+
+  beforeEach(() => {
+    index = new VectorIndex<string>();
+    index.add('north', [0, 1], 'north');
+    index.add('north-east', [1, 1], 'north-east');
+    index.add('east', [1, 0], 'east');
+    index.add('south', [0, -1], 'south');
+  });
+
+  it('should return the most similar entries first', () => {
+    const matches = index.search([0.1, 1], { limit: 2 });
+
+    expect(matches.map(match => match.id)).toEqual(['north', 'north-east']);
+    expect(matches[0].score).toBeCloseTo(0.995, 3);
+  });
+
+  it('should leave out entries below the minimum score', () => {
+    const matches = index.search([0, 1], { limit: 10, minScore: 0.5 });
+
+    expect(matches.map(match => match.item)).toEqual(['north', 'north-east']);
+  });
+
+  it('should apply the filter before limiting', () => {
+    const matches = index.search([0, 1], {
+      limit: 1,
+      filter: item => item !== 'north',
+    });
+
+    expect(matches.map(match => match.item)).toEqual(['north-east']);
+  });
+
+  it('should skip vectors of another dimension and zero vectors', () => {
+    index.add('other-model', [0, 1, 0], 'other-model');
+    index.add('empty', [0, 0], 'empty');
+
+    expect(index.search([0, 1, 0], { limit: 10 })).toHaveLength(1);
+    expect(index.search([0, 0], { limit: 10 })).toEqual([]);
+    expect(
+      index.search([0, 1], { limit: 10 }).map(match => match.id)
+    ).not.toContain('empty');
+  });
+
+  it('should replace and remove entries by id', () => {
+    index.add('north', [0, -1], 'north');
+    expect(index.search([0, 1], { limit: 1 })[0].id).toBe('north-east');
+
+    expect(index.remove('north-east')).toBe(true);
+    expect(index.remove('missing')).toBe(false);
+    expect(index.size).toBe(3);
+
+    index.clear();
+    expect(index.size).toBe(0);
+  });
+});
@@ -0,0 +1,326 @@
+import { AnthropicProvider } from '@/core/models/anthropic-provider';
+import { EmbeddingsUnsupportedError } from '@/core/models/provider-errors';
+import { createMockModelConfig, mockFetch } from '../../utils/mocks';
+
+// Minimal readable body emitting the given SSE chunks
+const mockStream = (chunks: string[]) => {
+  const read = jest.fn();
+  for (const chunk of chunks) {
+    read.mockResolvedValueOnce({
+      done: false,
+      value: new TextEncoder().encode(chunk),
+    });
+  }
+  read.mockResolvedValueOnce({ done: true, value: undefined });
+
+  (global.fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    body: { getReader: () => ({ read }) },
+  });
+};
+
+const lastRequestBody = () => {
+  const calls = (global.fetch as jest.Mock).mock.calls;
+  return JSON.parse(calls[calls.length - 1][1].body);
+};
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+
+  beforeEach(() => {
+    provider = new AnthropicProvider('claude-test', 'http://localhost:4010/v1');
+    jest.clearAllMocks();
+  });
+
+  describe('Authentication', () => {
+    it('should authenticate and list models', async () => {
+      mockFetch({ data: [{ id: 'claude-a' }, { id: 'claude-b' }] });
+
+      const result = await provider.authenticate('sk-ant-test');
+
+      expect(result).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:4010/v1/models',
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'anthropic-version': '2023-06-01',
+            'x-api-key': 'sk-ant-test',
+          },
+        }
+      );
+      expect(provider.getAvailableModels()).toEqual(['claude-a', 'claude-b']);
+    });
+
+    it('should fail without an API key', async () => {
+      expect(await provider.authenticate()).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fail with an invalid API key', async () => {
+      mockFetch({ error: { type: 'authentication_error' } }, 401);
+
+      expect(await provider.authenticate('bad-key')).toBe(false);
+      expect(provider.getStatus().authenticated).toBe(false);
+    });
+  });
+
+  describe('Messages', () => {
+    beforeEach(async () => {
+      mockFetch({ data: [{ id: 'claude-test' }] });
+      await provider.authenticate('sk-ant-test');
+    });
+
+    it('should send the system prompt as a top-level field and map the config', async () => {
+      mockFetch({ content: [{ type: 'text', text: 'Hello!' }] });
+
+      const result = await provider.generateResponse(
+        'Hi',
+        createMockModelConfig({
+          systemPrompt: 'Be brief',
+          temperature: 0.3,
+          maxTokens: 200,
+          topP: 0.8,
+        })
+      );
+
+      expect(result).toBe('Hello!');
+      expect(lastRequestBody()).toEqual({
+        model: 'claude-test',
+        system: 'Be brief',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        max_tokens: 200,
+        temperature: 0.3,
+      });
+    });
+
+    it('should send top_p only when no temperature is set', async () => {
+      mockFetch({ content: [{ type: 'text', text: 'Hello!' }] });
+      mockFetch({ content: [{ type: 'text', text: 'Hello!' }] });
+
+      await provider.generateResponse(
+        'Hi',
+        createMockModelConfig({ temperature: 0.3, topP: 0.8 })
+      );
+      expect(lastRequestBody()).toHaveProperty('temperature', 0.3);
+      expect(lastRequestBody()).not.toHaveProperty('top_p');
+
+      await provider.generateResponse(
+        'Hi',
+        createMockModelConfig({
+          temperature: undefined as unknown as number,
+          topP: 0.8,
+        })
+      );
+      expect(lastRequestBody()).toHaveProperty('top_p', 0.8);
+      expect(lastRequestBody()).not.toHaveProperty('temperature');
+    });
+
+    it('should map tool calls and merge consecutive tool results', async () => {
+      mockFetch({
+        content: [
+          { type: 'text', text: 'Let me check. ' },
+          {
+            type: 'tool_use',
+            id: 'toolu_2',
+            name: 'calculator',
+            input: { expression: '2+2' },
+          },
+        ],
+      });
+
+      const result = await provider.generateChat(
+        [
+          { role: 'user', content: 'Weather and time?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              { id: 'toolu_0', name: 'weather', arguments: {} },
+              { id: 'toolu_1', name: 'clock', arguments: {} },
+            ],
+          },
+          { role: 'tool', toolCallId: 'toolu_0', content: 'Sunny' },
+          { role: 'tool', toolCallId: 'toolu_1', content: '10:00' },
+        ],
+        createMockModelConfig(),
+        {
+          tools: [
+            {
+              name: 'calculator',
+              description: 'Evaluate math',
+              parameters: { type: 'object', properties: {} },
+            },
+          ],
+        }
+      );
+
+      expect(result).toEqual({
+        content: 'Let me check. ',
+        toolCalls: [
+          {
+            id: 'toolu_2',
+            name: 'calculator',
+            arguments: { expression: '2+2' },
+          },
+        ],
+      });
+      const body = lastRequestBody();
+      expect(body.tools).toEqual([
+        {
+          name: 'calculator',
+          description: 'Evaluate math',
+          input_schema: { type: 'object', properties: {} },
+        },
+      ]);
+      expect(body.messages).toHaveLength(3);
+      expect(body.messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_0', content: 'Sunny' },
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: '10:00' },
+        ],
+      });
+    });
+
+    it('should request structured output as a forced tool call', async () => {
+      const schema = {
+        type: 'object' as const,
+        properties: { ok: { type: 'boolean' as const } },
+      };
+      mockFetch({
+        content: [
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'status',
+            input: { ok: true },
+          },
+        ],
+      });
+
+      const result = await provider.generateStructured(
+        'Are you ok?',
+        schema,
+        createMockModelConfig(),
+        { name: 'status' }
+      );
+
+      expect(result).toEqual({ ok: true });
+      expect(lastRequestBody().tool_choice).toEqual({
+        type: 'tool',
+        name: 'status',
+      });
+    });
+
+    it('should stream text deltas split across chunks', async () => {
+      mockStream([
+        'event: message_start\ndata: {"type":"message_start"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel',
+        'lo"}}\n\nevent: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" there"}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ]);
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.streamResponse(
+        'Hi',
+        createMockModelConfig()
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['Hello', ' there']);
+      expect(lastRequestBody().stream).toBe(true);
+    });
+
+    it('should report token usage of completions', async () => {
+      const onUsage = jest.fn();
+      mockFetch({
+        content: [{ type: 'text', text: 'Hello!' }],
+        usage: { input_tokens: 12, output_tokens: 3 },
+      });
+
+      const completion = await provider.generateChat(
+        [{ role: 'user', content: 'Hi' }],
+        createMockModelConfig(),
+        { onUsage }
+      );
+
+      expect(completion.usage).toEqual({
+        promptTokens: 12,
+        completionTokens: 3,
+        totalTokens: 15,
+      });
+      expect(onUsage).toHaveBeenCalledWith({
+        promptTokens: 12,
+        completionTokens: 3,
+        totalTokens: 15,
+        providerId: 'anthropic',
+        providerType: 'remote',
+        model: 'claude-test',
+      });
+    });
+
+    it('should report token usage once a stream ends', async () => {
+      const onUsage = jest.fn();
+      mockStream([
+        'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":7}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ]);
+
+      for await (const _chunk of provider.streamResponse(
+        'Hi',
+        createMockModelConfig(),
+        { onUsage }
+      )) {
+        expect(onUsage).not.toHaveBeenCalled();
+      }
+
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promptTokens: 20,
+          completionTokens: 7,
+          totalTokens: 27,
+        })
+      );
+    });
+
+    it('should surface stream error events', async () => {
+      mockStream([
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+      ]);
+
+      await expect(async () => {
+        for await (const _chunk of provider.streamResponse(
+          'Hi',
+          createMockModelConfig()
+        )) {
+          // Should throw
+        }
+      }).rejects.toThrow('Anthropic API error: Overloaded');
+    });
+
+    it('should report API errors', async () => {
+      mockFetch({ error: { type: 'rate_limit_error' } }, 429);
+
+      await expect(
+        provider.generateResponse('Hi', createMockModelConfig())
+      ).rejects.toThrow('Anthropic API error: 429');
+    });
+  });
+
+  it('should report that it cannot embed', async () => {
+    await expect(provider.embed(['Hi'])).rejects.toBeInstanceOf(
+      EmbeddingsUnsupportedError
+    );
+  });
+
+  it('should throw when not authenticated', async () => {
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).rejects.toThrow('Anthropic provider not authenticated');
+  });
+});
@@ -0,0 +1,67 @@
+import { CircuitBreaker } from '@/core/models/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should open after consecutive failures', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should only count consecutive failures', () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should half-open after the cooldown and close on success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 999;
+    expect(breaker.allowRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen when the half-open request fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    now = 1999;
+    expect(breaker.allowRequest()).toBe(false);
+    now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
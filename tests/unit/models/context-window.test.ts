@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ContextWindowRegistry,
+  DEFAULT_CONTEXT_LENGTH,
+  contextWindows,
+  parseContextLengths,
+} from '@/core/models/context-window';
+import { OllamaProvider } from '@/core/models/ollama-provider';
+import { AbortError } from '@/core/utils/abort';
+import { mockFetch, mockFetchError } from '../../utils/mocks';
+
+describe('ContextWindowRegistry', () => {
+  const registry = new ContextWindowRegistry({
+    'gpt-4o': 128_000,
+    'gpt-4o-mini': 64_000,
+    'vllm/qwen2.5-7b': 32_768,
+  });
+
+  it('should prefer lengths for a specific provider', () => {
+    expect(registry.get('vllm', 'qwen2.5-7b')).toBe(32_768);
+    expect(registry.get('llama-cpp', 'qwen2.5-7b')).toBeUndefined();
+  });
+
+  it('should match dated variants by the longest model prefix', () => {
+    expect(registry.get('openai', 'gpt-4o-2024-08-06')).toBe(128_000);
+    expect(registry.get('openai', 'gpt-4o-mini-2024-07-18')).toBe(64_000);
+  });
+
+  it('should fall back to a conservative default', () => {
+    expect(registry.getContextLength('openai', 'unknown-model')).toBe(
+      DEFAULT_CONTEXT_LENGTH
+    );
+  });
+
+  it('should accept new lengths', () => {
+    const custom = new ContextWindowRegistry({});
+    custom.set('ollama/llama3.2', 4_096);
+
+    expect(custom.getContextLength('ollama', 'llama3.2')).toBe(4_096);
+  });
+});
+
+describe('parseContextLengths', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should skip entries that are not positive numbers', () => {
+    expect(
+      parseContextLengths(
+        JSON.stringify({ 'gpt-4.1': 1_047_576, 'gpt-4.1-mini': 'large' })
+      )
+    ).toEqual({ 'gpt-4.1': 1_047_576 });
+  });
+
+  it('should ignore invalid JSON', () => {
+    expect(parseContextLengths('{gpt')).toEqual({});
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe('OllamaProvider context length', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should use the num_ctx set in the Modelfile', async () => {
+    const provider = new OllamaProvider('mistral-long');
+    mockFetch({
+      parameters: 'stop "[INST]"\nnum_ctx 16384',
+      model_info: { 'llama.context_length': 32_768 },
+    });
+
+    expect(await provider.getContextLength()).toBe(16_384);
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/show');
+    expect(JSON.parse(init.body)).toEqual({ model: 'mistral-long' });
+  });
+
+  it("should cap the model's length at Ollama's default and remember it", async () => {
+    const provider = new OllamaProvider('llama3.2-test');
+    mockFetch({ model_info: { 'llama.context_length': 131_072 } });
+
+    expect(await provider.getContextLength()).toBe(4_096);
+    expect(await provider.getContextLength()).toBe(4_096);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(contextWindows.get('ollama', 'llama3.2-test')).toBe(4_096);
+  });
+
+  it('should use the default when the server cannot be asked', async () => {
+    const provider = new OllamaProvider('offline-model');
+    mockFetchError('ECONNREFUSED');
+
+    expect(await provider.getContextLength()).toBe(DEFAULT_CONTEXT_LENGTH);
+  });
+
+  describe('when the server does not answer', () => {
+    // Rejects like fetch once the request's signal fires
+    const hangingFetch = () =>
+      (global.fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            const { signal } = init;
+            if (signal?.aborted) {
+              reject(signal.reason);
+            }
+            signal?.addEventListener('abort', () => reject(signal.reason));
+          })
+      );
+
+    it('should use the default once the lookup times out', async () => {
+      const provider = new OllamaProvider('slow-model');
+      jest
+        .spyOn(AbortSignal, 'timeout')
+        .mockReturnValue(
+          AbortSignal.abort(new DOMException('Timed out', 'TimeoutError'))
+        );
+      hangingFetch();
+
+      expect(await provider.getContextLength()).toBe(DEFAULT_CONTEXT_LENGTH);
+      expect(AbortSignal.timeout).toHaveBeenCalledWith(2_000);
+    });
+
+    it('should stop the lookup when the request is cancelled', async () => {
+      const provider = new OllamaProvider('cancelled-model');
+      const controller = new AbortController();
+      hangingFetch();
+
+      const length = provider.getContextLength({ signal: controller.signal });
+      controller.abort(new AbortError());
+
+      await expect(length).rejects.toBeInstanceOf(AbortError);
+      expect(contextWindows.get('ollama', 'cancelled-model')).toBeUndefined();
+    });
+  });
+});
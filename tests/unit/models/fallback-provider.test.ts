@@ -0,0 +1,281 @@
+import { CircuitBreaker } from '@/core/models/circuit-breaker';
+import {
+  FallbackProvider,
+  parseFallbackChains,
+} from '@/core/models/fallback-provider';
+import {
+  ContentFilterError,
+  ContextLengthError,
+  ProviderUnavailableError,
+  TransientNetworkError,
+} from '@/core/models/provider-errors';
+import { AbortError } from '@/core/utils/abort';
+import { MockModelProvider, createMockModelConfig } from '../../utils/mocks';
+
+describe('FallbackProvider', () => {
+  let ollama: MockModelProvider;
+  let localServer: MockModelProvider;
+  let openai: MockModelProvider;
+  let breakers: Map<string, CircuitBreaker>;
+
+  const createChain = (
+    chain: MockModelProvider[],
+    allowRemote?: boolean
+  ): FallbackProvider =>
+    new FallbackProvider(chain, {
+      getCircuitBreaker: id => {
+        if (!breakers.has(id)) {
+          breakers.set(id, new CircuitBreaker({ failureThreshold: 2 }));
+        }
+        return breakers.get(id) as CircuitBreaker;
+      },
+      allowRemote,
+      retryPolicy: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 },
+    });
+
+  beforeEach(() => {
+    ollama = new MockModelProvider('ollama', 'Ollama', 'local');
+    localServer = new MockModelProvider('llama-cpp', 'llama.cpp', 'local');
+    openai = new MockModelProvider('openai', 'OpenAI', 'remote');
+    localServer.setResponses(['from llama.cpp']);
+    openai.setResponses(['from openai']);
+    openai.setAuthenticated(true);
+    breakers = new Map();
+  });
+
+  it('should use the first provider while it works', async () => {
+    ollama.setResponses(['from ollama']);
+    const provider = createChain([ollama, localServer, openai]);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).resolves.toBe('from ollama');
+    expect(provider.getActiveProvider()).toBe(ollama);
+  });
+
+  it('should fall back in order when providers fail', async () => {
+    ollama.setAvailability(false);
+    localServer.setAvailability(false);
+    const provider = createChain([ollama, localServer, openai]);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).resolves.toBe('from openai');
+    expect(provider.getActiveProvider()).toBe(openai);
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    ollama.setAvailability(false);
+    const provider = createChain([ollama, localServer]);
+    const config = createMockModelConfig();
+
+    await provider.generateResponse('Hi', config);
+    await provider.generateResponse('Hi', config);
+    expect(breakers.get('ollama')?.getState()).toBe('open');
+
+    const generateChat = jest.spyOn(ollama, 'generateChat');
+    await expect(provider.generateResponse('Hi', config)).resolves.toBe(
+      'from llama.cpp'
+    );
+    expect(generateChat).not.toHaveBeenCalled();
+  });
+
+  it('should not fall back to remote providers when remote is forbidden', async () => {
+    ollama.setAvailability(false);
+    const provider = createChain([ollama, openai], false);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).rejects.toThrow('Mock provider is not available');
+  });
+
+  it('should skip remote fallbacks that are not authenticated', async () => {
+    ollama.setAvailability(false);
+    openai.setAuthenticated(false);
+    const generateChat = jest.spyOn(openai, 'generateChat');
+    const provider = createChain([ollama, openai]);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).rejects.toThrow('Mock provider is not available');
+    expect(generateChat).not.toHaveBeenCalled();
+  });
+
+  it('should retry transient errors before falling back', async () => {
+    const generateChat = jest
+      .spyOn(ollama, 'generateChat')
+      .mockRejectedValueOnce(new TransientNetworkError('Timed out', 'ollama'))
+      .mockResolvedValueOnce({ content: 'from ollama', toolCalls: [] });
+    const provider = createChain([ollama, localServer]);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).resolves.toBe('from ollama');
+    expect(generateChat).toHaveBeenCalledTimes(2);
+    expect(breakers.get('ollama')?.getState()).toBe('closed');
+  });
+
+  it('should stop waiting to retry once the request is cancelled', async () => {
+    jest
+      .spyOn(ollama, 'generateChat')
+      .mockRejectedValue(new TransientNetworkError('Timed out', 'ollama'));
+    const fallbackChat = jest.spyOn(localServer, 'generateChat');
+    const provider = new FallbackProvider([ollama, localServer], {
+      getCircuitBreaker: () => new CircuitBreaker(),
+      retryPolicy: { maxRetries: 2, baseDelayMs: 60_000, maxDelayMs: 60_000 },
+    });
+    const controller = new AbortController();
+
+    const request = provider.generateResponse('Hi', createMockModelConfig(), {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(AbortError);
+    expect(fallbackChat).not.toHaveBeenCalled();
+  });
+
+  it('should combine the errors when every provider fails', async () => {
+    ollama.setAvailability(false);
+    localServer.setAvailability(false);
+    const provider = createChain([ollama, localServer]);
+
+    const error = await provider
+      .generateResponse('Hi', createMockModelConfig())
+      .then(
+        () => null,
+        (err: ProviderUnavailableError) => err
+      );
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error?.message).toBe(
+      'All providers failed: ollama: Mock provider is not available; llama-cpp: Mock provider is not available'
+    );
+  });
+
+  it('should not fall back when the provider refuses the request', async () => {
+    jest
+      .spyOn(ollama, 'generateChat')
+      .mockRejectedValue(new ContentFilterError('Refused', 'ollama'));
+    const generateChat = jest.spyOn(localServer, 'generateChat');
+    const provider = createChain([ollama, localServer]);
+
+    await expect(
+      provider.generateResponse('Hi', createMockModelConfig())
+    ).rejects.toBeInstanceOf(ContentFilterError);
+    expect(generateChat).not.toHaveBeenCalled();
+  });
+
+  it('should not trip the circuit for requests that are too long', async () => {
+    jest
+      .spyOn(ollama, 'generateChat')
+      .mockRejectedValue(new ContextLengthError('Too long', 'ollama'));
+    const provider = createChain([ollama, localServer]);
+    const config = createMockModelConfig();
+
+    await provider.generateResponse('Hi', config);
+    await provider.generateResponse('Hi', config);
+
+    expect(breakers.get('ollama')?.getState()).toBe('closed');
+  });
+
+  it('should not fall back or trip the circuit when aborted', async () => {
+    jest.spyOn(ollama, 'generateChat').mockRejectedValue(new AbortError());
+    const generateChat = jest.spyOn(localServer, 'generateChat');
+    const provider = createChain([ollama, localServer]);
+    const config = createMockModelConfig();
+
+    await expect(
+      provider.generateResponse('Hi', config)
+    ).rejects.toBeInstanceOf(AbortError);
+    await expect(
+      provider.generateResponse('Hi', config)
+    ).rejects.toBeInstanceOf(AbortError);
+
+    expect(generateChat).not.toHaveBeenCalled();
+    expect(breakers.get('ollama')?.getState()).toBe('closed');
+  });
+
+  it('should fall back when a stream fails before its first chunk', async () => {
+    ollama.setAvailability(false);
+    const provider = createChain([ollama, localServer]);
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamResponse(
+      'Hi',
+      createMockModelConfig()
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe('from llama.cpp ');
+    expect(provider.getActiveProvider()).toBe(localServer);
+  });
+
+  it('should not switch providers once a stream has started', async () => {
+    jest.spyOn(ollama, 'streamChat').mockImplementation(async function* () {
+      yield 'Partial';
+      throw new Error('Connection reset');
+    });
+    const provider = createChain([ollama, localServer]);
+
+    const chunks: string[] = [];
+    await expect(async () => {
+      for await (const chunk of provider.streamResponse(
+        'Hi',
+        createMockModelConfig()
+      )) {
+        chunks.push(chunk);
+      }
+    }).rejects.toThrow('Connection reset');
+    expect(chunks).toEqual(['Partial']);
+  });
+
+  it('should always embed with the primary provider', async () => {
+    const provider = createChain([ollama, openai]);
+    const primaryEmbed = jest
+      .spyOn(ollama, 'embed')
+      .mockRejectedValue(new TransientNetworkError('Timed out', 'ollama'));
+    const fallbackEmbed = jest.spyOn(openai, 'embed');
+
+    await expect(provider.embed(['Hi'])).rejects.toBeInstanceOf(
+      TransientNetworkError
+    );
+    expect(primaryEmbed).toHaveBeenCalledWith(['Hi'], undefined);
+    expect(fallbackEmbed).not.toHaveBeenCalled();
+  });
+
+  it('should report the chain and circuit states in its status', async () => {
+    const provider = createChain([ollama, openai]);
+
+    expect(provider.getStatus()).toMatchObject({
+      id: 'ollama',
+      activeProvider: 'ollama',
+      fallbacks: ['openai'],
+      circuits: { ollama: 'closed', openai: 'closed' },
+    });
+  });
+});
+
+describe('parseFallbackChains', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read chains keyed by provider id', () => {
+    expect(
+      parseFallbackChains(
+        '{"ollama": ["llama-cpp", "openai"], "bad": "openai"}'
+      )
+    ).toEqual({ ollama: ['llama-cpp', 'openai'] });
+  });
+
+  it('should ignore invalid config', () => {
+    expect(parseFallbackChains('["ollama"]')).toEqual({});
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
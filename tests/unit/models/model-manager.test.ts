@@ -18,8 +18,9 @@ describe('ModelManager', () => {
     it('should initialize with built-in providers', () => {
       const providers = manager.getProviders();
 
-      expect(providers).toHaveLength(2);
+      expect(providers).toHaveLength(3);
       expect(providers.some(p => p.id === 'openai')).toBe(true);
+      expect(providers.some(p => p.id === 'anthropic')).toBe(true);
       expect(providers.some(p => p.id === 'ollama')).toBe(true);
     });
 
@@ -29,6 +30,29 @@ describe('ModelManager', () => {
       expect(defaultProvider).toBeDefined();
       expect(defaultProvider?.id).toBe('openai');
     });
+
+    it('should register OpenAI-compatible servers from the environment', () => {
+      process.env.POLARIS_OPENAI_COMPATIBLE_PROVIDERS = JSON.stringify([
+        { id: 'llama-cpp', name: 'llama.cpp', baseUrl: 'http://gpu-1:8080/v1' },
+        { id: 'vllm', baseUrl: 'http://gpu-2:8000/v1', type: 'remote' },
+      ]);
+
+      try {
+        const providers = new ModelManager().getProviders();
+
+        expect(providers.map(p => p.id)).toEqual([
+          'openai',
+          'anthropic',
+          'ollama',
+          'llama-cpp',
+          'vllm',
+        ]);
+        expect(providers[3].name).toBe('llama.cpp');
+        expect(providers[4].type).toBe('remote');
+      } finally {
+        delete process.env.POLARIS_OPENAI_COMPATIBLE_PROVIDERS;
+      }
+    });
   });
 
   describe('Provider Registration', () => {
@@ -260,6 +284,66 @@ describe('ModelManager', () => {
     });
   });
 
+  describe('Fallback Chains', () => {
+    beforeEach(() => {
+      mockProvider1.setAvailability(false);
+      mockProvider2.setAuthenticated(true);
+      mockProvider2.setResponses(['Fallback response']);
+      manager.registerProvider(mockProvider1);
+      manager.registerProvider(mockProvider2);
+      mockProvider1.setAuthenticated(true);
+    });
+
+    it('should answer from the next provider when one fails', async () => {
+      manager.setFallbackChain('mock-1', ['mock-2']);
+
+      const result = await manager.generateResponse(
+        'mock-1',
+        'Test prompt',
+        createMockModelConfig()
+      );
+
+      expect(result).toBe('Fallback response');
+      expect(manager.getFallbackChain('mock-1')).toEqual(['mock-1', 'mock-2']);
+    });
+
+    it('should share circuit breakers between chains', async () => {
+      manager.setFallbackChain('mock-1', ['mock-2']);
+      const config = createMockModelConfig();
+
+      for (let i = 0; i < 3; i++) {
+        await manager.generateResponse('mock-1', 'Test prompt', config);
+      }
+
+      expect(manager.getCircuitBreaker('mock-1').getState()).toBe('open');
+      expect(manager.withFallbacks('mock-1').getStatus().circuits).toEqual({
+        'mock-1': 'open',
+        'mock-2': 'closed',
+      });
+    });
+
+    it('should ignore unknown fallback ids', () => {
+      manager.setFallbackChain('mock-1', ['missing', 'mock-2']);
+
+      expect(manager.withFallbacks('mock-1').getStatus().fallbacks).toEqual([
+        'mock-2',
+      ]);
+    });
+
+    it('should read chains from the environment', () => {
+      process.env.POLARIS_PROVIDER_FALLBACKS = '{"ollama": ["openai"]}';
+
+      try {
+        expect(new ModelManager().getFallbackChain('ollama')).toEqual([
+          'ollama',
+          'openai',
+        ]);
+      } finally {
+        delete process.env.POLARIS_PROVIDER_FALLBACKS;
+      }
+    });
+  });
+
   describe('Default Provider Management', () => {
     beforeEach(() => {
       manager.registerProvider(mockProvider1);
@@ -312,6 +396,32 @@ describe('ModelManager', () => {
     });
   });
 
+  describe('Model Listing', () => {
+    it('should list the models of the OpenAI provider', async () => {
+      const models = await manager.listModels('openai');
+
+      expect(models).toContain('gpt-4o-mini');
+    });
+
+    it('should ask Ollama for its models', async () => {
+      mockFetch({ models: [{ name: 'llama3.2' }, { name: 'qwen2.5' }] });
+
+      const models = await manager.listModels('ollama');
+
+      expect(models).toEqual(['llama3.2', 'qwen2.5']);
+    });
+
+    it('should return no models for providers that cannot list them', async () => {
+      manager.registerProvider(mockProvider1);
+
+      expect(await manager.listModels('mock-1')).toEqual([]);
+    });
+
+    it('should return undefined for unknown providers', async () => {
+      expect(await manager.listModels('unknown')).toBeUndefined();
+    });
+  });
+
   describe('Model Configuration', () => {
     it('should provide default model configuration', () => {
       const config = manager.getDefaultModelConfig();
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { OllamaProvider } from '@/core/models/ollama-provider';
+import { ModelNotFoundError } from '@/core/models/provider-errors';
+import { createMockModelConfig, mockFetch } from '../../utils/mocks';
+
+// Minimal readable body emitting the given NDJSON chunks
+const mockStream = (chunks: string[]) => {
+  const read = jest.fn();
+  for (const chunk of chunks) {
+    read.mockResolvedValueOnce({
+      done: false,
+      value: new TextEncoder().encode(chunk),
+    });
+  }
+  read.mockResolvedValueOnce({ done: true, value: undefined });
+
+  (global.fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    body: { getReader: () => ({ read, releaseLock: jest.fn() }) },
+  });
+};
+
+describe('OllamaProvider', () => {
+  let provider: OllamaProvider;
+
+  beforeEach(() => {
+    provider = new OllamaProvider('llama3.2', 'http://gpu-1:11434');
+    jest.clearAllMocks();
+  });
+
+  describe('Embeddings', () => {
+    it('should embed texts with the embedding model', async () => {
+      const onUsage = jest.fn();
+      mockFetch({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+        prompt_eval_count: 8,
+      });
+
+      const result = await provider.embed(['first', 'second'], { onUsage });
+
+      expect(result).toEqual({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+        model: 'nomic-embed-text',
+      });
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('http://gpu-1:11434/api/embed');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'nomic-embed-text',
+        input: ['first', 'second'],
+      });
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promptTokens: 8,
+          providerId: 'ollama',
+          model: 'nomic-embed-text',
+        })
+      );
+    });
+
+    it('should report embedding models that are not pulled', async () => {
+      mockFetch({ error: 'model "nomic-embed-text" not found' }, 404);
+
+      await expect(provider.embed(['first'])).rejects.toBeInstanceOf(
+        ModelNotFoundError
+      );
+    });
+  });
+
+  describe('Streaming', () => {
+    beforeEach(async () => {
+      mockFetch({ models: [{ name: 'llama3.2' }] });
+      await provider.authenticate();
+    });
+
+    it('should stream lines split across chunks and report usage', async () => {
+      const onUsage = jest.fn();
+      mockStream([
+        '{"message":{"content":"Hel',
+        'lo"},"done":false}\n{"message":{"content":" there"},"done":false}\n{"done":true,',
+        '"prompt_eval_count":12,"eval_count":4}\n',
+      ]);
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.streamChat(
+        [{ role: 'user', content: 'Hi' }],
+        createMockModelConfig(),
+        { onUsage }
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['Hello', ' there']);
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promptTokens: 12,
+          completionTokens: 4,
+          providerId: 'ollama',
+        })
+      );
+    });
+  });
+});
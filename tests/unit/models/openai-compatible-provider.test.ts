@@ -0,0 +1,302 @@
+import {
+  OpenAICompatibleProvider,
+  parseCompatibleProviders,
+} from '@/core/models/openai-compatible-provider';
+import {
+  ContextLengthError,
+  TransientNetworkError,
+} from '@/core/models/provider-errors';
+import { AbortError } from '@/core/utils/abort';
+import {
+  createMockModelConfig,
+  mockFetch,
+  mockFetchError,
+} from '../../utils/mocks';
+
+describe('OpenAICompatibleProvider', () => {
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(() => {
+    provider = new OpenAICompatibleProvider({
+      id: 'vllm',
+      name: 'vLLM',
+      baseUrl: 'http://gpu-1:8000/v1/',
+      headers: { 'X-Team': 'research' },
+    });
+    jest.clearAllMocks();
+  });
+
+  it('should default to a remote provider named after its id', () => {
+    const unnamed = new OpenAICompatibleProvider({
+      id: 'lm-studio',
+      baseUrl: 'http://localhost:1234/v1',
+    });
+    const local = new OpenAICompatibleProvider({
+      id: 'llama-cpp',
+      baseUrl: 'http://localhost:8080/v1',
+      type: 'local',
+    });
+
+    expect(unnamed.name).toBe('lm-studio');
+    expect(unnamed.type).toBe('remote');
+    expect(local.type).toBe('local');
+  });
+
+  describe('Model Discovery', () => {
+    it('should authenticate without a key and pick the first listed model', async () => {
+      mockFetch({ data: [{ id: 'qwen2.5-7b' }, { id: 'llama-3.1-8b' }] });
+
+      const result = await provider.authenticate();
+
+      expect(result).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith('http://gpu-1:8000/v1/models', {
+        headers: { 'Content-Type': 'application/json', 'X-Team': 'research' },
+      });
+      expect(provider.getAvailableModels()).toEqual([
+        'qwen2.5-7b',
+        'llama-3.1-8b',
+      ]);
+      expect(provider.getCurrentModel()).toBe('qwen2.5-7b');
+    });
+
+    it('should keep a configured model', async () => {
+      const configured = new OpenAICompatibleProvider({
+        id: 'vllm',
+        baseUrl: 'http://gpu-1:8000/v1',
+        model: 'llama-3.1-8b',
+      });
+      mockFetch({ data: [{ id: 'qwen2.5-7b' }, { id: 'llama-3.1-8b' }] });
+
+      await configured.authenticate();
+
+      expect(configured.getCurrentModel()).toBe('llama-3.1-8b');
+    });
+
+    it('should fail authentication when the server rejects the request', async () => {
+      mockFetch({ error: 'Unauthorized' }, 401);
+
+      expect(await provider.authenticate('wrong-key')).toBe(false);
+      expect(provider.getStatus().authenticated).toBe(false);
+    });
+  });
+
+  describe('Chat Completions', () => {
+    beforeEach(async () => {
+      mockFetch({ data: [{ id: 'qwen2.5-7b' }] });
+      await provider.authenticate('server-key');
+    });
+
+    it('should send requests to the configured server with custom headers', async () => {
+      mockFetch({ choices: [{ message: { content: 'Hello' } }] });
+
+      const result = await provider.generateResponse(
+        'Hi',
+        createMockModelConfig()
+      );
+
+      expect(result).toBe('Hello');
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(url).toBe('http://gpu-1:8000/v1/chat/completions');
+      expect(init.headers).toEqual({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer server-key',
+        'X-Team': 'research',
+      });
+      expect(JSON.parse(init.body).model).toBe('qwen2.5-7b');
+    });
+
+    it('should report token usage against the configured model', async () => {
+      const onUsage = jest.fn();
+      mockFetch({
+        model: 'qwen2.5-7b-instruct-q4',
+        choices: [{ message: { content: 'Hello' } }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+      });
+
+      await provider.generateResponse('Hi', createMockModelConfig(), {
+        onUsage,
+      });
+
+      expect(onUsage).toHaveBeenCalledWith({
+        promptTokens: 9,
+        completionTokens: 2,
+        totalTokens: 11,
+        providerId: 'vllm',
+        providerType: 'remote',
+        model: 'qwen2.5-7b',
+      });
+    });
+
+    it('should embed texts in input order', async () => {
+      const onUsage = jest.fn();
+      mockFetch({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+        usage: { prompt_tokens: 6, total_tokens: 6 },
+      });
+
+      const result = await provider.embed(['first', 'second'], { onUsage });
+
+      expect(result).toEqual({
+        embeddings: [
+          [1, 0],
+          [0, 1],
+        ],
+        model: 'qwen2.5-7b',
+      });
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(url).toBe('http://gpu-1:8000/v1/embeddings');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'qwen2.5-7b',
+        input: ['first', 'second'],
+      });
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ promptTokens: 6, model: 'qwen2.5-7b' })
+      );
+    });
+
+    it('should embed with a configured embedding model', async () => {
+      const configured = new OpenAICompatibleProvider({
+        id: 'vllm',
+        baseUrl: 'http://gpu-1:8000/v1',
+        embeddingModel: 'bge-m3',
+      });
+      mockFetch({ data: [{ id: 'qwen2.5-7b' }] });
+      await configured.authenticate();
+      mockFetch({ data: [{ index: 0, embedding: [1, 0] }] });
+
+      const result = await configured.embed(['first']);
+
+      expect(result.model).toBe('bge-m3');
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(JSON.parse(calls[calls.length - 1][1].body).model).toBe('bge-m3');
+    });
+
+    it('should name the provider in API errors', async () => {
+      mockFetch({ error: 'Overloaded' }, 503);
+
+      await expect(
+        provider.generateResponse('Hi', createMockModelConfig())
+      ).rejects.toThrow('vLLM API error: 503');
+    });
+
+    it('should classify API errors', async () => {
+      mockFetch({ error: { code: 'context_length_exceeded' } }, 400);
+
+      await expect(
+        provider.generateResponse('Hi', createMockModelConfig())
+      ).rejects.toBeInstanceOf(ContextLengthError);
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      const controller = new AbortController();
+      mockFetch({ choices: [{ message: { content: 'Hello' } }] });
+
+      await provider.generateResponse('Hi', createMockModelConfig(), {
+        signal: controller.signal,
+      });
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(init.signal).toBe(controller.signal);
+    });
+
+    it('should stream deltas split across chunks', async () => {
+      // Split inside an event and inside the two bytes of "é"
+      const bytes = new TextEncoder().encode(
+        'data: {"choices":[{"delta":{"content":"Café"}}]}\n\n' +
+          'data: {"choices":[{"delta":{"content":" au lait"}}]}\n\n' +
+          'data: [DONE]\n\n'
+      );
+      const splitAt = bytes.indexOf(0xc3) + 1;
+      const read = jest
+        .fn()
+        .mockResolvedValueOnce({ done: false, value: bytes.slice(0, 20) })
+        .mockResolvedValueOnce({
+          done: false,
+          value: bytes.slice(20, splitAt),
+        })
+        .mockResolvedValueOnce({ done: false, value: bytes.slice(splitAt) })
+        .mockResolvedValueOnce({ done: true, value: undefined });
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: { getReader: () => ({ read }) },
+      });
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.streamResponse(
+        'Hi',
+        createMockModelConfig()
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['Café', ' au lait']);
+    });
+
+    it('should not treat aborted requests as network errors', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new AbortError());
+
+      await expect(
+        provider.generateResponse('Hi', createMockModelConfig())
+      ).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('should wrap connection failures as transient errors', async () => {
+      mockFetchError('ECONNREFUSED');
+
+      await expect(
+        provider.generateResponse('Hi', createMockModelConfig())
+      ).rejects.toBeInstanceOf(TransientNetworkError);
+    });
+  });
+
+  it('should report its server and models in the status', async () => {
+    mockFetch({ data: [{ id: 'qwen2.5-7b' }] });
+    await provider.authenticate();
+
+    expect(provider.getStatus()).toEqual({
+      authenticated: true,
+      available: true,
+      id: 'vllm',
+      name: 'vLLM',
+      model: 'qwen2.5-7b',
+      baseUrl: 'http://gpu-1:8000/v1',
+      models: ['qwen2.5-7b'],
+    });
+  });
+});
+
+describe('parseCompatibleProviders', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return no providers when unset', () => {
+    expect(parseCompatibleProviders(undefined)).toEqual([]);
+  });
+
+  it('should skip entries without an id and baseUrl', () => {
+    const providers = parseCompatibleProviders(
+      JSON.stringify([
+        { id: 'llama-cpp', baseUrl: 'http://localhost:8080/v1' },
+        { id: 'missing-url' },
+      ])
+    );
+
+    expect(providers).toEqual([
+      { id: 'llama-cpp', baseUrl: 'http://localhost:8080/v1' },
+    ]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore invalid JSON', () => {
+    expect(parseCompatibleProviders('[{id:')).toEqual([]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -147,6 +147,180 @@ describe('OpenAIProvider', () => {
     });
   });
 
+  describe('Chat Messages', () => {
+    beforeEach(async () => {
+      mockFetch({ data: [{ id: 'gpt-4', object: 'model' }] });
+      await provider.authenticate('test-api-key');
+    });
+
+    it('should send each chat message with its role', async () => {
+      mockFetch({ choices: [{ message: { content: 'Hi Ada' } }] });
+
+      const result = await provider.generateChat(
+        [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'I am Ada' },
+          { role: 'assistant', content: 'Hello' },
+          { role: 'user', content: 'Who am I?' },
+        ],
+        createMockModelConfig()
+      );
+
+      expect(result).toEqual({ content: 'Hi Ada', toolCalls: [] });
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body
+      );
+      expect(body.messages).toEqual([
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'I am Ada' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'Who am I?' },
+      ]);
+    });
+
+    it('should send a response format as a JSON schema', async () => {
+      mockFetch({ choices: [{ message: { content: '{"ok": true}' } }] });
+      const schema = {
+        type: 'object' as const,
+        properties: { ok: { type: 'boolean' as const } },
+      };
+
+      await provider.generateChat(
+        [{ role: 'user', content: 'Are you ok?' }],
+        createMockModelConfig(),
+        { responseFormat: { name: 'status', schema } }
+      );
+
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body
+      );
+      expect(body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'status', schema },
+      });
+    });
+
+    it('should send the configured system prompt as a system message', async () => {
+      mockFetch({ choices: [{ message: { content: 'Response' } }] });
+
+      await provider.generateResponse(
+        'Test prompt',
+        createMockModelConfig({ systemPrompt: 'You are helpful' })
+      );
+
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body
+      );
+      expect(body.messages).toEqual([
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'Test prompt' },
+      ]);
+    });
+  });
+
+  describe('Tool Calling', () => {
+    beforeEach(async () => {
+      mockFetch({ data: [{ id: 'gpt-4', object: 'model' }] });
+      await provider.authenticate('test-api-key');
+    });
+
+    it('should send tool definitions and parse tool calls', async () => {
+      mockFetch({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: {
+                    name: 'nutrition-calculator',
+                    arguments: '{"weight":70}',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const result = await provider.generateChat(
+        [{ role: 'user', content: 'How many calories?' }],
+        createMockModelConfig(),
+        {
+          tools: [
+            {
+              name: 'nutrition-calculator',
+              description: 'Calculate calories',
+              parameters: { type: 'object', properties: {} },
+            },
+          ],
+        }
+      );
+
+      expect(result).toEqual({
+        content: '',
+        toolCalls: [
+          {
+            id: 'call_1',
+            name: 'nutrition-calculator',
+            arguments: { weight: 70 },
+          },
+        ],
+      });
+
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body
+      );
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'nutrition-calculator',
+            description: 'Calculate calories',
+            parameters: { type: 'object', properties: {} },
+          },
+        },
+      ]);
+    });
+
+    it('should map assistant tool calls and tool results to OpenAI messages', async () => {
+      mockFetch({ choices: [{ message: { content: 'Done' } }] });
+
+      await provider.generateChat(
+        [
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'calc', arguments: { a: 1 } }],
+          },
+          { role: 'tool', content: '42', toolCallId: 'call_1', name: 'calc' },
+        ],
+        createMockModelConfig()
+      );
+
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body
+      );
+      expect(body.tools).toBeUndefined();
+      expect(body.messages).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'calc', arguments: '{"a":1}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '42' },
+      ]);
+    });
+  });
+
   describe('Streaming Response', () => {
     beforeEach(async () => {
       mockFetch({ data: [{ id: 'gpt-4', object: 'model' }] });
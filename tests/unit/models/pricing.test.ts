@@ -0,0 +1,88 @@
+import { PriceTable, parseModelPrices } from '@/core/models/pricing';
+import { UsageRecord } from '@/core/types';
+
+const createRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  promptTokens: 1_000,
+  completionTokens: 500,
+  totalTokens: 1_500,
+  providerId: 'openai',
+  providerType: 'remote',
+  model: 'gpt-4o',
+  ...overrides,
+});
+
+describe('PriceTable', () => {
+  const prices = new PriceTable({
+    'gpt-4o': { input: 2.5, output: 10 },
+    'vllm/qwen2.5-7b': { input: 0.1, output: 0.1 },
+  });
+
+  it('should price calls per million tokens', () => {
+    expect(prices.getCost(createRecord())).toBeCloseTo(0.0075);
+  });
+
+  it('should prefer prices for a specific provider', () => {
+    expect(
+      prices.getCost(
+        createRecord({
+          providerId: 'vllm',
+          providerType: 'local',
+          model: 'qwen2.5-7b',
+        })
+      )
+    ).toBeCloseTo(0.00015);
+  });
+
+  it('should treat unpriced local models as free', () => {
+    expect(
+      prices.getCost(
+        createRecord({
+          providerId: 'ollama',
+          providerType: 'local',
+          model: 'llama3.2',
+        })
+      )
+    ).toBe(0);
+  });
+
+  it('should leave unpriced remote models without a cost', () => {
+    expect(prices.getCost(createRecord({ model: 'gpt-5' }))).toBeUndefined();
+  });
+
+  it('should accept new prices', () => {
+    const table = new PriceTable({});
+    table.setPrice('gpt-5', { input: 1, output: 2 });
+
+    expect(table.getCost(createRecord({ model: 'gpt-5' }))).toBeCloseTo(0.002);
+  });
+});
+
+describe('parseModelPrices', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return no prices when unset', () => {
+    expect(parseModelPrices(undefined)).toEqual({});
+  });
+
+  it('should skip entries without input and output prices', () => {
+    expect(
+      parseModelPrices(
+        JSON.stringify({
+          'gpt-4.1': { input: 2, output: 8 },
+          'gpt-4.1-mini': { input: 0.4 },
+        })
+      )
+    ).toEqual({ 'gpt-4.1': { input: 2, output: 8 } });
+  });
+
+  it('should ignore invalid JSON', () => {
+    expect(parseModelPrices('{gpt')).toEqual({});
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  AuthenticationError,
+  ContentFilterError,
+  ContextLengthError,
+  ModelNotFoundError,
+  ProviderError,
+  RateLimitError,
+  TransientNetworkError,
+  createHttpError,
+  createNetworkError,
+} from '@/core/models/provider-errors';
+
+const createResponse = (
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) =>
+  ({
+    ok: false,
+    status,
+    statusText: '',
+    headers: new Headers(headers),
+    text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+  }) as Response;
+
+describe('createHttpError', () => {
+  it('should classify authentication failures', async () => {
+    const error = await createHttpError(
+      'openai',
+      'OpenAI',
+      createResponse(401, { error: { message: 'Invalid API key' } })
+    );
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.message).toBe('OpenAI API error: 401 - Invalid API key');
+    expect(error.status).toBe(401);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should read the retry-after hint of rate limits', async () => {
+    const error = await createHttpError(
+      'anthropic',
+      'Anthropic',
+      createResponse(429, {}, { 'retry-after': '2' })
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(2000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should not retry exhausted quotas', async () => {
+    const error = await createHttpError(
+      'openai',
+      'OpenAI',
+      createResponse(429, {
+        error: { message: 'Quota exceeded', code: 'insufficient_quota' },
+      })
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should recognise missing models', async () => {
+    const error = await createHttpError(
+      'ollama',
+      'Ollama',
+      createResponse(404, { error: "model 'llama9' not found" })
+    );
+
+    expect(error).toBeInstanceOf(ModelNotFoundError);
+  });
+
+  it('should recognise context length errors', async () => {
+    const error = await createHttpError(
+      'openai',
+      'OpenAI',
+      createResponse(400, {
+        error: {
+          message: 'Too long',
+          code: 'context_length_exceeded',
+        },
+      })
+    );
+
+    expect(error).toBeInstanceOf(ContextLengthError);
+  });
+
+  it('should recognise content filter errors', async () => {
+    const error = await createHttpError(
+      'openai',
+      'OpenAI',
+      createResponse(400, { error: { code: 'content_filter' } })
+    );
+
+    expect(error).toBeInstanceOf(ContentFilterError);
+  });
+
+  it('should treat server errors as transient', async () => {
+    const error = await createHttpError(
+      'vllm',
+      'vLLM',
+      createResponse(503, 'Service Unavailable')
+    );
+
+    expect(error).toBeInstanceOf(TransientNetworkError);
+    expect(error.message).toBe('vLLM API error: 503 - Service Unavailable');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should fall back to an unknown provider error', async () => {
+    const error = await createHttpError(
+      'openai',
+      'OpenAI',
+      createResponse(400, { error: { message: 'Bad request' } })
+    );
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.code).toBe('unknown');
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe('createNetworkError', () => {
+  it('should wrap failed requests as transient errors', () => {
+    const cause = new Error('ECONNREFUSED');
+    const error = createNetworkError('ollama', 'Ollama', cause);
+
+    expect(error).toBeInstanceOf(TransientNetworkError);
+    expect(error.message).toBe('Ollama request failed: ECONNREFUSED');
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  AuthenticationError,
+  RateLimitError,
+  TransientNetworkError,
+} from '@/core/models/provider-errors';
+import {
+  RetryPolicy,
+  getRetryDelay,
+  sleep,
+  withRetry,
+} from '@/core/models/retry';
+import { AbortError } from '@/core/utils/abort';
+
+describe('getRetryDelay', () => {
+  const policy: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 300,
+  };
+  const transient = new TransientNetworkError('Timed out', 'ollama');
+
+  it('should back off exponentially with jitter', () => {
+    expect(getRetryDelay(transient, 0, policy, () => 0.5)).toBe(50);
+    expect(getRetryDelay(transient, 1, policy, () => 0.5)).toBe(100);
+    expect(getRetryDelay(transient, 2, policy, () => 1)).toBe(300);
+  });
+
+  it('should give up after the last retry', () => {
+    expect(getRetryDelay(transient, 3, policy)).toBeNull();
+  });
+
+  it('should not retry errors that are not retryable', () => {
+    expect(
+      getRetryDelay(new AuthenticationError('Bad key', 'openai'), 0, policy)
+    ).toBeNull();
+    expect(getRetryDelay(new Error('Boom'), 0, policy)).toBeNull();
+  });
+
+  it('should wait as long as a rate limit asks', () => {
+    const error = new RateLimitError('Slow down', 'openai', {
+      retryAfterMs: 250,
+    });
+
+    expect(getRetryDelay(error, 0, policy)).toBe(250);
+  });
+
+  it('should give up when a rate limit asks for too long', () => {
+    const error = new RateLimitError('Slow down', 'openai', {
+      retryAfterMs: 60_000,
+    });
+
+    expect(getRetryDelay(error, 0, policy)).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  const policy: RetryPolicy = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+  const wait = jest.fn(async () => {});
+
+  beforeEach(() => {
+    wait.mockClear();
+  });
+
+  it('should retry until the operation succeeds', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new TransientNetworkError('Timed out', 'ollama'))
+      .mockResolvedValueOnce('done');
+
+    await expect(withRetry(operation, policy, wait)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(wait).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the last error once retries run out', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new TransientNetworkError('Timed out', 'ollama'));
+
+    await expect(withRetry(operation, policy, wait)).rejects.toThrow(
+      'Timed out'
+    );
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new AuthenticationError('Bad key', 'openai'));
+
+    await expect(withRetry(operation, policy, wait)).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(wait).not.toHaveBeenCalled();
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+
+  it('should reject with an AbortError once the signal fires', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60_000, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should not wait at all when the signal has already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(sleep(60_000, controller.signal)).rejects.toBeInstanceOf(
+      AbortError
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  StructuredOutputError,
+  generateStructuredOutput,
+  parseJsonContent,
+} from '@/core/models/structured-output';
+import { ChatMessage, JsonSchema } from '@/core/types';
+import { createMockModelConfig } from '../../utils/mocks';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string' },
+    complexity: { type: 'integer', minimum: 1, maximum: 10 },
+    tags: { type: 'array', items: { type: 'string' }, default: [] },
+  },
+  required: ['intent', 'complexity'],
+};
+
+// Provider stub that replies with the given contents in order
+const createProvider = (replies: string[]) => {
+  const calls: ChatMessage[][] = [];
+  const generateChat = jest.fn(async (messages: ChatMessage[]) => {
+    calls.push([...messages]);
+    return { content: replies[calls.length - 1] ?? '', toolCalls: [] };
+  });
+
+  return { provider: { generateChat }, calls };
+};
+
+describe('parseJsonContent', () => {
+  it('should parse plain JSON', () => {
+    expect(parseJsonContent('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('should ignore think blocks and code fences', () => {
+    const content = '<think>Working it out</think>\n```json\n{"a": 1}\n```';
+
+    expect(parseJsonContent(content)).toEqual({ a: 1 });
+  });
+
+  it('should throw for non-JSON content', () => {
+    expect(() => parseJsonContent('Sure! Here is the plan.')).toThrow();
+  });
+});
+
+describe('generateStructuredOutput', () => {
+  const messages: ChatMessage[] = [{ role: 'user', content: 'Analyze this' }];
+  const config = createMockModelConfig();
+
+  it('should request the schema and return the validated value', async () => {
+    const { provider } = createProvider([
+      '{"intent": "question", "complexity": "3"}',
+    ]);
+
+    const result = await generateStructuredOutput(
+      provider,
+      messages,
+      schema,
+      config,
+      { name: 'task_analysis' }
+    );
+
+    expect(result).toEqual({ intent: 'question', complexity: 3, tags: [] });
+    expect(provider.generateChat).toHaveBeenCalledWith(messages, config, {
+      responseFormat: { name: 'task_analysis', schema },
+    });
+  });
+
+  it('should retry with the validation issues fed back', async () => {
+    const { provider, calls } = createProvider([
+      '{"intent": "question"}',
+      '{"intent": "question", "complexity": 2}',
+    ]);
+
+    const result = await generateStructuredOutput(
+      provider,
+      messages,
+      schema,
+      config
+    );
+
+    expect(result).toMatchObject({ complexity: 2 });
+    expect(calls).toHaveLength(2);
+    expect(calls[1]).toHaveLength(3);
+    expect(calls[1][1]).toEqual({
+      role: 'assistant',
+      content: '{"intent": "question"}',
+    });
+    expect(calls[1][2].content).toContain('complexity is required');
+  });
+
+  it('should throw StructuredOutputError once retries are used up', async () => {
+    const { provider } = createProvider([
+      'not json',
+      'still not json',
+      '{"intent": "question", "complexity": 42}',
+    ]);
+
+    const error = await generateStructuredOutput(
+      provider,
+      messages,
+      schema,
+      config,
+      { name: 'task_analysis', maxRetries: 1 }
+    ).then(
+      () => null,
+      (err: StructuredOutputError) => err
+    );
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error?.attempts).toBe(2);
+    expect(error?.content).toBe('still not json');
+    expect(error?.message).toContain('Invalid task_analysis output');
+    expect(provider.generateChat).toHaveBeenCalledTimes(2);
+  });
+});
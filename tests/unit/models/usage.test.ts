@@ -0,0 +1,148 @@
+import { PriceTable } from '@/core/models/pricing';
+import {
+  UsageTracker,
+  summarizeDailyUsage,
+  summarizeSessionUsage,
+  withUsagePhase,
+} from '@/core/models/usage';
+import { UsageRecord, UsageSummary } from '@/core/types';
+import { createChatSession } from '@/core/utils/type-factories';
+import {
+  createMockAgentResponse,
+  createMockUserInput,
+} from '../../utils/mocks';
+
+const createRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  providerId: 'openai',
+  providerType: 'remote',
+  model: 'gpt-4o',
+  ...overrides,
+});
+
+const createSummary = (totalTokens: number, cost: number): UsageSummary => ({
+  promptTokens: totalTokens,
+  completionTokens: 0,
+  totalTokens,
+  calls: 1,
+  cost,
+  unpricedCalls: 0,
+});
+
+describe('withUsagePhase', () => {
+  it('should tag reported usage with the phase', () => {
+    const onUsage = jest.fn();
+    const options = withUsagePhase({ onUsage }, 'plan');
+
+    options.onUsage!(createRecord());
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: 'plan' })
+    );
+  });
+
+  it('should keep phases set further down', () => {
+    const onUsage = jest.fn();
+    const options = withUsagePhase(
+      withUsagePhase({ onUsage }, 'synthesize'),
+      'execute'
+    );
+
+    options.onUsage!(createRecord());
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: 'execute' })
+    );
+  });
+
+  it('should leave options without a callback unchanged', () => {
+    const options = { signal: new AbortController().signal };
+
+    expect(withUsagePhase(options, 'plan')).toBe(options);
+  });
+});
+
+describe('UsageTracker', () => {
+  const prices = new PriceTable({ 'gpt-4o': { input: 10, output: 20 } });
+
+  it('should total calls with their cost per phase', () => {
+    const tracker = new UsageTracker(prices);
+    tracker.record(createRecord({ phase: 'plan' }));
+    tracker.record(createRecord({ phase: 'execute' }));
+    tracker.record(createRecord({ phase: 'execute' }));
+
+    const usage = tracker.getUsage();
+
+    expect(usage).toMatchObject({
+      promptTokens: 300,
+      completionTokens: 150,
+      totalTokens: 450,
+      calls: 3,
+      unpricedCalls: 0,
+    });
+    expect(usage.cost).toBeCloseTo(0.006);
+    expect(usage.phases.plan?.calls).toBe(1);
+    expect(usage.phases.execute?.calls).toBe(2);
+    expect(usage.phases.execute?.cost).toBeCloseTo(0.004);
+  });
+
+  it('should count calls to unpriced remote models', () => {
+    const tracker = new UsageTracker(prices);
+    tracker.record(createRecord({ model: 'gpt-5' }));
+    tracker.record(
+      createRecord({ providerId: 'ollama', providerType: 'local' })
+    );
+
+    expect(tracker.getUsage()).toMatchObject({
+      calls: 2,
+      cost: 0.002,
+      unpricedCalls: 1,
+    });
+  });
+});
+
+describe('Session usage', () => {
+  const session = createChatSession({
+    messages: [
+      createMockUserInput(),
+      createMockAgentResponse({
+        timestamp: new Date('2026-10-18T23:00:00Z'),
+        metadata: { usage: createSummary(100, 0.01) },
+      }),
+      createMockAgentResponse({
+        timestamp: new Date('2026-10-19T08:00:00Z'),
+        metadata: { usage: createSummary(200, 0.02) },
+      }),
+      createMockAgentResponse({ metadata: {} }),
+    ],
+  });
+
+  it('should total the usage of all responses in a session', () => {
+    expect(summarizeSessionUsage(session)).toMatchObject({
+      totalTokens: 300,
+      calls: 2,
+      cost: 0.03,
+    });
+  });
+
+  it('should group usage by day, most recent first', () => {
+    const other = createChatSession({
+      messages: [
+        createMockAgentResponse({
+          // Sessions loaded from storage hold serialized dates
+          timestamp: '2026-10-19T12:00:00.000Z' as unknown as Date,
+          metadata: { usage: createSummary(50, 0) },
+        }),
+      ],
+    });
+
+    const daily = summarizeDailyUsage([session, other]);
+
+    expect(daily.map(day => [day.date, day.totalTokens])).toEqual([
+      ['2026-10-19', 250],
+      ['2026-10-18', 100],
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  ApprovalManager,
+  ApprovalStatusError,
+} from '@/core/sessions/approval-manager';
+import { PlanValidationError } from '@/core/agents/plan-executor';
+import { InMemoryStorageAdapter } from '@/core/storage';
+import { ActionStep } from '@/core/types';
+import {
+  createMockActionPlan,
+  createMockActionStep,
+  createMockUserInput,
+} from '../../utils/mocks';
+
+describe('ApprovalManager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: ApprovalManager;
+
+  const request = (sessionId = 'session-1') =>
+    manager.requestApproval(
+      sessionId,
+      'general-assistant',
+      createMockUserInput({ content: 'Send the emails' }),
+      createMockActionPlan({ requiresApproval: true })
+    );
+
+  beforeEach(() => {
+    storage = new InMemoryStorageAdapter();
+    manager = new ApprovalManager(storage);
+  });
+
+  it('should persist pending plans', async () => {
+    const approval = await request();
+
+    expect(approval.status).toBe('pending');
+    expect(await storage.getApproval(approval.id)).toEqual(approval);
+    expect(await manager.listPending('session-1')).toEqual([approval]);
+    expect(await manager.listPending('session-2')).toEqual([]);
+  });
+
+  it('should approve a pending plan once', async () => {
+    const { id } = await request();
+
+    const approved = await manager.approve(id);
+
+    expect(approved.status).toBe('approved');
+    expect(approved.resolvedAt).toBeInstanceOf(Date);
+    expect(await manager.listPending()).toEqual([]);
+    await expect(manager.approve(id)).rejects.toThrow(
+      `Approval ${id} is already approved`
+    );
+  });
+
+  it('should let only one of two concurrent approvals run the plan', async () => {
+    const { id } = await request();
+
+    const results = await Promise.allSettled([
+      manager.startExecution(id),
+      manager.startExecution(id),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+      ApprovalStatusError
+    );
+    expect((await manager.getApproval(id))?.status).toBe('executing');
+    expect(await manager.listPending()).toEqual([]);
+  });
+
+  it('should put a plan that did not finish running back up for approval', async () => {
+    const { id } = await request();
+    await manager.startExecution(id);
+
+    const released = await manager.releaseExecution(id);
+
+    expect(released.status).toBe('pending');
+    await manager.startExecution(id);
+    expect((await manager.approve(id)).status).toBe('approved');
+  });
+
+  it('should reject a plan with a reason', async () => {
+    const { id } = await request();
+
+    const rejected = await manager.reject(id, 'Too expensive');
+
+    expect(rejected).toMatchObject({
+      status: 'rejected',
+      rejectionReason: 'Too expensive',
+    });
+    await expect(manager.editPlan(id, [])).rejects.toThrow(
+      'is already rejected'
+    );
+  });
+
+  it('should throw for unknown approvals', async () => {
+    await expect(manager.approve('missing')).rejects.toThrow(
+      'Approval missing not found'
+    );
+  });
+
+  describe('editPlan', () => {
+    it('should replace the steps and fill in defaults', async () => {
+      const { id } = await request();
+
+      const edited = await manager.editPlan(id, [
+        createMockActionStep({ id: 'draft', estimatedDuration: 2 }),
+        { id: 'send', action: 'Send the drafts', dependencies: ['draft'] },
+      ]);
+
+      expect(edited.plan.steps[1]).toEqual({
+        id: 'send',
+        action: 'Send the drafts',
+        parameters: {},
+        dependencies: ['draft'],
+        estimatedDuration: 1,
+      });
+      expect(edited.plan.estimatedDuration).toBe(3);
+      expect((await manager.getApproval(id))?.plan.steps).toHaveLength(2);
+    });
+
+    it.each([
+      [[], 'A plan needs at least one step'],
+      [[{ action: 'No id' }], 'Step 1 needs an id and an action'],
+      [[null], 'Step 1 needs an id and an action'],
+      [
+        [{ id: 'a', action: 'A', estimatedDuration: '5' }],
+        'Step 1 estimatedDuration must be a non-negative number',
+      ],
+      [
+        [{ id: 'a', action: 'A', parameters: ['to'] }],
+        'Step 1 parameters must be an object',
+      ],
+      [
+        [{ id: 'a', action: 'A', dependencies: 'b' }],
+        'Step 1 dependencies must be a list of step ids',
+      ],
+      [
+        [{ id: 'a', action: 'A', dependencies: [1] }],
+        'Step 1 dependencies must be a list of step ids',
+      ],
+      [
+        [{ id: 'a', action: 'A', dependencies: ['a'] }],
+        'Dependency cycle between steps: a',
+      ],
+    ])('should reject invalid steps', async (steps, message) => {
+      const { id } = await request();
+
+      // Edits arrive as JSON, so steps can be anything
+      await expect(
+        manager.editPlan(id, steps as Partial<ActionStep>[])
+      ).rejects.toThrow(new PlanValidationError(message, []));
+      expect((await manager.getApproval(id))?.plan.steps).toHaveLength(1);
+    });
+  });
+});
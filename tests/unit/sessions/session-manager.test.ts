@@ -0,0 +1,198 @@
+import { SessionManager } from '@/core/sessions/session-manager';
+import { InMemoryStorageAdapter } from '@/core/storage';
+import {
+  createMockUserInput,
+  createMockAgentResponse,
+} from '../../utils/mocks';
+
+describe('SessionManager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageAdapter();
+    manager = new SessionManager(storage);
+  });
+
+  describe('getOrCreateSession', () => {
+    it('should create a new session when no ID is given', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+
+      expect(session.id).toMatch(/^session-/);
+      expect(session.agentId).toBe('general-assistant');
+      expect(session.userId).toBe('anonymous');
+      expect(session.messages).toEqual([]);
+      expect(session.status).toBe('active');
+      expect(await manager.getSession(session.id)).toEqual(session);
+    });
+
+    it('should return the existing session for a known ID', async () => {
+      const first = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      await manager.appendMessages(first.id, createMockUserInput());
+
+      const second = await manager.getOrCreateSession(
+        first.id,
+        'general-assistant'
+      );
+
+      expect(second.id).toBe(first.id);
+      expect(second.messages).toHaveLength(1);
+    });
+
+    it('should keep client-provided IDs for unknown sessions', async () => {
+      const session = await manager.getOrCreateSession(
+        'client-id',
+        'nutrition-agent'
+      );
+
+      expect(session.id).toBe('client-id');
+      expect(await storage.getSession('client-id')).not.toBeNull();
+    });
+
+    it('should track the agent currently used by the session', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      await manager.getOrCreateSession(session.id, 'nutrition-agent');
+
+      expect((await manager.getSession(session.id))?.agentId).toBe(
+        'nutrition-agent'
+      );
+    });
+  });
+
+  describe('messages', () => {
+    it('should append and persist messages', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      const input = createMockUserInput({ content: 'Hello' });
+      const response = createMockAgentResponse({ content: 'Hi there' });
+
+      const updated = await manager.appendMessages(session.id, input, response);
+
+      expect(updated.messages).toEqual([input, response]);
+      expect((await storage.getSession(session.id))?.messages).toEqual([
+        input,
+        response,
+      ]);
+      expect(updated.lastActivity.getTime()).toBeGreaterThanOrEqual(
+        session.lastActivity.getTime()
+      );
+    });
+
+    it('should keep every message when appending concurrently', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      const inputs = [1, 2, 3, 4].map(n =>
+        createMockUserInput({ id: `input-${n}`, content: `Message ${n}` })
+      );
+
+      await Promise.all(
+        inputs.map(input => manager.appendMessages(session.id, input))
+      );
+
+      expect((await storage.getSession(session.id))?.messages).toEqual(inputs);
+    });
+
+    it('should keep appending after a failed update', async () => {
+      await expect(
+        manager.appendMessages('missing', createMockUserInput())
+      ).rejects.toThrow('Session missing not found');
+      const session = await manager.getOrCreateSession(
+        'missing',
+        'general-assistant'
+      );
+
+      await manager.appendMessages(session.id, createMockUserInput());
+
+      expect((await storage.getSession(session.id))?.messages).toHaveLength(1);
+    });
+
+    it('should throw when appending to an unknown session', async () => {
+      await expect(
+        manager.appendMessages('missing', createMockUserInput())
+      ).rejects.toThrow('Session missing not found');
+    });
+
+    it('should return only the most recent messages', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      const inputs = [1, 2, 3, 4].map(i =>
+        createMockUserInput({ content: `message ${i}` })
+      );
+      await manager.appendMessages(session.id, ...inputs);
+
+      expect(await manager.getRecentMessages(session.id, 2)).toEqual(
+        inputs.slice(2)
+      );
+      expect(await manager.getRecentMessages(session.id, 0)).toEqual([]);
+      expect(await manager.getRecentMessages('missing', 2)).toEqual([]);
+    });
+
+    it('should merge metadata into a stored response', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+      const input = createMockUserInput();
+      const response = createMockAgentResponse({
+        id: 'response-1',
+        metadata: { streaming: true },
+      });
+      await manager.appendMessages(session.id, input, response);
+
+      const annotated = await manager.annotateResponse(
+        session.id,
+        'response-1',
+        { feedback: { rating: 'up' } }
+      );
+
+      expect(annotated?.metadata).toEqual({
+        streaming: true,
+        feedback: { rating: 'up' },
+      });
+      const stored = await manager.getSession(session.id);
+      expect(stored?.messages[1].metadata).toEqual(annotated?.metadata);
+      expect(
+        await manager.annotateResponse(session.id, input.id, {})
+      ).toBeNull();
+      expect(
+        await manager.annotateResponse('missing', 'response-1', {})
+      ).toBeNull();
+    });
+  });
+
+  describe('listSessions and endSession', () => {
+    it('should list sessions per user', async () => {
+      await manager.getOrCreateSession(undefined, 'general-assistant', 'alice');
+      await manager.getOrCreateSession(undefined, 'general-assistant', 'bob');
+
+      expect(await manager.listSessions()).toHaveLength(2);
+      expect(await manager.listSessions('alice')).toHaveLength(1);
+    });
+
+    it('should delete a session', async () => {
+      const session = await manager.getOrCreateSession(
+        undefined,
+        'general-assistant'
+      );
+
+      expect(await manager.endSession(session.id)).toBe(true);
+      expect(await manager.getSession(session.id)).toBeNull();
+      expect(await manager.endSession(session.id)).toBe(false);
+    });
+  });
+});
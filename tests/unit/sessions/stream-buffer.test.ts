@@ -0,0 +1,118 @@
+import { BufferedEvent, StreamBuffer } from '@/core/sessions/stream-buffer';
+
+const collect = async (events: AsyncIterable<BufferedEvent>) => {
+  const collected: BufferedEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+describe('StreamBuffer', () => {
+  let buffer: StreamBuffer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    buffer = new StreamBuffer({ retentionMs: 1000, abandonAfterMs: 500 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should number events and replay them after a given id', async () => {
+    buffer.open('response-1');
+    buffer.push('response-1', { type: 'start' });
+    buffer.push('response-1', { type: 'content', content: 'Hello' });
+    buffer.push('response-1', { type: 'end' });
+    buffer.close('response-1');
+
+    expect(await collect(buffer.read('response-1'))).toEqual([
+      { id: 1, event: 'start', data: { type: 'start' } },
+      { id: 2, event: 'content', data: { type: 'content', content: 'Hello' } },
+      { id: 3, event: 'end', data: { type: 'end' } },
+    ]);
+    expect(
+      (await collect(buffer.read('response-1', 2))).map(event => event.id)
+    ).toEqual([3]);
+  });
+
+  it('should follow a stream until it is closed', async () => {
+    buffer.open('response-1');
+    buffer.push('response-1', { type: 'start' });
+
+    const reading = collect(buffer.read('response-1'));
+    buffer.push('response-1', { type: 'content', content: 'Hi' });
+    await Promise.resolve();
+    buffer.push('response-1', { type: 'end' });
+    buffer.close('response-1');
+
+    expect((await reading).map(event => event.event)).toEqual([
+      'start',
+      'content',
+      'end',
+    ]);
+  });
+
+  it('should stop reading, but not the stream, when the reader disconnects', async () => {
+    const signal = buffer.open('response-1');
+    const disconnected = new AbortController();
+
+    const reading = collect(buffer.read('response-1', 0, disconnected.signal));
+    buffer.push('response-1', { type: 'start' });
+    await Promise.resolve();
+    disconnected.abort();
+
+    expect(await reading).toHaveLength(1);
+    expect(signal.aborted).toBe(false);
+  });
+
+  it('should cancel streams nobody reads', async () => {
+    const signal = buffer.open('response-1');
+    const disconnected = new AbortController();
+    const reading = collect(buffer.read('response-1', 0, disconnected.signal));
+    disconnected.abort();
+    await reading;
+
+    jest.advanceTimersByTime(499);
+    expect(signal.aborted).toBe(false);
+
+    // A client that resumes in time keeps the stream going
+    const resumed = collect(buffer.read('response-1'));
+    jest.advanceTimersByTime(1000);
+    expect(signal.aborted).toBe(false);
+
+    buffer.close('response-1');
+    await resumed;
+  });
+
+  it('should abort an abandoned stream', () => {
+    const signal = buffer.open('response-1');
+
+    jest.advanceTimersByTime(500);
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should cancel running streams on request', () => {
+    const signal = buffer.open('response-1');
+
+    expect(buffer.cancel('response-1')).toBe(true);
+    expect(signal.aborted).toBe(true);
+
+    buffer.close('response-1');
+    expect(buffer.cancel('response-1')).toBe(false);
+    expect(buffer.cancel('missing')).toBe(false);
+  });
+
+  it('should forget finished streams after the retention period', async () => {
+    buffer.open('response-1');
+    buffer.close('response-1');
+
+    jest.advanceTimersByTime(999);
+    expect(buffer.has('response-1')).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(buffer.has('response-1')).toBe(false);
+    expect(await collect(buffer.read('response-1'))).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorageAdapter, InMemoryStorageAdapter } from '@/core/storage';
+import { StorageAdapter } from '@/core/types';
+import { createChatSession } from '@/core/utils/type-factories';
+import {
+  MockMemory,
+  createMockMemory,
+  createMockUserInput,
+  createMockAgentResponse,
+  createMockActionPlan,
+} from '../../utils/mocks';
+
+const adapters: [string, () => Promise<StorageAdapter>][] = [
+  ['InMemoryStorageAdapter', async () => new InMemoryStorageAdapter()],
+  [
+    'FileStorageAdapter',
+    async () =>
+      new FileStorageAdapter(
+        await fs.mkdtemp(path.join(os.tmpdir(), 'polaris-storage-'))
+      ),
+  ],
+];
+
+describe.each(adapters)('%s', (_name, createAdapter) => {
+  let storage: StorageAdapter;
+
+  beforeEach(async () => {
+    storage = await createAdapter();
+  });
+
+  describe('sessions', () => {
+    it('should round-trip sessions including dates', async () => {
+      const session = createChatSession({
+        id: 'session-1',
+        messages: [
+          createMockUserInput({ content: 'Hello' }),
+          createMockAgentResponse({ content: 'Hi' }),
+        ],
+      });
+
+      await storage.saveSession(session);
+      const loaded = await storage.getSession('session-1');
+
+      expect(loaded).toEqual(session);
+      expect(loaded?.startedAt).toBeInstanceOf(Date);
+      expect(loaded?.messages[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown sessions', async () => {
+      expect(await storage.getSession('missing')).toBeNull();
+    });
+
+    it('should not share state with callers', async () => {
+      const session = createChatSession({ id: 'session-1' });
+      await storage.saveSession(session);
+
+      session.messages.push(createMockUserInput());
+
+      expect((await storage.getSession('session-1'))?.messages).toEqual([]);
+    });
+
+    it('should save the same session several times at once', async () => {
+      const sessions = [1, 2, 3].map(n =>
+        createChatSession({ id: 'session-1', agentId: `agent-${n}` })
+      );
+
+      await Promise.all(sessions.map(session => storage.saveSession(session)));
+
+      expect(sessions.map(session => session.agentId)).toContain(
+        (await storage.getSession('session-1'))?.agentId
+      );
+    });
+
+    it('should list and delete sessions', async () => {
+      await storage.saveSession(createChatSession({ id: 'a', userId: 'u1' }));
+      await storage.saveSession(createChatSession({ id: 'b', userId: 'u2' }));
+
+      expect(await storage.listSessions()).toHaveLength(2);
+      expect((await storage.listSessions('u1')).map(s => s.id)).toEqual(['a']);
+
+      expect(await storage.deleteSession('a')).toBe(true);
+      expect(await storage.deleteSession('a')).toBe(false);
+      expect(await storage.listSessions()).toHaveLength(1);
+    });
+  });
+
+  describe('memory', () => {
+    it('should persist memory per agent and user', async () => {
+      const memory = new MockMemory('user-1', 'nutrition-agent', [
+        createMockMemory({ content: 'Allergic to peanuts' }),
+      ]);
+      memory.setPreferences({ responseLength: 'short' });
+
+      await storage.saveMemory({ ...memory });
+
+      const loaded = await storage.loadMemory('nutrition-agent', 'user-1');
+      expect(loaded?.memories[0].content).toBe('Allergic to peanuts');
+      expect(loaded?.memories[0].timestamp).toBeInstanceOf(Date);
+      expect(loaded?.preferences).toEqual({ responseLength: 'short' });
+      expect(await storage.loadMemory('nutrition-agent', 'user-2')).toBeNull();
+      expect(
+        await storage.loadMemory('general-assistant', 'user-1')
+      ).toBeNull();
+    });
+  });
+
+  describe('approvals', () => {
+    const createApproval = (id: string, sessionId: string) => ({
+      id,
+      sessionId,
+      agentId: 'general-assistant',
+      input: createMockUserInput({ content: 'Book the trip' }),
+      plan: createMockActionPlan({ requiresApproval: true }),
+      status: 'pending' as const,
+      createdAt: new Date(),
+    });
+
+    it('should round-trip approvals including dates', async () => {
+      const approval = createApproval('approval-1', 'session-1');
+
+      await storage.saveApproval(approval);
+      const loaded = await storage.getApproval('approval-1');
+
+      expect(loaded).toEqual(approval);
+      expect(loaded?.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getApproval('missing')).toBeNull();
+    });
+
+    it('should list approvals per session', async () => {
+      await storage.saveApproval(createApproval('a', 'session-1'));
+      await storage.saveApproval(createApproval('b', 'session-2'));
+
+      expect(await storage.listApprovals()).toHaveLength(2);
+      expect(
+        (await storage.listApprovals('session-1')).map(item => item.id)
+      ).toEqual(['a']);
+    });
+  });
+});
+
+describe('FileStorageAdapter persistence', () => {
+  it('should survive a new adapter instance on the same directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'polaris-storage-'));
+    await new FileStorageAdapter(dir).saveSession(
+      createChatSession({ id: 'user/session' })
+    );
+
+    const reloaded = await new FileStorageAdapter(dir).getSession(
+      'user/session'
+    );
+
+    expect(reloaded?.id).toBe('user/session');
+  });
+});
@@ -0,0 +1,379 @@
+import {
+  runToolLoop,
+  streamToolLoop,
+  toToolDefinition,
+} from '@/core/tools/tool-calling';
+import { withArgumentValidation } from '@/core/tools/tool-validation';
+import { AbortError } from '@/core/utils/abort';
+import {
+  ChatCompletion,
+  ChatMessage,
+  ChatOptions,
+  JsonSchema,
+  ModelConfig,
+} from '@/core/types';
+import {
+  MockModelProvider,
+  MockTool,
+  createMockModelConfig,
+} from '../../utils/mocks';
+
+class ToolCallingProvider extends MockModelProvider {
+  public calls: { messages: ChatMessage[]; toolNames: string[] }[] = [];
+
+  constructor(private completions: ChatCompletion[]) {
+    super('tool-provider', 'Tool Provider');
+  }
+
+  async generateChat(
+    messages: ChatMessage[],
+    _config: ModelConfig,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletion> {
+    this.calls.push({
+      messages: [...messages],
+      toolNames: (options.tools || []).map(tool => tool.name),
+    });
+    return (
+      this.completions.shift() || { content: 'Final answer', toolCalls: [] }
+    );
+  }
+}
+
+describe('tool calling', () => {
+  const config = createMockModelConfig();
+
+  describe('toToolDefinition', () => {
+    it('should expose the tool parameter schema as the function parameters', () => {
+      const parameters: JsonSchema = {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          quantity: { type: 'integer', default: 5 },
+        },
+        required: ['topic'],
+      };
+      const tool = new MockTool(
+        'brainstorming',
+        'Brainstorming',
+        'Ideas',
+        parameters
+      );
+
+      expect(toToolDefinition(tool)).toEqual({
+        name: 'brainstorming',
+        description: 'Ideas',
+        parameters,
+      });
+    });
+  });
+
+  describe('runToolLoop', () => {
+    it('should return immediately when the model does not call tools', async () => {
+      const provider = new ToolCallingProvider([
+        { content: 'No tools needed', toolCalls: [] },
+      ]);
+
+      const result = await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'Hi' }],
+        [new MockTool()],
+        config
+      );
+
+      expect(result).toEqual({
+        content: 'No tools needed',
+        toolCalls: [],
+        iterations: 1,
+      });
+      expect(provider.calls[0].toolNames).toEqual(['mock-tool']);
+    });
+
+    it('should execute tool calls and feed results back', async () => {
+      const tool = new MockTool();
+      tool.setResponse({ calories: 2000 });
+      const executeSpy = jest.spyOn(tool, 'execute');
+      const provider = new ToolCallingProvider([
+        {
+          content: '',
+          toolCalls: [
+            { id: 'call_1', name: 'mock-tool', arguments: { weight: 70 } },
+          ],
+        },
+        { content: 'You need 2000 kcal', toolCalls: [] },
+      ]);
+
+      const result = await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'How many calories?' }],
+        [tool],
+        config
+      );
+
+      expect(executeSpy).toHaveBeenCalledWith({ weight: 70 });
+      expect(result.content).toBe('You need 2000 kcal');
+      expect(result.iterations).toBe(2);
+      expect(result.toolCalls).toEqual([
+        {
+          callId: 'call_1',
+          toolId: 'mock-tool',
+          arguments: { weight: 70 },
+          result: { calories: 2000 },
+        },
+      ]);
+
+      const secondRound = provider.calls[1].messages;
+      expect(secondRound[1]).toMatchObject({
+        role: 'assistant',
+        toolCalls: [{ id: 'call_1' }],
+      });
+      expect(secondRound[2]).toEqual({
+        role: 'tool',
+        toolCallId: 'call_1',
+        name: 'mock-tool',
+        content: JSON.stringify({ calories: 2000 }),
+      });
+    });
+
+    it('should report tool calls and results as they happen', async () => {
+      const tool = new MockTool();
+      tool.setResponse({ calories: 2000 });
+      const provider = new ToolCallingProvider([
+        {
+          content: '',
+          toolCalls: [
+            { id: 'call_1', name: 'mock-tool', arguments: { weight: 70 } },
+            { id: 'call_2', name: 'missing-tool', arguments: {} },
+          ],
+        },
+        { content: 'You need 2000 kcal', toolCalls: [] },
+      ]);
+      const onEvent = jest.fn();
+
+      await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'How many calories?' }],
+        [tool],
+        config,
+        5,
+        { onEvent }
+      );
+
+      expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+        {
+          type: 'tool_call',
+          callId: 'call_1',
+          toolId: 'mock-tool',
+          arguments: { weight: 70 },
+        },
+        {
+          type: 'tool_result',
+          callId: 'call_1',
+          toolId: 'mock-tool',
+          result: { calories: 2000 },
+          error: undefined,
+        },
+        {
+          type: 'tool_call',
+          callId: 'call_2',
+          toolId: 'missing-tool',
+          arguments: {},
+        },
+        {
+          type: 'tool_result',
+          callId: 'call_2',
+          toolId: 'missing-tool',
+          result: undefined,
+          error: 'Unknown tool: missing-tool',
+        },
+      ]);
+    });
+
+    it('should report unknown tools and tool failures to the model', async () => {
+      const failingTool = new MockTool('failing-tool');
+      jest.spyOn(failingTool, 'execute').mockRejectedValue(new Error('Boom'));
+      const provider = new ToolCallingProvider([
+        {
+          content: '',
+          toolCalls: [
+            { id: 'a', name: 'missing-tool', arguments: {} },
+            { id: 'b', name: 'failing-tool', arguments: {} },
+          ],
+        },
+      ]);
+
+      const result = await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'Go' }],
+        [failingTool],
+        config
+      );
+
+      expect(result.toolCalls.map(call => call.error)).toEqual([
+        'Unknown tool: missing-tool',
+        'Boom',
+      ]);
+      const toolMessages = provider.calls[1].messages.filter(
+        message => message.role === 'tool'
+      );
+      expect(toolMessages.map(message => message.content)).toEqual([
+        JSON.stringify({ error: 'Unknown tool: missing-tool' }),
+        JSON.stringify({ error: 'Boom' }),
+      ]);
+    });
+
+    it('should return structured validation errors for invalid arguments', async () => {
+      const tool = withArgumentValidation(
+        new MockTool('calc', 'Calc', 'Calculator', {
+          type: 'object',
+          properties: { weight: { type: 'number' } },
+          required: ['weight'],
+        })
+      );
+      const provider = new ToolCallingProvider([
+        {
+          content: '',
+          toolCalls: [
+            { id: 'bad', name: 'calc', arguments: { weight: 'a lot' } },
+          ],
+        },
+      ]);
+
+      const result = await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'Calculate' }],
+        [tool],
+        config
+      );
+
+      expect(result.toolCalls[0].validationIssues).toEqual([
+        { path: 'weight', message: 'must be a number (received string)' },
+      ]);
+      const toolMessage = provider.calls[1].messages.find(
+        message => message.role === 'tool'
+      );
+      expect(JSON.parse(toolMessage!.content)).toEqual({
+        error: 'invalid_arguments',
+        message:
+          'Invalid arguments for tool calc: weight must be a number (received string)',
+        issues: [
+          { path: 'weight', message: 'must be a number (received string)' },
+        ],
+      });
+    });
+
+    it('should not run tools once the request is aborted', async () => {
+      const tool = new MockTool();
+      const executeSpy = jest.spyOn(tool, 'execute');
+      const controller = new AbortController();
+      const provider = new ToolCallingProvider([]);
+      jest.spyOn(provider, 'generateChat').mockImplementation(async () => {
+        controller.abort();
+        return {
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'mock-tool', arguments: {} }],
+        };
+      });
+
+      await expect(
+        runToolLoop(
+          provider,
+          [{ role: 'user', content: 'How many calories?' }],
+          [tool],
+          config,
+          5,
+          { signal: controller.signal }
+        )
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(executeSpy).not.toHaveBeenCalled();
+      expect(provider.generateChat).toHaveBeenCalledWith(
+        expect.any(Array),
+        config,
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should force a final answer without tools after max iterations', async () => {
+      const looping = {
+        content: '',
+        toolCalls: [{ id: 'loop', name: 'mock-tool', arguments: {} }],
+      };
+      const provider = new ToolCallingProvider([looping, looping]);
+
+      const result = await runToolLoop(
+        provider,
+        [{ role: 'user', content: 'Loop' }],
+        [new MockTool()],
+        config,
+        2
+      );
+
+      expect(result.content).toBe('Final answer');
+      expect(result.iterations).toBe(3);
+      expect(result.toolCalls).toHaveLength(2);
+      expect(provider.calls[2].toolNames).toEqual([]);
+    });
+  });
+  describe('streamToolLoop', () => {
+    const collect = async (stream: AsyncIterable<string>) => {
+      const chunks: string[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it('should run the tools before answering', async () => {
+      const tool = new MockTool();
+      tool.setResponse({ calories: 2000 });
+      const provider = new ToolCallingProvider([
+        {
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'mock-tool', arguments: {} }],
+        },
+        { content: 'You need 2000 kcal', toolCalls: [] },
+      ]);
+
+      const chunks = await collect(
+        streamToolLoop(
+          provider,
+          [{ role: 'user', content: 'How many calories?' }],
+          [tool],
+          config
+        )
+      );
+
+      expect(chunks).toEqual(['You need 2000 kcal']);
+      expect(provider.calls[1].messages[2]).toMatchObject({
+        role: 'tool',
+        toolCallId: 'call_1',
+      });
+    });
+
+    it('should stream the answer forced after max iterations', async () => {
+      const looping = {
+        content: '',
+        toolCalls: [{ id: 'loop', name: 'mock-tool', arguments: {} }],
+      };
+      const provider = new ToolCallingProvider([looping]);
+      provider.setResponses(['Streamed final answer']);
+      const streamChat = jest.spyOn(provider, 'streamChat');
+
+      const chunks = await collect(
+        streamToolLoop(
+          provider,
+          [{ role: 'user', content: 'Loop' }],
+          [new MockTool()],
+          config,
+          1
+        )
+      );
+
+      expect(chunks.join('').trim()).toBe('Streamed final answer');
+      expect(streamChat).toHaveBeenCalledTimes(1);
+      expect(streamChat.mock.calls[0][0]).toContainEqual(
+        expect.objectContaining({ role: 'tool', toolCallId: 'loop' })
+      );
+    });
+  });
+});
@@ -69,8 +69,11 @@ export const isModelProvider = (obj: unknown): obj is ModelProvider => {
     typeof (obj as ModelProvider).name === 'string' &&
     ['local', 'remote'].includes((obj as ModelProvider).type) &&
     typeof (obj as ModelProvider).authenticate === 'function' &&
+    typeof (obj as ModelProvider).generateChat === 'function' &&
+    typeof (obj as ModelProvider).streamChat === 'function' &&
     typeof (obj as ModelProvider).generateResponse === 'function' &&
     typeof (obj as ModelProvider).streamResponse === 'function' &&
+    typeof (obj as ModelProvider).generateStructured === 'function' &&
     typeof (obj as ModelProvider).isAvailable === 'function' &&
     typeof (obj as ModelProvider).getStatus === 'function'
   );
@@ -295,9 +298,15 @@ describe('Type Guards', () => {
         name: 'Test Provider',
         type: 'remote',
         authenticate: async () => true,
+        generateChat: async () => ({ content: 'response', toolCalls: [] }),
+        streamChat: async function* () { yield 'chunk'; },
         generateResponse: async () => 'response',
         streamResponse: async function* () { yield 'chunk'; },
+        generateStructured: async <T>() => ({}) as T,
         isAvailable: async () => true,
+        getCurrentModel: () => 'test-model',
+        getContextLength: async () => 8192,
+        embed: async () => ({ embeddings: [], model: 'test-embedding' }),
         getStatus: () => ({ authenticated: true, available: true, id: 'test', name: 'Test' })
       };
 
@@ -310,8 +319,11 @@ describe('Type Guards', () => {
         name: 'Test Provider',
         type: 'invalid-type',
         authenticate: async () => true,
+        generateChat: async () => ({ content: 'response', toolCalls: [] }),
+        streamChat: async function* () { yield 'chunk'; },
         generateResponse: async () => 'response',
         streamResponse: async function* () { yield 'chunk'; },
+        generateStructured: async <T>() => ({}) as T,
         isAvailable: async () => true,
         getStatus: () => ({ authenticated: true, available: true, id: 'test', name: 'Test' })
       };
@@ -326,7 +338,7 @@ describe('Type Guards', () => {
         id: 'test-tool',
         name: 'Test Tool',
         description: 'A test tool',
-        parameters: { param1: 'value1' },
+        parameters: { type: 'object', properties: { param1: { type: 'string' } } },
         execute: async () => ({ result: 'success' })
       };
 
@@ -338,7 +350,7 @@ describe('Type Guards', () => {
         id: 'test-tool',
         name: 'Test Tool',
         description: 'A test tool',
-        parameters: { param1: 'value1' }
+        parameters: { type: 'object', properties: { param1: { type: 'string' } } }
         // Missing execute function
       };
 
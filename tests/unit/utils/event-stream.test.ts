@@ -0,0 +1,34 @@
+import { EventStreamParser } from '@/lib/event-stream';
+
+describe('EventStreamParser', () => {
+  it('should parse named events with ids', () => {
+    const parser = new EventStreamParser();
+
+    expect(
+      parser.push(
+        'id: 1\nevent: start\ndata: {"type":"start"}\n\nid: 2\nevent: content\ndata: {"type":"content"}\n\n'
+      )
+    ).toEqual([
+      { id: '1', event: 'start', data: '{"type":"start"}' },
+      { id: '2', event: 'content', data: '{"type":"content"}' },
+    ]);
+  });
+
+  it('should keep partial events until they are complete', () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.push('id: 1\nevent: con')).toEqual([]);
+    expect(parser.push('tent\ndata: hel')).toEqual([]);
+    expect(parser.push('lo\r\n\r\n')).toEqual([
+      { id: '1', event: 'content', data: 'hello' },
+    ]);
+  });
+
+  it('should skip comments and join multi-line data', () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.push(': heartbeat\n\ndata: first\ndata: second\n\n')).toEqual(
+      [{ event: 'message', data: 'first\nsecond' }]
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  formatValidationIssues,
+  validateJsonSchema,
+} from '@/core/utils/json-schema';
+import { JsonSchema } from '@/core/types';
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 2 },
+      age: { type: 'integer', minimum: 0, maximum: 150 },
+      active: { type: 'boolean' },
+      level: { type: 'string', enum: ['low', 'high'], default: 'low' },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['name', 'age'],
+    additionalProperties: false,
+  };
+
+  it('should accept valid values unchanged', () => {
+    const value = { name: 'Ada', age: 36, level: 'high' };
+    const result = validateJsonSchema(value, schema);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual(value);
+  });
+
+  it('should report type, range, enum and required issues with paths', () => {
+    const result = validateJsonSchema(
+      { name: 'A', age: 200, level: 'medium', tags: ['ok', 3] },
+      schema
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { path: 'name', message: 'must be at least 2 characters' },
+      { path: 'age', message: 'must be <= 150' },
+      { path: 'level', message: 'must be one of: "low", "high"' },
+      { path: 'tags[1]', message: 'must be a string (received number)' },
+    ]);
+  });
+
+  it('should report missing required properties and unknown properties', () => {
+    const result = validateJsonSchema({ extra: true }, schema);
+
+    expect(result.issues).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'age', message: 'is required' },
+      { path: 'extra', message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('should not coerce unless asked to', () => {
+    const result = validateJsonSchema({ name: 'Ada', age: '36' }, schema);
+
+    expect(result.issues).toEqual([
+      { path: 'age', message: 'must be an integer (received string)' },
+    ]);
+  });
+
+  it('should coerce numbers, booleans and enum casing', () => {
+    const result = validateJsonSchema(
+      { name: 'Ada', age: ' 36 ', active: 'true', level: 'HIGH' },
+      schema,
+      { coerce: true }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({
+      name: 'Ada',
+      age: 36,
+      active: true,
+      level: 'high',
+    });
+  });
+
+  it('should not coerce non-numeric strings to numbers', () => {
+    const result = validateJsonSchema({ name: 'Ada', age: 'old' }, schema, {
+      coerce: true,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.value).toMatchObject({ age: 'old' });
+  });
+
+  it('should apply defaults for missing properties', () => {
+    const result = validateJsonSchema({ name: 'Ada', age: 36 }, schema, {
+      applyDefaults: true,
+    });
+
+    expect(result.value).toEqual({ name: 'Ada', age: 36, level: 'low' });
+  });
+
+  it('should check array length limits', () => {
+    const listSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        steps: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 1 },
+      },
+    };
+
+    const result = validateJsonSchema(
+      { steps: [], tags: ['a', 'b'] },
+      listSchema
+    );
+
+    expect(result.issues).toEqual([
+      { path: 'steps', message: 'must have at least 1 item(s)' },
+      { path: 'tags', message: 'must have at most 1 item(s)' },
+    ]);
+  });
+
+  it('should reject non-object roots for object schemas', () => {
+    const result = validateJsonSchema(['Ada'], schema);
+
+    expect(result.issues).toEqual([
+      { path: '', message: 'must be an object (received array)' },
+    ]);
+  });
+});
+
+describe('formatValidationIssues', () => {
+  it('should join issues into a single message', () => {
+    expect(
+      formatValidationIssues([
+        { path: 'age', message: 'is required' },
+        { path: '', message: 'must be an object (received array)' },
+      ])
+    ).toBe('age is required; must be an object (received array)');
+  });
+});
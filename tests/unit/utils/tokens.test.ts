@@ -0,0 +1,79 @@
+import {
+  TRUNCATION_MARKER,
+  estimateMessageTokens,
+  estimateTokens,
+  truncateToTokens,
+} from '@/core/utils/tokens';
+
+describe('estimateTokens', () => {
+  it('should count about four characters of English per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('Hello, world!')).toBe(4);
+  });
+
+  it('should count characters outside ASCII as a token each', () => {
+    expect(estimateTokens('日本語')).toBe(3);
+    expect(estimateTokens('abcd日本')).toBe(3);
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('should add an overhead for each message and its tool calls', () => {
+    const tokens = estimateMessageTokens([
+      { role: 'system', content: 'abcd' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }],
+      },
+    ]);
+
+    expect(tokens).toBe(4 + 1 + 4 + 12);
+  });
+});
+
+describe('truncateToTokens', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join(
+    '\n'
+  );
+
+  it('should leave text that fits unchanged', () => {
+    expect(truncateToTokens('short text', 10)).toBe('short text');
+  });
+
+  it('should keep the start, cutting at a line break', () => {
+    const truncated = truncateToTokens(lines, 12);
+
+    expect(truncated.startsWith('line 1\n')).toBe(true);
+    expect(truncated.endsWith(`\n${TRUNCATION_MARKER}`)).toBe(true);
+    expect(truncated).not.toContain('line 20');
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(12);
+    // Only whole lines are kept
+    expect(
+      truncated
+        .split('\n')
+        .slice(0, -1)
+        .every(line => /^line \d+$/.test(line))
+    ).toBe(true);
+  });
+
+  it('should keep the end when asked', () => {
+    const truncated = truncateToTokens(lines, 12, 'end');
+
+    expect(truncated.startsWith(`${TRUNCATION_MARKER}\n`)).toBe(true);
+    expect(truncated.endsWith('line 20')).toBe(true);
+    expect(truncated).not.toContain('line 1\n');
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(12);
+  });
+
+  it('should cut within a line when there are no line breaks', () => {
+    const truncated = truncateToTokens('a'.repeat(100), 10);
+
+    expect(truncated).toBe(`${'a'.repeat(28)}\n${TRUNCATION_MARKER}`);
+  });
+
+  it('should return nothing when not even the marker fits', () => {
+    expect(truncateToTokens(lines, 2)).toBe('');
+  });
+});
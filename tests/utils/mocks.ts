@@ -4,6 +4,7 @@ import {
   AgentResponse,
   ActionStep,
   Tool,
+  JsonSchema,
   LongTermMemory,
   TaskPlanner,
   ReasoningAgent,
@@ -12,7 +13,13 @@ import {
   ActionPlan,
   Memory,
   LearningUpdate,
+  ChatMessage,
+  ChatCompletion,
+  ChatOptions,
+  StructuredOutputOptions,
+  EmbeddingResult,
 } from '@/core/types';
+import { generateStructuredOutput } from '@/core/models/structured-output';
 
 // Mock Model Provider
 export class MockModelProvider implements ModelProvider {
@@ -21,6 +28,7 @@ export class MockModelProvider implements ModelProvider {
   private _callCount = 0;
   private _authenticated = false;
   private _available = true;
+  private _contextLength = 128_000;
 
   constructor(
     public id: string = 'mock-provider',
@@ -70,7 +78,7 @@ export class MockModelProvider implements ModelProvider {
         });
       } else if (
         prompt.includes('createPlan') ||
-        prompt.includes('Create a detailed action plan')
+        /create a detailed action plan/i.test(prompt)
       ) {
         return JSON.stringify({
           id: `plan-${Date.now()}`,
@@ -107,10 +115,78 @@ export class MockModelProvider implements ModelProvider {
     }
   }
 
+  // Chat calls are flattened into a single prompt so canned responses apply to both APIs
+  async generateChat(
+    messages: ChatMessage[],
+    config: ModelConfig,
+    _options?: ChatOptions
+  ): Promise<ChatCompletion> {
+    const content = await this.generateResponse(
+      messages.map(message => message.content).join('\n\n'),
+      config
+    );
+    return { content, toolCalls: [] };
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    config: ModelConfig
+  ): AsyncIterable<string> {
+    yield* this.streamResponse(
+      messages.map(message => message.content).join('\n\n'),
+      config
+    );
+  }
+
+  // Runs the real validation/retry loop on top of the canned chat responses
+  async generateStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    config: ModelConfig,
+    options?: StructuredOutputOptions
+  ): Promise<T> {
+    return generateStructuredOutput<T>(
+      this,
+      [
+        ...(config.systemPrompt
+          ? [{ role: 'system' as const, content: config.systemPrompt }]
+          : []),
+        { role: 'user', content: prompt },
+      ],
+      schema,
+      config,
+      options
+    );
+  }
+
   async isAvailable(): Promise<boolean> {
     return this._available;
   }
 
+  getCurrentModel(): string {
+    return 'mock-model-1';
+  }
+
+  async getContextLength(): Promise<number> {
+    return this._contextLength;
+  }
+
+  // Bag-of-words vectors, so texts sharing words are similar
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const embeddings = texts.map(text => {
+      const vector = new Array(64).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        const hash = [...word].reduce(
+          (sum, char) => (sum * 31 + char.charCodeAt(0)) % 64,
+          7
+        );
+        vector[hash] += 1;
+      }
+      return vector;
+    });
+    return { embeddings, model: 'mock-embedding' };
+  }
+
   getStatus(): {
     authenticated: boolean;
     available: boolean;
@@ -138,6 +214,10 @@ export class MockModelProvider implements ModelProvider {
     this._available = available;
   }
 
+  setContextLength(contextLength: number): void {
+    this._contextLength = contextLength;
+  }
+
   setAuthenticated(authenticated: boolean): void {
     this._authenticated = authenticated;
   }
@@ -181,7 +261,7 @@ export class MockTool implements Tool {
     public id: string = 'mock-tool',
     public name: string = 'Mock Tool',
     public description: string = 'Mock tool for testing',
-    public parameters: Record<string, unknown> = {},
+    public parameters: JsonSchema = { type: 'object', properties: {} },
     private _response: unknown = 'Mock tool response'
   ) {}
 